@@ -1,7 +1,53 @@
 // API client for backend communication
-import { env } from '@/config/env';
+import { request, safeRequest, getAccessToken, setAccessToken } from '@/api/http';
+import { ApiError, describeApiError, type ApiResult } from '@/api/errors';
+import { DocumentIntegrityError, UNVERIFIED_KEY_MESSAGE } from '@/utils/documentIntegrity';
+import { browserTimeZone } from '@/utils/timezone';
+import { abortMultipartUpload, isUploadCancelled, runMultipartUpload, startMultipartUpload } from '@/api/uploads';
+import {
+  deletePendingUpload,
+  getPendingUpload,
+  isUploadStoreAvailable,
+  listPendingUploads,
+  type PendingUpload,
+} from '@/utils/uploadStore';
+import {
+  userSchema,
+  appointmentSchema,
+  prescriptionSchema,
+  medicalDocumentSchema,
+  documentVersionSchema,
+  authTokenSchema,
+  currentUserSchema,
+  uploadUrlSchema,
+  downloadUrlSchema,
+  liverAssessmentEnvelopeSchema,
+  liverAssessmentListSchema,
+  parseResponse,
+  parseResponseList,
+  doctorAvailabilitySchema,
+  busySlotSchema,
+  appointmentChangeSchema,
+  appointmentSeriesSchema,
+  medicalProfileSchema,
+  userKeyBundleSchema,
+  publicKeySchema,
+  documentGrantSchema,
+  iceServerOverrideSchema,
+  type AppointmentRequest,
+  type AvailabilityRequest,
+  type RescheduleRequest,
+  type PrescriptionRequest,
+  type RecurrenceRule,
+  type SeriesRequest,
+  type SeriesUpdateRequest,
+  type MedicalProfileRequest,
+  type DocumentGrantRequest,
+  type DocumentMetadataRequest,
+} from '@/api/schemas';
 
-const BACKEND_URL = env.backendUrl;
+export { ApiError, ResponseValidationError, isApiError, describeApiError, type ApiResult } from '@/api/errors';
+export { isUploadCancelled } from '@/api/uploads';
 
 export interface User {
   id: string;
@@ -10,6 +56,8 @@ export interface User {
   role: 'patient' | 'doctor' | 'admin';
   doctorApproved?: boolean;
   phone?: string;
+  /** IANA timezone, e.g. "Asia/Kolkata"; set for doctors from their availability */
+  timezone?: string;
 }
 
 export interface Appointment {
@@ -18,17 +66,111 @@ export interface Appointment {
   endAt?: string;
   status: 'requested' | 'confirmed' | 'cancelled' | 'completed';
   notes?: string;
+  /** Reason given by whoever cancelled the appointment */
+  cancellationReason?: string;
+  /** Set when the appointment is one occurrence of a recurring series */
+  seriesId?: string;
+  /** 1-based position within the series */
+  seriesIndex?: number;
   patient?: User | null;
   doctor?: User | null;
   createdAt?: string;
   updatedAt?: string;
 }
 
+/** One entry in an appointment's audit trail, recorded by the backend */
+export interface AppointmentChange {
+  id: string;
+  action: 'created' | 'cancelled' | 'rescheduled' | 'status_changed';
+  actor?: User | null;
+  reason?: string;
+  previousStartAt?: string;
+  newStartAt?: string;
+  previousStatus?: Appointment['status'];
+  newStatus?: Appointment['status'];
+  at: string;
+}
+
+/** Follow-up appointments booked together from one completed appointment */
+export interface AppointmentSeries extends RecurrenceRule {
+  id: string;
+  sourceAppointmentId?: string;
+  appointments: Appointment[];
+  createdAt?: string;
+}
+
+/** A recurring block of working time; times are "HH:mm" and dayOfWeek is 0 (Sunday) to 6 */
+export interface TimeRange {
+  dayOfWeek: number;
+  start: string;
+  end: string;
+}
+
+export interface DoctorAvailability {
+  doctorId: string;
+  /** IANA zone the weekly hours and days off are expressed in; saving it also sets the doctor's profile timezone */
+  timezone: string;
+  /** The record had no timezone, so `timezone` is the doctor's profile zone or, failing that, this browser's */
+  timezoneAssumed?: boolean;
+  /** Length of one bookable slot in minutes */
+  slotMinutes: number;
+  weekly: TimeRange[];
+  /** Breaks carved out of the weekly hours, e.g. lunch */
+  breaks: TimeRange[];
+  /** Whole days off as "yyyy-MM-dd" */
+  daysOff: string[];
+}
+
+/** An interval on a doctor's calendar that is already taken */
+export interface BusySlot {
+  startAt: string;
+  endAt: string;
+}
+
+/** One drug on a prescription; fields other than `drug` may be blank on records from before line items */
+export interface PrescriptionItem {
+  drug: string;
+  /** e.g. "500 mg" */
+  strength: string;
+  route?: string;
+  /** A DOSE_FREQUENCIES code, or free text on older records */
+  frequency: string;
+  durationDays?: number;
+  quantity?: number;
+  refills: number;
+}
+
+/** A drug safety warning the prescriber explicitly accepted (utils/drugSafety) */
+export interface PrescriptionAcknowledgement {
+  warningId: string;
+  kind: 'allergy' | 'interaction' | 'duplicate';
+  severity: 'major' | 'moderate';
+  drug: string;
+  conflictsWith: string;
+  message: string;
+  /** Version of the bundled rule set that raised the warning */
+  rulesetVersion: string;
+  acknowledgedAt: string;
+}
+
+/** A patient's recorded allergies and the medications they already take */
+export interface MedicalProfile {
+  patientId: string;
+  allergies: string[];
+  currentMedications: string[];
+  updatedAt?: string;
+}
+
 export interface Prescription {
   id: string;
-  medication: string;
-  dosage: string;
+  items: PrescriptionItem[];
   instructions?: string | null;
+  /** The appointment the prescription was written in */
+  appointmentId?: string;
+  /** Backend signature over the content hash printed on the document (utils/prescriptionDocument) */
+  signature?: string;
+  /** Safety warnings the prescriber saw and overrode when writing it */
+  acknowledgements: PrescriptionAcknowledgement[];
   patient?: User | null;
   doctor?: User | null;
   createdAt: string;
@@ -45,8 +187,142 @@ export interface MedicalDocument {
   patientEmail?: string | null;
   createdAt: string;
   encrypted?: boolean;
+  /** How the content key is protected; older encrypted documents don't report one and are 'derived-v0' */
+  encryptionScheme?: DocumentEncryptionScheme;
+  /** Chunked format version (utils/chunkedEncryption); absent for documents sealed in one piece */
+  encryptionFormat?: DocumentEncryptionFormat;
+  encryptionNonce?: string;
+  /** For chunked-v2, the content key's fingerprint, which the stored object's header also carries */
+  encryptionKeyId?: string;
+  /** The content key wrapped to the requesting user's public key (envelope-v1 only) */
+  wrappedKey?: string;
+  /** Set when a doctor sees the document through a sharing grant */
+  grantExpiresAt?: string;
+  category: DocumentCategory;
+  /** Day the care happened (YYYY-MM-DD), which can be long before the upload */
+  serviceDate?: string;
+  tags: string[];
+  /** Appointment the document belongs to, if any */
+  appointmentId?: string;
+  /** Number of the current version, starting at 1 */
+  version: number;
+  versionId?: string;
+}
+
+/** One stored revision of a document; each has its own content key */
+export interface DocumentVersion {
+  id: string;
+  documentId: string;
+  version: number;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+  encrypted?: boolean;
+  encryptionScheme?: DocumentEncryptionScheme;
+  encryptionFormat?: DocumentEncryptionFormat;
   encryptionNonce?: string;
   encryptionKeyId?: string;
+  /** This version's content key wrapped to the requesting user's public key */
+  wrappedKey?: string;
+}
+
+export type DocumentCategory = 'lab_report' | 'imaging' | 'discharge_summary' | 'prescription' | 'insurance' | 'other';
+
+/** Progress of a document transfer; `total` is 0 when the size isn't known */
+export interface TransferProgress {
+  phase: 'encrypting' | 'uploading' | 'downloading' | 'decrypting';
+  loaded: number;
+  total: number;
+}
+
+export interface TransferOptions {
+  onProgress?: (progress: TransferProgress) => void;
+  /** Aborting cancels the upload and discards its uploaded parts */
+  signal?: AbortSignal;
+}
+
+/** An upload interrupted part-way, kept on this device so it can be resumed */
+export interface PendingDocumentUpload {
+  id: string;
+  originalName: string;
+  size: number;
+  uploadedBytes: number;
+  totalBytes: number;
+  createdAt: string;
+}
+
+/** A patient's permission for one doctor to open one document until it expires */
+export interface DocumentGrant {
+  id: string;
+  documentId: string;
+  doctorId: string;
+  doctor?: User | null;
+  expiresAt: string;
+  createdAt?: string;
+}
+
+/**
+ * 'derived-v0': key hashed from the owner's id and the app salt; read-only, kept for migration.
+ * 'envelope-v1': random content key wrapped to each reader's public key (utils/userKeys).
+ */
+export type DocumentEncryptionScheme = 'derived-v0' | 'envelope-v1';
+
+/** 'chunked-v2' adds a key fingerprint and a sealed content hash to 'chunked-v1' */
+export type DocumentEncryptionFormat = 'chunked-v1' | 'chunked-v2';
+
+/** A document whose metadata disagrees with its stored object, found by the admin integrity scan */
+export interface DocumentIntegrityIssue {
+  document: MedicalDocument;
+  problems: string[];
+}
+
+/** A user's key pair as stored on the server; the private key is sealed with their passphrase */
+export interface UserKeyBundle {
+  version: 1;
+  /** base64 SPKI, ECDH P-256 */
+  publicKey: string;
+  /** base64 PKCS#8 sealed with ChaCha20-Poly1305 under the passphrase-derived key */
+  encryptedPrivateKey: string;
+  privateKeyNonce: string;
+  kdf: { algorithm: 'PBKDF2-SHA256'; salt: string; iterations: number };
+  createdAt?: string;
+}
+
+/** A recovery backup file (utils/keyBackup); only `sealed` needs the recovery phrase to read */
+export interface KeyBackup {
+  format: 'arogyanet-key-backup';
+  version: 1;
+  userId: string;
+  createdAt: string;
+  /** base64 SPKI of the backed-up key pair */
+  publicKey: string;
+  kdf: { algorithm: 'PBKDF2-SHA256'; salt: string; iterations: number };
+  nonce: string;
+  /** KeyBackupContents as JSON, sealed with ChaCha20-Poly1305 under the phrase-derived key */
+  sealed: string;
+}
+
+/** What a backup seals: the key pair's private half and any legacy keys kept in the browser */
+export interface KeyBackupContents {
+  /** base64 PKCS#8 */
+  privateKey: string;
+  localKeys: { id: string; key: string; createdAt: string; label?: string }[];
+}
+
+/** ICE servers an admin has set for every call, in place of the TURN API */
+export interface IceServerOverride {
+  iceServers: RTCIceServer[];
+  relayOnly: boolean;
+}
+
+/** Short-lived ICE servers for one call, from VITE_TURN_API_URL */
+export interface TurnCredentials {
+  iceServers: RTCIceServer[];
+  /** Lifetime in seconds, counted from the response */
+  ttl?: number;
+  /** ms since epoch */
+  expiresAt?: number;
 }
 
 export interface LiverMeasurements {
@@ -86,525 +362,557 @@ export interface AuthResponse {
   user?: User;
 }
 
-const getAuthHeaders = () => {
-  const token = localStorage.getItem('accessToken');
-  return token ? { Authorization: `Bearer ${token}` } : {};
+// Validate a login/register response and store the token only once the user record checks out
+const completeAuth = (result: ApiResult<unknown>, successMessage: string, failureMessage: string): AuthResponse => {
+  if (!result.ok) return { success: false, message: result.error.message || failureMessage };
+  try {
+    const { accessToken, user } = parseResponse(authTokenSchema, result.data, 'auth response');
+    const parsedUser = parseResponse(userSchema, user, 'user');
+    setAccessToken(accessToken);
+    return { success: true, message: successMessage, token: accessToken, user: parsedUser };
+  } catch (err) {
+    console.error('Invalid auth response:', err);
+    return { success: false, message: err instanceof Error ? err.message : failureMessage };
+  }
 };
 
-const parseUser = (raw: unknown): User | null => {
-  if (!raw || typeof raw !== 'object') return null;
-  const r = raw as Record<string, unknown>;
-  const id = (r.id ?? r._id) as string | undefined;
-  return {
-    id: id ?? '',
-    name: (r.name ?? r.full_name ?? '') as string,
-    email: (r.email ?? '') as string,
-    role: (r.role ?? 'patient') as User['role'],
-    doctorApproved: (r.doctorApproved ?? r.doctor_approved) as boolean | undefined,
-    phone: (r.phone ?? undefined) as string | undefined,
-  };
-};
+async function putToStorage(uploadUrl: string, body: Blob): Promise<void> {
+  let res: Response;
+  try {
+    res = await fetch(uploadUrl, { method: 'PUT', headers: { 'Content-Type': body.type }, body });
+  } catch (err) {
+    throw new ApiError('Network error while uploading to storage', { status: 0, cause: err });
+  }
+  if (!res.ok) {
+    const bodyText = await res.text().catch(() => '');
+    console.error('S3 upload failed', { status: res.status, body: bodyText });
+    throw new ApiError(`Failed to upload to S3 (${res.status})`, { status: res.status, code: 'S3_UPLOAD_FAILED', details: bodyText });
+  }
+}
 
-const parseAppointment = (raw: unknown): Appointment => {
-  const r = (raw && typeof raw === 'object') ? (raw as Record<string, unknown>) : {};
-  return {
-    id: (r.id ?? r._id ?? '') as string,
-    startAt: (r.startAt ?? r.start_at ?? '') as string,
-    endAt: (r.endAt ?? r.end_at ?? undefined) as string | undefined,
-    status: (r.status ?? 'requested') as Appointment['status'],
-    notes: (r.notes ?? undefined) as string | undefined,
-    patient: parseUser(r.patient),
-    doctor: parseUser(r.doctor),
-    createdAt: r.createdAt as string | undefined,
-    updatedAt: r.updatedAt as string | undefined,
-  };
-};
+const toPendingDocumentUpload = (upload: PendingUpload): PendingDocumentUpload => ({
+  id: upload.id,
+  originalName: upload.confirm.originalName,
+  size: upload.confirm.size,
+  uploadedBytes: Math.min(upload.parts.length * upload.partSize, upload.blob.size),
+  totalBytes: upload.blob.size,
+  createdAt: upload.createdAt,
+});
 
-const parsePrescription = (raw: unknown): Prescription => {
-  const r = (raw && typeof raw === 'object') ? (raw as Record<string, unknown>) : {};
-  return {
-    id: (r.id ?? r._id ?? '') as string,
-    medication: (r.medication ?? '') as string,
-    dosage: (r.dosage ?? '') as string,
-    instructions: (r.instructions ?? null) as string | null,
-    patient: parseUser(r.patient),
-    doctor: parseUser(r.doctor),
-    createdAt: (r.createdAt ?? new Date().toISOString()) as string,
-  };
-};
+/**
+ * Upload the remaining parts and save the document's metadata. A cancelled
+ * upload is aborted on S3; any other failure leaves it on this device to be
+ * resumed later.
+ */
+async function finishMultipartUpload(upload: PendingUpload, { onProgress, signal }: TransferOptions): Promise<MedicalDocument> {
+  try {
+    await runMultipartUpload(upload, {
+      signal,
+      onProgress: (loaded, total) => onProgress?.({ phase: 'uploading', loaded, total }),
+    });
+  } catch (err) {
+    if (isUploadCancelled(err) || !isUploadStoreAvailable()) {
+      await abortMultipartUpload(upload).catch((abortErr) => console.warn('[Upload] Could not abort multipart upload:', abortErr));
+    }
+    throw err;
+  }
+
+  const data = await request<unknown>(upload.confirmPath ?? '/api/documents/confirm', {
+    method: 'POST',
+    body: { ...upload.confirm, s3Key: upload.s3Key },
+  });
+  if (isUploadStoreAvailable()) await deletePendingUpload(upload.id).catch(() => undefined);
+  return parseResponse(medicalDocumentSchema, data, 'document');
+}
+
+/** Encrypt a file under a fresh content key wrapped to the uploader's own public key */
+async function encryptForUpload(
+  file: File,
+  userId: string,
+  onProgress?: (progress: TransferProgress) => void
+): Promise<{ blob: Blob; contentKey: Uint8Array; confirm: PendingUpload['confirm'] }> {
+  console.log('[Upload] Starting upload with envelope encryption:', {
+    name: file.name,
+    size: file.size,
+    type: file.type,
+  });
+
+  const { uint8ArrayToBase64, generateEncryptionKey } = await import('@/utils/encryption');
+  const { encryptDocument } = await import('@/utils/streamingEncryption');
+  const { keyFingerprintHex } = await import('@/utils/chunkedEncryption');
+  const { wrapContentKey } = await import('@/utils/userKeys');
+  const { requireUnlockedKeys } = await import('@/utils/keyVault');
+
+  const keys = requireUnlockedKeys(userId);
+  const contentKey = generateEncryptionKey();
+  const keyId = keyFingerprintHex(contentKey.key);
+  const encrypted = await encryptDocument(file, contentKey.key, (loaded, total) =>
+    onProgress?.({ phase: 'encrypting', loaded, total })
+  );
+  const wrappedKey = await wrapContentKey(contentKey.key, keys.publicKey);
+
+  console.log('[Upload] File encrypted:', {
+    keyId,
+    ciphertextLength: encrypted.blob.size,
+    originalSize: file.size,
+  });
 
-const parseDocument = (raw: unknown): MedicalDocument => {
-  const r = (raw && typeof raw === 'object') ? (raw as Record<string, unknown>) : {};
   return {
-    id: (r.id ?? r._id ?? '') as string,
-    originalName: (r.originalName ?? '') as string,
-    mimeType: (r.mimeType ?? '') as string,
-    size: (r.size ?? 0) as number,
-    url: (r.url ?? '') as string,
-    patientId: (r.patientId ?? undefined) as string | undefined,
-    patientName: (r.patientName ?? null) as string | null,
-    patientEmail: (r.patientEmail ?? null) as string | null,
-    createdAt: (r.createdAt ?? new Date().toISOString()) as string,
-    encrypted: (r.encrypted ?? false) as boolean,
-    encryptionNonce: (r.encryptionNonce ?? undefined) as string | undefined,
-    encryptionKeyId: (r.encryptionKeyId ?? undefined) as string | undefined,
+    blob: encrypted.blob,
+    contentKey: contentKey.key,
+    confirm: {
+      originalName: file.name,
+      mimeType: file.type, // Original MIME type
+      size: file.size, // Original file size
+      encrypted: true,
+      encryptionScheme: 'envelope-v1',
+      encryptionFormat: 'chunked-v2',
+      encryptionNonce: uint8ArrayToBase64(encrypted.baseNonce),
+      encryptionKeyId: keyId,
+      wrappedKey,
+    },
   };
-};
+}
+
+// Read the body as a stream so progress can be reported; the Blob parts let the browser spill large files to disk
+async function fetchFromStorage(downloadUrl: string, onProgress?: (loaded: number, total: number) => void): Promise<Blob> {
+  let res: Response;
+  try {
+    res = await fetch(downloadUrl);
+  } catch (err) {
+    throw new ApiError('Network error while downloading file', { status: 0, cause: err });
+  }
+  if (!res.ok) {
+    throw new ApiError('Failed to download file', { status: res.status, code: 'S3_DOWNLOAD_FAILED' });
+  }
+  if (!res.body) return res.blob();
+
+  const total = Number(res.headers.get('Content-Length')) || 0;
+  const reader = res.body.getReader();
+  const parts: BlobPart[] = [];
+  let loaded = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parts.push(value);
+      loaded += value.length;
+      onProgress?.(loaded, total);
+    }
+  } catch (err) {
+    throw new ApiError('Network error while downloading file', { status: 0, cause: err });
+  }
+  if (total && loaded < total) {
+    throw new DocumentIntegrityError('truncated', `Only ${loaded} of ${total} bytes arrived. Try opening it again.`);
+  }
+  return new Blob(parts);
+}
+
+// Read just the start of a stored object, plus its full size, without downloading the rest
+async function fetchObjectHead(downloadUrl: string, length: number): Promise<{ head: Uint8Array; objectSize: number }> {
+  let res: Response;
+  try {
+    res = await fetch(downloadUrl, { headers: { Range: `bytes=0-${length - 1}` } });
+  } catch (err) {
+    throw new ApiError('Network error while reading stored file', { status: 0, cause: err });
+  }
+  // S3 answers a range request on an empty object with 416
+  if (res.status === 416) return { head: new Uint8Array(0), objectSize: 0 };
+  if (!res.ok) {
+    throw new ApiError('Failed to read stored file', { status: res.status, code: 'S3_DOWNLOAD_FAILED' });
+  }
+  // Storage that ignores Range sends the whole object
+  if (res.status !== 206) {
+    const whole = new Uint8Array(await res.arrayBuffer());
+    return { head: whole.slice(0, length), objectSize: whole.length };
+  }
+  const total = res.headers.get('Content-Range')?.match(/\/(\d+)$/);
+  if (!total) {
+    throw new ApiError('Storage did not report the object size (Content-Range must be exposed)', {
+      status: res.status,
+      code: 'S3_RANGE_UNSUPPORTED',
+    });
+  }
+  return { head: new Uint8Array(await res.arrayBuffer()), objectSize: Number(total[1]) };
+}
 
 export const apiClient = {
   // Auth endpoints
   async signup(email: string, password: string, fullName: string): Promise<AuthResponse> {
-    const res = await fetch(`${BACKEND_URL}/api/auth/register`, {
+    const result = await safeRequest<unknown>('/api/auth/register', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ name: fullName, email, password }),
-      credentials: 'include',
+      body: { name: fullName, email, password },
+      auth: false,
     });
-    const data = await res.json().catch(() => ({}));
-    if (res.ok && data.accessToken) {
-      localStorage.setItem('accessToken', data.accessToken);
-      return { success: true, message: 'Registered', token: data.accessToken, user: parseUser(data.user) ?? undefined };
-    }
-    return { success: false, message: data.message || 'Registration failed' };
+    return completeAuth(result, 'Registered', 'Registration failed');
   },
 
   async login(email: string, password: string): Promise<AuthResponse> {
-    const res = await fetch(`${BACKEND_URL}/api/auth/login`, {
+    const result = await safeRequest<unknown>('/api/auth/login', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ email, password }),
-      credentials: 'include',
+      body: { email, password },
+      auth: false,
     });
-    const data = await res.json().catch(() => ({}));
-    if (res.ok && data.accessToken) {
-      localStorage.setItem('accessToken', data.accessToken);
-      return { success: true, message: 'Logged in', token: data.accessToken, user: parseUser(data.user) ?? undefined };
-    }
-    return { success: false, message: data.message || 'Login failed' };
+    return completeAuth(result, 'Logged in', 'Login failed');
   },
 
   async logout(): Promise<void> {
     try {
-      await fetch(`${BACKEND_URL}/api/auth/logout`, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        credentials: 'include',
-      });
+      await safeRequest('/api/auth/logout', { method: 'POST', retryOnUnauthorized: false });
     } finally {
-      localStorage.removeItem('accessToken');
+      setAccessToken(null);
     }
   },
 
   async changePassword(currentPassword: string, newPassword: string): Promise<{ success: boolean; message: string }> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/auth/change-password`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify({ currentPassword, newPassword }),
-        credentials: 'include',
-      });
-      const data = await res.json().catch(() => ({}));
-      if (!res.ok) return { success: false, message: data.message || 'Failed to change password' };
-      return { success: true, message: data.message || 'Password changed' };
-    } catch (err) {
-      console.error('Error changing password:', err);
-      return { success: false, message: 'Network error' };
+    const result = await safeRequest<{ message?: string }>('/api/auth/change-password', {
+      method: 'POST',
+      body: { currentPassword, newPassword },
+    });
+    if (!result.ok) {
+      return { success: false, message: result.error.kind === 'network' ? 'Network error' : result.error.message || 'Failed to change password' };
     }
+    return { success: true, message: result.data?.message || 'Password changed' };
   },
 
   async getCurrentUser(): Promise<User | null> {
-    try {
-      const token = localStorage.getItem('accessToken');
-      if (!token) return null;
-
-      const res = await fetch(`${BACKEND_URL}/api/auth/me`, {
-        method: 'GET',
-        headers: getAuthHeaders(),
-        credentials: 'include',
-      });
+    if (!getAccessToken()) return null;
 
-      if (!res.ok) {
-        localStorage.removeItem('accessToken');
+    // An expired access token is refreshed and retried by the request layer; we only
+    // get 'unauthorized' back here once the refresh itself was rejected
+    const result = await safeRequest<unknown>('/api/auth/me');
+    if (!result.ok) {
+      if (result.error.kind === 'unauthorized') {
+        setAccessToken(null);
         return null;
       }
-
-      const data = await res.json().catch(() => null);
-      return parseUser(data?.user);
-    } catch (err) {
-      console.error('Error fetching current user:', err);
-      return null;
+      throw result.error;
     }
+    return parseResponse(currentUserSchema, result.data, 'current user').user;
   },
 
   // Users endpoints
   async getUsers(): Promise<User[]> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/users`, {
-        headers: getAuthHeaders(),
-        credentials: 'include',
-      });
-      if (!res.ok) throw new Error('Failed to fetch users');
-      const data = await res.json();
-      return Array.isArray(data) ? data.map(parseUser).filter(Boolean) as User[] : [];
-    } catch (err) {
-      console.error('Error fetching users:', err);
-      return [];
-    }
+    const data = await request<unknown>('/api/users');
+    return parseResponseList(userSchema, data, 'user list');
   },
 
   async getDoctors(): Promise<User[]> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/users/doctors`, {
-        headers: getAuthHeaders(),
-        credentials: 'include',
-      });
-      if (!res.ok) throw new Error('Failed to fetch doctors');
-      const data = await res.json();
-      return Array.isArray(data) ? data.map(parseUser).filter(Boolean) as User[] : [];
-    } catch (err) {
-      console.error('Error fetching doctors:', err);
-      return [];
-    }
+    const data = await request<unknown>('/api/users/doctors');
+    return parseResponseList(userSchema, data, 'user list');
   },
 
-  async getProfile(userId: string): Promise<User | null> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/users/${userId}`, {
-        headers: getAuthHeaders(),
-        credentials: 'include',
-      });
-      if (!res.ok) return null;
-      const data = await res.json();
-      return parseUser(data);
-    } catch (err) {
-      console.error('Error fetching profile:', err);
-      return null;
-    }
+  async getProfile(userId: string): Promise<User> {
+    const data = await request<unknown>(`/api/users/${userId}`);
+    return parseResponse(userSchema, data, 'user');
   },
 
-  async updateProfile(userId: string, data: Partial<User>): Promise<User | null> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/users/${userId}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify(data),
-        credentials: 'include',
-      });
-      if (!res.ok) return null;
-      const payload = await res.json();
-      return parseUser(payload);
-    } catch (err) {
-      console.error('Error updating profile:', err);
-      return null;
-    }
+  async updateProfile(userId: string, data: Partial<User>): Promise<User> {
+    const payload = await request<unknown>(`/api/users/${userId}`, { method: 'PUT', body: data });
+    return parseResponse(userSchema, payload, 'user');
   },
 
-  async updateUserRole(userId: string, role: User['role']): Promise<User | null> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/users/${userId}/role`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify({ role }),
-        credentials: 'include',
-      });
-      if (!res.ok) return null;
-      const payload = await res.json();
-      return parseUser(payload);
-    } catch (err) {
-      console.error('Error updating user role:', err);
-      return null;
-    }
+  async updateUserRole(userId: string, role: User['role']): Promise<User> {
+    const payload = await request<unknown>(`/api/users/${userId}/role`, { method: 'PATCH', body: { role } });
+    return parseResponse(userSchema, payload, 'user');
   },
 
-  async updateDoctorApproval(userId: string, doctorApproved: boolean): Promise<User | null> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/users/${userId}/approval`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify({ doctorApproved }),
-        credentials: 'include',
-      });
-      if (!res.ok) throw new Error('Failed to update doctor approval');
-      const payload = await res.json();
-      return parseUser(payload);
-    } catch (err) {
-      console.error('Error updating doctor approval:', err);
-      return null;
-    }
+  async updateDoctorApproval(userId: string, doctorApproved: boolean): Promise<User> {
+    const payload = await request<unknown>(`/api/users/${userId}/approval`, { method: 'PATCH', body: { doctorApproved } });
+    return parseResponse(userSchema, payload, 'user');
   },
 
   // Appointments endpoints
   async getAppointments(): Promise<Appointment[]> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/appointments`, {
-        headers: getAuthHeaders(),
-        credentials: 'include',
-      });
-      if (!res.ok) return [];
-      const data = await res.json();
-      return Array.isArray(data) ? data.map(parseAppointment) : [];
-    } catch (err) {
-      console.error('Error fetching appointments:', err);
-      return [];
-    }
+    const data = await request<unknown>('/api/appointments');
+    return parseResponseList(appointmentSchema, data, 'appointment list');
   },
 
-  async createAppointment(appointmentData: { doctorId: string; startAt: string; endAt?: string; notes?: string }): Promise<Appointment | null> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/appointments`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify(appointmentData),
-        credentials: 'include',
-      });
-      if (!res.ok) throw new Error('Failed to create appointment');
-      const payload = await res.json();
-      return parseAppointment(payload);
-    } catch (err) {
-      console.error('Error creating appointment:', err);
-      return null;
+  async createAppointment(appointmentData: AppointmentRequest): Promise<Appointment> {
+    const payload = await request<unknown>('/api/appointments', { method: 'POST', body: appointmentData });
+    return parseResponse(appointmentSchema, payload, 'appointment');
+  },
+
+  async updateAppointment(id: string, updates: Partial<Appointment>): Promise<Appointment> {
+    const payload = await request<unknown>(`/api/appointments/${id}`, { method: 'PUT', body: updates });
+    return parseResponse(appointmentSchema, payload, 'appointment');
+  },
+
+  async cancelAppointment(id: string, reason: string): Promise<Appointment> {
+    const payload = await request<unknown>(`/api/appointments/${id}/cancel`, { method: 'POST', body: { reason } });
+    return parseResponse(appointmentSchema, payload, 'appointment');
+  },
+
+  async rescheduleAppointment(id: string, change: RescheduleRequest): Promise<Appointment> {
+    const payload = await request<unknown>(`/api/appointments/${id}/reschedule`, { method: 'POST', body: change });
+    return parseResponse(appointmentSchema, payload, 'appointment');
+  },
+
+  async getAppointmentHistory(id: string): Promise<AppointmentChange[]> {
+    const data = await request<unknown>(`/api/appointments/${id}/history`);
+    return parseResponseList(appointmentChangeSchema, data, 'appointment history');
+  },
+
+  async createAppointmentSeries(series: SeriesRequest): Promise<AppointmentSeries> {
+    const payload = await request<unknown>('/api/appointment-series', { method: 'POST', body: series });
+    return parseResponse(appointmentSeriesSchema, payload, 'appointment series');
+  },
+
+  /** Applies a change to one, the following, or all occurrences; returns the appointments that changed */
+  async updateAppointmentSeries(seriesId: string, change: SeriesUpdateRequest): Promise<Appointment[]> {
+    const data = await request<unknown>(`/api/appointment-series/${seriesId}`, { method: 'PATCH', body: change });
+    return parseResponseList(appointmentSchema, data, 'appointment series');
+  },
+
+  // Doctor availability
+  async getDoctorAvailability(doctorId: string): Promise<DoctorAvailability> {
+    const result = await safeRequest<unknown>(`/api/users/${doctorId}/availability`);
+    // A doctor who never saved a schedule has no record yet, which just means no bookable hours
+    if (!result.ok && result.error.kind === 'not_found') {
+      return { doctorId, timezone: browserTimeZone(), slotMinutes: 30, weekly: [], breaks: [], daysOff: [] };
     }
+    if (!result.ok) throw result.error;
+    const availability = parseResponse(doctorAvailabilitySchema, result.data, 'availability');
+    if (availability.timezone) return availability;
+    // Guessing UTC would put every slot hours off, so take the zone the doctor's profile names and flag it
+    const profile = await this.getProfile(doctorId).catch(() => null);
+    return { ...availability, timezone: profile?.timezone || browserTimeZone(), timezoneAssumed: true };
   },
 
-  async updateAppointment(id: string, updates: Partial<Appointment>): Promise<Appointment | null> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/appointments/${id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify(updates),
-        credentials: 'include',
-      });
-      if (!res.ok) throw new Error('Failed to update appointment');
-      const payload = await res.json();
-      return parseAppointment(payload);
-    } catch (err) {
-      console.error('Error updating appointment:', err);
-      return null;
+  async updateDoctorAvailability(doctorId: string, availability: AvailabilityRequest): Promise<DoctorAvailability> {
+    const data = await request<unknown>(`/api/users/${doctorId}/availability`, { method: 'PUT', body: availability });
+    const saved = parseResponse(doctorAvailabilitySchema, data, 'availability');
+    return saved.timezone ? saved : { ...saved, timezone: availability.timezone };
+  },
+
+  // Intervals already booked for a doctor between two ISO instants
+  async getDoctorBusySlots(doctorId: string, from: string, to: string): Promise<BusySlot[]> {
+    const params = new URLSearchParams({ from, to });
+    const data = await request<unknown>(`/api/users/${doctorId}/busy?${params}`);
+    return parseResponseList(busySlotSchema, data, 'busy slot list');
+  },
+
+  // Allergies and current medications, read by doctors when prescribing
+  async getMedicalProfile(patientId: string): Promise<MedicalProfile> {
+    const result = await safeRequest<unknown>(`/api/users/${patientId}/medical-profile`);
+    // Nothing recorded yet is the same as no known allergies or medications
+    if (!result.ok && result.error.kind === 'not_found') {
+      return { patientId, allergies: [], currentMedications: [] };
     }
+    if (!result.ok) throw result.error;
+    return parseResponse(medicalProfileSchema, result.data, 'medical profile');
+  },
+
+  async updateMedicalProfile(patientId: string, profile: MedicalProfileRequest): Promise<MedicalProfile> {
+    const data = await request<unknown>(`/api/users/${patientId}/medical-profile`, { method: 'PUT', body: profile });
+    return parseResponse(medicalProfileSchema, data, 'medical profile');
   },
 
   // Prescriptions
   async getPrescriptions(): Promise<Prescription[]> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/prescriptions`, {
-        headers: getAuthHeaders(),
-        credentials: 'include',
-      });
-      if (!res.ok) return [];
-      const data = await res.json();
-      return Array.isArray(data) ? data.map(parsePrescription) : [];
-    } catch (err) {
-      console.error('Error fetching prescriptions:', err);
-      return [];
-    }
+    const data = await request<unknown>('/api/prescriptions');
+    return parseResponseList(prescriptionSchema, data, 'prescription list');
   },
 
-  async createPrescription(payload: { patientId: string; medication: string; dosage: string; instructions?: string }): Promise<Prescription | null> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/prescriptions`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify(payload),
-        credentials: 'include',
-      });
-      if (!res.ok) throw new Error('Failed to create prescription');
-      const data = await res.json();
-      return parsePrescription(data);
-    } catch (err) {
-      console.error('Error creating prescription:', err);
-      return null;
-    }
+  async createPrescription(payload: PrescriptionRequest): Promise<Prescription> {
+    const data = await request<unknown>('/api/prescriptions', { method: 'POST', body: payload });
+    return parseResponse(prescriptionSchema, data, 'prescription');
   },
 
-  // Documents - Using S3 presigned URLs
-  async listDocuments(): Promise<MedicalDocument[]> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/documents`, {
-        headers: getAuthHeaders(),
-        credentials: 'include',
-      });
-      if (!res.ok) return [];
-      const data = await res.json();
-      return Array.isArray(data) ? data.map(parseDocument) : [];
-    } catch (err) {
-      console.error('Error fetching documents:', err);
-      return [];
-    }
+  // Document keys: the server only ever sees the public key and the passphrase-sealed private key
+  async getMyKeyBundle(): Promise<UserKeyBundle | null> {
+    const result = await safeRequest<unknown>('/api/users/me/keys');
+    if (!result.ok && result.error.kind === 'not_found') return null;
+    if (!result.ok) throw result.error;
+    return parseResponse(userKeyBundleSchema, result.data, 'key bundle');
   },
 
-  async uploadDocument(file: File, userId: string): Promise<MedicalDocument | null> {
-    try {
-      let fileToUpload: File | Blob = file;
-      const originalSize = file.size;
-      let uploadMimeType = file.type;
-
-      console.log('[Upload] Starting upload with automatic encryption:', {
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        userId: userId.substring(0, 8) + '...', // Log partial ID for debugging
-      });
+  async saveMyKeyBundle(bundle: UserKeyBundle): Promise<UserKeyBundle> {
+    const data = await request<unknown>('/api/users/me/keys', { method: 'PUT', body: bundle });
+    return parseResponse(userKeyBundleSchema, data, 'key bundle');
+  },
 
-      // Step 1: Always encrypt using automatic key derivation
-      const { encryptFile, createEncryptedBlob, uint8ArrayToBase64, deriveAutoEncryptionKey } = await import('@/utils/encryption');
-      
-      // Derive encryption key from user ID
-      const autoKey = deriveAutoEncryptionKey(userId);
-      
-      // Encrypt file with derived key
-      const encrypted = await encryptFile(file, autoKey);
-      const encryptionNonce = uint8ArrayToBase64(encrypted.nonce);
-      const encryptionKeyId = encrypted.keyId;
-      
-      console.log('[Upload] File encrypted with auto-derived key:', {
-        keyId: encryptionKeyId,
-        nonceLength: encrypted.nonce.length,
-        ciphertextLength: encrypted.ciphertext.length,
-        originalSize: file.size,
-      });
-      
-      // Create blob from encrypted data
-      fileToUpload = createEncryptedBlob(encrypted, 'application/octet-stream');
-      uploadMimeType = 'application/octet-stream';
-      
-      console.log('[Upload] Encrypted blob created:', {
-        size: fileToUpload.size,
-        type: uploadMimeType,
-      });
+  // Documents - Using S3 presigned URLs
+  async listDocuments(): Promise<MedicalDocument[]> {
+    const data = await request<unknown>('/api/documents');
+    return parseResponseList(medicalDocumentSchema, data, 'document list');
+  },
 
-      // Step 2: Get presigned upload URL from backend
-      const urlRes = await fetch(`${BACKEND_URL}/api/documents/upload-url`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        credentials: 'include',
-        body: JSON.stringify({
-          originalName: file.name,
-          mimeType: uploadMimeType,
-          size: fileToUpload.size,
-        }),
-      });
+  async uploadDocument(
+    file: File,
+    userId: string,
+    metadata: DocumentMetadataRequest,
+    { onProgress, signal }: TransferOptions = {}
+  ): Promise<MedicalDocument> {
+    // Step 1: Encrypt under a fresh content key and wrap that key to the uploader's public key
+    const { blob, confirm } = await encryptForUpload(file, userId, onProgress);
+    if (signal?.aborted) throw new ApiError('Upload cancelled', { status: 0, code: 'UPLOAD_CANCELLED' });
 
-      if (!urlRes.ok) {
-        const errData = await urlRes.json().catch(() => ({}));
-        throw new Error(errData.message || 'Failed to get upload URL');
-      }
+    // Step 2: Open a multipart upload; it's remembered on this device so a reload can resume it
+    const upload = await startMultipartUpload(userId, blob, { ...confirm, ...metadata });
 
-      const { uploadUrl, s3Key } = await urlRes.json();
+    // Step 3: Upload the parts straight to S3, then confirm with the backend to save metadata
+    return finishMultipartUpload(upload, { onProgress, signal });
+  },
 
-      // Step 3: Upload directly to S3 using presigned URL
-      const uploadRes = await fetch(uploadUrl, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': uploadMimeType,
-        },
-        body: fileToUpload,
-      });
+  /**
+   * Upload a replacement file as the document's next version. Earlier
+   * versions stay viewable, and every doctor with an active grant gets the
+   * new version's content key wrapped to them so sharing carries over.
+   */
+  async uploadDocumentVersion(
+    document: MedicalDocument,
+    file: File,
+    userId: string,
+    { onProgress, signal }: TransferOptions = {}
+  ): Promise<MedicalDocument> {
+    const { wrapContentKey } = await import('@/utils/userKeys');
 
-      if (!uploadRes.ok) {
-        const bodyText = await uploadRes.text().catch(() => '');
-        console.error('S3 upload failed', { status: uploadRes.status, body: bodyText });
-        throw new Error(`Failed to upload to S3 (${uploadRes.status})`);
+    const { blob, contentKey, confirm } = await encryptForUpload(file, userId, onProgress);
+    const now = Date.now();
+    const grants = (await this.listDocumentGrants(document.id)).filter((g) => new Date(g.expiresAt).getTime() > now);
+    const grantKeys: { grantId: string; wrappedKey: string }[] = [];
+    for (const grant of grants) {
+      const doctorKey = await this.getPublicKey(grant.doctorId);
+      if (!doctorKey) {
+        console.warn('[Upload] Doctor has no public key, new version not shared:', grant.doctorId);
+        continue;
       }
+      grantKeys.push({ grantId: grant.id, wrappedKey: await wrapContentKey(contentKey, doctorKey) });
+    }
+    if (signal?.aborted) throw new ApiError('Upload cancelled', { status: 0, code: 'UPLOAD_CANCELLED' });
 
-      // Step 4: Confirm upload with backend to save metadata
-      const confirmRes = await fetch(`${BACKEND_URL}/api/documents/confirm`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        credentials: 'include',
-        body: JSON.stringify({
-          s3Key,
-          originalName: file.name,
-          mimeType: file.type, // Original MIME type
-          size: originalSize, // Original file size
-          encrypted: true, // Always encrypted with automatic key derivation
-          encryptionNonce,
-          encryptionKeyId,
-        }),
-      });
+    const upload = await startMultipartUpload(userId, blob, { ...confirm, grantKeys }, `/api/documents/${document.id}/versions`);
+    return finishMultipartUpload(upload, { onProgress, signal });
+  },
 
-      if (!confirmRes.ok) {
-        throw new Error('Failed to confirm upload');
-      }
+  async listDocumentVersions(documentId: string): Promise<DocumentVersion[]> {
+    const data = await request<unknown>(`/api/documents/${documentId}/versions`);
+    return parseResponseList(documentVersionSchema, data, 'version list');
+  },
 
-      const data = await confirmRes.json();
-      return parseDocument(data);
-    } catch (err) {
-      console.error('Error uploading document:', err);
-      return null;
-    }
+  async listPendingUploads(userId: string): Promise<PendingDocumentUpload[]> {
+    if (!isUploadStoreAvailable()) return [];
+    const uploads = await listPendingUploads(userId);
+    return uploads.sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(toPendingDocumentUpload);
+  },
+
+  /** Continue an interrupted upload from its last completed part */
+  async resumeUpload(uploadId: string, options: TransferOptions = {}): Promise<MedicalDocument> {
+    const upload = await getPendingUpload(uploadId);
+    if (!upload) throw new ApiError('This upload is no longer available on this device', { status: 404, code: 'UPLOAD_NOT_FOUND' });
+    return finishMultipartUpload(upload, options);
   },
 
-  async getDocumentDownloadUrl(documentId: string): Promise<string | null> {
+  /** Abort an interrupted upload and free the parts already stored on S3 */
+  async discardUpload(uploadId: string): Promise<void> {
+    const upload = await getPendingUpload(uploadId);
+    if (!upload) return;
     try {
-      const res = await fetch(`${BACKEND_URL}/api/documents/${documentId}/download`, {
-        headers: getAuthHeaders(),
-        credentials: 'include',
-      });
-      if (!res.ok) return null;
-      const data = await res.json();
-      return data.downloadUrl;
+      await abortMultipartUpload(upload);
     } catch (err) {
-      console.error('Error getting download URL:', err);
-      return null;
+      // The local record is gone either way; the bucket's incomplete-upload lifecycle rule (see README) clears the parts
+      console.warn('[Upload] Could not abort multipart upload:', err);
     }
   },
 
-  async downloadAndDecryptDocument(document: MedicalDocument, userId: string): Promise<Blob | null> {
+  async getDocumentDownloadUrl(documentId: string): Promise<string> {
+    const data = await request<unknown>(`/api/documents/${documentId}/download`);
+    return parseResponse(downloadUrlSchema, data, 'download URL').downloadUrl;
+  },
+
+  async getDocumentVersionDownloadUrl(documentId: string, versionId: string): Promise<string> {
+    const data = await request<unknown>(`/api/documents/${documentId}/versions/${versionId}/download`);
+    return parseResponse(downloadUrlSchema, data, 'download URL').downloadUrl;
+  },
+
+  /**
+   * Decrypt a document for the signed-in user. Envelope documents need the
+   * user's unlocked private key and a key wrapped to it (their own upload or
+   * a sharing grant). Legacy derived-v0 documents only open for their owner.
+   * Chunked documents are decrypted as a stream in a worker; older
+   * single-shot ones are still opened in one piece. Pass `version` to open
+   * an older version instead of the current one. Integrity failures are
+   * thrown as DocumentIntegrityError naming the check that failed.
+   */
+  async downloadAndDecryptDocument(
+    current: MedicalDocument,
+    userId: string,
+    onProgress?: (progress: TransferProgress) => void,
+    version?: DocumentVersion
+  ): Promise<Blob> {
+    // An older version has its own stored object, content key and encryption details
+    const document: MedicalDocument = version ? { ...current, ...version, id: current.id } : current;
     try {
       console.log('[Decrypt] Starting download for document:', {
         id: document.id,
         encrypted: document.encrypted,
+        scheme: document.encryptionScheme,
+        format: document.encryptionFormat ?? 'single',
         mimeType: document.mimeType,
-        hasNonce: !!document.encryptionNonce,
-        hasKeyId: !!document.encryptionKeyId,
-        userId: userId.substring(0, 8) + '...', // Log partial ID for debugging
+        version: document.version,
       });
 
-      // Get download URL
-      const downloadUrl = await this.getDocumentDownloadUrl(document.id);
-      if (!downloadUrl) {
-        throw new Error('Failed to get download URL');
-      }
-
-      // Download file from S3
-      const fileRes = await fetch(downloadUrl);
-      if (!fileRes.ok) {
-        throw new Error('Failed to download file');
-      }
-
-      const fileData = await fileRes.arrayBuffer();
-      console.log('[Decrypt] Downloaded file size:', fileData.byteLength);
+      const downloadUrl = version
+        ? await this.getDocumentVersionDownloadUrl(document.id, version.id)
+        : await this.getDocumentDownloadUrl(document.id);
+      const fileData = await fetchFromStorage(downloadUrl, (loaded, total) =>
+        onProgress?.({ phase: 'downloading', loaded, total: total || document.size })
+      );
+      console.log('[Decrypt] Downloaded file size:', fileData.size);
 
       // If not encrypted, return as-is (legacy documents)
-      if (!document.encrypted || !document.encryptionNonce || !document.encryptionKeyId) {
+      if (!document.encrypted) {
         console.log('[Decrypt] File not encrypted, returning as-is');
         return new Blob([fileData], { type: document.mimeType });
       }
+      // Chunked files carry their nonce in the header; single-piece ones can't be opened without it
+      if (!document.encryptionFormat && !document.encryptionNonce) {
+        throw new DocumentIntegrityError('missing_nonce');
+      }
 
-      // Decrypt file using automatic key derivation
-      const { decryptToBlob, base64ToUint8Array, deriveKeyFromUserId } = await import('@/utils/encryption');
-      
-      // Derive decryption key from user ID
-      const derivedKey = deriveKeyFromUserId(userId);
-      
-      console.log('[Decrypt] Using auto-derived key for user');
-      
-      const ciphertext = new Uint8Array(fileData);
-      const nonce = base64ToUint8Array(document.encryptionNonce);
-      
-      console.log('[Decrypt] Decrypting:', {
-        ciphertextSize: ciphertext.length,
-        nonceSize: nonce.length,
-        keyId: document.encryptionKeyId,
-      });
+      const { decryptToBlob, base64ToUint8Array, deriveKeyFromUserId, TAG_SIZE } = await import('@/utils/encryption');
 
-      // Decrypt using derived key directly
-      const decryptedBlob = decryptToBlob(
-        ciphertext,
-        nonce,
-        derivedKey, // Pass Uint8Array directly instead of keyId
-        document.mimeType
-      );
+      let contentKey: Uint8Array;
+      if (document.encryptionScheme === 'envelope-v1') {
+        const { KeyVaultError, unwrapContentKey } = await import('@/utils/userKeys');
+        const { getUnlockedKeys } = await import('@/utils/keyVault');
+        const keys = getUnlockedKeys();
+        if (!keys) throw new KeyVaultError('Unlock your document keys with your passphrase first', 'locked');
+        if (!document.wrappedKey) throw new KeyVaultError("This document hasn't been shared with you", 'no_access');
+        contentKey = await unwrapContentKey(document.wrappedKey, keys.privateKey);
+      } else {
+        if (document.patientId && document.patientId !== userId) {
+          const { KeyVaultError } = await import('@/utils/userKeys');
+          throw new KeyVaultError('This document uses the old encryption. The patient needs to re-encrypt it before it can be shared', 'no_access');
+        }
+        contentKey = deriveKeyFromUserId(userId);
+      }
+
+      let decryptedBlob: Blob;
+      if (document.encryptionFormat) {
+        const { decryptDocument } = await import('@/utils/streamingEncryption');
+        decryptedBlob = await decryptDocument(
+          fileData,
+          contentKey,
+          document.mimeType,
+          (loaded, total) => onProgress?.({ phase: 'decrypting', loaded, total }),
+          document.size
+        );
+      } else {
+        if (fileData.size < document.size + TAG_SIZE) throw new DocumentIntegrityError('truncated');
+        try {
+          decryptedBlob = decryptToBlob(
+            new Uint8Array(await fileData.arrayBuffer()),
+            base64ToUint8Array(document.encryptionNonce),
+            contentKey,
+            document.mimeType
+          );
+        } catch {
+          // One authentication tag over the whole file can't separate a wrong key from damage
+          throw new DocumentIntegrityError('wrong_key', UNVERIFIED_KEY_MESSAGE);
+        }
+      }
 
       console.log('[Decrypt] Decryption successful, blob size:', decryptedBlob.size, 'type:', decryptedBlob.type);
       return decryptedBlob;
@@ -614,88 +922,170 @@ export const apiClient = {
     }
   },
 
-  async deleteDocument(documentId: string): Promise<boolean> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/documents/${documentId}`, {
-        method: 'DELETE',
-        headers: getAuthHeaders(),
-        credentials: 'include',
-      });
-      return res.ok;
-    } catch (err) {
-      console.error('Error deleting document:', err);
-      return false;
+  // Admin: every patient's document metadata, for the integrity scan
+  async listAllDocuments(): Promise<MedicalDocument[]> {
+    const data = await request<unknown>('/api/admin/documents');
+    return parseResponseList(medicalDocumentSchema, data, 'document list');
+  },
+
+  /**
+   * Admin: compare each document's recorded encryption details with the
+   * header and size of its stored object. Needs no keys, so nothing is
+   * decrypted; objects are read one at a time.
+   */
+  async scanDocumentIntegrity(onProgress?: (checked: number, total: number) => void): Promise<DocumentIntegrityIssue[]> {
+    const { MAX_HEADER_SIZE } = await import('@/utils/chunkedEncryption');
+    const { storedObjectMismatches } = await import('@/utils/documentDiagnostics');
+
+    const documents = await this.listAllDocuments();
+    const issues: DocumentIntegrityIssue[] = [];
+    for (const [index, document] of documents.entries()) {
+      try {
+        const data = await request<unknown>(`/api/admin/documents/${document.id}/download`);
+        const { downloadUrl } = parseResponse(downloadUrlSchema, data, 'download URL');
+        const { head, objectSize } = await fetchObjectHead(downloadUrl, MAX_HEADER_SIZE);
+        const problems = storedObjectMismatches(document, head, objectSize);
+        if (problems.length) issues.push({ document, problems });
+      } catch (err) {
+        issues.push({ document, problems: [`The stored object couldn't be read: ${describeApiError(err).description}`] });
+      }
+      onProgress?.(index + 1, documents.length);
     }
+    return issues;
   },
 
-  // Liver Assessments (Health data)
-  async submitLiverAssessment(measurements: LiverMeasurements): Promise<LiverAssessment | null> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/assessments/liver`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify(measurements),
-        credentials: 'include',
-      });
-      if (!res.ok) {
-        const data = await res.json().catch(() => ({}));
-        throw new Error(data.message || 'Failed to submit assessment');
+  /**
+   * Move one of the user's own derived-v0 documents to envelope-v1: decrypt
+   * it with the old derived key, re-encrypt under a fresh content key wrapped
+   * to their public key, and replace the stored object. Only the current
+   * version is re-encrypted; older versions keep the derived key.
+   */
+  async migrateDocumentEncryption(document: MedicalDocument, userId: string): Promise<MedicalDocument> {
+    const { uint8ArrayToBase64, generateEncryptionKey } = await import('@/utils/encryption');
+    const { encryptDocument } = await import('@/utils/streamingEncryption');
+    const { keyFingerprintHex } = await import('@/utils/chunkedEncryption');
+    const { wrapContentKey } = await import('@/utils/userKeys');
+    const { requireUnlockedKeys } = await import('@/utils/keyVault');
+
+    const keys = requireUnlockedKeys(userId);
+    const plaintext = await this.downloadAndDecryptDocument(document, userId);
+    const contentKey = generateEncryptionKey();
+    const encrypted = await encryptDocument(plaintext, contentKey.key);
+    const wrappedKey = await wrapContentKey(contentKey.key, keys.publicKey);
+    const fileToUpload = encrypted.blob;
+
+    const urlData = await request<unknown>(`/api/documents/${document.id}/reupload-url`, {
+      method: 'POST',
+      body: { mimeType: 'application/octet-stream', size: fileToUpload.size },
+    });
+    const { uploadUrl, s3Key } = parseResponse(uploadUrlSchema, urlData, 'upload URL');
+    await putToStorage(uploadUrl, fileToUpload);
+
+    // The backend swaps the object and metadata together and deletes the old ciphertext
+    const data = await request<unknown>(`/api/documents/${document.id}/encryption`, {
+      method: 'PUT',
+      body: {
+        s3Key,
+        encryptionScheme: 'envelope-v1',
+        encryptionFormat: 'chunked-v2',
+        encryptionNonce: uint8ArrayToBase64(encrypted.baseNonce),
+        encryptionKeyId: keyFingerprintHex(contentKey.key),
+        wrappedKey,
+      },
+    });
+    return parseResponse(medicalDocumentSchema, data, 'document');
+  },
+
+  // Sharing grants: the patient unwraps the content key and re-wraps it to the doctor's public key
+  async getPublicKey(userId: string): Promise<string | null> {
+    const result = await safeRequest<unknown>(`/api/users/${userId}/public-key`);
+    // The user hasn't created document keys yet
+    if (!result.ok && result.error.kind === 'not_found') return null;
+    if (!result.ok) throw result.error;
+    return parseResponse(publicKeySchema, result.data, 'public key').publicKey;
+  },
+
+  async listDocumentGrants(documentId: string): Promise<DocumentGrant[]> {
+    const data = await request<unknown>(`/api/documents/${documentId}/grants`);
+    return parseResponseList(documentGrantSchema, data, 'grant list');
+  },
+
+  async shareDocument(document: MedicalDocument, userId: string, grant: DocumentGrantRequest): Promise<DocumentGrant> {
+    const { KeyVaultError, unwrapContentKey, wrapContentKey } = await import('@/utils/userKeys');
+    const { requireUnlockedKeys } = await import('@/utils/keyVault');
+
+    if (document.encryptionScheme !== 'envelope-v1' || !document.wrappedKey) {
+      throw new KeyVaultError('Re-encrypt this document with your keys before sharing it', 'invalid_key');
+    }
+    const keys = requireUnlockedKeys(userId);
+    const doctorKey = await this.getPublicKey(grant.doctorId);
+    if (!doctorKey) {
+      throw new KeyVaultError("This doctor hasn't set up document keys yet, so nothing can be shared with them", 'no_access');
+    }
+
+    const contentKey = await unwrapContentKey(document.wrappedKey, keys.privateKey);
+    const wrappedKey = await wrapContentKey(contentKey, doctorKey);
+
+    // Older versions each have their own key. Ones still on the legacy derived key can't be shared and are left out
+    const versionKeys: { versionId: string; wrappedKey: string }[] = [];
+    if (document.version > 1) {
+      for (const version of await this.listDocumentVersions(document.id)) {
+        if (version.id === document.versionId || version.encryptionScheme !== 'envelope-v1' || !version.wrappedKey) continue;
+        const versionKey = await unwrapContentKey(version.wrappedKey, keys.privateKey);
+        versionKeys.push({ versionId: version.id, wrappedKey: await wrapContentKey(versionKey, doctorKey) });
       }
-      const data = await res.json();
-      const a = data.assessment;
-      return a ? {
-        id: a.id ?? a._id ?? '',
-        patientId: a.patientId ?? undefined,
-        patientName: a.patientName ?? null,
-        patientEmail: a.patientEmail ?? null,
-        measurements: a.measurements,
-        result: a.result ?? null,
-        createdAt: a.createdAt ?? new Date().toISOString(),
-      } as LiverAssessment : null;
-    } catch (err) {
-      console.error('Error submitting liver assessment:', err);
-      return null;
     }
+
+    const data = await request<unknown>(`/api/documents/${document.id}/grants`, {
+      method: 'POST',
+      body: { ...grant, wrappedKey, versionKeys },
+    });
+    return parseResponse(documentGrantSchema, data, 'grant');
+  },
+
+  async revokeDocumentGrant(documentId: string, grantId: string): Promise<void> {
+    await request(`/api/documents/${documentId}/grants/${grantId}`, { method: 'DELETE' });
+  },
+
+  async updateDocumentMetadata(documentId: string, metadata: DocumentMetadataRequest): Promise<MedicalDocument> {
+    const data = await request<unknown>(`/api/documents/${documentId}`, { method: 'PATCH', body: metadata });
+    return parseResponse(medicalDocumentSchema, data, 'document');
+  },
+
+  async deleteDocument(documentId: string): Promise<void> {
+    await request(`/api/documents/${documentId}`, { method: 'DELETE' });
+  },
+
+  // Liver Assessments (Health data)
+  async submitLiverAssessment(measurements: LiverMeasurements): Promise<LiverAssessment> {
+    const data = await request<unknown>('/api/assessments/liver', { method: 'POST', body: measurements });
+    return parseResponse(liverAssessmentEnvelopeSchema, data, 'assessment').assessment;
   },
 
   async listLiverAssessments(): Promise<LiverAssessment[]> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/assessments/liver`, {
-        headers: getAuthHeaders(),
-        credentials: 'include',
-      });
-      if (!res.ok) return [];
-      const data = await res.json();
-      const arr = Array.isArray(data?.assessments) ? data.assessments : [];
-      return arr.map((a) => ({
-        id: a.id ?? a._id ?? '',
-        patientId: a.patientId ?? undefined,
-        patientName: a.patientName ?? null,
-        patientEmail: a.patientEmail ?? null,
-        measurements: a.measurements,
-        result: a.result ?? null,
-        createdAt: a.createdAt ?? new Date().toISOString(),
-      } as LiverAssessment));
-    } catch (err) {
-      console.error('Error listing liver assessments:', err);
-      return [];
-    }
+    const data = await request<unknown>('/api/assessments/liver');
+    return parseResponse(liverAssessmentListSchema, data, 'assessment list').assessments;
+  },
+
+  // Call settings: any signed-in user reads the override, since every call needs it; only admins change it
+  async getIceServerOverride(): Promise<IceServerOverride | null> {
+    const result = await safeRequest<unknown>('/api/settings/ice-servers');
+    if (!result.ok && result.error.kind === 'not_found') return null;
+    if (!result.ok) throw result.error;
+    return parseResponse(iceServerOverrideSchema, result.data, 'ICE server override');
+  },
+
+  async saveIceServerOverride(override: IceServerOverride): Promise<IceServerOverride> {
+    const data = await request<unknown>('/api/admin/settings/ice-servers', { method: 'PUT', body: override });
+    return parseResponse(iceServerOverrideSchema, data, 'ICE server override');
+  },
+
+  async clearIceServerOverride(): Promise<void> {
+    await request('/api/admin/settings/ice-servers', { method: 'DELETE' });
   },
 
   // Video endpoints
-  async initiateVideoCall(recipientId: string): Promise<Record<string, unknown> | null> {
-    try {
-      const res = await fetch(`${BACKEND_URL}/api/video/initiate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
-        body: JSON.stringify({ recipient_id: recipientId }),
-        credentials: 'include',
-      });
-      if (!res.ok) throw new Error('Failed to initiate video call');
-  return (await res.json()) as Record<string, unknown>;
-    } catch (err) {
-      console.error('Error initiating video call:', err);
-      return null;
-    }
+  async initiateVideoCall(recipientId: string): Promise<Record<string, unknown>> {
+    return request<Record<string, unknown>>('/api/video/initiate', { method: 'POST', body: { recipient_id: recipientId } });
   },
 };
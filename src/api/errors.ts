@@ -0,0 +1,106 @@
+// Structured error model for backend calls
+import type { ZodIssue } from 'zod';
+
+export type ApiErrorKind =
+  | 'network'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'validation'
+  | 'server'
+  | 'invalid_response'
+  | 'unknown';
+
+export class ApiError extends Error {
+  /** HTTP status of the failed response, or 0 when the request never got one */
+  readonly status: number;
+  /** Error code reported by the backend, or a status-derived fallback */
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(message: string, options: { status: number; code?: string; details?: unknown; cause?: unknown }) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.code = options.code ?? (options.status === 0 ? 'NETWORK_ERROR' : `HTTP_${options.status}`);
+    this.details = options.details;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+
+  get kind(): ApiErrorKind {
+    if (this.status === 0) return 'network';
+    if (this.status === 401) return 'unauthorized';
+    if (this.status === 403) return 'forbidden';
+    if (this.status === 404) return 'not_found';
+    if (this.status === 409) return 'conflict';
+    if (this.status === 400 || this.status === 422) return 'validation';
+    if (this.status >= 500) return 'server';
+    return 'unknown';
+  }
+}
+
+/** The backend answered, but the payload did not match the expected schema */
+export class ResponseValidationError extends ApiError {
+  /** Which entity failed to validate, e.g. 'appointment' */
+  readonly entity: string;
+  readonly issues: ZodIssue[];
+
+  constructor(entity: string, issues: ZodIssue[], payload?: unknown) {
+    const first = issues[0];
+    const where = first?.path.length ? ` at ${first.path.join('.')}` : '';
+    super(`Invalid ${entity} data from server${where}: ${first?.message ?? 'unknown issue'}`, {
+      status: 200,
+      code: 'INVALID_RESPONSE',
+      details: payload,
+    });
+    this.name = 'ResponseValidationError';
+    this.entity = entity;
+    this.issues = issues;
+  }
+
+  get kind(): ApiErrorKind {
+    return 'invalid_response';
+  }
+}
+
+// `data`/`error` are declared on both arms so callers can read them without narrowing
+export type ApiResult<T> =
+  | { ok: true; data: T; error?: undefined }
+  | { ok: false; data?: undefined; error: ApiError };
+
+export const isApiError = (err: unknown): err is ApiError => err instanceof ApiError;
+
+// Normalise anything thrown during a call into an ApiError
+export const toApiError = (err: unknown, fallbackMessage = 'Unexpected error'): ApiError => {
+  if (err instanceof ApiError) return err;
+  if (err instanceof Error) return new ApiError(err.message || fallbackMessage, { status: 0, code: 'CLIENT_ERROR', cause: err });
+  return new ApiError(fallbackMessage, { status: 0, code: 'CLIENT_ERROR', details: err });
+};
+
+// User-facing title/description for an error, used by dashboards and toasts
+export const describeApiError = (err: unknown): { title: string; description: string } => {
+  const error = toApiError(err);
+  switch (error.kind) {
+    case 'network':
+      return error.code === 'NETWORK_ERROR'
+        ? { title: 'Cannot reach the server', description: 'Check your connection and try again.' }
+        : { title: 'Something went wrong', description: error.message };
+    case 'unauthorized':
+      return { title: 'Session expired', description: 'Please sign in again to continue.' };
+    case 'forbidden':
+      return { title: 'Access denied', description: error.message || 'You do not have permission to view this.' };
+    case 'not_found':
+      return { title: 'Not found', description: error.message || 'The requested record no longer exists.' };
+    case 'conflict':
+      return { title: 'Conflict', description: error.message || 'This record was changed by someone else. Refresh and try again.' };
+    case 'server':
+      return { title: 'Server error', description: 'The server could not complete the request. Please try again shortly.' };
+    case 'invalid_response':
+      return { title: 'Unexpected data from server', description: error.message };
+    default:
+      return { title: 'Request failed', description: error.message };
+  }
+};
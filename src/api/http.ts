@@ -0,0 +1,177 @@
+// Shared request layer: every backend call goes through here
+import { env } from '@/config/env';
+import { ApiError, toApiError, type ApiResult } from '@/api/errors';
+
+export const BACKEND_URL = env.backendUrl;
+
+const ACCESS_TOKEN_KEY = 'accessToken';
+const REFRESH_PATH = '/api/auth/refresh';
+
+export interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  /** JSON-serialisable request body */
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Attach the bearer token (default: true) */
+  auth?: boolean;
+  /** On 401, refresh the access token and retry once (default: true for authenticated calls) */
+  retryOnUnauthorized?: boolean;
+  signal?: AbortSignal;
+}
+
+export const getAccessToken = (): string | null => localStorage.getItem(ACCESS_TOKEN_KEY);
+
+export const setAccessToken = (token: string | null) => {
+  if (token) localStorage.setItem(ACCESS_TOKEN_KEY, token);
+  else localStorage.removeItem(ACCESS_TOKEN_KEY);
+};
+
+export const getAuthHeaders = (): Record<string, string> => {
+  const token = getAccessToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Session expiry is broadcast so the auth provider can sign the user out
+type SessionExpiredListener = (error: ApiError) => void;
+const sessionExpiredListeners = new Set<SessionExpiredListener>();
+
+export const onSessionExpired = (listener: SessionExpiredListener): (() => void) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+const readBody = async (res: Response): Promise<unknown> => {
+  const text = await res.text().catch(() => '');
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const errorFromResponse = (res: Response, body: unknown): ApiError => {
+  const b = (body && typeof body === 'object') ? (body as Record<string, unknown>) : {};
+  const message = (typeof b.message === 'string' && b.message)
+    || (typeof b.error === 'string' && b.error)
+    || (typeof body === 'string' && body)
+    || res.statusText
+    || `Request failed (${res.status})`;
+  const code = (typeof b.code === 'string' && b.code) || undefined;
+  return new ApiError(message, { status: res.status, code, details: body });
+};
+
+// Single in-flight refresh shared by every request that hit a 401 at the same time
+let refreshInFlight: Promise<string> | null = null;
+
+const performRefresh = async (): Promise<string> => {
+  let res: Response;
+  try {
+    // The refresh token travels as an httpOnly cookie, so no Authorization header here
+    res = await fetch(`${BACKEND_URL}${REFRESH_PATH}`, { method: 'POST', credentials: 'include' });
+  } catch (err) {
+    throw new ApiError('Network error', { status: 0, cause: err });
+  }
+  const payload = await readBody(res);
+  if (!res.ok) throw errorFromResponse(res, payload);
+  const token = (payload as { accessToken?: unknown } | null)?.accessToken;
+  if (typeof token !== 'string' || !token) {
+    throw new ApiError('Refresh response did not include an access token', { status: res.status, code: 'MISSING_ACCESS_TOKEN', details: payload });
+  }
+  return token;
+};
+
+/**
+ * Exchange the refresh cookie for a new access token.
+ * Concurrent callers share one request. If the backend rejects the refresh, the
+ * stored token is cleared and session-expired listeners fire; a network failure
+ * is only reported, so a flaky connection does not sign anyone out.
+ */
+export function refreshAccessToken(): Promise<string> {
+  if (!refreshInFlight) {
+    refreshInFlight = performRefresh()
+      .then((token) => {
+        setAccessToken(token);
+        return token;
+      })
+      .catch((err: unknown) => {
+        const error = toApiError(err);
+        if (error.kind !== 'network') {
+          setAccessToken(null);
+          sessionExpiredListeners.forEach((listener) => listener(error));
+        }
+        throw error;
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+}
+
+/**
+ * Perform a backend request and return the parsed JSON body.
+ * Throws ApiError for network failures and non-2xx responses.
+ * Authenticated requests wait for any refresh in flight, and a 401 triggers
+ * one refresh-and-retry before the error is surfaced.
+ */
+export async function request<T = unknown>(path: string, options: RequestOptions = {}): Promise<T> {
+  const { method = 'GET', body, auth = true, signal } = options;
+  const retryOnUnauthorized = options.retryOnUnauthorized ?? auth;
+
+  let sentToken: string | null = null;
+  const send = async (): Promise<Response> => {
+    sentToken = auth ? getAccessToken() : null;
+    const headers: Record<string, string> = {
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...(auth ? getAuthHeaders() : {}),
+      ...options.headers,
+    };
+    try {
+      return await fetch(`${BACKEND_URL}${path}`, {
+        method,
+        headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        credentials: 'include',
+        signal,
+      });
+    } catch (err) {
+      throw new ApiError('Network error', { status: 0, cause: err });
+    }
+  };
+
+  // Queue behind a refresh that is already running instead of sending a token we know is stale
+  if (auth && refreshInFlight) {
+    await refreshInFlight.catch(() => undefined);
+  }
+
+  let res = await send();
+  if (res.status === 401 && retryOnUnauthorized) {
+    const unauthorized = errorFromResponse(res, await readBody(res));
+    try {
+      // Another request may already have rotated the token while this one was in flight
+      const current = getAccessToken();
+      if (!current || current === sentToken) await refreshAccessToken();
+    } catch (err) {
+      // A network failure during refresh is more useful to the caller than the stale 401
+      const refreshError = toApiError(err);
+      throw refreshError.kind === 'network' ? refreshError : unauthorized;
+    }
+    res = await send();
+  }
+
+  const payload = await readBody(res);
+  if (!res.ok) throw errorFromResponse(res, payload);
+  return payload as T;
+}
+
+/** Same as request(), but reports failures as a discriminated result instead of throwing */
+export async function safeRequest<T = unknown>(path: string, options: RequestOptions = {}): Promise<ApiResult<T>> {
+  try {
+    return { ok: true, data: await request<T>(path, options) };
+  } catch (err) {
+    return { ok: false, error: toApiError(err) };
+  }
+}
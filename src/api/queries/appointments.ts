@@ -0,0 +1,125 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient, type Appointment } from '@/api/client';
+import type { AppointmentRequest, RescheduleRequest, SeriesRequest, SeriesUpdateRequest } from '@/api/schemas';
+import { queryKeys } from '@/api/queries/keys';
+import { assertSlotFree } from '@/api/queries/availability';
+
+export function useAppointments(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.appointments.all,
+    queryFn: () => apiClient.getAppointments(),
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useCreateAppointment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    // Check for a clash first so a slot taken since the list was loaded gets a clear error
+    mutationFn: async (data: AppointmentRequest) => {
+      await assertSlotFree(queryClient, data);
+      return apiClient.createAppointment(data);
+    },
+    onSuccess: (created) => {
+      queryClient.setQueryData<Appointment[]>(queryKeys.appointments.all, (prev) => (prev ? [created, ...prev] : prev));
+    },
+    onSettled: (_data, _error, data) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointments.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.availability.doctor(data.doctorId) });
+    },
+  });
+}
+
+export function useUpdateAppointment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<Appointment> }) => apiClient.updateAppointment(id, updates),
+    // Apply the change immediately and roll back if the backend rejects it
+    onMutate: async ({ id, updates }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.appointments.all });
+      const previous = queryClient.getQueryData<Appointment[]>(queryKeys.appointments.all);
+      queryClient.setQueryData<Appointment[]>(queryKeys.appointments.all, (prev) =>
+        prev?.map((apt) => (apt.id === id ? { ...apt, ...updates } : apt))
+      );
+      return { previous };
+    },
+    onError: (_error, _vars, context) => {
+      if (context?.previous) queryClient.setQueryData(queryKeys.appointments.all, context.previous);
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData<Appointment[]>(queryKeys.appointments.all, (prev) =>
+        prev?.map((apt) => (apt.id === updated.id ? updated : apt))
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.appointments.all }),
+  });
+}
+
+export function useAppointmentHistory(appointmentId: string | undefined, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.appointments.history(appointmentId ?? ''),
+    queryFn: () => apiClient.getAppointmentHistory(appointmentId),
+    enabled: Boolean(appointmentId) && (options.enabled ?? true),
+  });
+}
+
+const replaceAppointment = (queryClient: ReturnType<typeof useQueryClient>, updated: Appointment) => {
+  queryClient.setQueryData<Appointment[]>(queryKeys.appointments.all, (prev) =>
+    prev?.map((apt) => (apt.id === updated.id ? updated : apt))
+  );
+};
+
+export function useCancelAppointment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ appointment, reason }: { appointment: Appointment; reason: string }) =>
+      apiClient.cancelAppointment(appointment.id, reason),
+    onSuccess: (updated) => replaceAppointment(queryClient, updated),
+    onSettled: (_data, _error, { appointment }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointments.all });
+      if (appointment.doctor) queryClient.invalidateQueries({ queryKey: queryKeys.availability.doctor(appointment.doctor.id) });
+    },
+  });
+}
+
+export function useRescheduleAppointment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    // Same clash check as booking: the new slot may have gone since the picker loaded
+    mutationFn: async ({ appointment, change }: { appointment: Appointment; change: RescheduleRequest }) => {
+      if (appointment.doctor) {
+        await assertSlotFree(queryClient, { doctorId: appointment.doctor.id, startAt: change.startAt, endAt: change.endAt });
+      }
+      return apiClient.rescheduleAppointment(appointment.id, change);
+    },
+    onSuccess: (updated) => replaceAppointment(queryClient, updated),
+    onSettled: (_data, _error, { appointment }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointments.all });
+      if (appointment.doctor) queryClient.invalidateQueries({ queryKey: queryKeys.availability.doctor(appointment.doctor.id) });
+    },
+  });
+}
+
+export function useCreateAppointmentSeries() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ series }: { source: Appointment; series: SeriesRequest }) => apiClient.createAppointmentSeries(series),
+    onSettled: (_data, _error, { source }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointments.all });
+      if (source.doctor) queryClient.invalidateQueries({ queryKey: queryKeys.availability.doctor(source.doctor.id) });
+    },
+  });
+}
+
+export function useUpdateAppointmentSeries() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ appointment, change }: { appointment: Appointment; change: SeriesUpdateRequest }) =>
+      apiClient.updateAppointmentSeries(appointment.seriesId, change),
+    onSuccess: (updated) => updated.forEach((apt) => replaceAppointment(queryClient, apt)),
+    onSettled: (_data, _error, { appointment }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointments.all });
+      if (appointment.doctor) queryClient.invalidateQueries({ queryKey: queryKeys.availability.doctor(appointment.doctor.id) });
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient, type LiverAssessment, type LiverMeasurements } from '@/api/client';
+import { queryKeys } from '@/api/queries/keys';
+
+export function useLiverAssessments(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.assessments.liver,
+    queryFn: () => apiClient.listLiverAssessments(),
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useSubmitLiverAssessment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (measurements: LiverMeasurements) => apiClient.submitLiverAssessment(measurements),
+    onSuccess: (submitted) => {
+      queryClient.setQueryData<LiverAssessment[]>(queryKeys.assessments.liver, (prev) => (prev ? [submitted, ...prev] : prev));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.assessments.all }),
+  });
+}
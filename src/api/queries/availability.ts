@@ -0,0 +1,89 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { apiClient, ApiError, type DoctorAvailability } from '@/api/client';
+import type { AppointmentRequest, AvailabilityRequest } from '@/api/schemas';
+import { queryKeys } from '@/api/queries/keys';
+import { calendarDateIn, dayBounds, findClash, getFreeSlots, toDateKey } from '@/utils/availability';
+
+export function useDoctorAvailability(doctorId: string | undefined, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.availability.doctor(doctorId ?? ''),
+    queryFn: () => apiClient.getDoctorAvailability(doctorId),
+    enabled: Boolean(doctorId) && (options.enabled ?? true),
+  });
+}
+
+export function useUpdateDoctorAvailability() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ doctorId, availability }: { doctorId: string; availability: AvailabilityRequest }) =>
+      apiClient.updateDoctorAvailability(doctorId, availability),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<DoctorAvailability>(queryKeys.availability.doctor(saved.doctorId), saved);
+    },
+    // The doctor's timezone lives on their profile too, and cached busy days may now map to other instants
+    onSettled: (_data, _error, { doctorId }) => {
+      queryClient.invalidateQueries({ queryKey: [...queryKeys.availability.doctor(doctorId), 'busy'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.users.all });
+    },
+  });
+}
+
+// `date` is a calendar date in the doctor's timezone
+const busySlotsQuery = (doctorId: string, date: Date, timeZone: string) => {
+  const { from, to } = dayBounds(date, timeZone);
+  return {
+    queryKey: queryKeys.availability.busy(doctorId, toDateKey(date)),
+    queryFn: () => apiClient.getDoctorBusySlots(doctorId, from.toISOString(), to.toISOString()),
+  };
+};
+
+export function useDoctorBusySlots(doctorId: string | undefined, date: Date | undefined, timeZone: string | undefined) {
+  return useQuery({
+    ...busySlotsQuery(doctorId ?? '', date ?? new Date(), timeZone ?? 'UTC'),
+    enabled: Boolean(doctorId && date && timeZone),
+  });
+}
+
+/** Free slots for a doctor on a given day, combining their schedule with existing bookings */
+export function useFreeSlots(doctorId: string | undefined, date: Date | undefined) {
+  const availabilityQuery = useDoctorAvailability(doctorId);
+  const availability = availabilityQuery.data;
+  const busyQuery = useDoctorBusySlots(doctorId, date, availability?.timezone);
+  const busy = busyQuery.data;
+
+  const slots = useMemo(
+    () => (date ? getFreeSlots(availability, date, busy) : []),
+    [availability, busy, date]
+  );
+
+  return {
+    slots,
+    availability,
+    isLoading: availabilityQuery.isLoading || (Boolean(availability && date) && busyQuery.isLoading),
+    error: availabilityQuery.error ?? busyQuery.error,
+    refetch: () => Promise.all([availabilityQuery.refetch(), busyQuery.refetch()]),
+  };
+}
+
+/**
+ * Re-read the doctor's bookings straight from the server and throw a 409
+ * ApiError when the requested interval was taken since the slots were listed.
+ */
+export async function assertSlotFree(queryClient: QueryClient, request: AppointmentRequest): Promise<void> {
+  const startAt = new Date(request.startAt);
+  const availability = await queryClient.fetchQuery({
+    queryKey: queryKeys.availability.doctor(request.doctorId),
+    queryFn: () => apiClient.getDoctorAvailability(request.doctorId),
+  });
+  const endAt = request.endAt ? new Date(request.endAt) : new Date(startAt.getTime() + availability.slotMinutes * 60_000);
+
+  const day = calendarDateIn(startAt, availability.timezone);
+  const busy = await queryClient.fetchQuery({ ...busySlotsQuery(request.doctorId, day, availability.timezone), staleTime: 0 });
+  if (findClash(busy, startAt, endAt)) {
+    throw new ApiError('That time slot was just booked by someone else. Please choose another time.', {
+      status: 409,
+      code: 'SLOT_TAKEN',
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import { QueryClient } from '@tanstack/react-query';
+import { isApiError } from '@/api/errors';
+
+// Client errors (bad request, expired session, missing record) and malformed payloads won't fix themselves on retry
+const shouldRetry = (failureCount: number, error: unknown) => {
+  if (isApiError(error) && (error.kind === 'invalid_response' || (error.status >= 400 && error.status < 500))) return false;
+  return failureCount < 2;
+};
+
+export const createQueryClient = () =>
+  new QueryClient({
+    defaultOptions: {
+      queries: {
+        staleTime: 30_000,
+        retry: shouldRetry,
+        refetchOnWindowFocus: false,
+      },
+      mutations: {
+        retry: false,
+      },
+    },
+  });
@@ -0,0 +1,165 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient, type DocumentGrant, type MedicalDocument, type TransferOptions } from '@/api/client';
+import type { DocumentGrantRequest, DocumentMetadataRequest } from '@/api/schemas';
+import { queryKeys } from '@/api/queries/keys';
+
+export function useDocuments(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.documents.all,
+    queryFn: () => apiClient.listDocuments(),
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useUploadDocument() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ file, userId, metadata, ...options }: { file: File; userId: string; metadata: DocumentMetadataRequest } & TransferOptions) =>
+      apiClient.uploadDocument(file, userId, metadata, options),
+    onSuccess: (uploaded) => {
+      queryClient.setQueryData<MedicalDocument[]>(queryKeys.documents.all, (prev) =>
+        prev ? [uploaded, ...prev.filter((d) => d.id !== uploaded.id)] : prev
+      );
+    },
+    // Also refreshes the pending uploads, which sit under the same key prefix
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.documents.all }),
+  });
+}
+
+// Uploads interrupted on this device, read from IndexedDB rather than the API
+export function usePendingUploads(userId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.documents.pendingUploads(userId ?? ''),
+    queryFn: () => apiClient.listPendingUploads(userId),
+    enabled: Boolean(userId),
+  });
+}
+
+export function useResumeUpload() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ uploadId, ...options }: { uploadId: string } & TransferOptions) => apiClient.resumeUpload(uploadId, options),
+    onSuccess: (uploaded) => {
+      queryClient.setQueryData<MedicalDocument[]>(queryKeys.documents.all, (prev) =>
+        prev ? [uploaded, ...prev.filter((d) => d.id !== uploaded.id)] : prev
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.documents.all }),
+  });
+}
+
+export function useDiscardUpload() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (uploadId: string) => apiClient.discardUpload(uploadId),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.documents.all }),
+  });
+}
+
+export function useDeleteDocument() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (documentId: string) => apiClient.deleteDocument(documentId),
+    onSuccess: (_result, documentId) => {
+      queryClient.setQueryData<MedicalDocument[]>(queryKeys.documents.all, (prev) => prev?.filter((d) => d.id !== documentId));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.documents.all }),
+  });
+}
+
+export function useDocumentVersions(documentId: string | undefined, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.documents.versions(documentId ?? ''),
+    queryFn: () => apiClient.listDocumentVersions(documentId),
+    enabled: Boolean(documentId) && (options.enabled ?? true),
+  });
+}
+
+export function useUploadDocumentVersion() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ document, file, userId, ...options }: { document: MedicalDocument; file: File; userId: string } & TransferOptions) =>
+      apiClient.uploadDocumentVersion(document, file, userId, options),
+    onSuccess: (updated) => {
+      queryClient.setQueryData<MedicalDocument[]>(queryKeys.documents.all, (prev) =>
+        prev?.map((d) => (d.id === updated.id ? updated : d))
+      );
+    },
+    // The documents key prefix covers this document's versions too
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.documents.all }),
+  });
+}
+
+export function useUpdateDocumentMetadata() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ documentId, metadata }: { documentId: string; metadata: DocumentMetadataRequest }) =>
+      apiClient.updateDocumentMetadata(documentId, metadata),
+    onSuccess: (updated) => {
+      queryClient.setQueryData<MedicalDocument[]>(queryKeys.documents.all, (prev) =>
+        prev?.map((d) => (d.id === updated.id ? updated : d))
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.documents.all }),
+  });
+}
+
+// Admin: list documents whose metadata doesn't match their stored object
+export function useScanDocumentIntegrity() {
+  return useMutation({
+    mutationFn: ({ onProgress }: { onProgress?: (checked: number, total: number) => void } = {}) =>
+      apiClient.scanDocumentIntegrity(onProgress),
+  });
+}
+
+export function useMigrateDocumentEncryption() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ document, userId }: { document: MedicalDocument; userId: string }) =>
+      apiClient.migrateDocumentEncryption(document, userId),
+    onSuccess: (migrated) => {
+      queryClient.setQueryData<MedicalDocument[]>(queryKeys.documents.all, (prev) =>
+        prev?.map((d) => (d.id === migrated.id ? migrated : d))
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.documents.all }),
+  });
+}
+
+export function useDocumentGrants(documentId: string | undefined, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.documents.grants(documentId ?? ''),
+    queryFn: () => apiClient.listDocumentGrants(documentId),
+    enabled: Boolean(documentId) && (options.enabled ?? true),
+  });
+}
+
+export function useShareDocument() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ document, userId, grant }: { document: MedicalDocument; userId: string; grant: DocumentGrantRequest }) =>
+      apiClient.shareDocument(document, userId, grant),
+    onSuccess: (created) => {
+      queryClient.setQueryData<DocumentGrant[]>(queryKeys.documents.grants(created.documentId), (prev) =>
+        prev ? [...prev.filter((g) => g.id !== created.id), created] : prev
+      );
+    },
+    onSettled: (_data, _error, { document }) =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.documents.grants(document.id) }),
+  });
+}
+
+export function useRevokeDocumentGrant() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ documentId, grantId }: { documentId: string; grantId: string }) =>
+      apiClient.revokeDocumentGrant(documentId, grantId),
+    onSuccess: (_result, { documentId, grantId }) => {
+      queryClient.setQueryData<DocumentGrant[]>(queryKeys.documents.grants(documentId), (prev) =>
+        prev?.filter((g) => g.id !== grantId)
+      );
+    },
+    onSettled: (_data, _error, { documentId }) =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.documents.grants(documentId) }),
+  });
+}
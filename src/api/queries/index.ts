@@ -0,0 +1,41 @@
+// Typed TanStack Query hooks over apiClient
+export { queryKeys } from '@/api/queries/keys';
+export { createQueryClient } from '@/api/queries/client';
+export {
+  useAppointments,
+  useCreateAppointment,
+  useUpdateAppointment,
+  useCancelAppointment,
+  useRescheduleAppointment,
+  useAppointmentHistory,
+  useCreateAppointmentSeries,
+  useUpdateAppointmentSeries,
+} from '@/api/queries/appointments';
+export {
+  useDoctorAvailability,
+  useUpdateDoctorAvailability,
+  useDoctorBusySlots,
+  useFreeSlots,
+} from '@/api/queries/availability';
+export { usePrescriptions, useCreatePrescription } from '@/api/queries/prescriptions';
+export { useMedicalProfile, useUpdateMedicalProfile } from '@/api/queries/medicalProfiles';
+export {
+  useDocuments,
+  useUploadDocument,
+  usePendingUploads,
+  useResumeUpload,
+  useDiscardUpload,
+  useDeleteDocument,
+  useUpdateDocumentMetadata,
+  useDocumentVersions,
+  useScanDocumentIntegrity,
+  useUploadDocumentVersion,
+  useMigrateDocumentEncryption,
+  useDocumentGrants,
+  useShareDocument,
+  useRevokeDocumentGrant,
+} from '@/api/queries/documents';
+export { useMyKeyBundle, useSaveKeyBundle, usePublicKey } from '@/api/queries/userKeys';
+export { useLiverAssessments, useSubmitLiverAssessment } from '@/api/queries/assessments';
+export { useUsers, useDoctors, useUpdateUserRole, useUpdateDoctorApproval } from '@/api/queries/users';
+export { useIceServerOverride, useSaveIceServerOverride, useClearIceServerOverride } from '@/api/queries/settings';
@@ -0,0 +1,44 @@
+// Shared cache keys so every dashboard reads and invalidates the same entries
+export const queryKeys = {
+  appointments: {
+    all: ['appointments'] as const,
+    history: (appointmentId: string) => ['appointments', appointmentId, 'history'] as const,
+  },
+  availability: {
+    all: ['availability'] as const,
+    doctor: (doctorId: string) => ['availability', doctorId] as const,
+    busy: (doctorId: string, day: string) => ['availability', doctorId, 'busy', day] as const,
+  },
+  prescriptions: {
+    all: ['prescriptions'] as const,
+  },
+  medicalProfiles: {
+    all: ['medical-profiles'] as const,
+    patient: (patientId: string) => ['medical-profiles', patientId] as const,
+  },
+  documents: {
+    all: ['documents'] as const,
+    grants: (documentId: string) => ['documents', documentId, 'grants'] as const,
+    pendingUploads: (userId: string) => ['documents', 'pending-uploads', userId] as const,
+    versions: (documentId: string) => ['documents', documentId, 'versions'] as const,
+  },
+  userKeys: {
+    all: ['user-keys'] as const,
+    mine: ['user-keys', 'me'] as const,
+    publicKey: (userId: string) => ['user-keys', 'public', userId] as const,
+  },
+  assessments: {
+    all: ['assessments'] as const,
+    liver: ['assessments', 'liver'] as const,
+  },
+  settings: {
+    all: ['settings'] as const,
+    iceServers: ['settings', 'ice-servers'] as const,
+  },
+  users: {
+    all: ['users'] as const,
+    list: ['users', 'list'] as const,
+    doctors: ['users', 'doctors'] as const,
+    detail: (userId: string) => ['users', 'detail', userId] as const,
+  },
+};
@@ -0,0 +1,25 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient, type MedicalProfile } from '@/api/client';
+import type { MedicalProfileRequest } from '@/api/schemas';
+import { queryKeys } from '@/api/queries/keys';
+
+export function useMedicalProfile(patientId: string | undefined, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.medicalProfiles.patient(patientId ?? ''),
+    queryFn: () => apiClient.getMedicalProfile(patientId),
+    enabled: Boolean(patientId) && (options.enabled ?? true),
+  });
+}
+
+export function useUpdateMedicalProfile() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ patientId, profile }: { patientId: string; profile: MedicalProfileRequest }) =>
+      apiClient.updateMedicalProfile(patientId, profile),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<MedicalProfile>(queryKeys.medicalProfiles.patient(saved.patientId), saved);
+    },
+    onSettled: (_data, _error, { patientId }) =>
+      queryClient.invalidateQueries({ queryKey: queryKeys.medicalProfiles.patient(patientId) }),
+  });
+}
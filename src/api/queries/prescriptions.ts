@@ -0,0 +1,22 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient, type Prescription } from '@/api/client';
+import { queryKeys } from '@/api/queries/keys';
+
+export function usePrescriptions(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.prescriptions.all,
+    queryFn: () => apiClient.getPrescriptions(),
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useCreatePrescription() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: Parameters<typeof apiClient.createPrescription>[0]) => apiClient.createPrescription(payload),
+    onSuccess: (created) => {
+      queryClient.setQueryData<Prescription[]>(queryKeys.prescriptions.all, (prev) => (prev ? [created, ...prev] : prev));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.prescriptions.all }),
+  });
+}
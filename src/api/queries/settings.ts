@@ -0,0 +1,34 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient, type IceServerOverride } from '@/api/client';
+import { queryKeys } from '@/api/queries/keys';
+
+/** null when calls use the TURN API and fallback STUN server */
+export function useIceServerOverride(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.settings.iceServers,
+    queryFn: () => apiClient.getIceServerOverride(),
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useSaveIceServerOverride() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (override: IceServerOverride) => apiClient.saveIceServerOverride(override),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<IceServerOverride | null>(queryKeys.settings.iceServers, saved);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.settings.iceServers }),
+  });
+}
+
+export function useClearIceServerOverride() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () => apiClient.clearIceServerOverride(),
+    onSuccess: () => {
+      queryClient.setQueryData<IceServerOverride | null>(queryKeys.settings.iceServers, null);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.settings.iceServers }),
+  });
+}
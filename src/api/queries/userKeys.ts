@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient, type UserKeyBundle } from '@/api/client';
+import { queryKeys } from '@/api/queries/keys';
+
+export function useMyKeyBundle(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.userKeys.mine,
+    queryFn: () => apiClient.getMyKeyBundle(),
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useSaveKeyBundle() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (bundle: UserKeyBundle) => apiClient.saveMyKeyBundle(bundle),
+    onSuccess: (saved) => {
+      queryClient.setQueryData<UserKeyBundle | null>(queryKeys.userKeys.mine, saved);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.userKeys.mine }),
+  });
+}
+
+/** null when the user hasn't created document keys yet */
+export function usePublicKey(userId: string | undefined, options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.userKeys.publicKey(userId ?? ''),
+    queryFn: () => apiClient.getPublicKey(userId),
+    enabled: Boolean(userId) && (options.enabled ?? true),
+  });
+}
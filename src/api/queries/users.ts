@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { apiClient, type User } from '@/api/client';
+import { queryKeys } from '@/api/queries/keys';
+
+export function useUsers(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.users.list,
+    queryFn: () => apiClient.getUsers(),
+    enabled: options.enabled ?? true,
+  });
+}
+
+export function useDoctors(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: queryKeys.users.doctors,
+    queryFn: () => apiClient.getDoctors(),
+    enabled: options.enabled ?? true,
+  });
+}
+
+// Users appear in both the admin list and the doctors list, so patch every cached copy
+const patchUserLists = (queryClient: QueryClient, userId: string, patch: Partial<User>) => {
+  for (const key of [queryKeys.users.list, queryKeys.users.doctors]) {
+    queryClient.setQueryData<User[]>(key, (prev) => prev?.map((u) => (u.id === userId ? { ...u, ...patch } : u)));
+  }
+};
+
+const snapshotUserLists = (queryClient: QueryClient) => ({
+  list: queryClient.getQueryData<User[]>(queryKeys.users.list),
+  doctors: queryClient.getQueryData<User[]>(queryKeys.users.doctors),
+});
+
+export function useUpdateUserRole() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ userId, role }: { userId: string; role: User['role'] }) => apiClient.updateUserRole(userId, role),
+    onSuccess: (updated, { userId }) => patchUserLists(queryClient, userId, updated),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.users.all }),
+  });
+}
+
+export function useUpdateDoctorApproval() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ userId, doctorApproved }: { userId: string; doctorApproved: boolean }) =>
+      apiClient.updateDoctorApproval(userId, doctorApproved),
+    // Flip the switch immediately and roll back if the backend rejects it
+    onMutate: async ({ userId, doctorApproved }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.users.all });
+      const previous = snapshotUserLists(queryClient);
+      patchUserLists(queryClient, userId, { doctorApproved });
+      return { previous };
+    },
+    onError: (_error, _vars, context) => {
+      if (!context) return;
+      queryClient.setQueryData(queryKeys.users.list, context.previous.list);
+      queryClient.setQueryData(queryKeys.users.doctors, context.previous.doctors);
+    },
+    onSuccess: (updated, { userId }) => patchUserLists(queryClient, userId, updated),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.users.all }),
+  });
+}
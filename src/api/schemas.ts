@@ -0,0 +1,669 @@
+// Runtime schemas for backend payloads and the forms that produce requests
+import { z } from 'zod';
+import { ResponseValidationError } from '@/api/errors';
+import { isValidTimeZone } from '@/utils/timezone';
+import { DOSE_FREQUENCY_CODES, PRESCRIPTION_ROUTES } from '@/utils/prescriptions';
+import { MAX_PBKDF2_ITERATIONS, PBKDF2_ITERATIONS } from '@/utils/keyDerivation';
+import { MIN_PASSPHRASE_LENGTH } from '@/utils/userKeys';
+import type {
+  User,
+  Appointment,
+  Prescription,
+  PrescriptionItem,
+  PrescriptionAcknowledgement,
+  MedicalProfile,
+  MedicalDocument,
+  DocumentVersion,
+  UserKeyBundle,
+  KeyBackup,
+  KeyBackupContents,
+  DocumentGrant,
+  LiverAssessment,
+  LiverMeasurements,
+  LiverAssessmentResult,
+  DoctorAvailability,
+  BusySlot,
+  AppointmentChange,
+  AppointmentSeries,
+  TurnCredentials,
+  IceServerOverride,
+} from '@/api/client';
+
+type Schema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Without strictNullChecks zod infers every object key as optional, so the
+// entity schemas are pinned to the hand-written interfaces instead
+const entity = <T>(schema: z.ZodTypeAny): Schema<T> => schema as Schema<T>;
+
+/**
+ * The backend mixes Mongo `_id` with `id` and snake_case with camelCase depending
+ * on the endpoint. Copy each alias onto its canonical key (when that key is
+ * missing) before validation so the schemas below only describe one shape.
+ */
+const normalise = (aliases: Record<string, string[]>, defaults: Record<string, unknown> = {}) => (raw: unknown) => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return raw;
+  const r = raw as Record<string, unknown>;
+  const out: Record<string, unknown> = { ...r };
+  for (const [key, alts] of Object.entries(aliases)) {
+    if (out[key] !== undefined && out[key] !== null) continue;
+    const alt = alts.find((a) => r[a] !== undefined && r[a] !== null);
+    if (alt) out[key] = r[alt];
+  }
+  for (const [key, value] of Object.entries(defaults)) {
+    if (out[key] === undefined || out[key] === null) out[key] = value;
+  }
+  return out;
+};
+
+// Optional fields arrive as either null or missing; the entity types use undefined
+const optionalString = z.string().nullish().transform((v) => v ?? undefined);
+const id = z.string().min(1, 'Missing id');
+const timestamp = z.string().min(1, 'Missing timestamp');
+
+const userRoleSchema = z.enum(['patient', 'doctor', 'admin']);
+
+const userShape = z.object({
+  id,
+  name: z.string().default(''),
+  email: z.string(),
+  role: userRoleSchema,
+  doctorApproved: z.boolean().optional(),
+  phone: optionalString,
+  timezone: optionalString,
+});
+
+const userAliases = { id: ['_id'], name: ['full_name', 'fullName'], doctorApproved: ['doctor_approved'], timezone: ['time_zone'] };
+
+export const userSchema = entity<User>(z.preprocess(normalise(userAliases), userShape));
+
+/**
+ * A populated `patient`/`doctor` reference. Populated refs often omit role and
+ * email; the slot tells us the role. Unpopulated refs (a bare id) become null.
+ */
+const userRefSchema = (role: User['role']) =>
+  entity<User | null>(
+    z.union([
+      z.preprocess(normalise(userAliases, { role, email: '' }), userShape),
+      z.string(),
+      z.null(),
+      z.undefined(),
+    ]).transform((v) => (v && typeof v === 'object' ? v : null))
+  );
+
+export const appointmentStatusSchema = z.enum(['requested', 'confirmed', 'cancelled', 'completed']);
+
+export const appointmentSchema = entity<Appointment>(z.preprocess(
+  normalise({
+    id: ['_id'],
+    startAt: ['start_at'],
+    endAt: ['end_at'],
+    cancellationReason: ['cancellation_reason'],
+    seriesId: ['series_id', 'series'],
+    seriesIndex: ['series_index'],
+    createdAt: ['created_at'],
+    updatedAt: ['updated_at'],
+  }),
+  z.object({
+    id,
+    startAt: timestamp,
+    endAt: optionalString,
+    status: appointmentStatusSchema,
+    notes: optionalString,
+    cancellationReason: optionalString,
+    seriesId: optionalString,
+    seriesIndex: z.number().int().positive().nullish().transform((v) => v ?? undefined),
+    patient: userRefSchema('patient'),
+    doctor: userRefSchema('doctor'),
+    createdAt: optionalString,
+    updatedAt: optionalString,
+  })
+));
+
+export const appointmentChangeSchema = entity<AppointmentChange>(z.preprocess(
+  normalise({
+    id: ['_id'],
+    previousStartAt: ['previous_start_at'],
+    newStartAt: ['new_start_at'],
+    previousStatus: ['previous_status'],
+    newStatus: ['new_status'],
+    at: ['createdAt', 'created_at'],
+  }),
+  z.object({
+    id,
+    action: z.enum(['created', 'cancelled', 'rescheduled', 'status_changed']),
+    actor: z.preprocess(normalise(userAliases, { email: '' }), userShape).nullish(),
+    reason: optionalString,
+    previousStartAt: optionalString,
+    newStartAt: optionalString,
+    previousStatus: appointmentStatusSchema.optional(),
+    newStatus: appointmentStatusSchema.optional(),
+    at: timestamp,
+  })
+));
+
+const recurrenceFrequencySchema = z.enum(['weekly', 'monthly']);
+
+export const appointmentSeriesSchema = entity<AppointmentSeries>(z.preprocess(
+  normalise({ id: ['_id'], sourceAppointmentId: ['source_appointment_id'], createdAt: ['created_at'] }, { appointments: [] }),
+  z.object({
+    id,
+    frequency: recurrenceFrequencySchema,
+    interval: z.number().int().positive(),
+    occurrences: z.number().int().positive(),
+    sourceAppointmentId: optionalString,
+    appointments: z.array(appointmentSchema),
+    createdAt: optionalString,
+  })
+));
+
+const optionalCount = z.number().int().nonnegative().nullish().transform((v) => v ?? undefined);
+
+const prescriptionItemSchema = entity<PrescriptionItem>(z.preprocess(
+  normalise({ drug: ['name', 'medication'], durationDays: ['duration_days'] }, { strength: '', frequency: '', refills: 0 }),
+  z.object({
+    drug: z.string().min(1, 'Missing drug name'),
+    strength: z.string(),
+    route: optionalString,
+    frequency: z.string(),
+    durationDays: optionalCount,
+    quantity: optionalCount,
+    refills: z.number().int().nonnegative(),
+  })
+));
+
+const acknowledgementShape = z.object({
+  warningId: z.string().min(1),
+  kind: z.enum(['allergy', 'interaction', 'duplicate']),
+  severity: z.enum(['major', 'moderate']),
+  drug: z.string(),
+  conflictsWith: z.string(),
+  message: z.string(),
+  rulesetVersion: z.string(),
+  acknowledgedAt: z.string().min(1),
+});
+
+const acknowledgementSchema = entity<PrescriptionAcknowledgement>(z.preprocess(
+  normalise({
+    warningId: ['warning_id'],
+    conflictsWith: ['conflicts_with'],
+    rulesetVersion: ['ruleset_version'],
+    acknowledgedAt: ['acknowledged_at'],
+  }),
+  acknowledgementShape
+));
+
+// Prescriptions written before line items existed hold one medication/dosage pair
+const withLegacyItem = (raw: unknown) => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return raw;
+  const r = raw as Record<string, unknown>;
+  if (Array.isArray(r.items) || typeof r.medication !== 'string') return raw;
+  return { ...r, items: [{ drug: r.medication, strength: r.dosage ?? '' }] };
+};
+
+export const prescriptionSchema = entity<Prescription>(z.preprocess(
+  (raw) => normalise({ id: ['_id'], appointmentId: ['appointment_id'], createdAt: ['created_at'] })(withLegacyItem(raw)),
+  z.object({
+    id,
+    items: z.array(prescriptionItemSchema).min(1, 'Prescription has no items'),
+    instructions: z.string().nullish().transform((v) => v ?? null),
+    appointmentId: optionalString,
+    signature: optionalString,
+    acknowledgements: z.array(acknowledgementSchema).nullish().transform((v) => v ?? []),
+    patient: userRefSchema('patient'),
+    doctor: userRefSchema('doctor'),
+    createdAt: timestamp,
+  })
+));
+
+export const medicalProfileSchema = entity<MedicalProfile>(z.preprocess(
+  normalise(
+    { patientId: ['patient_id', 'userId', 'user_id'], currentMedications: ['current_medications'], updatedAt: ['updated_at'] },
+    { allergies: [], currentMedications: [] }
+  ),
+  z.object({
+    patientId: id,
+    allergies: z.array(z.string()),
+    currentMedications: z.array(z.string()),
+    updatedAt: optionalString,
+  })
+));
+
+export const documentCategorySchema = z.enum(['lab_report', 'imaging', 'discharge_summary', 'prescription', 'insurance', 'other']);
+
+// The stored file and how it is encrypted, shared by a document and each of its versions
+const documentContentAliases = {
+  id: ['_id'],
+  originalName: ['original_name'],
+  mimeType: ['mime_type'],
+  createdAt: ['created_at'],
+  encryptionScheme: ['encryption_scheme'],
+  encryptionFormat: ['encryption_format'],
+  encryptionNonce: ['encryption_nonce'],
+  encryptionKeyId: ['encryption_key_id'],
+  wrappedKey: ['wrapped_key'],
+};
+
+const documentContentShape = {
+  id,
+  originalName: z.string(),
+  mimeType: z.string(),
+  size: z.number().nonnegative(),
+  createdAt: timestamp,
+  encrypted: z.boolean().nullish().transform((v) => v ?? false),
+  encryptionScheme: z.enum(['derived-v0', 'envelope-v1']).nullish().transform((v) => v ?? undefined),
+  encryptionFormat: z.enum(['single', 'chunked-v1', 'chunked-v2']).nullish().transform((v) => (v === 'single' ? undefined : v ?? undefined)),
+  encryptionNonce: optionalString,
+  encryptionKeyId: optionalString,
+  wrappedKey: optionalString,
+};
+
+const withLegacyScheme = <T extends { encrypted: boolean; encryptionScheme?: 'derived-v0' | 'envelope-v1' }>(doc: T): T =>
+  doc.encrypted && !doc.encryptionScheme ? { ...doc, encryptionScheme: 'derived-v0' as const } : doc;
+
+export const medicalDocumentSchema = entity<MedicalDocument>(z.preprocess(
+  normalise({
+    ...documentContentAliases,
+    patientId: ['patient_id'],
+    patientName: ['patient_name'],
+    patientEmail: ['patient_email'],
+    grantExpiresAt: ['grant_expires_at'],
+    serviceDate: ['service_date'],
+    appointmentId: ['appointment_id'],
+    versionId: ['version_id'],
+  }, { category: 'other', tags: [], version: 1 }),
+  z.object({
+    ...documentContentShape,
+    // Presigned URLs are fetched on demand, so list responses may omit it
+    url: z.string().nullish().transform((v) => v ?? ''),
+    patientId: optionalString,
+    patientName: z.string().nullish().transform((v) => v ?? null),
+    patientEmail: z.string().nullish().transform((v) => v ?? null),
+    grantExpiresAt: optionalString,
+    // Unknown categories from newer backends fall back rather than failing the whole list
+    category: documentCategorySchema.catch('other'),
+    serviceDate: optionalString,
+    tags: z.array(z.string()),
+    appointmentId: optionalString,
+    version: z.number().int().positive(),
+    versionId: optionalString,
+  }).transform(withLegacyScheme)
+));
+
+export const documentVersionSchema = entity<DocumentVersion>(z.preprocess(
+  normalise({ ...documentContentAliases, documentId: ['document_id', 'document'], version: ['version_number'] }),
+  z.object({ ...documentContentShape, documentId: z.string().min(1), version: z.number().int().positive() }).transform(withLegacyScheme)
+));
+
+export const documentGrantSchema = entity<DocumentGrant>(z.preprocess(
+  normalise({
+    id: ['_id'],
+    documentId: ['document_id', 'document'],
+    doctorId: ['doctor_id'],
+    expiresAt: ['expires_at'],
+    createdAt: ['created_at'],
+  }),
+  z.object({
+    id,
+    documentId: id,
+    doctorId: id,
+    doctor: userRefSchema('doctor'),
+    expiresAt: timestamp,
+    createdAt: optionalString,
+  })
+));
+
+// Key bundles and backup files say how to derive their key; bound the work so a crafted one can't hang the KDF or skip it
+const kdfSchema = z.object({
+  algorithm: z.literal('PBKDF2-SHA256'),
+  salt: z.string().min(1),
+  iterations: z
+    .number()
+    .int()
+    .min(PBKDF2_ITERATIONS, `Key derivation needs at least ${PBKDF2_ITERATIONS} iterations`)
+    .max(MAX_PBKDF2_ITERATIONS, `Key derivation allows at most ${MAX_PBKDF2_ITERATIONS} iterations`),
+});
+
+export const userKeyBundleSchema = entity<UserKeyBundle>(z.preprocess(
+  normalise({
+    publicKey: ['public_key'],
+    encryptedPrivateKey: ['encrypted_private_key'],
+    privateKeyNonce: ['private_key_nonce'],
+    createdAt: ['created_at'],
+  }),
+  z.object({
+    version: z.literal(1),
+    publicKey: z.string().min(1),
+    encryptedPrivateKey: z.string().min(1),
+    privateKeyNonce: z.string().min(1),
+    kdf: kdfSchema,
+    createdAt: optionalString,
+  })
+));
+
+const timeZoneSchema = z.string().refine(isValidTimeZone, 'Unknown timezone');
+
+const hhmm = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Times must be HH:mm');
+
+const timeRangeShape = z.object({
+  dayOfWeek: z.number().int().min(0).max(6),
+  start: hhmm,
+  end: hhmm,
+});
+
+const timeRangeSchema = z.preprocess(normalise({ dayOfWeek: ['day_of_week', 'day'] }), timeRangeShape);
+
+export const doctorAvailabilitySchema = entity<DoctorAvailability>(z.preprocess(
+  normalise(
+    { doctorId: ['doctor_id', 'doctor'], timezone: ['time_zone'], slotMinutes: ['slot_minutes'], daysOff: ['days_off'] },
+    { slotMinutes: 30, weekly: [], breaks: [], daysOff: [] }
+  ),
+  z.object({
+    doctorId: id,
+    // Older records have none; apiClient fills it in and sets timezoneAssumed
+    timezone: timeZoneSchema.optional(),
+    slotMinutes: z.number().int().positive(),
+    weekly: z.array(timeRangeSchema),
+    breaks: z.array(timeRangeSchema),
+    daysOff: z.array(z.string()),
+  })
+));
+
+export const busySlotSchema = entity<BusySlot>(z.preprocess(
+  normalise({ startAt: ['start_at'], endAt: ['end_at'] }),
+  z.object({ startAt: timestamp, endAt: timestamp })
+));
+
+export const liverMeasurementsSchema = entity<LiverMeasurements>(z.object({
+  Age: z.number(),
+  TB: z.number(),
+  DB: z.number(),
+  ALKP: z.number(),
+  SGPT: z.number(),
+  SGOT: z.number(),
+  TP: z.number(),
+  ALB: z.number(),
+  AGR: z.number(),
+  Gender: z.union([z.literal(0), z.literal(1)]),
+}));
+
+const liverAssessmentResultSchema = entity<LiverAssessmentResult>(z.object({
+  prediction: z.number().optional(),
+  prediction_label: z.string().optional(),
+  probability: z.object({ no_disease: z.number().optional(), disease: z.number().optional() }).optional(),
+  confidence: z.number().optional(),
+}));
+
+export const liverAssessmentSchema = entity<LiverAssessment>(z.preprocess(
+  normalise({ id: ['_id'], patientId: ['patient_id'], patientName: ['patient_name'], patientEmail: ['patient_email'], createdAt: ['created_at'] }),
+  z.object({
+    id,
+    patientId: optionalString,
+    patientName: z.string().nullish().transform((v) => v ?? null),
+    patientEmail: z.string().nullish().transform((v) => v ?? null),
+    measurements: liverMeasurementsSchema,
+    result: liverAssessmentResultSchema.nullish().transform((v) => v ?? null),
+    createdAt: timestamp,
+  })
+));
+
+// Envelopes around the entities
+export const authTokenSchema = z.object({ accessToken: z.string().min(1), user: z.unknown() });
+export const currentUserSchema = z.object({ user: userSchema });
+export const uploadUrlSchema = z.object({ uploadUrl: z.string().min(1), s3Key: z.string().min(1) });
+export const downloadUrlSchema = z.object({ downloadUrl: z.string().min(1) });
+export const multipartUploadSchema = z.preprocess(
+  normalise({ uploadId: ['upload_id'], s3Key: ['s3_key'], partSize: ['part_size'] }),
+  z.object({ uploadId: z.string().min(1), s3Key: z.string().min(1), partSize: z.number().int().positive() })
+);
+export const partUrlsSchema = z.object({
+  urls: z.array(z.preprocess(normalise({ partNumber: ['part_number'] }), z.object({ partNumber: z.number().int().positive(), url: z.string().min(1) }))),
+});
+export const publicKeySchema = z.preprocess(normalise({ publicKey: ['public_key'] }), z.object({ publicKey: z.string().min(1) }));
+export const liverAssessmentEnvelopeSchema = z.object({ assessment: liverAssessmentSchema });
+export const liverAssessmentListSchema = z.object({ assessments: z.array(liverAssessmentSchema) });
+
+// ICE servers: STUN needs only its URLs, TURN also a username and credential
+const iceUrl = z.string().regex(/^(stuns?|turns?):\S+$/i, 'ICE server URLs start with stun:, stuns:, turn: or turns:');
+const isTurnUrl = (url: string) => /^turns?:/i.test(url);
+
+export const iceServerSchema = entity<RTCIceServer>(
+  z
+    .object({ urls: z.union([iceUrl, z.array(iceUrl).min(1)]), username: optionalString, credential: optionalString })
+    .refine((server) => ![server.urls].flat().some(isTurnUrl) || (server.username && server.credential), {
+      message: 'TURN servers need a username and credential',
+    })
+);
+export const iceServerListSchema = z.array(iceServerSchema).min(1, 'Add at least one ICE server');
+
+export const iceServerOverrideSchema = entity<IceServerOverride>(z.preprocess(
+  normalise({ iceServers: ['ice_servers'], relayOnly: ['relay_only'] }),
+  z.object({ iceServers: iceServerListSchema, relayOnly: z.boolean().default(false) })
+));
+
+// The TURN API used to return a bare server list; it now wraps it with the credentials' lifetime
+export const turnCredentialsSchema = entity<TurnCredentials>(z.preprocess(
+  (raw) => (Array.isArray(raw) ? { iceServers: raw } : normalise({ iceServers: ['ice_servers'], expiresAt: ['expires_at'] })(raw)),
+  z.object({
+    iceServers: iceServerListSchema,
+    ttl: z.number().positive().optional(),
+    // Epoch seconds or milliseconds, or an ISO timestamp
+    expiresAt: z
+      .union([z.number().positive(), z.string().datetime({ offset: true })])
+      .transform((value) => (typeof value === 'string' ? Date.parse(value) : value < 1e12 ? value * 1000 : value))
+      .optional(),
+  })
+));
+
+/** Validate a payload, throwing ResponseValidationError (an ApiError) on mismatch */
+export function parseResponse<T>(schema: Schema<T>, raw: unknown, entity: string): T {
+  const result = schema.safeParse(raw);
+  if (!result.success) throw new ResponseValidationError(entity, result.error.issues, raw);
+  return result.data;
+}
+
+/** Validate an array payload item by item; one malformed record fails the whole list */
+export function parseResponseList<T>(schema: Schema<T>, raw: unknown, entity: string): T[] {
+  return parseResponse(z.array(schema), raw, entity);
+}
+
+// Request payloads, shared by apiClient and the forms that build them
+
+export const appointmentRequestSchema = z.object({
+  doctorId: z.string().min(1, 'Please choose a doctor'),
+  startAt: z
+    .string()
+    .datetime({ message: 'Invalid appointment date or time' })
+    .refine((v) => new Date(v).getTime() > Date.now(), 'Appointment time must be in the future'),
+  endAt: z.string().datetime().optional(),
+  notes: z.string().max(1000, 'Notes must be 1000 characters or fewer').optional(),
+});
+
+export type AppointmentRequest = z.infer<typeof appointmentRequestSchema>;
+
+const changeReason = z
+  .string()
+  .trim()
+  .min(5, 'Please give a reason (at least 5 characters)')
+  .max(500, 'Reason must be 500 characters or fewer');
+
+export const cancelRequestSchema = z.object({ reason: changeReason });
+
+export const rescheduleRequestSchema = appointmentRequestSchema
+  .pick({ startAt: true, endAt: true })
+  .extend({ reason: changeReason });
+
+export type RescheduleRequest = z.infer<typeof rescheduleRequestSchema>;
+
+export const MAX_SERIES_OCCURRENCES = 26;
+
+export const recurrenceRuleSchema = z.object({
+  frequency: recurrenceFrequencySchema,
+  interval: z.number().int('Repeat interval must be a whole number').min(1, 'Repeat at least every 1 week or month').max(12, 'Repeat at most every 12 weeks or months'),
+  occurrences: z
+    .number()
+    .int('Number of appointments must be a whole number')
+    .min(2, 'A series needs at least 2 appointments')
+    .max(MAX_SERIES_OCCURRENCES, `A series can have at most ${MAX_SERIES_OCCURRENCES} appointments`),
+});
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+const occurrenceRequestSchema = z.object({
+  startAt: z.string().datetime(),
+  endAt: z.string().datetime(),
+});
+
+// Dates are planned client-side (see utils/recurrence) so the doctor books exactly what the preview showed
+export const seriesRequestSchema = recurrenceRuleSchema.extend({
+  sourceAppointmentId: z.string().min(1, 'Missing source appointment'),
+  appointments: z.array(occurrenceRequestSchema).min(1, 'None of the follow-up dates fall on a working day'),
+});
+
+export type SeriesRequest = z.infer<typeof seriesRequestSchema>;
+
+export const seriesScopeSchema = z.enum(['this', 'following', 'all']);
+
+export const seriesUpdateRequestSchema = z
+  .object({
+    scope: seriesScopeSchema,
+    appointmentId: z.string().min(1),
+    /** New wall-clock start in the doctor's timezone; each occurrence keeps its date and length */
+    startTime: hhmm.optional(),
+    status: appointmentStatusSchema.optional(),
+    reason: z.string().trim().max(500, 'Reason must be 500 characters or fewer').optional(),
+  })
+  .refine((v) => Boolean(v.startTime || v.status), 'Choose a new time or status for the series');
+
+export type SeriesUpdateRequest = z.infer<typeof seriesUpdateRequestSchema>;
+
+const wholeNumber = (label: string, min: number, max: number) =>
+  z
+    .number({ required_error: `${label} is required`, invalid_type_error: `${label} is required` })
+    .int(`${label} must be a whole number`)
+    .min(min, `${label} must be at least ${min}`)
+    .max(max, `${label} must be ${max} or less`);
+
+export const prescriptionItemRequestSchema = z.object({
+  drug: z.string().trim().min(1, 'Drug name is required').max(200, 'Drug name is too long'),
+  strength: z.string().trim().min(1, 'Strength is required, e.g. 500 mg').max(100, 'Strength is too long'),
+  route: z.enum(PRESCRIPTION_ROUTES, { errorMap: () => ({ message: 'Please choose a route' }) }),
+  frequency: z.enum(DOSE_FREQUENCY_CODES, { errorMap: () => ({ message: 'Please choose how often to take it' }) }),
+  durationDays: wholeNumber('Duration', 1, 365),
+  quantity: wholeNumber('Quantity', 1, 1000),
+  refills: wholeNumber('Refills', 0, 12),
+});
+
+export type PrescriptionItemRequest = z.infer<typeof prescriptionItemRequestSchema>;
+
+export const prescriptionRequestSchema = z.object({
+  patientId: z.string().min(1, 'Please select a patient'),
+  appointmentId: z.string().min(1, 'Please choose the appointment this prescription is for'),
+  items: z
+    .array(prescriptionItemRequestSchema)
+    .min(1, 'Add at least one drug')
+    .max(20, 'A prescription can hold at most 20 drugs'),
+  instructions: z.string().trim().max(2000, 'Instructions must be 2000 characters or fewer').optional(),
+  acknowledgements: z.array(acknowledgementShape).default([]),
+});
+
+export type PrescriptionRequest = z.infer<typeof prescriptionRequestSchema>;
+
+const profileEntries = (label: string) =>
+  z
+    .array(z.string().trim().min(1).max(100, `${label} entries must be 100 characters or fewer`))
+    .max(50, `At most 50 ${label.toLowerCase()}`);
+
+export const medicalProfileRequestSchema = z.object({
+  allergies: profileEntries('Allergies'),
+  currentMedications: profileEntries('Medications'),
+});
+
+export type MedicalProfileRequest = z.infer<typeof medicalProfileRequestSchema>;
+
+export const documentGrantRequestSchema = z.object({
+  doctorId: z.string().min(1, 'Choose a doctor to share with'),
+  expiresAt: z.string().refine((value) => Date.parse(value) > Date.now(), 'Access must expire in the future'),
+});
+
+export type DocumentGrantRequest = z.infer<typeof documentGrantRequestSchema>;
+
+export const MAX_DOCUMENT_TAGS = 20;
+
+export const documentMetadataRequestSchema = z.object({
+  category: documentCategorySchema,
+  serviceDate: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Enter the date of service as YYYY-MM-DD')
+    // en-CA formats the local date as YYYY-MM-DD
+    .refine((value) => value <= new Date().toLocaleDateString('en-CA'), 'The date of service cannot be in the future')
+    .optional(),
+  // Tags are compared case-insensitively, so store them lower-cased and without duplicates
+  tags: z
+    .array(z.string().trim().toLowerCase().min(1).max(40, 'Tags must be 40 characters or fewer'))
+    .max(MAX_DOCUMENT_TAGS, `At most ${MAX_DOCUMENT_TAGS} tags`)
+    .transform((tags) => [...new Set(tags)]),
+  appointmentId: z.string().min(1).optional(),
+});
+
+export type DocumentMetadataRequest = z.infer<typeof documentMetadataRequestSchema>;
+
+export const passphraseSetupSchema = z
+  .object({
+    passphrase: z.string().min(MIN_PASSPHRASE_LENGTH, `Use at least ${MIN_PASSPHRASE_LENGTH} characters for your passphrase`),
+    confirm: z.string(),
+  })
+  .refine((value) => value.passphrase === value.confirm, { message: 'Passphrases do not match', path: ['confirm'] });
+
+export const keyBackupSchema = entity<KeyBackup>(z.object({
+  format: z.literal('arogyanet-key-backup'),
+  version: z.literal(1),
+  userId: z.string().min(1),
+  createdAt: z.string().min(1),
+  publicKey: z.string().min(1),
+  kdf: kdfSchema,
+  nonce: z.string().min(1),
+  sealed: z.string().min(1),
+}));
+
+export const keyBackupContentsSchema = entity<KeyBackupContents>(z.object({
+  privateKey: z.string().min(1),
+  localKeys: z.array(
+    z.object({
+      id: z.string().min(1),
+      key: z.string().min(1),
+      createdAt: z.string(),
+      label: z.string().optional(),
+    })
+  ),
+}));
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Reject empty or inverted ranges and ranges that overlap another one on the same day
+const checkRanges = (label: string) => (ranges: { dayOfWeek: number; start: string; end: string }[], ctx: z.RefinementCtx) => {
+  ranges.forEach((range, i) => {
+    if (range.start >= range.end) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i], message: `${label} on ${DAY_NAMES[range.dayOfWeek]} must end after it starts` });
+      return;
+    }
+    const overlap = ranges.findIndex(
+      (other, j) => j < i && other.dayOfWeek === range.dayOfWeek && other.start < range.end && range.start < other.end
+    );
+    if (overlap !== -1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i], message: `${label} on ${DAY_NAMES[range.dayOfWeek]} overlap` });
+    }
+  });
+};
+
+export const availabilityRequestSchema = z.object({
+  timezone: timeZoneSchema,
+  slotMinutes: z.number().int().min(10, 'Slots must be at least 10 minutes').max(240, 'Slots must be 4 hours or shorter'),
+  weekly: z.array(timeRangeShape).superRefine(checkRanges('Working hours')),
+  breaks: z.array(timeRangeShape).superRefine(checkRanges('Breaks')),
+  daysOff: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Days off must be yyyy-MM-dd')),
+});
+
+export type AvailabilityRequest = z.infer<typeof availabilityRequestSchema>;
+
+/** First human-readable message from a failed form validation */
+export const firstIssue = (error: z.ZodError): string => error.issues[0]?.message ?? 'Invalid input';
@@ -0,0 +1,181 @@
+// Presigned S3 multipart uploads with per-part retry, resumable from IndexedDB (utils/uploadStore)
+import { request } from '@/api/http';
+import { ApiError } from '@/api/errors';
+import { multipartUploadSchema, partUrlsSchema, parseResponse } from '@/api/schemas';
+import { deletePendingUpload, isUploadStoreAvailable, savePendingUpload, type CompletedPart, type PendingUpload } from '@/utils/uploadStore';
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 500;
+/** Parts in flight at once */
+const CONCURRENCY = 3;
+
+export interface MultipartOptions {
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+const cancelledError = () => new ApiError('Upload cancelled', { status: 0, code: 'UPLOAD_CANCELLED' });
+
+export const isUploadCancelled = (err: unknown): boolean => err instanceof ApiError && err.code === 'UPLOAD_CANCELLED';
+
+// Exponential backoff with jitter: ~0.5s, 1s, 2s, 4s
+const backoff = (attempt: number) => BASE_DELAY_MS * 2 ** attempt + Math.random() * BASE_DELAY_MS;
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// XHR rather than fetch because only XHR reports upload progress
+function putPart(url: string, body: Blob, signal: AbortSignal | undefined, onProgress: (loaded: number) => void): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    const onAbort = () => xhr.abort();
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        return reject(new ApiError(`Failed to upload part (${xhr.status})`, { status: xhr.status, code: 'S3_UPLOAD_FAILED', details: xhr.responseText }));
+      }
+      const etag = xhr.getResponseHeader('ETag');
+      if (!etag) {
+        return reject(new ApiError('Storage did not return an ETag; the bucket CORS rules must expose it', { status: xhr.status, code: 'S3_ETAG_MISSING' }));
+      }
+      resolve(etag);
+    };
+    xhr.onerror = () => reject(new ApiError('Network error while uploading to storage', { status: 0 }));
+    xhr.onabort = () => reject(cancelledError());
+    xhr.onloadend = () => signal?.removeEventListener('abort', onAbort);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.send(body);
+  });
+}
+
+const isRetryable = (err: unknown) =>
+  err instanceof ApiError && !isUploadCancelled(err) && (err.status === 0 || err.status === 403 || err.status === 408 || err.status === 429 || err.status >= 500);
+
+async function partUrls(upload: PendingUpload, partNumbers: number[]): Promise<Map<number, string>> {
+  const data = await request<unknown>(`/api/documents/multipart/${encodeURIComponent(upload.id)}/part-urls`, {
+    method: 'POST',
+    body: { s3Key: upload.s3Key, partNumbers },
+  });
+  const { urls } = parseResponse(partUrlsSchema, data, 'part URLs');
+  return new Map(urls.map((u) => [u.partNumber, u.url]));
+}
+
+/** Open a multipart upload for an encrypted blob and remember it for resuming */
+export async function startMultipartUpload(
+  userId: string,
+  blob: Blob,
+  confirm: PendingUpload['confirm'],
+  confirmPath?: string
+): Promise<PendingUpload> {
+  const data = await request<unknown>('/api/documents/multipart', {
+    method: 'POST',
+    body: { originalName: confirm.originalName, mimeType: 'application/octet-stream', size: blob.size },
+  });
+  const { uploadId, s3Key, partSize } = parseResponse(multipartUploadSchema, data, 'multipart upload');
+  const upload: PendingUpload = { id: uploadId, userId, s3Key, partSize, blob, parts: [], confirm, confirmPath, createdAt: new Date().toISOString() };
+  if (isUploadStoreAvailable()) {
+    // Without storage the upload still works, it just can't survive a reload
+    await savePendingUpload(upload).catch((err) => console.warn('[Upload] Could not save upload for resuming:', err));
+  }
+  return upload;
+}
+
+/** Upload every part not already recorded, then complete the multipart upload */
+export async function runMultipartUpload(upload: PendingUpload, options: MultipartOptions = {}): Promise<void> {
+  // One failed part stops the others instead of letting them upload for nothing
+  const stop = new AbortController();
+  const cancel = () => stop.abort();
+  options.signal?.addEventListener('abort', cancel, { once: true });
+  if (options.signal?.aborted) stop.abort();
+  try {
+    await uploadParts(upload, options, stop);
+  } finally {
+    // The caller's signal may outlive this upload, e.g. one shared by every upload in a panel
+    options.signal?.removeEventListener('abort', cancel);
+  }
+}
+
+async function uploadParts(upload: PendingUpload, options: MultipartOptions, stop: AbortController): Promise<void> {
+  const { onProgress } = options;
+  const signal = stop.signal;
+
+  const total = upload.blob.size;
+  const partCount = Math.max(1, Math.ceil(total / upload.partSize));
+  const done = new Map(upload.parts.map((p) => [p.partNumber, p.etag]));
+  const partLength = (n: number) => Math.min(upload.partSize, total - (n - 1) * upload.partSize);
+
+  const inFlight = new Map<number, number>();
+  let completedBytes = [...done.keys()].reduce((sum, n) => sum + partLength(n), 0);
+  const report = () => onProgress?.(completedBytes + [...inFlight.values()].reduce((a, b) => a + b, 0), total);
+  report();
+
+  const queue = Array.from({ length: partCount }, (_, i) => i + 1).filter((n) => !done.has(n));
+  let urls = queue.length ? await partUrls(upload, queue) : new Map<number, string>();
+
+  const uploadOne = async (partNumber: number) => {
+    const start = (partNumber - 1) * upload.partSize;
+    const body = upload.blob.slice(start, start + partLength(partNumber));
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) throw cancelledError();
+      try {
+        const etag = await putPart(urls.get(partNumber), body, signal, (loaded) => {
+          inFlight.set(partNumber, loaded);
+          report();
+        });
+        inFlight.delete(partNumber);
+        completedBytes += body.size;
+        done.set(partNumber, etag);
+        report();
+        upload.parts = [...done].map(([n, e]): CompletedPart => ({ partNumber: n, etag: e }));
+        if (isUploadStoreAvailable()) await savePendingUpload(upload).catch(() => undefined);
+        return;
+      } catch (err) {
+        inFlight.delete(partNumber);
+        if (!isRetryable(err) || attempt + 1 >= MAX_ATTEMPTS) throw err;
+        console.warn(`[Upload] Part ${partNumber} failed, retrying (attempt ${attempt + 2} of ${MAX_ATTEMPTS}):`, err);
+        await sleep(backoff(attempt), signal);
+        // Presigned URLs expire; a 403 usually means this one has
+        if (err instanceof ApiError && err.status === 403) urls = new Map([...urls, ...(await partUrls(upload, [partNumber]))]);
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(CONCURRENCY, queue.length) }, async () => {
+    for (let next = queue.shift(); next !== undefined; next = queue.shift()) await uploadOne(next);
+  });
+  try {
+    await Promise.all(workers);
+  } catch (err) {
+    stop.abort();
+    // The caller cancelled rather than a part failing
+    if (options.signal?.aborted) throw cancelledError();
+    throw err;
+  }
+
+  await request(`/api/documents/multipart/${encodeURIComponent(upload.id)}/complete`, {
+    method: 'POST',
+    body: { s3Key: upload.s3Key, parts: [...done].sort(([a], [b]) => a - b).map(([partNumber, etag]) => ({ partNumber, etag })) },
+  });
+}
+
+/** Tell S3 to drop the uploaded parts and forget the upload locally */
+export async function abortMultipartUpload(upload: Pick<PendingUpload, 'id' | 's3Key'>): Promise<void> {
+  try {
+    await request(`/api/documents/multipart/${encodeURIComponent(upload.id)}`, { method: 'DELETE', body: { s3Key: upload.s3Key } });
+  } finally {
+    if (isUploadStoreAvailable()) await deletePendingUpload(upload.id).catch(() => undefined);
+  }
+}
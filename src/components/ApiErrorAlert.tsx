@@ -0,0 +1,47 @@
+import { AlertTriangle, RefreshCcw, WifiOff, LogIn } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { describeApiError, toApiError } from "@/api/errors";
+
+interface ApiErrorAlertProps {
+  error: unknown;
+  onRetry?: () => void;
+  className?: string;
+}
+
+// Inline error state for a dashboard section that failed to load
+export const ApiErrorAlert = ({ error, onRetry, className }: ApiErrorAlertProps) => {
+  const navigate = useNavigate();
+  const apiError = toApiError(error);
+  const { title, description } = describeApiError(apiError);
+  const Icon = apiError.kind === "network" ? WifiOff : AlertTriangle;
+
+  return (
+    <Alert variant="destructive" className={className}>
+      <Icon className="h-4 w-4" />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>{description}</p>
+        {apiError.status >= 400 ? (
+          <p className="text-xs opacity-70">Error {apiError.status} · {apiError.code}</p>
+        ) : apiError.kind === "invalid_response" && (
+          <p className="text-xs opacity-70">{apiError.code}</p>
+        )}
+        <div className="flex gap-2">
+          {apiError.kind === "unauthorized" ? (
+            <Button size="sm" variant="outline" onClick={() => navigate("/auth")} className="gap-2">
+              <LogIn className="h-4 w-4" /> Sign in
+            </Button>
+          ) : onRetry && (
+            <Button size="sm" variant="outline" onClick={onRetry} className="gap-2">
+              <RefreshCcw className="h-4 w-4" /> Try again
+            </Button>
+          )}
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default ApiErrorAlert;
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { describeApiError, isApiError, type Appointment } from "@/api/client";
+import { useCancelAppointment, useRescheduleAppointment } from "@/api/queries";
+import { cancelRequestSchema, rescheduleRequestSchema, firstIssue } from "@/api/schemas";
+import { SlotPicker } from "@/components/SlotPicker";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { getChangePolicy } from "@/utils/appointments";
+import type { Slot } from "@/utils/availability";
+import { formatForBoth, formatWithZone } from "@/utils/timezone";
+
+export type AppointmentChangeMode = "cancel" | "reschedule";
+
+interface AppointmentChangeDialogProps {
+  appointment: Appointment | null;
+  mode: AppointmentChangeMode;
+  onOpenChange: (open: boolean) => void;
+  /** Called after the backend accepted the change */
+  onChanged?: (updated: Appointment, reason: string) => void;
+}
+
+// Patient-side cancel / reschedule, both requiring a reason and honouring the change cutoff
+export const AppointmentChangeDialog = ({ appointment, mode, onOpenChange, onChanged }: AppointmentChangeDialogProps) => {
+  const cancelAppointment = useCancelAppointment();
+  const rescheduleAppointment = useRescheduleAppointment();
+  const [reason, setReason] = useState("");
+  const [date, setDate] = useState<Date>();
+  const [slot, setSlot] = useState<Slot>();
+  const saving = cancelAppointment.isPending || rescheduleAppointment.isPending;
+
+  // Start from a clean form each time the dialog opens for an appointment
+  useEffect(() => {
+    setReason("");
+    setDate(undefined);
+    setSlot(undefined);
+  }, [appointment?.id, mode]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!appointment) return;
+
+    // Re-check here: the dialog may have been open while the cutoff passed
+    const policy = getChangePolicy(appointment);
+    if (!policy.allowed) {
+      toast.error(policy.reason);
+      return;
+    }
+
+    try {
+      if (mode === "cancel") {
+        const parsed = cancelRequestSchema.safeParse({ reason });
+        if (!parsed.success) {
+          toast.error(firstIssue(parsed.error));
+          return;
+        }
+        const updated = await cancelAppointment.mutateAsync({ appointment, reason: parsed.data.reason });
+        toast.success("Appointment cancelled");
+        onChanged?.(updated, parsed.data.reason);
+      } else {
+        if (!slot) {
+          toast.error("Please choose a new date and time");
+          return;
+        }
+        const parsed = rescheduleRequestSchema.safeParse({
+          startAt: slot.startAt.toISOString(),
+          endAt: slot.endAt.toISOString(),
+          reason,
+        });
+        if (!parsed.success) {
+          toast.error(firstIssue(parsed.error));
+          return;
+        }
+        const updated = await rescheduleAppointment.mutateAsync({ appointment, change: parsed.data });
+        toast.success(`Appointment moved to ${formatWithZone(updated.startAt)}`);
+        onChanged?.(updated, parsed.data.reason);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      if (mode === "reschedule" && isApiError(error) && error.kind === "conflict") {
+        setSlot(undefined);
+        toast.error("That slot was just booked by someone else. Please pick another time.");
+        return;
+      }
+      const action = mode === "cancel" ? "cancel" : "reschedule";
+      toast.error(`Failed to ${action} appointment: ` + describeApiError(error).description);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(appointment)} onOpenChange={(open) => !saving && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{mode === "cancel" ? "Cancel appointment" : "Reschedule appointment"}</DialogTitle>
+            <DialogDescription>
+              {appointment && (
+                <>
+                  Dr. {appointment.doctor?.name || "N/A"} · {formatForBoth(appointment.startAt, appointment.doctor?.timezone, "for the doctor")}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {mode === "reschedule" && appointment && (
+            <SlotPicker
+              doctorId={appointment.doctor?.id}
+              date={date}
+              onDateChange={setDate}
+              slot={slot}
+              onSlotChange={setSlot}
+            />
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="change-reason">Reason</Label>
+            <Textarea
+              id="change-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={mode === "cancel" ? "Why are you cancelling?" : "Why do you need to move this appointment?"}
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">Your doctor will be notified and sees this reason.</p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Keep appointment
+            </Button>
+            <Button type="submit" variant={mode === "cancel" ? "destructive" : "default"} disabled={saving}>
+              {saving ? "Saving..." : mode === "cancel" ? "Cancel appointment" : "Reschedule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AppointmentChangeDialog;
@@ -0,0 +1,65 @@
+import { History } from "lucide-react";
+import type { Appointment, AppointmentChange } from "@/api/client";
+import { useAppointmentHistory } from "@/api/queries";
+import { ApiErrorAlert } from "@/components/ApiErrorAlert";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { formatWithZone } from "@/utils/timezone";
+
+interface AppointmentHistoryDialogProps {
+  appointment: Appointment | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const describeChange = (change: AppointmentChange): string => {
+  switch (change.action) {
+    case "created":
+      return `Booked for ${formatWithZone(change.newStartAt)}`;
+    case "cancelled":
+      return "Cancelled";
+    case "rescheduled":
+      return `Moved from ${formatWithZone(change.previousStartAt)} to ${formatWithZone(change.newStartAt)}`;
+    default:
+      return `Status changed from ${change.previousStatus ?? "?"} to ${change.newStatus ?? "?"}`;
+  }
+};
+
+// Audit trail of an appointment, newest change first
+export const AppointmentHistoryDialog = ({ appointment, onOpenChange }: AppointmentHistoryDialogProps) => {
+  const historyQuery = useAppointmentHistory(appointment?.id);
+  const changes = [...(historyQuery.data ?? [])].sort((a, b) => b.at.localeCompare(a.at));
+
+  return (
+    <Dialog open={Boolean(appointment)} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" /> Appointment history
+          </DialogTitle>
+          <DialogDescription>Every change made to this appointment and who made it</DialogDescription>
+        </DialogHeader>
+        {historyQuery.error ? (
+          <ApiErrorAlert error={historyQuery.error} onRetry={() => historyQuery.refetch()} />
+        ) : historyQuery.isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading history...</p>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes recorded yet.</p>
+        ) : (
+          <ol className="space-y-3 max-h-[400px] overflow-y-auto">
+            {changes.map((change) => (
+              <li key={change.id} className="border-l-2 border-primary/40 pl-3">
+                <div className="text-sm font-medium">{describeChange(change)}</div>
+                <div className="text-xs text-muted-foreground">
+                  {formatWithZone(change.at)}
+                  {change.actor && ` · ${change.actor.name || change.actor.email} (${change.actor.role})`}
+                </div>
+                {change.reason && <div className="text-xs sm:text-sm mt-1">“{change.reason}”</div>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AppointmentHistoryDialog;
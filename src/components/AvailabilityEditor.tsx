@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Plus, Trash2, Save, Coffee, Clock, Globe } from "lucide-react";
+import { toast } from "sonner";
+import { describeApiError, type TimeRange } from "@/api/client";
+import { useDoctorAvailability, useUpdateDoctorAvailability } from "@/api/queries";
+import { availabilityRequestSchema, firstIssue } from "@/api/schemas";
+import { ApiErrorAlert } from "@/components/ApiErrorAlert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toDateKey } from "@/utils/availability";
+import { browserTimeZone, listTimeZones } from "@/utils/timezone";
+
+// Monday first, the way most clinics lay out their week
+const WEEK = [
+  { day: 1, label: "Monday" },
+  { day: 2, label: "Tuesday" },
+  { day: 3, label: "Wednesday" },
+  { day: 4, label: "Thursday" },
+  { day: 5, label: "Friday" },
+  { day: 6, label: "Saturday" },
+  { day: 0, label: "Sunday" },
+];
+
+const SLOT_LENGTHS = [15, 20, 30, 45, 60];
+
+const timeZones = listTimeZones();
+
+interface AvailabilityEditorProps {
+  doctorId: string;
+}
+
+interface RangeListProps {
+  ranges: TimeRange[];
+  day: number;
+  icon: typeof Clock;
+  onChange: (index: number, range: TimeRange) => void;
+  onRemove: (index: number) => void;
+}
+
+// Ranges stay in one flat list; each row edits its entry in place by index
+const RangeRows = ({ ranges, day, icon: Icon, onChange, onRemove }: RangeListProps) => (
+  <>
+    {ranges.map((range, index) =>
+      range.dayOfWeek !== day ? null : (
+        <div key={index} className="flex items-center gap-2">
+          <Icon className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+          <Input
+            type="time"
+            value={range.start}
+            onChange={(e) => onChange(index, { ...range, start: e.target.value })}
+            className="w-28"
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="time"
+            value={range.end}
+            onChange={(e) => onChange(index, { ...range, end: e.target.value })}
+            className="w-28"
+          />
+          <Button type="button" variant="ghost" size="icon" onClick={() => onRemove(index)} aria-label="Remove">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )
+    )}
+  </>
+);
+
+// Weekly working hours, breaks and days off for the signed-in doctor
+const AvailabilityEditor = ({ doctorId }: AvailabilityEditorProps) => {
+  const availabilityQuery = useDoctorAvailability(doctorId);
+  const updateAvailability = useUpdateDoctorAvailability();
+  const [timezone, setTimezone] = useState(browserTimeZone);
+  const [slotMinutes, setSlotMinutes] = useState(30);
+  const [weekly, setWeekly] = useState<TimeRange[]>([]);
+  const [breaks, setBreaks] = useState<TimeRange[]>([]);
+  const [daysOff, setDaysOff] = useState<string[]>([]);
+
+  // Reset the draft whenever a fresh copy arrives from the server
+  useEffect(() => {
+    const saved = availabilityQuery.data;
+    if (!saved) return;
+    setTimezone(saved.timezone);
+    setSlotMinutes(saved.slotMinutes);
+    setWeekly(saved.weekly);
+    setBreaks(saved.breaks);
+    setDaysOff(saved.daysOff);
+  }, [availabilityQuery.data]);
+
+  const updateAt = (setter: typeof setWeekly) => (index: number, range: TimeRange) =>
+    setter((prev) => prev.map((r, i) => (i === index ? range : r)));
+  const removeAt = (setter: typeof setWeekly) => (index: number) =>
+    setter((prev) => prev.filter((_, i) => i !== index));
+
+  const handleSave = async () => {
+    const parsed = availabilityRequestSchema.safeParse({ timezone, slotMinutes, weekly, breaks, daysOff: [...daysOff].sort() });
+    if (!parsed.success) {
+      toast.error(firstIssue(parsed.error));
+      return;
+    }
+    try {
+      await updateAvailability.mutateAsync({ doctorId, availability: parsed.data });
+      toast.success("Availability saved");
+    } catch (error) {
+      toast.error("Failed to save availability: " + describeApiError(error).description);
+    }
+  };
+
+  if (availabilityQuery.error) {
+    return <ApiErrorAlert error={availabilityQuery.error} onRetry={() => availabilityQuery.refetch()} />;
+  }
+
+  return (
+    <div className="grid gap-4 sm:gap-6 grid-cols-1 lg:grid-cols-3">
+      <Card className="lg:col-span-2">
+        <CardHeader>
+          <CardTitle className="text-lg sm:text-xl">Weekly Hours</CardTitle>
+          <CardDescription className="text-sm">
+            Patients can only book slots inside these hours and outside your breaks. Times are in your timezone; patients see their local equivalent too.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Label className="flex items-center gap-1">
+              <Globe className="h-4 w-4" /> Timezone
+            </Label>
+            <Select value={timezone} onValueChange={setTimezone}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="max-h-72">
+                {timeZones.map((zone) => (
+                  <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {availabilityQuery.data?.timezoneAssumed && (
+              <p className="w-full text-xs text-amber-700">
+                Your saved hours have no timezone, so {availabilityQuery.data.timezone} is assumed. Check it and save to confirm.
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <Label>Appointment length</Label>
+            <Select value={String(slotMinutes)} onValueChange={(v) => setSlotMinutes(Number(v))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SLOT_LENGTHS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {availabilityQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading schedule...</p>
+          ) : (
+            <div className="divide-y">
+              {WEEK.map(({ day, label }) => {
+                const working = weekly.some((r) => r.dayOfWeek === day);
+                return (
+                  <div key={day} className="py-3 flex flex-col sm:flex-row sm:items-start gap-2 sm:gap-4">
+                    <div className="w-28 font-medium text-sm pt-2">{label}</div>
+                    <div className="flex-1 space-y-2">
+                      {!working && <p className="text-sm text-muted-foreground pt-2">Unavailable</p>}
+                      <RangeRows ranges={weekly} day={day} icon={Clock} onChange={updateAt(setWeekly)} onRemove={removeAt(setWeekly)} />
+                      <RangeRows ranges={breaks} day={day} icon={Coffee} onChange={updateAt(setBreaks)} onRemove={removeAt(setBreaks)} />
+                      <div className="flex gap-2">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setWeekly((prev) => [...prev, { dayOfWeek: day, start: "09:00", end: "17:00" }])}
+                        >
+                          <Plus className="h-3 w-3 mr-1" /> Hours
+                        </Button>
+                        {working && (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setBreaks((prev) => [...prev, { dayOfWeek: day, start: "12:00", end: "13:00" }])}
+                          >
+                            <Plus className="h-3 w-3 mr-1" /> Break
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg sm:text-xl">Days Off</CardTitle>
+          <CardDescription className="text-sm">Select dates when you are not taking appointments</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Calendar
+            mode="multiple"
+            selected={daysOff.map((d) => parseISO(d))}
+            onSelect={(dates) => setDaysOff((dates ?? []).map(toDateKey))}
+            disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
+            className="pointer-events-auto rounded-md border"
+          />
+          <div className="flex flex-wrap gap-2">
+            {[...daysOff].sort().map((d) => (
+              <Badge key={d} variant="secondary">{format(parseISO(d), "PP")}</Badge>
+            ))}
+          </div>
+          <Button onClick={handleSave} disabled={updateAvailability.isPending} className="w-full touch-target">
+            <Save className="h-4 w-4 mr-2" />
+            {updateAvailability.isPending ? "Saving..." : "Save Availability"}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AvailabilityEditor;
@@ -0,0 +1,169 @@
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Mic, Video, Volume2 } from 'lucide-react';
+import { MediaDeviceSelects } from '@/components/MediaDeviceSelects';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { useMediaDevices } from '@/hooks/useMediaDevices';
+import {
+  callConstraints,
+  describeMediaError,
+  loadDeviceChoice,
+  openLocalMedia,
+  playTestTone,
+  saveDeviceChoice,
+  stopMedia,
+  watchAudioLevel,
+  type MediaDeviceChoice,
+  type MediaErrorHelp,
+} from '@/utils/localMedia';
+
+interface CallLobbyProps {
+  /** e.g. "Start call" */
+  joinLabel: string;
+  /** False until the call can be placed, such as while the socket connects */
+  canJoin: boolean;
+  /** Hands over the previewed camera and microphone; the call stops them when it ends */
+  onJoin: (stream: MediaStream) => void;
+}
+
+// Pre-call device check: camera preview, microphone meter, speaker test and device pickers
+export const CallLobby = ({ joinLabel, canJoin, onJoin }: CallLobbyProps) => {
+  const { devices, refresh } = useMediaDevices();
+  const [choice, setChoice] = useState<MediaDeviceChoice>(loadDeviceChoice);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [mediaError, setMediaError] = useState<MediaErrorHelp | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [toneError, setToneError] = useState<string | null>(null);
+  const [playingTone, setPlayingTone] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // The stream given to the call, which the preview must no longer stop
+  const handedOffRef = useRef<MediaStream | null>(null);
+  const { audioinput, videoinput, audiooutput } = choice;
+
+  // Reopen the preview whenever another camera or microphone is picked (or on retry)
+  useEffect(() => {
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+    setMediaError(null);
+    openLocalMedia(callConstraints({ audioinput, videoinput })).then(
+      (next) => {
+        if (cancelled) {
+          stopMedia(next);
+          return;
+        }
+        opened = next;
+        setStream(next);
+        // Device labels only show up once access is granted
+        refresh();
+      },
+      (error) => {
+        if (cancelled) return;
+        console.error('❌ Error accessing media devices:', error);
+        setStream(null);
+        setMediaError(describeMediaError(error));
+      }
+    );
+    return () => {
+      cancelled = true;
+      if (opened !== handedOffRef.current) stopMedia(opened);
+    };
+  }, [audioinput, videoinput, attempt, refresh]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  useEffect(() => {
+    setLevel(0);
+    if (!stream) return;
+    return watchAudioLevel(stream, setLevel);
+  }, [stream]);
+
+  const pick = (kind: MediaDeviceKind, deviceId: string) => {
+    const next = { ...choice, [kind]: deviceId };
+    setChoice(next);
+    saveDeviceChoice(next);
+  };
+
+  const testSpeaker = async () => {
+    setToneError(null);
+    setPlayingTone(true);
+    try {
+      await playTestTone(audiooutput);
+    } catch (error) {
+      setToneError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setPlayingTone(false);
+    }
+  };
+
+  const join = () => {
+    if (!stream) return;
+    handedOffRef.current = stream;
+    onJoin(stream);
+  };
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Card className="relative aspect-video bg-black overflow-hidden">
+        {stream ? (
+          <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover -scale-x-100" />
+        ) : (
+          <div className="flex items-center justify-center h-full text-white">
+            <div className="text-center">
+              <Video className="w-16 h-16 mx-auto mb-2 opacity-50" />
+              <p className="text-sm">{mediaError ? 'Camera unavailable' : 'Starting camera...'}</p>
+            </div>
+          </div>
+        )}
+        <div className="absolute top-2 left-2 bg-black/50 text-white px-2 py-1 rounded text-sm">Preview</div>
+      </Card>
+
+      <div className="space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">Check your camera and sound</h2>
+          <p className="text-sm text-muted-foreground">The other side won't see or hear you until you join.</p>
+        </div>
+
+        {mediaError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{mediaError.title}</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>{mediaError.description}</p>
+              <Button variant="outline" size="sm" onClick={() => setAttempt((n) => n + 1)}>
+                Try again
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <MediaDeviceSelects devices={devices} choice={choice} onChange={pick} />
+
+        <div className="space-y-1">
+          <p className="flex items-center gap-2 text-sm">
+            <Mic className="h-4 w-4" /> Microphone level
+          </p>
+          <Progress value={level * 100} aria-label="Microphone level" />
+          <p className="text-xs text-muted-foreground">Say something; the bar should move.</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" onClick={testSpeaker} disabled={playingTone} className="gap-2">
+            <Volume2 className="h-4 w-4" /> {playingTone ? 'Playing...' : 'Test speaker'}
+          </Button>
+          {toneError && <span className="text-sm text-destructive">Could not play the test sound: {toneError}</span>}
+        </div>
+
+        <Button size="lg" onClick={join} disabled={!stream || !canJoin} className="w-full">
+          {joinLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CallLobby;
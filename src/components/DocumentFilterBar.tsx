@@ -0,0 +1,87 @@
+import { Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DOCUMENT_CATEGORIES,
+  DOCUMENT_CATEGORY_LABELS,
+  type DocumentFilter,
+  type DocumentSort,
+} from "@/utils/documentMetadata";
+
+const ALL_TAGS = "all";
+
+const SORT_LABELS: Record<DocumentSort, string> = {
+  newest: "Newest upload",
+  oldest: "Oldest upload",
+  "service-date": "Date of service",
+  name: "Name",
+};
+
+interface DocumentFilterBarProps {
+  filter: DocumentFilter;
+  onChange: (filter: DocumentFilter) => void;
+  /** Tags present in the list being filtered */
+  tags: string[];
+}
+
+// Search box plus category, tag and sort pickers over a document list
+export const DocumentFilterBar = ({ filter, onChange, tags }: DocumentFilterBarProps) => {
+  const set = <K extends keyof DocumentFilter>(key: K, next: DocumentFilter[K]) => onChange({ ...filter, [key]: next });
+
+  return (
+    <div className="flex flex-col gap-2 sm:flex-row sm:flex-wrap">
+      <div className="relative flex-1 min-w-[180px]">
+        <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          className="pl-8"
+          placeholder="Search name, tags, category..."
+          value={filter.query}
+          onChange={(e) => set("query", e.target.value)}
+          aria-label="Search documents"
+        />
+      </div>
+      <Select value={filter.category} onValueChange={(category) => set("category", category as DocumentFilter["category"])}>
+        <SelectTrigger className="sm:w-[170px]" aria-label="Category">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All categories</SelectItem>
+          {DOCUMENT_CATEGORIES.map((category) => (
+            <SelectItem key={category} value={category}>
+              {DOCUMENT_CATEGORY_LABELS[category]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {tags.length > 0 && (
+        <Select value={filter.tag || ALL_TAGS} onValueChange={(tag) => set("tag", tag === ALL_TAGS ? "" : tag)}>
+          <SelectTrigger className="sm:w-[150px]" aria-label="Tag">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TAGS}>All tags</SelectItem>
+            {tags.map((tag) => (
+              <SelectItem key={tag} value={tag}>
+                #{tag}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Select value={filter.sort} onValueChange={(sort) => set("sort", sort as DocumentSort)}>
+        <SelectTrigger className="sm:w-[160px]" aria-label="Sort by">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(SORT_LABELS) as DocumentSort[]).map((sort) => (
+            <SelectItem key={sort} value={sort}>
+              {SORT_LABELS[sort]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default DocumentFilterBar;
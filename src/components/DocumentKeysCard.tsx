@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { KeyRound, Lock, LockOpen, RefreshCw, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { describeApiError } from "@/api/client";
+import { useDocuments, useMigrateDocumentEncryption } from "@/api/queries";
+import { passphraseSetupSchema, firstIssue } from "@/api/schemas";
+import { ApiErrorAlert } from "@/components/ApiErrorAlert";
+import { KeyBackupDialog } from "@/components/KeyBackupDialog";
+import { KeyRestoreDialog } from "@/components/KeyRestoreDialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/useAuth";
+import { useKeyVault } from "@/hooks/useKeyVault";
+import { isKeyVaultError, publicKeyFingerprint } from "@/utils/userKeys";
+
+interface DocumentKeysCardProps {
+  className?: string;
+}
+
+// Create, unlock, lock, back up and restore the user's document key pair, and move old derived-key documents onto it
+export const DocumentKeysCard = ({ className }: DocumentKeysCardProps) => {
+  const { user } = useAuth();
+  const vault = useKeyVault();
+  const documentsQuery = useDocuments({ enabled: vault.status === "unlocked" });
+  const migrateDocument = useMigrateDocumentEncryption();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [working, setWorking] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [backupOpen, setBackupOpen] = useState(false);
+  const [restoreOpen, setRestoreOpen] = useState(false);
+
+  // Only the owner can migrate: the old key is derived from their id
+  const legacyDocuments = (documentsQuery.data ?? []).filter(
+    (doc) => doc.encryptionScheme === "derived-v0" && (doc.patientId ?? user?.id) === user?.id
+  );
+
+  const handleSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = passphraseSetupSchema.safeParse({ passphrase, confirm });
+    if (!parsed.success) {
+      toast.error(firstIssue(parsed.error));
+      return;
+    }
+    setWorking(true);
+    try {
+      await vault.setup(parsed.data.passphrase);
+      toast.success("Document keys created");
+      setPassphrase("");
+      setConfirm("");
+    } catch (error) {
+      toast.error("Failed to create keys: " + describeApiError(error).description);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setWorking(true);
+    try {
+      await vault.unlock(passphrase);
+      setPassphrase("");
+    } catch (error) {
+      toast.error(isKeyVaultError(error) ? error.message : "Failed to unlock: " + describeApiError(error).description);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleMigrate = async () => {
+    const pending = legacyDocuments;
+    setProgress({ done: 0, total: pending.length });
+    for (const [index, document] of pending.entries()) {
+      try {
+        await migrateDocument.mutateAsync({ document, userId: user.id });
+        setProgress({ done: index + 1, total: pending.length });
+      } catch (error) {
+        toast.error(`Could not re-encrypt ${document.originalName}: ${describeApiError(error).description}`);
+        setProgress(null);
+        return;
+      }
+    }
+    toast.success(`Re-encrypted ${pending.length} document${pending.length === 1 ? "" : "s"}`);
+    setProgress(null);
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg sm:text-xl flex items-center gap-2">
+          <KeyRound className="h-5 w-5" /> Document Keys
+        </CardTitle>
+        <CardDescription className="text-sm">
+          Documents are encrypted in your browser with keys only your passphrase can unlock.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {vault.status === "loading" && <p className="text-sm text-muted-foreground">Loading...</p>}
+
+        {vault.status === "error" && (
+          <ApiErrorAlert error={vault.bundleQuery.error} onRetry={() => vault.bundleQuery.refetch()} />
+        )}
+
+        {vault.status === "missing" && (
+          <form onSubmit={handleSetup} className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Choose a passphrase to create your keys. It never leaves this device and can't be reset for you, so keep
+              it somewhere safe.
+            </p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div>
+                <Label htmlFor="key-passphrase">Passphrase</Label>
+                <Input id="key-passphrase" type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} autoComplete="new-password" />
+              </div>
+              <div>
+                <Label htmlFor="key-passphrase-confirm">Confirm passphrase</Label>
+                <Input id="key-passphrase-confirm" type="password" value={confirm} onChange={(e) => setConfirm(e.target.value)} autoComplete="new-password" />
+              </div>
+            </div>
+            <Button type="submit" disabled={working} className="touch-target">
+              {working ? "Creating keys..." : "Create keys"}
+            </Button>
+          </form>
+        )}
+
+        {vault.status === "locked" && (
+          <form onSubmit={handleUnlock} className="flex flex-col gap-2 sm:flex-row sm:items-end">
+            <div className="flex-1">
+              <Label htmlFor="key-unlock">Passphrase</Label>
+              <Input id="key-unlock" type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} autoComplete="current-password" />
+            </div>
+            <Button type="submit" disabled={working || !passphrase} className="touch-target">
+              <LockOpen className="h-4 w-4 mr-2" />
+              {working ? "Unlocking..." : "Unlock"}
+            </Button>
+          </form>
+        )}
+
+        {vault.status === "unlocked" && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span>
+                Unlocked for this session · key <span className="font-mono">{publicKeyFingerprint(vault.bundle.publicKey)}</span>
+              </span>
+              <Button type="button" variant="outline" size="sm" onClick={vault.lock}>
+                <Lock className="h-4 w-4 mr-1" /> Lock
+              </Button>
+            </div>
+            {legacyDocuments.length > 0 && (
+              <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-900 space-y-2">
+                <p>
+                  {legacyDocuments.length} document{legacyDocuments.length === 1 ? " uses" : "s use"} the old
+                  account-derived encryption. Re-encrypt {legacyDocuments.length === 1 ? "it" : "them"} with your new keys.
+                </p>
+                <Button type="button" size="sm" onClick={handleMigrate} disabled={Boolean(progress)}>
+                  <RefreshCw className={`h-4 w-4 mr-1 ${progress ? "animate-spin" : ""}`} />
+                  {progress ? `Re-encrypting ${Math.min(progress.done + 1, progress.total)} of ${progress.total}...` : "Re-encrypt now"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+
+        {(vault.status === "missing" || vault.status === "locked" || vault.status === "unlocked") && (
+          <div className="flex flex-wrap items-center gap-2 border-t pt-3 text-sm">
+            {vault.status === "unlocked" ? (
+              <Button type="button" variant="outline" size="sm" onClick={() => setBackupOpen(true)}>
+                <ShieldCheck className="h-4 w-4 mr-1" /> Create recovery backup
+              </Button>
+            ) : (
+              <span className="text-muted-foreground">
+                {vault.status === "locked" ? "Forgot your passphrase, or on a new device?" : "Already have keys from another device?"}
+              </span>
+            )}
+            <Button type="button" variant="link" size="sm" className="px-0" onClick={() => setRestoreOpen(true)}>
+              Restore or check a backup
+            </Button>
+          </div>
+        )}
+      </CardContent>
+      <KeyBackupDialog open={backupOpen} onOpenChange={setBackupOpen} vault={vault} />
+      <KeyRestoreDialog open={restoreOpen} onOpenChange={setRestoreOpen} vault={vault} />
+    </Card>
+  );
+};
+
+export default DocumentKeysCard;
@@ -0,0 +1,30 @@
+import type { Appointment, MedicalDocument } from "@/api/client";
+import { DOCUMENT_CATEGORY_LABELS } from "@/utils/documentMetadata";
+import { formatWithZone } from "@/utils/timezone";
+
+interface DocumentMetaSummaryProps {
+  document: MedicalDocument;
+  /** Used to describe the linked appointment; without it only the link's presence is shown */
+  appointments?: Appointment[];
+}
+
+// One line of category, date of service, appointment link and tags under a document's name
+export const DocumentMetaSummary = ({ document, appointments }: DocumentMetaSummaryProps) => {
+  const appointment = document.appointmentId ? appointments?.find((a) => a.id === document.appointmentId) : undefined;
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+      <span className="rounded bg-primary/10 px-1.5 py-0.5 text-primary">{DOCUMENT_CATEGORY_LABELS[document.category]}</span>
+      {document.version > 1 && <span>v{document.version}</span>}
+      {document.serviceDate && <span>Service {document.serviceDate}</span>}
+      {document.appointmentId && <span>· Appointment {appointment ? formatWithZone(appointment.startAt) : "linked"}</span>}
+      {document.tags.map((tag) => (
+        <span key={tag} className="rounded bg-muted px-1.5 py-0.5">
+          #{tag}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default DocumentMetaSummary;
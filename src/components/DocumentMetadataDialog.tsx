@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { describeApiError, type Appointment, type MedicalDocument } from "@/api/client";
+import { useUpdateDocumentMetadata } from "@/api/queries";
+import { DocumentMetadataFields } from "@/components/DocumentMetadataFields";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { EMPTY_METADATA_FORM, metadataFormFor, parseMetadataForm } from "@/utils/documentMetadata";
+
+interface DocumentMetadataDialogProps {
+  document: MedicalDocument | null;
+  onOpenChange: (open: boolean) => void;
+  appointments?: Appointment[];
+}
+
+// Change an uploaded document's category, date of service, tags and appointment link
+export const DocumentMetadataDialog = ({ document, onOpenChange, appointments }: DocumentMetadataDialogProps) => {
+  const updateMetadata = useUpdateDocumentMetadata();
+  const [form, setForm] = useState(EMPTY_METADATA_FORM);
+
+  useEffect(() => {
+    setForm(document ? metadataFormFor(document) : EMPTY_METADATA_FORM);
+  }, [document]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { data, error } = parseMetadataForm(form);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    try {
+      await updateMetadata.mutateAsync({ documentId: document.id, metadata: data });
+      toast.success("Document details saved");
+      onOpenChange(false);
+    } catch (err) {
+      toast.error("Failed to save: " + describeApiError(err).description);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(document)} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{document?.originalName}</DialogTitle>
+          <DialogDescription>Details used to file and find this document.</DialogDescription>
+        </DialogHeader>
+        <form id="document-metadata-form" onSubmit={handleSave}>
+          <DocumentMetadataFields value={form} onChange={setForm} appointments={appointments} idPrefix="edit-document" />
+        </form>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="submit" form="document-metadata-form" disabled={updateMetadata.isPending}>
+            {updateMetadata.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentMetadataDialog;
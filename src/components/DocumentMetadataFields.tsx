@@ -0,0 +1,85 @@
+import type { Appointment } from "@/api/client";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DOCUMENT_CATEGORIES, DOCUMENT_CATEGORY_LABELS, type DocumentMetadataForm } from "@/utils/documentMetadata";
+import { formatWithZone } from "@/utils/timezone";
+
+const NO_APPOINTMENT = "none";
+
+interface DocumentMetadataFieldsProps {
+  value: DocumentMetadataForm;
+  onChange: (value: DocumentMetadataForm) => void;
+  /** Appointments the document can be linked to; the field is hidden when omitted */
+  appointments?: Appointment[];
+  idPrefix?: string;
+}
+
+// Category, date of service, tags and appointment link for a document being uploaded or edited
+export const DocumentMetadataFields = ({ value, onChange, appointments, idPrefix = "document" }: DocumentMetadataFieldsProps) => {
+  const set = <K extends keyof DocumentMetadataForm>(key: K, next: DocumentMetadataForm[K]) => onChange({ ...value, [key]: next });
+  const today = new Date().toLocaleDateString("en-CA");
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      <div>
+        <Label htmlFor={`${idPrefix}-category`}>Category</Label>
+        <Select value={value.category} onValueChange={(category) => set("category", category as DocumentMetadataForm["category"])}>
+          <SelectTrigger id={`${idPrefix}-category`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DOCUMENT_CATEGORIES.map((category) => (
+              <SelectItem key={category} value={category}>
+                {DOCUMENT_CATEGORY_LABELS[category]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-service-date`}>Date of service</Label>
+        <Input
+          id={`${idPrefix}-service-date`}
+          type="date"
+          max={today}
+          value={value.serviceDate}
+          onChange={(e) => set("serviceDate", e.target.value)}
+        />
+      </div>
+      <div className={appointments ? "" : "sm:col-span-2"}>
+        <Label htmlFor={`${idPrefix}-tags`}>Tags</Label>
+        <Input
+          id={`${idPrefix}-tags`}
+          placeholder="e.g. liver, follow-up"
+          value={value.tags}
+          onChange={(e) => set("tags", e.target.value)}
+        />
+      </div>
+      {appointments && (
+        <div>
+          <Label htmlFor={`${idPrefix}-appointment`}>Appointment</Label>
+          <Select
+            value={value.appointmentId || NO_APPOINTMENT}
+            onValueChange={(id) => set("appointmentId", id === NO_APPOINTMENT ? "" : id)}
+          >
+            <SelectTrigger id={`${idPrefix}-appointment`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_APPOINTMENT}>Not linked</SelectItem>
+              {appointments.map((appointment) => (
+                <SelectItem key={appointment.id} value={appointment.id}>
+                  {formatWithZone(appointment.startAt)}
+                  {appointment.doctor?.name ? ` · Dr. ${appointment.doctor.name}` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentMetadataFields;
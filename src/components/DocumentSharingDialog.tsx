@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { Share2, UserX } from "lucide-react";
+import { toast } from "sonner";
+import { describeApiError, type MedicalDocument } from "@/api/client";
+import { useDoctors, useDocumentGrants, usePublicKey, useRevokeDocumentGrant, useShareDocument } from "@/api/queries";
+import { documentGrantRequestSchema, firstIssue } from "@/api/schemas";
+import { ApiErrorAlert } from "@/components/ApiErrorAlert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useKeyVault } from "@/hooks/useKeyVault";
+import { publicKeyFingerprint } from "@/utils/userKeys";
+import { formatWithZone } from "@/utils/timezone";
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+];
+
+interface DocumentSharingDialogProps {
+  document: MedicalDocument | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Grant one doctor time-limited access to a document, and revoke earlier grants
+export const DocumentSharingDialog = ({ document, onOpenChange }: DocumentSharingDialogProps) => {
+  const { user } = useAuth();
+  const vault = useKeyVault();
+  const open = Boolean(document);
+  const grantsQuery = useDocumentGrants(document?.id, { enabled: open });
+  const doctorsQuery = useDoctors({ enabled: open });
+  const shareDocument = useShareDocument();
+  const revokeGrant = useRevokeDocumentGrant();
+  const [doctorId, setDoctorId] = useState("");
+  const [expiryDays, setExpiryDays] = useState("7");
+  const doctorKeyQuery = usePublicKey(doctorId, { enabled: open });
+
+  useEffect(() => {
+    setDoctorId("");
+    setExpiryDays("7");
+  }, [document?.id]);
+
+  const doctors = (doctorsQuery.data ?? []).filter((d) => d.doctorApproved !== false);
+  const grants = grantsQuery.data ?? [];
+  const canShare = document?.encryptionScheme === "envelope-v1" && vault.status === "unlocked";
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!document) return;
+    const parsed = documentGrantRequestSchema.safeParse({
+      doctorId,
+      expiresAt: new Date(Date.now() + Number(expiryDays) * 24 * 60 * 60 * 1000).toISOString(),
+    });
+    if (!parsed.success) {
+      toast.error(firstIssue(parsed.error));
+      return;
+    }
+    try {
+      await shareDocument.mutateAsync({ document, userId: user.id, grant: parsed.data });
+      toast.success("Document shared");
+      setDoctorId("");
+    } catch (error) {
+      toast.error("Failed to share: " + describeApiError(error).description);
+    }
+  };
+
+  const handleRevoke = async (grantId: string) => {
+    try {
+      await revokeGrant.mutateAsync({ documentId: document.id, grantId });
+      toast.success("Access revoked");
+    } catch (error) {
+      toast.error("Failed to revoke: " + describeApiError(error).description);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5" /> Share {document?.originalName}
+          </DialogTitle>
+          <DialogDescription>
+            The doctor gets their own copy of this document's key. Revoking removes it; access also ends on its own at the
+            expiry date.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Shared with</Label>
+          {grantsQuery.error ? (
+            <ApiErrorAlert error={grantsQuery.error} onRetry={() => grantsQuery.refetch()} />
+          ) : grantsQuery.isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : grants.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Not shared with anyone.</p>
+          ) : (
+            <ul className="space-y-2">
+              {grants.map((grant) => {
+                const expired = new Date(grant.expiresAt).getTime() <= Date.now();
+                return (
+                  <li key={grant.id} className="flex items-center justify-between gap-2 rounded border p-2 text-sm">
+                    <div>
+                      <div className="font-medium">Dr. {grant.doctor?.name || "Unknown"}</div>
+                      <div className={`text-xs ${expired ? "text-destructive" : "text-muted-foreground"}`}>
+                        {expired ? "Expired" : "Until"} {formatWithZone(grant.expiresAt)}
+                      </div>
+                    </div>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRevoke(grant.id)}
+                      disabled={revokeGrant.isPending}
+                    >
+                      <UserX className="h-4 w-4 mr-1" /> {expired ? "Remove" : "Revoke"}
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {document?.encryptionScheme !== "envelope-v1" ? (
+          <p className="rounded bg-yellow-50 p-2 text-sm text-yellow-900">
+            This document still uses the old encryption. Re-encrypt it from the Document Keys card before sharing.
+          </p>
+        ) : vault.status !== "unlocked" ? (
+          <p className="rounded bg-muted p-2 text-sm">Unlock your document keys to share this document.</p>
+        ) : null}
+
+        {canShare && (
+          <form id="share-document-form" onSubmit={handleShare} className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <Label>Doctor</Label>
+                <Select value={doctorId} onValueChange={setDoctorId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a doctor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {doctors.map((doctor) => (
+                      <SelectItem key={doctor.id} value={doctor.id}>
+                        Dr. {doctor.name || "Unnamed"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Access for</Label>
+                <Select value={expiryDays} onValueChange={setExpiryDays}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.days} value={String(option.days)}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {doctorId && doctorKeyQuery.data === null && (
+              <p className="text-sm text-destructive">This doctor hasn't set up document keys yet.</p>
+            )}
+            {doctorKeyQuery.data && (
+              <p className="text-xs text-muted-foreground">
+                Doctor's key <span className="font-mono">{publicKeyFingerprint(doctorKeyQuery.data)}</span>
+              </p>
+            )}
+          </form>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {canShare && (
+            <Button type="submit" form="share-document-form" disabled={shareDocument.isPending || !doctorKeyQuery.data}>
+              {shareDocument.isPending ? "Sharing..." : "Share"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentSharingDialog;
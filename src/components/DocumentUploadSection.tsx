@@ -1,46 +1,47 @@
 import { useEffect, useState } from "react";
 import { motion } from "framer-motion";
-import { Upload, FileText, CheckCircle, AlertCircle, Loader2, Lock, Shield } from "lucide-react";
+import { Upload, FileText, CheckCircle, AlertCircle, Loader2, Lock, Shield, Share2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
-import { apiClient, type MedicalDocument } from "@/api/client";
-import { viewDocument, getViewActionText } from "@/utils/documentViewer";
+import { apiClient, describeApiError, type MedicalDocument } from "@/api/client";
+import { useDocuments } from "@/api/queries";
+import { useDocumentUploader } from "@/hooks/useDocumentUploader";
+import { transferLabel } from "@/utils/transferProgress";
+import { describeDecryptionFailure } from "@/utils/documentDiagnostics";
+import DocumentKeysCard from "@/components/DocumentKeysCard";
+import DocumentSharingDialog from "@/components/DocumentSharingDialog";
+import UploadProgressPanel from "@/components/UploadProgressPanel";
+import SecureDocumentViewer, { type ViewedDocument } from "@/components/SecureDocumentViewer";
+import DocumentMetadataFields from "@/components/DocumentMetadataFields";
+import DocumentMetaSummary from "@/components/DocumentMetaSummary";
+import { EMPTY_METADATA_FORM, parseMetadataForm } from "@/utils/documentMetadata";
 
 const DocumentUploadSection = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [uploading, setUploading] = useState(false);
   const [dragActive, setDragActive] = useState(false);
-  const [documents, setDocuments] = useState<MedicalDocument[]>([]);
-  const [loadingDocs, setLoadingDocs] = useState(false);
+  const [sharing, setSharing] = useState<MedicalDocument | null>(null);
+  const [viewing, setViewing] = useState<ViewedDocument | null>(null);
+  const [metadata, setMetadata] = useState(EMPTY_METADATA_FORM);
+  const documentsQuery = useDocuments({ enabled: Boolean(user) });
+  const uploader = useDocumentUploader();
+  const documents = user ? documentsQuery.data ?? [] : [];
+  const loadingDocs = documentsQuery.isLoading;
+  const { uploading, progress } = uploader;
 
   useEffect(() => {
-    const fetchDocuments = async () => {
-      if (!user) {
-        setDocuments([]);
-        return;
-      }
-      try {
-        setLoadingDocs(true);
-        const docs = await apiClient.listDocuments();
-        setDocuments(docs);
-      } catch (error) {
-        console.error("Error loading documents:", error);
-        toast({
-          title: "Unable to load documents",
-          description: error instanceof Error ? error.message : "Please try again later",
-          variant: "destructive",
-        });
-      } finally {
-        setLoadingDocs(false);
-      }
-    };
-
-    fetchDocuments();
-  }, [user, toast]);
+    if (!documentsQuery.error) return;
+    console.error("Error loading documents:", documentsQuery.error);
+    const { title, description } = describeApiError(documentsQuery.error);
+    toast({
+      title: `Unable to load documents: ${title}`,
+      description,
+      variant: "destructive",
+    });
+  }, [documentsQuery.error, toast]);
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -102,23 +103,28 @@ const DocumentUploadSection = () => {
       return;
     }
 
-    setUploading(true);
+    const parsed = parseMetadataForm(metadata);
+    if (parsed.error) {
+      toast({ title: "Check the document details", description: parsed.error, variant: "destructive" });
+      return;
+    }
 
     try {
       if (!user?.id) {
         throw new Error("User not authenticated");
       }
 
-      const uploaded = await apiClient.uploadDocument(file, user.id);
+      const uploaded = await uploader.upload(file, parsed.data);
       if (!uploaded) {
-        throw new Error("Upload failed");
+        toast({ title: "Upload Cancelled", description: "Nothing was saved" });
+        return;
       }
 
+      setMetadata(EMPTY_METADATA_FORM);
       toast({ 
         title: "Upload Successful", 
         description: "Your document has been securely uploaded and encrypted" 
       });
-      setDocuments((prev) => [uploaded, ...prev]);
 
       // Redirect to dashboard based on role
       if (user?.role === 'patient') navigate('/patient-dashboard');
@@ -126,11 +132,9 @@ const DocumentUploadSection = () => {
       console.error('Upload error:', error);
       toast({
         title: "Upload Failed",
-        description: error instanceof Error ? error.message : "Failed to upload document",
+        description: describeApiError(error).description || "Failed to upload document",
         variant: "destructive",
       });
-    } finally {
-      setUploading(false);
     }
   };
 
@@ -164,6 +168,13 @@ const DocumentUploadSection = () => {
           transition={{ delay: 0.2 }}
           className="max-w-2xl mx-auto"
         >
+          {user && (
+            <div className="mb-6 rounded-xl border p-4">
+              <p className="mb-3 text-sm text-muted-foreground">Describe the document before you drop it in so it's easy to find later.</p>
+              <DocumentMetadataFields value={metadata} onChange={setMetadata} idPrefix="landing-upload" />
+            </div>
+          )}
+
           <div
             className={`relative border-2 border-dashed rounded-2xl p-12 transition-all ${
               dragActive
@@ -191,7 +202,7 @@ const DocumentUploadSection = () => {
               {uploading ? (
                 <>
                   <Loader2 className="w-16 h-16 text-primary animate-spin mb-4" />
-                  <p className="text-lg font-semibold mb-2">Uploading...</p>
+                  <p className="text-lg font-semibold mb-2">{progress ? transferLabel(progress) : "Uploading..."}</p>
                   <p className="text-sm text-muted-foreground">Please wait while we process your document</p>
                 </>
               ) : (
@@ -219,6 +230,10 @@ const DocumentUploadSection = () => {
             </label>
           </div>
 
+          {user && <UploadProgressPanel uploader={uploader} className="mt-6" />}
+
+          {user && <DocumentKeysCard className="mt-6" />}
+
           {/* Encryption Info */}
           <div className="mt-6 flex items-center justify-center gap-3 p-4 border rounded-lg bg-green-50 dark:bg-green-950/20 border-green-200 dark:border-green-800">
             <Lock className="w-5 h-5 text-green-600 dark:text-green-400" />
@@ -227,7 +242,7 @@ const DocumentUploadSection = () => {
                 All documents are automatically encrypted
               </p>
               <p className="text-xs text-green-700 dark:text-green-300">
-                ChaCha20 client-side encryption protects your files
+                Each file gets its own ChaCha20 key, locked with your passphrase-protected key pair
               </p>
             </div>
           </div>
@@ -314,16 +329,9 @@ const DocumentUploadSection = () => {
                               throw new Error("User not authenticated");
                             }
                             const blob = await apiClient.downloadAndDecryptDocument(doc, user.id);
-                            if (blob) {
-                              // Use Android-compatible viewing method
-                              viewDocument(blob, doc.originalName, doc.mimeType);
-                            }
+                            setViewing({ document: doc, blob });
                           } catch (error) {
-                            toast({
-                              title: "Decryption Failed",
-                              description: error instanceof Error ? error.message : "Failed to decrypt document",
-                              variant: "destructive",
-                            });
+                            toast({ ...describeDecryptionFailure(error), variant: "destructive" });
                           }
                         }
                       };
@@ -344,19 +352,27 @@ const DocumentUploadSection = () => {
                               <p className="text-xs text-muted-foreground">
                                 {(created && !Number.isNaN(created.getTime()) ? created.toLocaleString() : "Unknown date")} &bull; {sizeMb} MB
                               </p>
+                              <DocumentMetaSummary document={doc} />
                             </div>
                           </div>
-                          {doc.encrypted ? (
-                            <Button variant="outline" size="sm" onClick={handleView}>
-                              View
-                            </Button>
-                          ) : (
-                            <Button asChild variant="outline" size="sm">
-                              <a href={doc.url} target="_blank" rel="noreferrer">
+                          <div className="flex gap-2">
+                            {doc.encrypted ? (
+                              <Button variant="outline" size="sm" onClick={handleView}>
                                 View
-                              </a>
-                            </Button>
-                          )}
+                              </Button>
+                            ) : (
+                              <Button asChild variant="outline" size="sm">
+                                <a href={doc.url} target="_blank" rel="noreferrer">
+                                  View
+                                </a>
+                              </Button>
+                            )}
+                            {doc.encrypted && (
+                              <Button variant="outline" size="sm" onClick={() => setSharing(doc)}>
+                                <Share2 className="w-4 h-4 mr-1" /> Sharing
+                              </Button>
+                            )}
+                          </div>
                         </li>
                       );
                     })}
@@ -367,6 +383,8 @@ const DocumentUploadSection = () => {
           )}
         </motion.div>
       </div>
+      <DocumentSharingDialog document={sharing} onOpenChange={(open) => !open && setSharing(null)} />
+      <SecureDocumentViewer file={viewing} onOpenChange={(open) => !open && setViewing(null)} />
     </section>
   );
 };
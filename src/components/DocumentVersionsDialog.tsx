@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { Eye, History, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { describeApiError, type Appointment, type DocumentVersion, type MedicalDocument } from "@/api/client";
+import { useDocumentVersions } from "@/api/queries";
+import { ApiErrorAlert } from "@/components/ApiErrorAlert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { useDocumentUploader } from "@/hooks/useDocumentUploader";
+import { appointmentsByVersion } from "@/utils/documentVersions";
+import { formatWithZone } from "@/utils/timezone";
+import { transferLabel } from "@/utils/transferProgress";
+
+interface DocumentVersionsDialogProps {
+  document: MedicalDocument | null;
+  onOpenChange: (open: boolean) => void;
+  onView: (document: MedicalDocument, version: DocumentVersion) => void;
+  /** Appointments to mark against the version that was current when they started */
+  appointments?: Appointment[];
+  /** Only the owner can add versions; without an uploader the list is read-only */
+  uploader?: ReturnType<typeof useDocumentUploader>;
+}
+
+// A document's version history, with viewing of any version and (for the owner) uploading a replacement
+export const DocumentVersionsDialog = ({ document, onOpenChange, onView, appointments = [], uploader }: DocumentVersionsDialogProps) => {
+  const open = Boolean(document);
+  const versionsQuery = useDocumentVersions(document?.id, { enabled: open });
+  const [file, setFile] = useState<File | null>(null);
+  // Remounting the file input is the only way to clear it
+  const [inputKey, setInputKey] = useState(0);
+
+  useEffect(() => {
+    setFile(null);
+  }, [document?.id]);
+
+  const versions = [...(versionsQuery.data ?? [])].sort((a, b) => b.version - a.version);
+  const appointmentsAt = appointmentsByVersion(versions, appointments);
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!document || !file || !uploader) return;
+    try {
+      const updated = await uploader.uploadNewVersion(document, file);
+      if (!updated) {
+        toast.info("Upload cancelled");
+        return;
+      }
+      toast.success(`Version ${updated.version} uploaded`);
+      setFile(null);
+      setInputKey((k) => k + 1);
+    } catch (error) {
+      toast.error("Upload failed: " + describeApiError(error).description);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 pr-6">
+            <History className="h-5 w-5 shrink-0" /> <span className="truncate">Versions of {document?.originalName}</span>
+          </DialogTitle>
+          <DialogDescription>Every upload is kept. Sharing covers all versions.</DialogDescription>
+        </DialogHeader>
+
+        {versionsQuery.error ? (
+          <ApiErrorAlert error={versionsQuery.error} onRetry={() => versionsQuery.refetch()} />
+        ) : versionsQuery.isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <ul className="max-h-[50vh] space-y-2 overflow-y-auto">
+            {versions.map((version) => {
+              // The newest listed version, so the badge stays right after a new upload refetches the list
+              const current = version === versions[0];
+              const atAppointments = appointmentsAt.get(version.id) ?? [];
+              return (
+                <li key={version.id} className="flex items-start justify-between gap-2 rounded border p-2 text-sm">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">v{version.version}</span>
+                      <span className="truncate" title={version.originalName}>{version.originalName}</span>
+                      {current && <span className="rounded bg-primary/10 px-1.5 py-0.5 text-xs text-primary">Current</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {formatWithZone(version.createdAt)} · {(version.size / 1024 / 1024).toFixed(2)} MB
+                    </div>
+                    {atAppointments.map((appointment) => (
+                      <div key={appointment.id} className="text-xs text-muted-foreground">
+                        Current at the appointment on {formatWithZone(appointment.startAt)}
+                      </div>
+                    ))}
+                  </div>
+                  <Button type="button" size="sm" variant="outline" onClick={() => onView(document, version)}>
+                    <Eye className="h-4 w-4 mr-1" /> View
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {uploader && (
+          <form onSubmit={handleUpload} className="flex flex-col gap-2 sm:flex-row sm:items-end">
+            <div className="flex-1">
+              <Label htmlFor="document-version-file">Upload a corrected file as a new version</Label>
+              <Input
+                key={inputKey}
+                id="document-version-file"
+                type="file"
+                accept="application/pdf,image/*,.doc,.docx,.txt,.csv"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <Button type="submit" disabled={!file || uploader.uploading}>
+              <Upload className="h-4 w-4 mr-1" />
+              {uploader.uploading ? (uploader.progress ? transferLabel(uploader.progress) : "Uploading…") : "Upload version"}
+            </Button>
+            {uploader.uploading && (
+              <Button type="button" variant="outline" onClick={uploader.cancel}>
+                Cancel
+              </Button>
+            )}
+          </form>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DocumentVersionsDialog;
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { Radio, RotateCcw, Save } from "lucide-react";
+import { toast } from "sonner";
+import { describeApiError } from "@/api/client";
+import { useClearIceServerOverride, useIceServerOverride, useSaveIceServerOverride } from "@/api/queries";
+import { firstIssue, iceServerListSchema } from "@/api/schemas";
+import { ApiErrorAlert } from "@/components/ApiErrorAlert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { env } from "@/config/env";
+import { loadIceConfig, runRelayDiagnostics, type IceConfig, type RelayDiagnostics } from "@/services/iceServers";
+import { formatWithZone } from "@/utils/timezone";
+
+const EXAMPLE = '[{ "urls": "turn:turn.example.com:3478", "username": "user", "credential": "secret" }]';
+
+const SOURCE_LABELS: Record<IceConfig["source"], string> = {
+  override: "the saved override",
+  "turn-api": "the TURN API",
+  fallback: "public STUN only (no TURN)",
+};
+
+// Admin override of the ICE servers every call uses, and a relay-only gathering test
+export const IceServerSettingsCard = () => {
+  const overrideQuery = useIceServerOverride();
+  const saveOverride = useSaveIceServerOverride();
+  const clearOverride = useClearIceServerOverride();
+  const saved = overrideQuery.data ?? null;
+  const [draft, setDraft] = useState("");
+  const [relayOnly, setRelayOnly] = useState(env.iceRelayOnly);
+  const [testing, setTesting] = useState(false);
+  const [report, setReport] = useState<{ tested: string; config: IceConfig; diagnostics: RelayDiagnostics } | null>(null);
+
+  // Reset the draft whenever a fresh copy arrives from the server
+  useEffect(() => {
+    const override = overrideQuery.data;
+    if (override === undefined) return;
+    setDraft(override ? JSON.stringify(override.iceServers, null, 2) : "");
+    setRelayOnly(override?.relayOnly ?? env.iceRelayOnly);
+  }, [overrideQuery.data]);
+
+  // The draft's servers, or null (with a toast) when it isn't a valid list
+  const parseDraft = () => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(draft);
+    } catch {
+      toast.error("The server list is not valid JSON");
+      return null;
+    }
+    const parsed = iceServerListSchema.safeParse(raw);
+    if (!parsed.success) {
+      toast.error(firstIssue(parsed.error));
+      return null;
+    }
+    return parsed.data;
+  };
+
+  const save = async () => {
+    const iceServers = parseDraft();
+    if (!iceServers) return;
+    try {
+      await saveOverride.mutateAsync({ iceServers, relayOnly });
+      toast.success("ICE servers saved; every new call will use them");
+    } catch (error) {
+      toast.error("Failed to save ICE servers: " + describeApiError(error).description);
+    }
+  };
+
+  const clear = async () => {
+    try {
+      await clearOverride.mutateAsync();
+      toast.success("Calls are back on the configured ICE servers");
+    } catch (error) {
+      toast.error("Failed to clear ICE servers: " + describeApiError(error).description);
+    }
+  };
+
+  // Tests the draft when there is one, otherwise what a call would get right now
+  const runTest = async () => {
+    const draftServers = draft.trim() ? parseDraft() : undefined;
+    if (draftServers === null) return;
+    setTesting(true);
+    setReport(null);
+    try {
+      const config: IceConfig = draftServers
+        ? { iceServers: draftServers, relayOnly: true, source: "override", expiresAt: null, refreshAt: null }
+        : await loadIceConfig();
+      const tested = draftServers ? "the list above" : SOURCE_LABELS[config.source];
+      setReport({ tested, config, diagnostics: await runRelayDiagnostics(config.iceServers) });
+    } catch (error) {
+      toast.error("Relay test failed: " + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Video Call ICE Servers</CardTitle>
+        <CardDescription>
+          Calls fetch short-lived TURN credentials {env.turnApiUrl ? `from ${env.turnApiUrl}` : "(no TURN API is configured)"} for
+          each call. A saved override replaces them for every call, on all devices, until it is cleared.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {overrideQuery.error && <ApiErrorAlert error={overrideQuery.error} onRetry={() => overrideQuery.refetch()} />}
+        <div className="space-y-2">
+          <Label htmlFor="ice-servers">ICE servers (JSON)</Label>
+          <Textarea
+            id="ice-servers"
+            className="font-mono text-xs min-h-[120px]"
+            placeholder={EXAMPLE}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="ice-relay-only" checked={relayOnly} onCheckedChange={setRelayOnly} />
+          <Label htmlFor="ice-relay-only">Relay only (send all media through TURN)</Label>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={save} disabled={!draft.trim() || saveOverride.isPending} className="gap-2">
+            <Save className="h-4 w-4" /> {saveOverride.isPending ? "Saving…" : "Save override"}
+          </Button>
+          <Button variant="outline" onClick={clear} disabled={!saved || clearOverride.isPending} className="gap-2">
+            <RotateCcw className="h-4 w-4" /> Use configured servers
+          </Button>
+          <Button variant="secondary" onClick={runTest} disabled={testing} className="gap-2">
+            <Radio className="h-4 w-4" /> {testing ? "Gathering relay candidates…" : "Test relay"}
+          </Button>
+        </div>
+
+        {report && (
+          <div className="space-y-3 rounded-md border p-4 text-sm">
+            <p>
+              Tested {report.config.iceServers.length} server(s) from {report.tested}
+              {report.config.expiresAt && `, credentials valid until ${formatWithZone(new Date(report.config.expiresAt))}`}, in{" "}
+              {report.diagnostics.durationMs} ms{report.diagnostics.timedOut && " (timed out)"}.
+            </p>
+            {report.diagnostics.candidates.length > 0 ? (
+              <p className="font-medium text-green-700">
+                Relay works: calls can connect even when both sides block direct connections.
+              </p>
+            ) : (
+              <p className="font-medium text-destructive">
+                No relay candidates. Calls between networks that block direct connections will fail; check the TURN URL,
+                credentials and firewall.
+              </p>
+            )}
+            {report.diagnostics.candidates.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Relay address</TableHead>
+                    <TableHead>Port</TableHead>
+                    <TableHead>Via</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.diagnostics.candidates.map((candidate) => (
+                    <TableRow key={`${candidate.address}:${candidate.port}:${candidate.relayProtocol}`}>
+                      <TableCell className="font-mono">{candidate.address}</TableCell>
+                      <TableCell>{candidate.port}</TableCell>
+                      <TableCell className="uppercase">{candidate.relayProtocol}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {report.diagnostics.errors.length > 0 && (
+              <ul className="list-disc pl-5 text-muted-foreground">
+                {report.diagnostics.errors.map((error, index) => (
+                  <li key={index}>
+                    {error.url}: {error.code} {error.text}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IceServerSettingsCard;
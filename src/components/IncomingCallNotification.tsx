@@ -12,6 +12,8 @@ import {
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Phone, PhoneOff } from 'lucide-react';
+import { callPath } from '@/services/callProtocol';
+import { sendSocketSignal } from '@/services/callSignaling';
 
 interface IncomingCallData {
   doctorName: string;
@@ -82,11 +84,8 @@ export function IncomingCallNotification() {
     if (!incomingCall) return;
     ringRef.current?.stop();
 
-    // Ask doctor to (re)send offer to avoid race where offer was sent before we navigated
-    socket?.emit('call:prepare', { toUserId: incomingCall.doctorUserId, appointmentId: incomingCall.appointmentId });
-
-    // Navigate to video call page
-    navigate(`/videocall/${incomingCall.appointmentId}?remoteUserId=${incomingCall.doctorUserId}`);
+    // The call page asks the doctor for a fresh offer once it is listening
+    navigate(callPath(incomingCall.appointmentId, incomingCall.doctorUserId));
     setIncomingCall(null);
   };
 
@@ -95,7 +94,7 @@ export function IncomingCallNotification() {
     ringRef.current?.stop();
 
     // Notify doctor that call was rejected
-    socket.emit('call:rejected', { toUserId: incomingCall.doctorUserId, appointmentId: incomingCall.appointmentId });
+    sendSocketSignal(socket, incomingCall.doctorUserId, { type: 'reject', appointmentId: incomingCall.appointmentId });
     setIncomingCall(null);
   };
 
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Download, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { describeApiError, type KeyBackup } from "@/api/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { useKeyVault } from "@/hooks/useKeyVault";
+import { downloadDocument } from "@/utils/documentViewer";
+import { keyBackupFilename } from "@/utils/keyBackup";
+import { isKeyVaultError } from "@/utils/userKeys";
+
+interface KeyBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vault: ReturnType<typeof useKeyVault>;
+}
+
+// Create a recovery phrase and the backup file it unlocks; the phrase is shown once and never stored
+export const KeyBackupDialog = ({ open, onOpenChange, vault }: KeyBackupDialogProps) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [working, setWorking] = useState(false);
+  const [created, setCreated] = useState<{ backup: KeyBackup; phrase: string } | null>(null);
+  const [downloaded, setDownloaded] = useState(false);
+  const [writtenDown, setWrittenDown] = useState(false);
+
+  // Closing forgets the phrase, so it isn't left in memory behind the dialog
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setPassphrase("");
+      setCreated(null);
+      setDownloaded(false);
+      setWrittenDown(false);
+    }
+    onOpenChange(next);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    setWorking(true);
+    try {
+      setCreated(await vault.createBackup(passphrase));
+      setPassphrase("");
+    } catch (error) {
+      toast.error(isKeyVaultError(error) ? error.message : "Failed to create backup: " + describeApiError(error).description);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const file = new Blob([JSON.stringify(created.backup, null, 2)], { type: "application/json" });
+    downloadDocument(file, keyBackupFilename(created.backup));
+    setDownloaded(true);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" /> Recovery backup
+          </DialogTitle>
+          <DialogDescription>
+            A backup file and a recovery phrase together restore your document keys on a new device, or if you forget
+            your passphrase. Keep them apart: the file is useless without the phrase.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!created ? (
+          <form id="key-backup-form" onSubmit={handleCreate} className="space-y-2">
+            <Label htmlFor="key-backup-passphrase">Passphrase</Label>
+            <Input
+              id="key-backup-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              autoComplete="current-password"
+            />
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm">Write these words down in order. They are shown only now.</p>
+            <ol className="grid grid-cols-2 gap-x-4 gap-y-1 rounded-lg border bg-muted/40 p-3 font-mono text-sm sm:grid-cols-3">
+              {created.phrase.split(" ").map((word, index) => (
+                <li key={index}>
+                  <span className="inline-block w-6 text-muted-foreground">{index + 1}.</span>
+                  {word}
+                </li>
+              ))}
+            </ol>
+            <Button type="button" variant="outline" onClick={handleDownload}>
+              <Download className="h-4 w-4 mr-1" /> {downloaded ? "Download again" : "Download backup file"}
+            </Button>
+            <div className="flex items-center gap-2">
+              <Checkbox id="key-backup-written" checked={writtenDown} onCheckedChange={(checked) => setWrittenDown(checked === true)} />
+              <Label htmlFor="key-backup-written" className="font-normal">
+                I have written down the recovery phrase
+              </Label>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {!created ? (
+            <>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" form="key-backup-form" disabled={working || !passphrase}>
+                {working ? "Creating..." : "Create backup"}
+              </Button>
+            </>
+          ) : (
+            <Button type="button" onClick={() => handleOpenChange(false)} disabled={!downloaded || !writtenDown}>
+              Done
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyBackupDialog;
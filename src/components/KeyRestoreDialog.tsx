@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { CheckCircle2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { describeApiError, type KeyBackup } from "@/api/client";
+import { firstIssue, passphraseSetupSchema } from "@/api/schemas";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { useKeyVault } from "@/hooks/useKeyVault";
+import { checkKeyBackup, parseKeyBackup, RECOVERY_PHRASE_LENGTH, type KeyBackupCheck } from "@/utils/keyBackup";
+import { formatWithZone } from "@/utils/timezone";
+import { isKeyVaultError, publicKeyFingerprint } from "@/utils/userKeys";
+
+interface KeyRestoreDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vault: ReturnType<typeof useKeyVault>;
+}
+
+const errorMessage = (error: unknown, action: string) =>
+  isKeyVaultError(error) ? error.message : `Failed to ${action}: ${describeApiError(error).description}`;
+
+// Check a recovery backup against its phrase, and restore the keys in it under a new passphrase
+export const KeyRestoreDialog = ({ open, onOpenChange, vault }: KeyRestoreDialogProps) => {
+  const [backup, setBackup] = useState<KeyBackup | null>(null);
+  const [phrase, setPhrase] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [checked, setChecked] = useState<KeyBackupCheck | null>(null);
+  const [working, setWorking] = useState<"check" | "restore" | null>(null);
+  // Remounting the file input is the only way to clear it
+  const [inputKey, setInputKey] = useState(0);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setBackup(null);
+      setPhrase("");
+      setPassphrase("");
+      setConfirm("");
+      setChecked(null);
+      setInputKey((k) => k + 1);
+    }
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setBackup(null);
+    setChecked(null);
+    if (!file) return;
+    try {
+      setBackup(parseKeyBackup(await file.text()));
+    } catch (error) {
+      toast.error(errorMessage(error, "read the file"));
+    }
+  };
+
+  const handleCheck = async () => {
+    setWorking("check");
+    try {
+      setChecked(await checkKeyBackup(backup, phrase));
+    } catch (error) {
+      setChecked(null);
+      toast.error(errorMessage(error, "check the backup"));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleRestore = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = passphraseSetupSchema.safeParse({ passphrase, confirm });
+    if (!parsed.success) {
+      toast.error(firstIssue(parsed.error));
+      return;
+    }
+    setWorking("restore");
+    try {
+      const { restoredLocalKeys } = await vault.restore(backup, phrase, parsed.data.passphrase);
+      toast.success(
+        restoredLocalKeys
+          ? `Keys restored, plus ${restoredLocalKeys} older key${restoredLocalKeys === 1 ? "" : "s"} for this browser`
+          : "Keys restored and unlocked"
+      );
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error(errorMessage(error, "restore"));
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Restore or check a backup</DialogTitle>
+          <DialogDescription>
+            Checking only confirms the backup opens with the phrase. Restoring also sets a new passphrase for your keys.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="key-restore-file">Backup file</Label>
+            <Input key={inputKey} id="key-restore-file" type="file" accept="application/json,.json" onChange={(e) => handleFile(e.target.files?.[0])} />
+            {backup && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                Made {formatWithZone(backup.createdAt)} · key <span className="font-mono">{publicKeyFingerprint(backup.publicKey)}</span>
+              </p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor="key-restore-phrase">Recovery phrase ({RECOVERY_PHRASE_LENGTH} words)</Label>
+            <Textarea
+              id="key-restore-phrase"
+              rows={3}
+              value={phrase}
+              onChange={(e) => {
+                setPhrase(e.target.value);
+                setChecked(null);
+              }}
+              autoComplete="off"
+              spellCheck={false}
+            />
+          </div>
+          <Button type="button" variant="outline" onClick={handleCheck} disabled={!backup || !phrase.trim() || Boolean(working)}>
+            {working === "check" ? "Checking..." : "Check backup"}
+          </Button>
+          {checked && (
+            <p className="flex items-start gap-2 text-sm text-green-700 dark:text-green-400">
+              <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0" />
+              The backup is intact and opens with this phrase. It holds key {checked.fingerprint}
+              {checked.localKeyCount > 0 && ` and ${checked.localKeyCount} older browser key${checked.localKeyCount === 1 ? "" : "s"}`}.
+            </p>
+          )}
+        </div>
+
+        <form id="key-restore-form" onSubmit={handleRestore} className="grid gap-3 border-t pt-3 sm:grid-cols-2">
+          <div>
+            <Label htmlFor="key-restore-passphrase">New passphrase</Label>
+            <Input id="key-restore-passphrase" type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} autoComplete="new-password" />
+          </div>
+          <div>
+            <Label htmlFor="key-restore-confirm">Confirm new passphrase</Label>
+            <Input id="key-restore-confirm" type="password" value={confirm} onChange={(e) => setConfirm(e.target.value)} autoComplete="new-password" />
+          </div>
+        </form>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="submit" form="key-restore-form" disabled={!backup || !phrase.trim() || Boolean(working)}>
+            <Upload className="h-4 w-4 mr-1" />
+            {working === "restore" ? "Restoring..." : "Restore keys"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyRestoreDialog;
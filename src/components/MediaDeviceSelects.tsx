@@ -0,0 +1,47 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SPEAKER_SELECTION_SUPPORTED, type MediaDeviceChoice } from '@/utils/localMedia';
+
+interface MediaDeviceSelectsProps {
+  /** From useMediaDevices */
+  devices: MediaDeviceInfo[];
+  choice: MediaDeviceChoice;
+  onChange: (kind: MediaDeviceKind, deviceId: string) => void;
+  disabled?: boolean;
+}
+
+const KINDS: { kind: MediaDeviceKind; label: string }[] = [
+  { kind: 'videoinput', label: 'Camera' },
+  { kind: 'audioinput', label: 'Microphone' },
+  { kind: 'audiooutput', label: 'Speaker' },
+];
+
+// Camera, microphone and speaker pickers; the speaker one only where the browser can route audio
+export const MediaDeviceSelects = ({ devices, choice, onChange, disabled }: MediaDeviceSelectsProps) => (
+  <div className="grid gap-3 sm:grid-cols-3">
+    {KINDS.map(({ kind, label }) => {
+      const options = devices.filter((device) => device.kind === kind);
+      const unsupported = kind === 'audiooutput' && !SPEAKER_SELECTION_SUPPORTED;
+      const selected = options.some((device) => device.deviceId === choice[kind]) ? choice[kind] : undefined;
+      return (
+        <div key={kind} className="space-y-1">
+          <Label>{label}</Label>
+          <Select value={selected} onValueChange={(deviceId) => onChange(kind, deviceId)} disabled={disabled || unsupported || !options.length}>
+            <SelectTrigger>
+              <SelectValue placeholder={unsupported ? 'System default' : options.length ? 'Default' : `No ${label.toLowerCase()} found`} />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((device, index) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {device.label || `${label} ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default MediaDeviceSelects;
@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { Plus, Save, X } from "lucide-react";
+import { toast } from "sonner";
+import { describeApiError } from "@/api/client";
+import { useMedicalProfile, useUpdateMedicalProfile } from "@/api/queries";
+import { medicalProfileRequestSchema, firstIssue } from "@/api/schemas";
+import { ApiErrorAlert } from "@/components/ApiErrorAlert";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface EntryListProps {
+  id: string;
+  label: string;
+  placeholder: string;
+  entries: string[];
+  onChange: (entries: string[]) => void;
+}
+
+// Free-text entries shown as removable badges; duplicates (ignoring case) are dropped
+const EntryList = ({ id, label, placeholder, entries, onChange }: EntryListProps) => {
+  const [draft, setDraft] = useState("");
+
+  const add = () => {
+    const value = draft.trim();
+    if (!value) return;
+    if (!entries.some((e) => e.toLowerCase() === value.toLowerCase())) onChange([...entries, value]);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              add();
+            }
+          }}
+          placeholder={placeholder}
+        />
+        <Button type="button" variant="outline" size="icon" onClick={add} aria-label={`Add to ${label.toLowerCase()}`}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {entries.length === 0 && <p className="text-sm text-muted-foreground">None recorded</p>}
+        {entries.map((entry) => (
+          <Badge key={entry} variant="secondary" className="gap-1">
+            {entry}
+            <button type="button" onClick={() => onChange(entries.filter((e) => e !== entry))} aria-label={`Remove ${entry}`}>
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface MedicalProfileEditorProps {
+  patientId: string;
+}
+
+// Patient-maintained allergy and current-medication lists, checked by doctors when prescribing
+const MedicalProfileEditor = ({ patientId }: MedicalProfileEditorProps) => {
+  const profileQuery = useMedicalProfile(patientId);
+  const updateProfile = useUpdateMedicalProfile();
+  const [allergies, setAllergies] = useState<string[]>([]);
+  const [currentMedications, setCurrentMedications] = useState<string[]>([]);
+
+  useEffect(() => {
+    const saved = profileQuery.data;
+    if (!saved) return;
+    setAllergies(saved.allergies);
+    setCurrentMedications(saved.currentMedications);
+  }, [profileQuery.data]);
+
+  const handleSave = async () => {
+    const parsed = medicalProfileRequestSchema.safeParse({ allergies, currentMedications });
+    if (!parsed.success) {
+      toast.error(firstIssue(parsed.error));
+      return;
+    }
+    try {
+      await updateProfile.mutateAsync({ patientId, profile: parsed.data });
+      toast.success("Allergies and medications saved");
+    } catch (error) {
+      toast.error("Failed to save: " + describeApiError(error).description);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg sm:text-xl">Allergies &amp; Medications</CardTitle>
+        <CardDescription className="text-sm">
+          Your doctors are warned about these when they write a prescription for you. Keep them up to date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {profileQuery.error ? (
+          <ApiErrorAlert error={profileQuery.error} onRetry={() => profileQuery.refetch()} />
+        ) : profileQuery.isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <>
+            <div className="grid gap-4 md:grid-cols-2">
+              <EntryList
+                id="allergies"
+                label="Allergies"
+                placeholder="e.g. Penicillin, sulfa drugs"
+                entries={allergies}
+                onChange={setAllergies}
+              />
+              <EntryList
+                id="current-medications"
+                label="Current medications"
+                placeholder="e.g. Warfarin 5 mg"
+                entries={currentMedications}
+                onChange={setCurrentMedications}
+              />
+            </div>
+            <Button onClick={handleSave} disabled={updateProfile.isPending} className="touch-target">
+              <Save className="h-4 w-4 mr-2" />
+              {updateProfile.isPending ? "Saving..." : "Save"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MedicalProfileEditor;
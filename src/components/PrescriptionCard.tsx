@@ -0,0 +1,101 @@
+import { AlertTriangle, FileText, Printer } from "lucide-react";
+import type { Appointment, Prescription } from "@/api/client";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { cn } from "@/lib/utils";
+import { frequencyLabel, routeLabel } from "@/utils/prescriptions";
+import { printPrescription } from "@/utils/prescriptionDocument";
+import { formatWithZone } from "@/utils/timezone";
+
+interface PrescriptionCardProps {
+  prescription: Prescription;
+  /** Whose name heads the card: the patient for doctors and admins, the doctor for patients */
+  show: "patient" | "doctor";
+  /** The linked appointment, when the caller has it loaded */
+  appointment?: Appointment;
+  className?: string;
+}
+
+// One prescription rendered as a single document with all of its line items
+export const PrescriptionCard = ({ prescription, show, appointment, className }: PrescriptionCardProps) => {
+  const heading =
+    show === "doctor" ? `Dr. ${prescription.doctor?.name || "N/A"}` : prescription.patient?.name || "N/A";
+
+  return (
+    <div className={cn("border rounded-lg p-3 sm:p-4 space-y-2", className)}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="font-semibold text-sm sm:text-base flex items-center gap-2">
+            <FileText className="h-4 w-4 text-primary" /> {heading}
+          </div>
+          <div className="text-xs sm:text-sm text-muted-foreground">
+            Issued {formatWithZone(prescription.createdAt)}
+            {appointment
+              ? ` · for the appointment on ${formatWithZone(appointment.startAt)}`
+              : prescription.appointmentId && " · linked to an appointment"}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground whitespace-nowrap">
+            {prescription.items.length} item{prescription.items.length === 1 ? "" : "s"}
+          </span>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => printPrescription(prescription, { appointment })}
+            title="Print, or choose Save as PDF in the print dialog"
+          >
+            <Printer className="mr-1 h-3 w-3" /> Print / PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="table-mobile-wrapper">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs">Drug</TableHead>
+              <TableHead className="text-xs">Route</TableHead>
+              <TableHead className="text-xs">Frequency</TableHead>
+              <TableHead className="text-xs">Duration</TableHead>
+              <TableHead className="text-xs">Qty</TableHead>
+              <TableHead className="text-xs">Refills</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {prescription.items.map((item, index) => (
+              <TableRow key={index}>
+                <TableCell className="text-xs sm:text-sm">
+                  <span className="font-medium">{item.drug}</span> {item.strength}
+                </TableCell>
+                <TableCell className="text-xs sm:text-sm">{routeLabel(item.route) || "-"}</TableCell>
+                <TableCell className="text-xs sm:text-sm">{item.frequency ? frequencyLabel(item.frequency) : "-"}</TableCell>
+                <TableCell className="text-xs sm:text-sm">{item.durationDays ? `${item.durationDays} days` : "-"}</TableCell>
+                <TableCell className="text-xs sm:text-sm">{item.quantity ?? "-"}</TableCell>
+                <TableCell className="text-xs sm:text-sm">{item.refills}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {prescription.instructions && <div className="text-xs sm:text-sm">{prescription.instructions}</div>}
+
+      {prescription.acknowledgements.length > 0 && (
+        <div className="rounded bg-yellow-50 p-2 text-xs text-yellow-900 space-y-1">
+          <div className="flex items-center gap-1 font-medium">
+            <AlertTriangle className="h-3 w-3" /> Safety warnings acknowledged by the prescriber
+          </div>
+          {prescription.acknowledgements.map((ack) => (
+            <div key={ack.warningId}>
+              {ack.drug} ↔ {ack.conflictsWith}: {ack.message} ({ack.severity}, {formatWithZone(ack.acknowledgedAt)})
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrescriptionCard;
@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { AlertTriangle, Plus, ShieldCheck, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { describeApiError, type Appointment, type Prescription, type User } from "@/api/client";
+import { useCreatePrescription, useMedicalProfile } from "@/api/queries";
+import { prescriptionRequestSchema, firstIssue } from "@/api/schemas";
+import { ApiErrorAlert } from "@/components/ApiErrorAlert";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DOSE_FREQUENCIES, DOSE_FREQUENCY_CODES, PRESCRIPTION_ROUTES, routeLabel, suggestedQuantity } from "@/utils/prescriptions";
+import { formatWithZone } from "@/utils/timezone";
+import { checkPrescription, toAcknowledgement } from "@/utils/drugSafety";
+
+// Inputs hold strings; they are converted to numbers when the form is validated
+interface ItemDraft {
+  drug: string;
+  strength: string;
+  route: string;
+  frequency: string;
+  durationDays: string;
+  quantity: string;
+  refills: string;
+}
+
+const emptyItem = (): ItemDraft => ({
+  drug: "",
+  strength: "",
+  route: "oral",
+  frequency: "",
+  durationDays: "",
+  quantity: "",
+  refills: "0",
+});
+
+const toNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+interface PrescriptionFormProps {
+  patients: User[];
+  /** The doctor's appointments; the form offers the selected patient's ones to link to */
+  appointments: Appointment[];
+  onCreated?: (prescription: Prescription) => void;
+}
+
+// Multi-drug prescription form for the doctor dashboard
+export const PrescriptionForm = ({ patients, appointments, onCreated }: PrescriptionFormProps) => {
+  const createPrescription = useCreatePrescription();
+  const [patientId, setPatientId] = useState("");
+  const [appointmentId, setAppointmentId] = useState("");
+  const [items, setItems] = useState<ItemDraft[]>([emptyItem()]);
+  const [instructions, setInstructions] = useState("");
+  // warningId -> when the doctor ticked it
+  const [acknowledged, setAcknowledged] = useState<Record<string, string>>({});
+  const profileQuery = useMedicalProfile(patientId);
+
+  const check = profileQuery.data ? checkPrescription(items.map((item) => item.drug), profileQuery.data) : null;
+  const unacknowledged = check?.warnings.filter((w) => !acknowledged[w.id]) ?? [];
+
+  const patientAppointments = appointments.filter((apt) => apt.patient?.id === patientId && apt.status !== "cancelled");
+
+  const updateItem = (index: number, changes: Partial<ItemDraft>) =>
+    setItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (patientId && profileQuery.error) {
+      toast.error("Couldn't load the patient's allergies and medications: " + describeApiError(profileQuery.error).description, {
+        action: { label: "Retry", onClick: () => profileQuery.refetch() },
+      });
+      return;
+    }
+    if (patientId && !check) {
+      toast.error("The patient's allergies and medications are still loading; try again in a moment");
+      return;
+    }
+    if (unacknowledged.length > 0) {
+      toast.error(`Review and acknowledge ${unacknowledged.length} safety warning${unacknowledged.length === 1 ? "" : "s"} first`);
+      return;
+    }
+    const parsed = prescriptionRequestSchema.safeParse({
+      patientId,
+      appointmentId,
+      items: items.map((item) => ({
+        ...item,
+        durationDays: toNumber(item.durationDays),
+        quantity: toNumber(item.quantity),
+        refills: toNumber(item.refills),
+      })),
+      instructions: instructions.trim() || undefined,
+      acknowledgements: check?.warnings.map((w) => toAcknowledgement(w, acknowledged[w.id])) ?? [],
+    });
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      // Say which drug row is wrong when there are several
+      const row = issue?.path[0] === "items" && items.length > 1 ? `Drug ${Number(issue.path[1]) + 1}: ` : "";
+      toast.error(row + firstIssue(parsed.error));
+      return;
+    }
+
+    try {
+      const created = await createPrescription.mutateAsync(parsed.data);
+      toast.success("Prescription created successfully");
+      setPatientId("");
+      setAppointmentId("");
+      setItems([emptyItem()]);
+      setInstructions("");
+      setAcknowledged({});
+      onCreated?.(created);
+    } catch (error) {
+      toast.error("Failed to create prescription: " + describeApiError(error).description);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 sm:space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <Label>Patient</Label>
+          <Select
+            value={patientId}
+            onValueChange={(value) => {
+              setPatientId(value);
+              setAppointmentId("");
+              setAcknowledged({});
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select patient" />
+            </SelectTrigger>
+            <SelectContent>
+              {patients.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name || "Unnamed"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Appointment</Label>
+          <Select value={appointmentId} onValueChange={setAppointmentId} disabled={!patientId}>
+            <SelectTrigger>
+              <SelectValue placeholder={patientId ? "Select appointment" : "Choose a patient first"} />
+            </SelectTrigger>
+            <SelectContent>
+              {patientAppointments.length === 0 ? (
+                <SelectItem value="none" disabled>No appointments with this patient</SelectItem>
+              ) : (
+                patientAppointments.map((apt) => (
+                  <SelectItem key={apt.id} value={apt.id}>
+                    {formatWithZone(apt.startAt)} · {apt.status}
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {items.map((item, index) => {
+        const hint = suggestedQuantity(item.frequency, Number(item.durationDays));
+        return (
+          <div key={index} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Drug {index + 1}</span>
+              {items.length > 1 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setItems((prev) => prev.filter((_, i) => i !== index))}
+                  aria-label="Remove drug"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <Input value={item.drug} onChange={(e) => updateItem(index, { drug: e.target.value })} placeholder="Drug, e.g. Amoxicillin" />
+              <Input value={item.strength} onChange={(e) => updateItem(index, { strength: e.target.value })} placeholder="Strength, e.g. 500 mg" />
+              <Select value={item.route} onValueChange={(route) => updateItem(index, { route })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Route" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PRESCRIPTION_ROUTES.map((route) => (
+                    <SelectItem key={route} value={route}>{routeLabel(route)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={item.frequency} onValueChange={(frequency) => updateItem(index, { frequency })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Frequency" />
+                </SelectTrigger>
+                <SelectContent>
+                  {DOSE_FREQUENCY_CODES.map((code) => (
+                    <SelectItem key={code} value={code}>{DOSE_FREQUENCIES[code].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <Label className="text-xs">Duration (days)</Label>
+                <Input type="number" min={1} value={item.durationDays} onChange={(e) => updateItem(index, { durationDays: e.target.value })} />
+              </div>
+              <div>
+                <Label className="text-xs">Quantity</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={item.quantity}
+                  onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                  placeholder={hint ? `e.g. ${hint}` : undefined}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">Refills</Label>
+                <Input type="number" min={0} value={item.refills} onChange={(e) => updateItem(index, { refills: e.target.value })} />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => setItems((prev) => [...prev, emptyItem()])}>
+        <Plus className="h-3 w-3 mr-1" /> Add drug
+      </Button>
+
+      {patientId && profileQuery.error && (
+        <ApiErrorAlert error={profileQuery.error} onRetry={() => profileQuery.refetch()} />
+      )}
+      {profileQuery.data && (
+        <div className="rounded-lg border p-3 space-y-2 text-sm">
+          <div>
+            <span className="font-medium">Allergies:</span>{" "}
+            {profileQuery.data.allergies.length ? profileQuery.data.allergies.join(", ") : "none recorded"}
+          </div>
+          <div>
+            <span className="font-medium">Current medications:</span>{" "}
+            {profileQuery.data.currentMedications.length ? profileQuery.data.currentMedications.join(", ") : "none recorded"}
+          </div>
+          {check && check.warnings.length === 0 && items.some((item) => item.drug.trim()) && (
+            <p className="flex items-center gap-1 text-green-700">
+              <ShieldCheck className="h-4 w-4" /> No conflicts found
+            </p>
+          )}
+          {check?.warnings.map((warning) => (
+            <div
+              key={warning.id}
+              className={`flex items-start gap-2 rounded p-2 ${warning.severity === "major" ? "bg-red-50 text-red-900" : "bg-yellow-50 text-yellow-900"}`}
+            >
+              <Checkbox
+                id={`ack-${warning.id}`}
+                checked={Boolean(acknowledged[warning.id])}
+                onCheckedChange={(checked) =>
+                  setAcknowledged((prev) => {
+                    const next = { ...prev };
+                    if (checked === true) next[warning.id] = new Date().toISOString();
+                    else delete next[warning.id];
+                    return next;
+                  })
+                }
+                className="mt-0.5"
+              />
+              <label htmlFor={`ack-${warning.id}`} className="space-y-0.5 cursor-pointer">
+                <span className="flex items-center gap-1 font-medium">
+                  <AlertTriangle className="h-4 w-4" />
+                  {warning.severity === "major" ? "Major" : "Moderate"} {warning.kind}: {warning.drug} ↔ {warning.conflictsWith}
+                </span>
+                <span className="block text-xs">{warning.message}. Tick to acknowledge and prescribe anyway.</span>
+              </label>
+            </div>
+          ))}
+          {check && check.unrecognised.length + check.unrecognisedAllergies.length + check.unrecognisedMedications.length > 0 && (
+            <div className="text-xs text-muted-foreground space-y-0.5">
+              <p>Not in the offline rule set, check manually:</p>
+              {check.unrecognised.length > 0 && <p>Prescribed: {check.unrecognised.join(", ")}</p>}
+              {check.unrecognisedAllergies.length > 0 && <p>Allergies: {check.unrecognisedAllergies.join(", ")}</p>}
+              {check.unrecognisedMedications.length > 0 && <p>Current medications: {check.unrecognisedMedications.join(", ")}</p>}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <Label>Instructions</Label>
+        <Textarea value={instructions} onChange={(e) => setInstructions(e.target.value)} placeholder="Additional instructions..." />
+      </div>
+      <Button type="submit" className="w-full touch-target" disabled={createPrescription.isPending}>
+        {createPrescription.isPending ? "Saving..." : "Create Prescription"}
+      </Button>
+    </form>
+  );
+};
+
+export default PrescriptionForm;
@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Repeat } from "lucide-react";
+import { toast } from "sonner";
+import { describeApiError, type Appointment, type AppointmentSeries } from "@/api/client";
+import { useCreateAppointmentSeries, useDoctorAvailability } from "@/api/queries";
+import { MAX_SERIES_OCCURRENCES, recurrenceRuleSchema, seriesRequestSchema, firstIssue } from "@/api/schemas";
+import { ApiErrorAlert } from "@/components/ApiErrorAlert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { planSeries } from "@/utils/recurrence";
+import { formatForBoth } from "@/utils/timezone";
+
+interface RecurringSeriesDialogProps {
+  /** The completed appointment the follow-ups are based on */
+  appointment: Appointment | null;
+  onOpenChange: (open: boolean) => void;
+  onCreated?: (series: AppointmentSeries) => void;
+}
+
+// Doctor-side follow-up booking: repeat a completed appointment every N weeks or months
+export const RecurringSeriesDialog = ({ appointment, onOpenChange, onCreated }: RecurringSeriesDialogProps) => {
+  const availabilityQuery = useDoctorAvailability(appointment?.doctor?.id, { enabled: Boolean(appointment) });
+  const createSeries = useCreateAppointmentSeries();
+  const [frequency, setFrequency] = useState<"weekly" | "monthly">("weekly");
+  const [every, setEvery] = useState("2");
+  const [occurrences, setOccurrences] = useState("6");
+
+  useEffect(() => {
+    setFrequency("weekly");
+    setEvery("2");
+    setOccurrences("6");
+  }, [appointment?.id]);
+
+  const rule = recurrenceRuleSchema.safeParse({ frequency, interval: Number(every), occurrences: Number(occurrences) });
+  const availability = availabilityQuery.data;
+  // Cheap enough to replan on every keystroke, so the preview always matches what gets booked
+  const plan = appointment && availability && rule.success ? planSeries(appointment, rule.data, availability) : null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!appointment || !plan) return;
+    if (!rule.success) {
+      toast.error(firstIssue(rule.error));
+      return;
+    }
+    const parsed = seriesRequestSchema.safeParse({
+      ...rule.data,
+      sourceAppointmentId: appointment.id,
+      appointments: plan.occurrences.map((o) => ({ startAt: o.startAt.toISOString(), endAt: o.endAt.toISOString() })),
+    });
+    if (!parsed.success) {
+      toast.error(firstIssue(parsed.error));
+      return;
+    }
+    try {
+      const series = await createSeries.mutateAsync({ source: appointment, series: parsed.data });
+      toast.success(`Booked ${series.appointments.length} follow-up appointments`);
+      onCreated?.(series);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error("Failed to book follow-ups: " + describeApiError(error).description);
+    }
+  };
+
+  const unit = frequency === "weekly" ? "week" : "month";
+
+  return (
+    <Dialog open={Boolean(appointment)} onOpenChange={(open) => !createSeries.isPending && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" /> Book follow-up series
+            </DialogTitle>
+            <DialogDescription>
+              {appointment && (
+                <>
+                  {appointment.patient?.name || "Patient"} · same time as {formatForBoth(appointment.startAt, appointment.patient?.timezone, "for the patient", availability?.timezone)}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>Repeat</Label>
+              <Select value={frequency} onValueChange={(v) => setFrequency(v as "weekly" | "monthly")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="series-interval">Every ({unit}s)</Label>
+              <Input id="series-interval" type="number" min={1} max={12} value={every} onChange={(e) => setEvery(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="series-occurrences">Appointments</Label>
+              <Input
+                id="series-occurrences"
+                type="number"
+                min={2}
+                max={MAX_SERIES_OCCURRENCES}
+                value={occurrences}
+                onChange={(e) => setOccurrences(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {availabilityQuery.error ? (
+            <ApiErrorAlert error={availabilityQuery.error} onRetry={() => availabilityQuery.refetch()} />
+          ) : !rule.success ? (
+            <p className="text-sm text-destructive">{firstIssue(rule.error)}</p>
+          ) : !plan ? (
+            <p className="text-sm text-muted-foreground">Loading your schedule...</p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Follow-ups</p>
+              <ol className="text-sm space-y-1 max-h-48 overflow-y-auto list-decimal pl-5">
+                {plan.occurrences.map((o) => (
+                  <li key={o.startAt.toISOString()}>
+                    {formatForBoth(o.startAt, appointment?.patient?.timezone, "for the patient", availability.timezone)}
+                  </li>
+                ))}
+              </ol>
+              {plan.skipped.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Skipped days off: {plan.skipped.map((d) => format(d, "PP")).join(", ")}
+                </p>
+              )}
+              {plan.occurrences.length < rule.data.occurrences && (
+                <p className="text-xs text-destructive">
+                  Only {plan.occurrences.length} of {rule.data.occurrences} dates fall on working days.
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={createSeries.isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createSeries.isPending || !plan || plan.occurrences.length === 0}>
+              {createSeries.isPending ? "Booking..." : `Book ${plan?.occurrences.length ?? ""} follow-ups`}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecurringSeriesDialog;
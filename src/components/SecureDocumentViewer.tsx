@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useState } from "react";
+import { ChevronLeft, ChevronRight, Download, ExternalLink, RotateCw, ZoomIn, ZoomOut } from "lucide-react";
+import type { MedicalDocument } from "@/api/client";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useAuth } from "@/hooks/useAuth";
+import { canEmbedPdf, countPdfPages, parseCsv, pdfViewerUrl, previewKind } from "@/utils/documentPreview";
+import { downloadDocument, isAndroid, openUrl } from "@/utils/documentViewer";
+import { formatWithZone } from "@/utils/timezone";
+
+/** A decrypted document held in memory while it is on screen */
+export interface ViewedDocument {
+  document: MedicalDocument;
+  blob: Blob;
+}
+
+interface SecureDocumentViewerProps {
+  file: ViewedDocument | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ZOOM_STEPS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const CSV_ROWS_PER_PAGE = 100;
+
+// Render a decrypted document inside the app so no plaintext copy lands in the downloads folder unless asked for
+export const SecureDocumentViewer = ({ file, onOpenChange }: SecureDocumentViewerProps) => {
+  const { user } = useAuth();
+  const open = Boolean(file);
+  const kind = file ? previewKind(file.document.mimeType, file.document.originalName) : null;
+  // On mobile a PDF gets open and download actions rather than an embedded viewer
+  const pdfFallback = kind === "pdf" && !canEmbedPdf();
+  const [objectUrl, setObjectUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [pageCount, setPageCount] = useState<number | null>(null);
+  const [page, setPage] = useState(1);
+  const [zoomIndex, setZoomIndex] = useState(ZOOM_STEPS.indexOf(1));
+  const [rotation, setRotation] = useState(0);
+  const [watermark, setWatermark] = useState(true);
+  const [openedAt, setOpenedAt] = useState(() => new Date());
+
+  // The object URL lives exactly as long as this document is open
+  useEffect(() => {
+    setPage(1);
+    setZoomIndex(ZOOM_STEPS.indexOf(1));
+    setRotation(0);
+    setText(null);
+    setPageCount(null);
+    setOpenedAt(new Date());
+    if (!file) return;
+
+    let cancelled = false;
+    let url: string | null = null;
+    if (kind === "pdf" || kind === "image") {
+      url = URL.createObjectURL(file.blob);
+      setObjectUrl(url);
+    }
+    if (kind === "pdf" && canEmbedPdf()) {
+      countPdfPages(file.blob).then((count) => !cancelled && setPageCount(count), () => undefined);
+    }
+    if (kind === "text" || kind === "csv") {
+      file.blob.text().then((content) => !cancelled && setText(content), () => undefined);
+    }
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setObjectUrl(null);
+    };
+  }, [file, kind]);
+
+  const csvRows = useMemo(() => (kind === "csv" && text !== null ? parseCsv(text) : []), [kind, text]);
+  const zoom = ZOOM_STEPS[zoomIndex];
+  const totalPages = kind === "csv" ? Math.max(1, Math.ceil((csvRows.length - 1) / CSV_ROWS_PER_PAGE)) : pageCount;
+  const paged = kind === "pdf" || kind === "csv";
+  const watermarkText = `${user?.name || user?.email || "Viewer"} · ${formatWithZone(openedAt)}`;
+
+  const renderContent = () => {
+    if (!file) return null;
+    if (!kind) {
+      return (
+        <p className="p-6 text-sm text-muted-foreground">
+          This file type can't be previewed here. Download it to open it with another app.
+        </p>
+      );
+    }
+    if (pdfFallback) {
+      return (
+        <div className="flex h-full flex-col items-center justify-center gap-3 p-6 text-center text-sm text-muted-foreground">
+          <p>
+            {isAndroid()
+              ? "This browser can't show PDFs inside the app. Download it to open it with your PDF viewer."
+              : "This browser can't show every page of a PDF inside the app. Open it in a new tab to read it all."}
+          </p>
+          <div className="flex gap-2">
+            {!isAndroid() && objectUrl && (
+              <Button type="button" onClick={() => openUrl(objectUrl, file.document.originalName)}>
+                <ExternalLink className="h-4 w-4 mr-1" /> Open
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={() => downloadDocument(file.blob, file.document.originalName)}>
+              <Download className="h-4 w-4 mr-1" /> Download
+            </Button>
+          </div>
+        </div>
+      );
+    }
+    if (kind === "pdf" && objectUrl) {
+      const src = pdfViewerUrl(objectUrl, page, zoom * 100);
+      // Keyed on the URL so the built-in viewer reloads at the new page and zoom
+      return <iframe key={src} src={src} title={file.document.originalName} className="h-full w-full border-0 bg-white" />;
+    }
+    if (kind === "image" && objectUrl) {
+      return (
+        <img
+          src={objectUrl}
+          alt={file.document.originalName}
+          className="mx-auto max-h-full max-w-full object-contain"
+          style={{ transform: `scale(${zoom})` }}
+          draggable={false}
+        />
+      );
+    }
+    if (text === null) return <p className="p-6 text-sm text-muted-foreground">Loading...</p>;
+    if (kind === "csv") {
+      const [header = [], ...body] = csvRows;
+      const rows = body.slice((page - 1) * CSV_ROWS_PER_PAGE, page * CSV_ROWS_PER_PAGE);
+      return (
+        <table className="w-full border-collapse text-left" style={{ fontSize: `${zoom * 0.875}rem` }}>
+          <thead className="sticky top-0 bg-muted">
+            <tr>
+              {header.map((cell, i) => (
+                <th key={i} className="border px-2 py-1 font-semibold">{cell}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, r) => (
+              <tr key={r}>
+                {row.map((cell, i) => (
+                  <td key={i} className="border px-2 py-1">{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    }
+    return (
+      <pre className="whitespace-pre-wrap break-words p-4 font-mono" style={{ fontSize: `${zoom * 0.875}rem` }}>
+        {text}
+      </pre>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[90vh] max-w-5xl flex-col gap-3">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{file?.document.originalName}</DialogTitle>
+          <DialogDescription>Decrypted in this browser and shown from memory.</DialogDescription>
+        </DialogHeader>
+
+        {kind && !pdfFallback && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Button type="button" size="sm" variant="outline" onClick={() => setZoomIndex((i) => Math.max(0, i - 1))} disabled={zoomIndex === 0} aria-label="Zoom out">
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <span className="w-12 text-center">{Math.round(zoom * 100)}%</span>
+            <Button type="button" size="sm" variant="outline" onClick={() => setZoomIndex((i) => Math.min(ZOOM_STEPS.length - 1, i + 1))} disabled={zoomIndex === ZOOM_STEPS.length - 1} aria-label="Zoom in">
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => setRotation((r) => (r + 90) % 360)} aria-label="Rotate">
+              <RotateCw className="h-4 w-4" />
+            </Button>
+            {paged && (
+              <>
+                <Button type="button" size="sm" variant="outline" onClick={() => setPage((p) => Math.max(1, p - 1))} disabled={page <= 1} aria-label="Previous page">
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>
+                  Page {page}
+                  {totalPages ? ` of ${totalPages}` : ""}
+                </span>
+                <Button type="button" size="sm" variant="outline" onClick={() => setPage((p) => p + 1)} disabled={Boolean(totalPages) && page >= totalPages} aria-label="Next page">
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <div className="ml-auto flex items-center gap-2">
+              <Switch id="viewer-watermark" checked={watermark} onCheckedChange={setWatermark} />
+              <Label htmlFor="viewer-watermark">Watermark</Label>
+            </div>
+          </div>
+        )}
+
+        <div className="relative min-h-0 flex-1 overflow-auto rounded border bg-muted/30" onContextMenu={(e) => e.preventDefault()}>
+          <div className="h-full w-full transition-transform" style={{ transform: `rotate(${rotation}deg)` }}>
+            {renderContent()}
+          </div>
+          {watermark && kind && !pdfFallback && (
+            <div className="pointer-events-none absolute inset-0 flex flex-wrap content-around justify-around overflow-hidden select-none" aria-hidden>
+              {Array.from({ length: 12 }, (_, i) => (
+                <span key={i} className="whitespace-nowrap p-6 text-sm font-semibold text-foreground/15" style={{ transform: "rotate(-30deg)" }}>
+                  {watermarkText}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="items-center gap-2 sm:justify-between">
+          <p className="text-xs text-muted-foreground">Downloading saves an unencrypted copy to this device.</p>
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={() => file && downloadDocument(file.blob, file.document.originalName)}>
+              <Download className="h-4 w-4 mr-1" /> Download
+            </Button>
+            <Button type="button" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SecureDocumentViewer;
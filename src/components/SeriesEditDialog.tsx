@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { Repeat } from "lucide-react";
+import { toast } from "sonner";
+import { describeApiError, isApiError, type Appointment } from "@/api/client";
+import { useUpdateAppointmentSeries } from "@/api/queries";
+import { seriesUpdateRequestSchema, firstIssue, type SeriesUpdateRequest } from "@/api/schemas";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatWithZone } from "@/utils/timezone";
+
+const SCOPES: { value: SeriesUpdateRequest["scope"]; label: string }[] = [
+  { value: "this", label: "This appointment" },
+  { value: "following", label: "This and following appointments" },
+  { value: "all", label: "All appointments in the series" },
+];
+
+// Select needs a non-empty value for "leave unchanged"
+const KEEP = "keep";
+
+interface SeriesEditDialogProps {
+  appointment: Appointment | null;
+  /** The doctor's zone, which `startTime` is read in */
+  timeZone: string;
+  onOpenChange: (open: boolean) => void;
+  onUpdated?: (updated: Appointment[], change: SeriesUpdateRequest) => void;
+}
+
+// Change the time or status of one occurrence, the rest of the series from it, or the whole series
+export const SeriesEditDialog = ({ appointment, timeZone, onOpenChange, onUpdated }: SeriesEditDialogProps) => {
+  const updateSeries = useUpdateAppointmentSeries();
+  const [scope, setScope] = useState<SeriesUpdateRequest["scope"]>("this");
+  const [startTime, setStartTime] = useState("");
+  const [status, setStatus] = useState<string>(KEEP);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    setScope("this");
+    setStartTime("");
+    setStatus(KEEP);
+    setReason("");
+  }, [appointment?.id]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!appointment) return;
+
+    const parsed = seriesUpdateRequestSchema.safeParse({
+      scope,
+      appointmentId: appointment.id,
+      startTime: startTime || undefined,
+      status: status === KEEP ? undefined : status,
+      reason: reason.trim() || undefined,
+    });
+    if (!parsed.success) {
+      toast.error(firstIssue(parsed.error));
+      return;
+    }
+
+    try {
+      const updated = await updateSeries.mutateAsync({ appointment, change: parsed.data });
+      toast.success(`Updated ${updated.length} appointment${updated.length === 1 ? "" : "s"}`);
+      onUpdated?.(updated, parsed.data);
+      onOpenChange(false);
+    } catch (error) {
+      if (isApiError(error) && error.kind === "conflict") {
+        toast.error("The new time clashes with another booking in the series. Pick a different time.");
+        return;
+      }
+      toast.error("Failed to update series: " + describeApiError(error).description);
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(appointment)} onOpenChange={(open) => !updateSeries.isPending && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Repeat className="h-5 w-5" /> Edit recurring appointment
+            </DialogTitle>
+            <DialogDescription>
+              {appointment && (
+                <>
+                  {appointment.patient?.name || "Patient"} · #{appointment.seriesIndex ?? "?"} in series · {formatWithZone(appointment.startAt, timeZone)}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <RadioGroup value={scope} onValueChange={(v) => setScope(v as SeriesUpdateRequest["scope"])} className="space-y-1">
+            {SCOPES.map((option) => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem value={option.value} id={`series-scope-${option.value}`} />
+                <Label htmlFor={`series-scope-${option.value}`} className="font-normal">{option.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="series-start-time">New start time</Label>
+              <Input id="series-start-time" type="time" value={startTime} onChange={(e) => setStartTime(e.target.value)} />
+              <p className="text-xs text-muted-foreground">In {timeZone}; dates stay the same</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={KEEP}>Leave unchanged</SelectItem>
+                  <SelectItem value="confirmed">Confirmed</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="series-reason">Note for the patient (optional)</Label>
+            <Textarea id="series-reason" value={reason} onChange={(e) => setReason(e.target.value)} rows={2} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={updateSeries.isPending}>
+              Close
+            </Button>
+            <Button type="submit" disabled={updateSeries.isPending}>
+              {updateSeries.isPending ? "Saving..." : "Apply"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SeriesEditDialog;
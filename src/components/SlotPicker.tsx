@@ -0,0 +1,118 @@
+import { format } from "date-fns";
+import { Calendar as CalendarIcon, Clock } from "lucide-react";
+import { describeApiError } from "@/api/client";
+import { useFreeSlots } from "@/api/queries";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { isWorkingDay, type Slot } from "@/utils/availability";
+
+interface SlotPickerProps {
+  doctorId?: string;
+  date?: Date;
+  onDateChange: (date: Date | undefined) => void;
+  slot?: Slot;
+  onSlotChange: (slot: Slot | undefined) => void;
+  className?: string;
+  labelClassName?: string;
+  fieldClassName?: string;
+}
+
+// Date + time picker limited to the doctor's free slots; shared by booking and rescheduling
+export const SlotPicker = ({
+  doctorId,
+  date,
+  onDateChange,
+  slot,
+  onSlotChange,
+  className,
+  labelClassName,
+  fieldClassName,
+}: SlotPickerProps) => {
+  const { slots, availability, isLoading, error } = useFreeSlots(doctorId, date);
+  const ready = Boolean(doctorId && date);
+  const doctorZone = availability?.timezone;
+
+  return (
+    <div className={cn("grid grid-cols-1 md:grid-cols-2 gap-4", className)}>
+      <div className="space-y-2">
+        <Label className={cn("flex items-center gap-2", labelClassName)}>
+          <CalendarIcon className="w-4 h-4 text-primary" />
+          Date
+        </Label>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="outline"
+              className={cn("w-full justify-start text-left font-normal touch-target", !date && "text-muted-foreground", fieldClassName)}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {date ? format(date, "PPP") : <span>Pick a date</span>}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={date}
+              onSelect={(day) => {
+                onDateChange(day);
+                onSlotChange(undefined);
+              }}
+              disabled={(day) =>
+                day < new Date(new Date().setHours(0, 0, 0, 0)) ||
+                (Boolean(availability) && !isWorkingDay(availability, day))
+              }
+              initialFocus
+              className="pointer-events-auto"
+            />
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <div className="space-y-2">
+        <Label className={cn("flex items-center gap-2", labelClassName)}>
+          <Clock className="w-4 h-4 text-primary" />
+          Time
+        </Label>
+        <Select
+          value={slot?.time ?? ""}
+          onValueChange={(value) => onSlotChange(slots.find((s) => s.time === value))}
+          disabled={!ready}
+        >
+          <SelectTrigger className={fieldClassName}>
+            <SelectValue placeholder={ready ? "Select time slot" : "Choose a doctor and date first"} />
+          </SelectTrigger>
+          <SelectContent>
+            {isLoading ? (
+              <SelectItem value="loading" disabled>Loading available times...</SelectItem>
+            ) : slots.length === 0 ? (
+              <SelectItem value="none" disabled>No free slots on this day</SelectItem>
+            ) : (
+              slots.map((s) => (
+                <SelectItem key={s.time} value={s.time}>
+                  {s.time} {s.zone}
+                  {s.localTime && <span className="text-muted-foreground"> · {s.localTime} your time</span>}
+                </SelectItem>
+              ))
+            )}
+          </SelectContent>
+        </Select>
+        {doctorZone && !availability.timezoneAssumed && (
+          <p className="text-xs text-muted-foreground">Times are in the doctor's timezone ({doctorZone})</p>
+        )}
+        {doctorZone && availability.timezoneAssumed && (
+          <p className="text-xs text-amber-700">
+            The doctor hasn't set a timezone for their hours, so times assume {doctorZone}. Confirm the time with the clinic.
+          </p>
+        )}
+        {error && <p className="text-xs sm:text-sm text-destructive">{describeApiError(error).description}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default SlotPicker;
@@ -0,0 +1,81 @@
+import { RotateCcw, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { describeApiError } from "@/api/client";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import type { useDocumentUploader } from "@/hooks/useDocumentUploader";
+import { transferLabel, transferPercent } from "@/utils/transferProgress";
+import { formatWithZone } from "@/utils/timezone";
+
+interface UploadProgressPanelProps {
+  uploader: ReturnType<typeof useDocumentUploader>;
+  className?: string;
+}
+
+const formatMb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+
+// Progress and cancel for the running upload, and resume/discard for ones interrupted earlier on this device
+export const UploadProgressPanel = ({ uploader, className }: UploadProgressPanelProps) => {
+  const { progress, uploading, pendingUploads } = uploader;
+
+  const handleResume = async (uploadId: string) => {
+    try {
+      const document = await uploader.resume(uploadId);
+      if (document) toast.success(`${document.originalName} uploaded`);
+      else toast.info("Upload cancelled");
+    } catch (error) {
+      toast.error("Upload failed: " + describeApiError(error).description);
+    }
+  };
+
+  const handleDiscard = async (uploadId: string) => {
+    try {
+      await uploader.discard(uploadId);
+    } catch (error) {
+      toast.error("Failed to discard upload: " + describeApiError(error).description);
+    }
+  };
+
+  if (!uploading && pendingUploads.length === 0) return null;
+
+  return (
+    <div className={`space-y-3 ${className ?? ""}`}>
+      {uploading && (
+        <div className="space-y-2 rounded-lg border p-3">
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <span>{progress ? transferLabel(progress) : "Preparing…"}</span>
+            <Button type="button" size="sm" variant="outline" onClick={uploader.cancel}>
+              <X className="h-4 w-4 mr-1" /> Cancel
+            </Button>
+          </div>
+          <Progress value={progress ? transferPercent(progress) ?? 0 : 0} className="h-2" />
+        </div>
+      )}
+
+      {!uploading && (
+        <ul className="space-y-2">
+          {pendingUploads.map((pending) => (
+            <li key={pending.id} className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-900">
+              <div>
+                <div className="font-medium">{pending.originalName}</div>
+                <div className="text-xs">
+                  Interrupted at {formatMb(pending.uploadedBytes)} of {formatMb(pending.totalBytes)} MB · started {formatWithZone(pending.createdAt)}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" size="sm" onClick={() => handleResume(pending.id)}>
+                  <RotateCcw className="h-4 w-4 mr-1" /> Resume
+                </Button>
+                <Button type="button" size="sm" variant="outline" onClick={() => handleDiscard(pending.id)} disabled={uploader.discarding}>
+                  <Trash2 className="h-4 w-4 mr-1" /> Discard
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default UploadProgressPanel;
@@ -1,424 +1,221 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { useWebRTC } from '@/hooks/useWebRTC';
+import { useEffect, useRef, useState } from 'react';
+import { Mic, MicOff, PhoneOff, Settings, Video, VideoOff, WifiOff } from 'lucide-react';
+import { MediaDeviceSelects } from '@/components/MediaDeviceSelects';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Phone, PhoneOff, Maximize2, Minimize2, Mic, MicOff, Video, VideoOff } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import type { useCall } from '@/hooks/useCall';
+import { useMediaDevices } from '@/hooks/useMediaDevices';
+import type { CallState } from '@/services/callProtocol';
+import { describeMediaError, loadDeviceChoice, saveDeviceChoice, SPEAKER_SELECTION_SUPPORTED } from '@/utils/localMedia';
 
 interface VideoCallProps {
-  remoteUserId: string;
-  appointmentId?: string;
-  socket: any;
-  onCallEnd?: () => void;
-  isInitiator?: boolean;
+  call: ReturnType<typeof useCall>;
+  /** Who is on the other end, e.g. "Patient" */
+  remoteLabel: string;
 }
 
-const VideoCall: React.FC<VideoCallProps> = ({
-  remoteUserId,
-  appointmentId,
-  socket,
-  onCallEnd,
-  isInitiator = false,
-}) => {
+const STATUS: Record<CallState, { label: string; className: string }> = {
+  idle: { label: 'Connecting...', className: 'bg-blue-100 text-blue-800' },
+  ringing: { label: 'Ringing...', className: 'bg-yellow-100 text-yellow-800' },
+  connecting: { label: 'Connecting...', className: 'bg-blue-100 text-blue-800' },
+  connected: { label: 'Connected', className: 'bg-green-100 text-green-800' },
+  reconnecting: { label: 'Reconnecting...', className: 'bg-orange-100 text-orange-800' },
+  ended: { label: 'Ended', className: 'bg-red-100 text-red-800' },
+};
+
+const formatDuration = (seconds: number) => {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return `${hrs.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Local and remote video, call status and in-call controls for a call from useCall
+export const VideoCall = ({ call, remoteLabel }: VideoCallProps) => {
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
-  const [isFullScreen, setIsFullScreen] = useState(false);
-  const [micEnabled, setMicEnabled] = useState(true);
-  const [videoEnabled, setVideoEnabled] = useState(true);
-  const [callDuration, setCallDuration] = useState(0);
-  const [incomingOffer, setIncomingOffer] = useState<any>(null);
-  const callStartTimeRef = useRef<number>(0);
-  const durationIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [playbackBlocked, setPlaybackBlocked] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [showDevices, setShowDevices] = useState(false);
+  const [speaker, setSpeaker] = useState(() => loadDeviceChoice().audiooutput);
+  const [deviceError, setDeviceError] = useState<string | null>(null);
+  const { devices } = useMediaDevices();
+  const { localStream, remoteStream, connectedAt, reconnectDeadline, state, switchDevice } = call;
 
-  const {
-    localStream,
-    remoteStream,
-    callState,
-    error,
-    getLocalStream,
-    stopLocalStream,
-    createPeerConnection,
-    createDataChannel,
-    createOffer,
-    createAnswer,
-    setRemoteDescription,
-    addIceCandidate,
-    closePeerConnection,
-    setCallState,
-  } = useWebRTC(socket);
-
-  // Update local video ref
   useEffect(() => {
-    if (localVideoRef.current && localStream) {
+    if (localStream && localVideoRef.current) {
       localVideoRef.current.srcObject = localStream;
+      localVideoRef.current.play().catch(() => setPlaybackBlocked(true));
     }
   }, [localStream]);
 
-  // Update remote video ref
   useEffect(() => {
-    if (remoteVideoRef.current && remoteStream) {
+    if (remoteStream && remoteVideoRef.current) {
       remoteVideoRef.current.srcObject = remoteStream;
+      remoteVideoRef.current.play().catch(() => setPlaybackBlocked(true));
     }
   }, [remoteStream]);
 
-  // Handle call duration
   useEffect(() => {
-    if (callState === 'connected') {
-      callStartTimeRef.current = Date.now();
-      durationIntervalRef.current = setInterval(() => {
-        setCallDuration(Math.floor((Date.now() - callStartTimeRef.current) / 1000));
-      }, 1000);
-    } else if (durationIntervalRef.current) {
-      clearInterval(durationIntervalRef.current);
-    }
+    if (!speaker || !SPEAKER_SELECTION_SUPPORTED || !remoteVideoRef.current) return;
+    remoteVideoRef.current.setSinkId(speaker).catch((error) => console.warn('⚠️ Could not switch speaker:', error));
+  }, [remoteStream, speaker]);
 
-    return () => {
-      if (durationIntervalRef.current) {
-        clearInterval(durationIntervalRef.current);
-      }
-    };
-  }, [callState]);
-
-  // Initialize local stream on mount
+  // Elapsed time counts from the first connection until the call ends, reconnects included
+  const ticking = Boolean(connectedAt || reconnectDeadline) && state !== 'ended';
   useEffect(() => {
-    const initializeCall = async () => {
-      try {
-        await getLocalStream();
-        setCallState('idle');
-      } catch (err) {
-        console.error('Failed to initialize call:', err);
-      }
-    };
-
-    initializeCall();
-
-    // Socket.io listeners for signaling
-    socket?.on('incomingOffer', handleIncomingOffer);
-    socket?.on('incomingAnswer', handleIncomingAnswer);
-    socket?.on('incomingIceCandidate', handleIncomingIceCandidate);
-    socket?.on('callRejected', handleCallRejected);
-    socket?.on('callEnded', handleCallEnded);
-
-    return () => {
-      socket?.off('incomingOffer', handleIncomingOffer);
-      socket?.off('incomingAnswer', handleIncomingAnswer);
-      socket?.off('incomingIceCandidate', handleIncomingIceCandidate);
-      socket?.off('callRejected', handleCallRejected);
-      socket?.off('callEnded', handleCallEnded);
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [socket, getLocalStream, setCallState]);
-
-  const handleEndCall = useCallback(async () => {
-    try {
-      // Save call duration
-      if (appointmentId && callDuration > 0) {
-        // You can send this to your backend
-        socket?.emit('callEnded', {
-          appointmentId,
-          duration: callDuration,
-        });
-      }
-
-      closePeerConnection();
-      stopLocalStream();
-      onCallEnd?.();
-    } catch (err) {
-      console.error('Error ending call:', err);
-    }
-  }, [appointmentId, callDuration, socket, closePeerConnection, stopLocalStream, onCallEnd]);
-
-  const handleIncomingOffer = useCallback(async (offer: any) => {
-    console.log('📥 Incoming offer received:', offer);
-    setIncomingOffer(offer);
-  }, []);
-
-  const handleIncomingAnswer = useCallback(
-    async (answer: any) => {
-      try {
-        await setRemoteDescription(answer);
-      } catch (err) {
-        console.error('Error handling answer:', err);
-      }
-    },
-    [setRemoteDescription]
-  );
-
-  const handleIncomingIceCandidate = useCallback(
-    async (candidate: any) => {
-      try {
-        await addIceCandidate(candidate);
-      } catch (err) {
-        console.error('Error adding ICE candidate:', err);
-      }
-    },
-    [addIceCandidate]
-  );
-
-  const handleCallRejected = useCallback(() => {
-    alert('Call was rejected');
-    handleEndCall();
-  }, [handleEndCall]);
-
-  const handleCallEnded = useCallback(() => {
-    handleEndCall();
-  }, [handleEndCall]);
-
-  const handleStartCall = useCallback(async () => {
-    try {
-      console.log('🎬 handleStartCall invoked');
-      setCallState('calling');
-
-      // Create peer connection
-      const peerConn = await createPeerConnection(
-        (candidate) => {
-          console.log('🧊 ICE candidate:', candidate);
-          socket?.emit('sendIceCandidate', {
-            remoteUserId,
-            candidate,
-            appointmentId,
-          });
-        },
-        null,
-        null
-      );
-
-      // Create data channel for messaging
-      createDataChannel();
-
-      // Create offer
-      const offer = await createOffer();
-      console.log('📤 Offer created:', offer);
-
-      // Send offer through socket
-      socket?.emit('sendOffer', {
-        remoteUserId,
-        offer,
-        appointmentId,
-      });
-      console.log('✅ Offer emitted to backend');
-    } catch (err) {
-      console.error('Error starting call:', err);
-      alert('Failed to start call');
+    if (!ticking) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [ticking]);
+
+  // Resume playback if blocked by autoplay policy
+  const resumePlayback = async () => {
+    // Local video is muted, should be allowed to autoplay
+    await localVideoRef.current?.play().catch(() => {});
+    // Remote video might be blocked due to audio; temporarily mute to allow play, then restore
+    if (remoteVideoRef.current) {
+      const el = remoteVideoRef.current;
+      const prevMuted = el.muted;
+      el.muted = true;
+      await el.play().catch(() => {});
+      el.muted = prevMuted;
     }
-  }, [remoteUserId, appointmentId, socket, createPeerConnection, createDataChannel, createOffer, setCallState]);
-
-  const handleAcceptCall = useCallback(async () => {
-    if (!incomingOffer) return;
+    setPlaybackBlocked(false);
+  };
 
+  // Microphone and camera swap on the live call; the speaker is just where remote audio plays
+  const changeDevice = async (kind: MediaDeviceKind, deviceId: string) => {
+    setDeviceError(null);
     try {
-      setCallState('calling');
-
-      // Create peer connection
-      const peerConn = await createPeerConnection(
-        (candidate) => {
-          socket?.emit('sendIceCandidate', {
-            remoteUserId,
-            candidate,
-            appointmentId,
-          });
-        },
-        null,
-        (channel) => {
-          console.log('Received data channel:', channel.label);
-        }
-      );
-
-      // Create answer
-      const answer = await createAnswer(incomingOffer);
-
-      // Send answer through socket
-      socket?.emit('sendAnswer', {
-        remoteUserId,
-        answer,
-        appointmentId,
-      });
-
-      setIncomingOffer(null);
-    } catch (err) {
-      console.error('Error accepting call:', err);
-      alert('Failed to accept call');
-    }
-  }, [incomingOffer, remoteUserId, appointmentId, socket, createPeerConnection, createAnswer, setCallState]);
-
-  const handleRejectCall = useCallback(() => {
-    socket?.emit('rejectCall', {
-      remoteUserId,
-      appointmentId,
-    });
-    setIncomingOffer(null);
-  }, [remoteUserId, appointmentId, socket]);
-
-  const toggleMic = useCallback(() => {
-    if (localStream) {
-      localStream.getAudioTracks().forEach((track) => {
-        track.enabled = !track.enabled;
-      });
-      setMicEnabled(!micEnabled);
-    }
-  }, [localStream, micEnabled]);
-
-  const toggleVideo = useCallback(() => {
-    if (localStream) {
-      localStream.getVideoTracks().forEach((track) => {
-        track.enabled = !track.enabled;
-      });
-      setVideoEnabled(!videoEnabled);
+      if (kind === 'audiooutput') setSpeaker(deviceId);
+      else await switchDevice(kind, deviceId);
+      saveDeviceChoice({ ...loadDeviceChoice(), [kind]: deviceId });
+    } catch (error) {
+      const help = describeMediaError(error);
+      setDeviceError(`${help.title}. ${help.description}`);
     }
-  }, [localStream, videoEnabled]);
-
-  const toggleFullScreen = useCallback(() => {
-    setIsFullScreen(!isFullScreen);
-  }, [isFullScreen]);
+  };
 
-  const formatDuration = (seconds: number) => {
-    const hrs = Math.floor(seconds / 3600);
-    const mins = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
-    return `${hrs.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  const currentDevices = {
+    audioinput: localStream?.getAudioTracks()[0]?.getSettings().deviceId,
+    videoinput: localStream?.getVideoTracks()[0]?.getSettings().deviceId,
+    audiooutput: speaker,
   };
 
-  return (
-    <div className={`w-full h-full ${isFullScreen ? 'fixed inset-0 z-50' : ''} bg-black`}>
-      <div className="flex flex-col h-full">
-        {/* Video Container */}
-        <div className="flex-1 relative">
-          {/* Remote Video */}
-          <video
-            ref={remoteVideoRef}
-            autoPlay
-            playsInline
-            className="w-full h-full object-cover"
-          />
+  const status = STATUS[state];
+  const secondsLeft = reconnectDeadline ? Math.max(0, Math.ceil((reconnectDeadline - now) / 1000)) : null;
 
-          {/* Local Video */}
-          <div className="absolute bottom-4 right-4 w-32 h-24 bg-gray-900 rounded-lg overflow-hidden border-2 border-white shadow-lg">
-            <video
-              ref={localVideoRef}
-              autoPlay
-              playsInline
-              muted
-              className="w-full h-full object-cover"
-            />
-          </div>
+  return (
+    <div>
+      <div className="mb-4 flex flex-wrap items-center gap-2">
+        <span className={`px-3 py-1 rounded-full text-sm font-medium ${status.className}`}>● {status.label}</span>
+        {connectedAt && (
+          <span className="font-mono text-sm text-muted-foreground">{formatDuration(Math.max(0, Math.floor((now - connectedAt) / 1000)))}</span>
+        )}
+      </div>
 
-          {/* Call Duration */}
-          {callState === 'connected' && (
-            <div className="absolute top-4 left-4 bg-black/70 text-white px-4 py-2 rounded-lg text-lg font-semibold">
-              {formatDuration(callDuration)}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-4 mb-4 sm:mb-6">
+        {/* Remote Video */}
+        <Card className="relative aspect-video bg-black overflow-hidden rounded-lg">
+          {remoteStream ? (
+            <video ref={remoteVideoRef} autoPlay playsInline className="w-full h-full object-cover" />
+          ) : (
+            <div className="flex items-center justify-center h-full text-white">
+              <div className="text-center">
+                <Video className="w-16 h-16 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">Waiting for remote video...</p>
+              </div>
             </div>
           )}
-
-          {/* Connection Status */}
-          {callState !== 'connected' && callState !== 'idle' && (
-            <div className="absolute top-4 left-4 bg-blue-500/70 text-white px-4 py-2 rounded-lg text-sm">
-              {callState === 'calling' ? 'Connecting...' : callState}
+          {secondsLeft !== null && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/60 text-white" role="status">
+              <div className="text-center">
+                <WifiOff className="w-10 h-10 mx-auto mb-2" />
+                <p className="font-medium">Connection interrupted - reconnecting...</p>
+                <p className="text-sm opacity-80">The call ends in {secondsLeft}s if it can't reconnect</p>
+              </div>
             </div>
           )}
-        </div>
-
-        {/* Error Alert */}
-        {error && (
-          <Alert className="m-4 bg-red-500/20 border-red-500 text-red-100">
-            <AlertDescription>{error}</AlertDescription>
-          </Alert>
-        )}
-
-        {/* Incoming Call Notification */}
-        {incomingOffer && (
-          <Card className="m-4 bg-green-500/20 border-green-500">
-            <CardHeader className="pb-3">
-              <CardTitle className="text-lg">Incoming Video Call</CardTitle>
-            </CardHeader>
-            <CardContent className="flex gap-3">
-              <Button
-                onClick={handleAcceptCall}
-                className="flex-1 bg-green-600 hover:bg-green-700"
-              >
-                <Phone className="w-4 h-4 mr-2" />
-                Accept
-              </Button>
-              <Button
-                onClick={handleRejectCall}
-                className="flex-1 bg-red-600 hover:bg-red-700"
-              >
-                <PhoneOff className="w-4 h-4 mr-2" />
-                Reject
-              </Button>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Control Bar */}
-        <div className="bg-gray-900 border-t border-gray-700 p-4 flex justify-center items-center gap-4">
-          {callState === 'idle' && !incomingOffer && (
-            <>
-              {isInitiator ? (
-                <Button
-                  onClick={handleStartCall}
-                  className="bg-green-600 hover:bg-green-700"
-                  size="lg"
-                >
-                  <Phone className="w-5 h-5 mr-2" />
-                  Start Call
-                </Button>
-              ) : (
-                <div className="text-white text-sm">Waiting for incoming call...</div>
-              )}
-            </>
+          <div className="absolute top-2 left-2 bg-black/50 text-white px-2 py-1 rounded text-sm">{remoteLabel}</div>
+        </Card>
+
+        {/* Local Video */}
+        <Card className="relative aspect-video bg-black overflow-hidden">
+          {localStream ? (
+            <video ref={localVideoRef} autoPlay playsInline muted className="w-full h-full object-cover -scale-x-100" />
+          ) : (
+            <div className="flex items-center justify-center h-full text-white">
+              <div className="text-center">
+                <Video className="w-16 h-16 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">Initializing camera...</p>
+              </div>
+            </div>
           )}
+          {playbackBlocked && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+              <Button onClick={resumePlayback} variant="secondary">Resume Video</Button>
+            </div>
+          )}
+          <div className="absolute top-2 left-2 bg-black/50 text-white px-2 py-1 rounded text-sm">You</div>
+        </Card>
+      </div>
 
-          {callState !== 'idle' && !incomingOffer && (
-            <>
-              <Button
-                onClick={toggleMic}
-                variant={micEnabled ? 'default' : 'destructive'}
-                size="sm"
-              >
-                {micEnabled ? (
-                  <Mic className="w-4 h-4" />
-                ) : (
-                  <MicOff className="w-4 h-4" />
-                )}
-              </Button>
-
-              <Button
-                onClick={toggleVideo}
-                variant={videoEnabled ? 'default' : 'destructive'}
-                size="sm"
-              >
-                {videoEnabled ? (
-                  <Video className="w-4 h-4" />
-                ) : (
-                  <VideoOff className="w-4 h-4" />
-                )}
-              </Button>
-
-              <Button
-                onClick={handleEndCall}
-                className="bg-red-600 hover:bg-red-700"
-                size="lg"
-              >
-                <PhoneOff className="w-5 h-5 mr-2" />
-                End Call
-              </Button>
+      {/* Call Controls */}
+      <div className="flex justify-center gap-3 sm:gap-4 flex-wrap">
+        <Button
+          onClick={call.toggleAudio}
+          variant={call.audioEnabled ? 'default' : 'destructive'}
+          size="lg"
+          className="rounded-full w-12 h-12 sm:w-14 sm:h-14 touch-target"
+          aria-label={call.audioEnabled ? 'Mute microphone' : 'Unmute microphone'}
+          disabled={!localStream}
+        >
+          {call.audioEnabled ? <Mic /> : <MicOff />}
+        </Button>
+
+        <Button
+          onClick={call.toggleVideo}
+          variant={call.videoEnabled ? 'default' : 'destructive'}
+          size="lg"
+          className="rounded-full w-12 h-12 sm:w-14 sm:h-14 touch-target"
+          aria-label={call.videoEnabled ? 'Turn off camera' : 'Turn on camera'}
+          disabled={!localStream}
+        >
+          {call.videoEnabled ? <Video /> : <VideoOff />}
+        </Button>
+
+        <Button
+          onClick={call.hangup}
+          variant="destructive"
+          size="lg"
+          className="rounded-full w-12 h-12 sm:w-14 sm:h-14 touch-target"
+          aria-label="End call"
+          disabled={state === 'ended'}
+        >
+          <PhoneOff />
+        </Button>
+
+        <Button
+          onClick={() => setShowDevices((shown) => !shown)}
+          variant={showDevices ? 'secondary' : 'outline'}
+          size="lg"
+          className="rounded-full w-12 h-12 sm:w-14 sm:h-14 touch-target"
+          aria-label="Camera, microphone and speaker settings"
+          aria-expanded={showDevices}
+          disabled={!localStream}
+        >
+          <Settings />
+        </Button>
+      </div>
 
-              <Button
-                onClick={toggleFullScreen}
-                variant="outline"
-                size="sm"
-              >
-                {isFullScreen ? (
-                  <Minimize2 className="w-4 h-4" />
-                ) : (
-                  <Maximize2 className="w-4 h-4" />
-                )}
-              </Button>
-            </>
-          )}
+      {showDevices && (
+        <div className="mt-4 space-y-2">
+          <MediaDeviceSelects devices={devices} choice={currentDevices} onChange={changeDevice} disabled={state === 'ended'} />
+          {deviceError && <p className="text-sm text-destructive">{deviceError}</p>}
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -29,8 +29,12 @@ if (socketUrl && !socketUrl.startsWith('http://') && !socketUrl.startsWith('http
 const turnApiUrl = import.meta.env?.VITE_TURN_API_URL as string | undefined;
 const iceRelayOnly = import.meta.env?.VITE_ICE_RELAY_ONLY === 'true';
 
-// Encryption salt - used for deriving encryption keys from user IDs
-// Change this to a unique value for your application in production
+// Patients cannot cancel or reschedule within this many hours of the start time
+const cutoffSetting = (import.meta.env?.VITE_APPOINTMENT_CHANGE_CUTOFF_HOURS as string | undefined)?.trim();
+const appointmentChangeCutoffHours = cutoffSetting && Number(cutoffSetting) >= 0 ? Number(cutoffSetting) : 2;
+
+// Legacy encryption salt: documents from before per-user key pairs were encrypted with
+// sha256(userId + salt). It is only used to read and migrate those documents
 const encryptionSalt = (import.meta.env?.VITE_ENCRYPTION_SALT as string | undefined) ?? 'arogyanet_secure_medical_platform_2025';
 
 export const env = {
@@ -39,6 +43,7 @@ export const env = {
   turnApiUrl,
   iceRelayOnly,
   encryptionSalt,
+  appointmentChangeCutoffHours,
 };
 
 export default env;
@@ -0,0 +1,64 @@
+import { useCallback, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useSocket } from '@/hooks/useSocket';
+import { queryKeys } from '@/api/queries';
+import type { Appointment, AppointmentChange } from '@/api/client';
+import { formatWithZone } from '@/utils/timezone';
+
+export interface AppointmentChangeNotice {
+  toUserId: string;
+  appointmentId: string;
+  action: AppointmentChange['action'];
+  byName?: string;
+  reason?: string;
+  startAt?: string;
+  status?: Appointment['status'];
+}
+
+const describeNotice = (notice: AppointmentChangeNotice): string => {
+  const who = notice.byName || 'The other party';
+  const when = notice.startAt ? formatWithZone(notice.startAt) : '';
+  switch (notice.action) {
+    case 'created':
+      return `${who} booked an appointment for you${when ? ` on ${when}` : ''}`;
+    case 'cancelled':
+      return `${who} cancelled the appointment${when ? ` on ${when}` : ''}`;
+    case 'rescheduled':
+      return `${who} moved the appointment${when ? ` to ${when}` : ''}`;
+    default:
+      return `${who} marked the appointment as ${notice.status ?? 'updated'}`;
+  }
+};
+
+/**
+ * Real-time appointment change notices between patient and doctor.
+ * Incoming notices refresh the appointment list; `notifyChange` tells the
+ * other party about a change this user just made.
+ */
+export function useAppointmentNotifications() {
+  const socket = useSocket();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!socket) return;
+    const onChanged = (notice: AppointmentChangeNotice) => {
+      toast.info(describeNotice(notice), { description: notice.reason });
+      queryClient.invalidateQueries({ queryKey: queryKeys.appointments.all });
+    };
+    socket.on('notification:appointment:changed', onChanged);
+    return () => {
+      socket.off('notification:appointment:changed', onChanged);
+    };
+  }, [socket, queryClient]);
+
+  const notifyChange = useCallback(
+    (notice: AppointmentChangeNotice) => {
+      if (!socket || !notice.toUserId) return;
+      socket.emit('appointment:changed', notice);
+    },
+    [socket]
+  );
+
+  return { notifyChange };
+}
@@ -1,6 +1,10 @@
 import { createContext, useContext, useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
 import { apiClient, type User } from "@/api/client";
+import { getAccessToken, onSessionExpired, setAccessToken } from "@/api/http";
+import { lockKeys } from "@/utils/keyVault";
 
 type UserRole = "patient" | "doctor" | "admin";
 
@@ -19,20 +23,20 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [userRole, setUserRole] = useState<UserRole | null>(null);
   const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     // Check for existing session on mount
     const checkSession = async () => {
       try {
-        const token = localStorage.getItem("accessToken");
-        if (token) {
+        if (getAccessToken()) {
           const currentUser = await apiClient.getCurrentUser();
           if (currentUser) {
             setUser(currentUser);
             setUserRole((currentUser.role as UserRole) || null);
           } else {
-            // Token is invalid or expired
-            localStorage.removeItem("accessToken");
+            // Token was rejected and could not be refreshed
+            setAccessToken(null);
           }
         }
       } catch (error) {
@@ -45,6 +49,17 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     checkSession();
   }, []);
 
+  // The request layer only reports expiry once the refresh token itself has been rejected
+  useEffect(() => {
+    return onSessionExpired(() => {
+      toast.error("Your session has expired. Please sign in again.");
+      lockKeys();
+      queryClient.clear();
+      setUser(null);
+      setUserRole(null);
+    });
+  }, [queryClient]);
+
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
       const response = await apiClient.login(email, password);
@@ -81,6 +96,9 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     } catch (error) {
       console.error("Error logging out:", error);
     } finally {
+      // Drop cached dashboard data and the unlocked private key so the next account never sees them
+      lockKeys();
+      queryClient.clear();
       setUser(null);
       setUserRole(null);
     }
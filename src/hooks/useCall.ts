@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { useSocket } from '@/hooks/useSocket';
+import { CallEngine, IDLE_CALL } from '@/services/callEngine';
+import { createSocketSignaling } from '@/services/callSignaling';
+
+const subscribeNothing = () => () => {};
+const idleSnapshot = () => IDLE_CALL;
+
+/**
+ * The video call for one appointment, over the app socket. Every call UI goes
+ * through this hook; the engine lives as long as the component using it, and
+ * unmounting hangs up a call that is under way.
+ */
+export function useCall(appointmentId: string | undefined) {
+  const socket = useSocket();
+  const { user } = useAuth();
+  const [engine, setEngine] = useState<CallEngine | null>(null);
+
+  useEffect(() => {
+    if (!socket || !user?.id || !appointmentId) return;
+    const next = new CallEngine({ appointmentId, channel: createSocketSignaling(socket) });
+    next.start();
+    setEngine(next);
+    return () => {
+      next.dispose();
+      setEngine(null);
+    };
+  }, [socket, user?.id, appointmentId]);
+
+  const snapshot = useSyncExternalStore(engine?.subscribe ?? subscribeNothing, engine?.getSnapshot ?? idleSnapshot);
+
+  const call = useCallback((remoteUserId: string, media?: MediaStream) => engine?.call(remoteUserId, media), [engine]);
+  const join = useCallback((remoteUserId: string, media?: MediaStream) => engine?.join(remoteUserId, media), [engine]);
+  const accept = useCallback(() => engine?.accept(), [engine]);
+  const reject = useCallback(() => engine?.reject(), [engine]);
+  const hangup = useCallback(() => engine?.hangup(), [engine]);
+  const toggleAudio = useCallback(() => engine?.setAudioEnabled(!engine.getSnapshot().audioEnabled), [engine]);
+  const toggleVideo = useCallback(() => engine?.setVideoEnabled(!engine.getSnapshot().videoEnabled), [engine]);
+  const switchDevice = useCallback(
+    async (kind: 'audioinput' | 'videoinput', deviceId: string) => engine?.switchDevice(kind, deviceId),
+    [engine]
+  );
+
+  return { ...snapshot, ready: Boolean(engine), call, join, accept, reject, hangup, toggleAudio, toggleVideo, switchDevice };
+}
+
+export default useCall;
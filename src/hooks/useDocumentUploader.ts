@@ -0,0 +1,53 @@
+import { useRef, useState } from "react";
+import { isUploadCancelled, type MedicalDocument, type TransferProgress } from "@/api/client";
+import { useDiscardUpload, usePendingUploads, useResumeUpload, useUploadDocument, useUploadDocumentVersion } from "@/api/queries";
+import type { DocumentMetadataRequest } from "@/api/schemas";
+import { useAuth } from "@/hooks/useAuth";
+
+// Upload, resume and cancel documents for the signed-in user, tracking progress for one transfer at a time
+export function useDocumentUploader() {
+  const { user } = useAuth();
+  const uploadDocument = useUploadDocument();
+  const uploadVersion = useUploadDocumentVersion();
+  const resumeUpload = useResumeUpload();
+  const discardUpload = useDiscardUpload();
+  const pendingQuery = usePendingUploads(user?.id);
+  const [progress, setProgress] = useState<TransferProgress | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  // Resolves to null when the user cancels; other failures reject
+  const track = async (transfer: (signal: AbortSignal) => Promise<MedicalDocument>): Promise<MedicalDocument | null> => {
+    const abort = new AbortController();
+    controller.current = abort;
+    try {
+      return await transfer(abort.signal);
+    } catch (error) {
+      if (isUploadCancelled(error)) return null;
+      throw error;
+    } finally {
+      controller.current = null;
+      setProgress(null);
+    }
+  };
+
+  const upload = (file: File, metadata: DocumentMetadataRequest) =>
+    track((signal) => uploadDocument.mutateAsync({ file, userId: user.id, metadata, onProgress: setProgress, signal }));
+
+  const uploadNewVersion = (document: MedicalDocument, file: File) =>
+    track((signal) => uploadVersion.mutateAsync({ document, file, userId: user.id, onProgress: setProgress, signal }));
+
+  const resume = (uploadId: string) =>
+    track((signal) => resumeUpload.mutateAsync({ uploadId, onProgress: setProgress, signal }));
+
+  return {
+    progress,
+    uploading: uploadDocument.isPending || uploadVersion.isPending || resumeUpload.isPending,
+    pendingUploads: pendingQuery.data ?? [],
+    upload,
+    uploadNewVersion,
+    resume,
+    discard: discardUpload.mutateAsync,
+    discarding: discardUpload.isPending,
+    cancel: () => controller.current?.abort(),
+  };
+}
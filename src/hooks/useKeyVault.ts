@@ -0,0 +1,70 @@
+import { useSyncExternalStore } from "react";
+import { useMyKeyBundle, useSaveKeyBundle } from "@/api/queries";
+import { useAuth } from "@/hooks/useAuth";
+import type { KeyBackup } from "@/api/client";
+import { getStoredKeys, isStorageAvailable, saveEncryptionKey } from "@/utils/encryption";
+import { createKeyBackup, generateRecoveryPhrase, openKeyBackup } from "@/utils/keyBackup";
+import { getUnlockedKeys, lockKeys, setUnlockedKeys, subscribeToKeys } from "@/utils/keyVault";
+import { KeyVaultError, createKeyBundle, importPrivateKey, openKeyBundle, sealKeyBundle, unlockKeyBundle } from "@/utils/userKeys";
+
+export type KeyVaultStatus = "loading" | "error" | "missing" | "locked" | "unlocked";
+
+// The signed-in user's document key pair: whether one exists, whether it is unlocked in this tab, and the actions to change that
+export function useKeyVault() {
+  const { user } = useAuth();
+  const bundleQuery = useMyKeyBundle({ enabled: Boolean(user) });
+  const saveBundle = useSaveKeyBundle();
+  const keys = useSyncExternalStore(subscribeToKeys, getUnlockedKeys);
+  const bundle = bundleQuery.data ?? null;
+
+  const status: KeyVaultStatus =
+    !user || bundleQuery.isLoading
+      ? "loading"
+      : bundleQuery.error
+        ? "error"
+        : keys?.userId === user.id
+          ? "unlocked"
+          : bundle
+            ? "locked"
+            : "missing";
+
+  const setup = async (passphrase: string) => {
+    const created = await createKeyBundle(passphrase);
+    const saved = await saveBundle.mutateAsync(created.bundle);
+    setUnlockedKeys({ userId: user.id, publicKey: saved.publicKey, privateKey: created.privateKey });
+  };
+
+  const unlock = async (passphrase: string) => {
+    const privateKey = await unlockKeyBundle(bundle, passphrase);
+    setUnlockedKeys({ userId: user.id, publicKey: bundle.publicKey, privateKey });
+  };
+
+  // The passphrase is needed again because the unlocked private key can't be read back out
+  const createBackup = async (passphrase: string) => {
+    const privateKey = await openKeyBundle(bundle, passphrase);
+    const phrase = generateRecoveryPhrase();
+    const backup = await createKeyBackup(
+      { userId: user.id, publicKey: bundle.publicKey, privateKey, localKeys: getStoredKeys() },
+      phrase
+    );
+    return { backup, phrase };
+  };
+
+  // Re-seal the backed-up key pair under a new passphrase, e.g. on a new device or after forgetting the old one
+  const restore = async (backup: KeyBackup, phrase: string, passphrase: string) => {
+    if (backup.userId !== user.id) throw new KeyVaultError("This backup belongs to a different account", "invalid_backup");
+    if (bundle && bundle.publicKey !== backup.publicKey) {
+      throw new KeyVaultError("This backup holds a different key pair from the one your account uses now", "invalid_backup");
+    }
+    const { privateKey, localKeys } = await openKeyBackup(backup, phrase);
+    const saved = await saveBundle.mutateAsync(await sealKeyBundle(privateKey, backup.publicKey, passphrase));
+    // Legacy keys only go back if this browser can store them; the key pair is what matters for current documents
+    const known = new Set(getStoredKeys().map((key) => key.id));
+    const missing = isStorageAvailable() ? localKeys.filter((key) => !known.has(key.id)) : [];
+    missing.forEach(saveEncryptionKey);
+    setUnlockedKeys({ userId: user.id, publicKey: saved.publicKey, privateKey: await importPrivateKey(privateKey) });
+    return { restoredLocalKeys: missing.length };
+  };
+
+  return { status, bundle, bundleQuery, setup, unlock, createBackup, restore, lock: lockKeys };
+}
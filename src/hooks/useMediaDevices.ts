@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { listMediaDevices } from '@/utils/localMedia';
+
+/**
+ * The cameras, microphones and speakers on this device, kept current as they
+ * are plugged in or out. Call `refresh` once access is granted to get labels.
+ */
+export function useMediaDevices() {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await listMediaDevices());
+    } catch (error) {
+      console.warn('⚠️ Could not list media devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return useMemo(() => ({ devices, refresh }), [devices, refresh]);
+}
+
+export default useMediaDevices;
@@ -2,6 +2,7 @@ import { useContext, useEffect, useState, ReactNode } from 'react';
 import { io, Socket } from 'socket.io-client';
 import { env } from '@/config/env';
 import { SocketContext } from '@/contexts/SocketContext';
+import { useAuth } from '@/hooks/useAuth';
 
 // Hooks
 export function useSocket(): Socket | null {
@@ -20,6 +21,7 @@ interface SocketProviderProps {
 export function SocketProvider({ children }: SocketProviderProps) {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const { user } = useAuth();
 
   useEffect(() => {
     try {
@@ -54,6 +56,21 @@ export function SocketProvider({ children }: SocketProviderProps) {
     }
   }, []);
 
+  // The server maps users to sockets by `identify` and forgets the mapping when a socket drops,
+  // so identify again on every reconnect or calls and notifications stop reaching this user
+  useEffect(() => {
+    if (!socket || !user?.id) return;
+    const identify = () => {
+      socket.emit('identify', user.id);
+      console.log('👤 Identified - User ID:', user.id, 'Socket ID:', socket.id);
+    };
+    if (socket.connected) identify();
+    socket.on('connect', identify);
+    return () => {
+      socket.off('connect', identify);
+    };
+  }, [socket, user?.id]);
+
   return (
     <SocketContext.Provider value={{ socket, isConnected }}>
       {children}
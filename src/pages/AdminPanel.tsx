@@ -1,6 +1,18 @@
-import { useEffect, useMemo, useState } from "react";
+import { useMemo, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
-import { apiClient, type Appointment, type Prescription, type User, type LiverAssessment } from "@/api/client";
+import { useQueryClient } from "@tanstack/react-query";
+import { apiClient, describeApiError, type Appointment, type User, type LiverAssessment } from "@/api/client";
+import {
+  useUsers,
+  useUpdateUserRole,
+  useUpdateDoctorApproval,
+  useAppointments,
+  usePrescriptions,
+  useLiverAssessments,
+} from "@/api/queries";
+import { ApiErrorAlert } from "@/components/ApiErrorAlert";
+import { DocumentIntegrityCard } from "@/components/DocumentIntegrityCard";
+import { IceServerSettingsCard } from "@/components/IceServerSettingsCard";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -9,17 +21,33 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/component
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
-import { Users, Calendar, FileText, ArrowLeft, Shield, RefreshCcw, Lock, ChevronDown, ChevronRight, Stethoscope } from "lucide-react";
+import { Users, Calendar, FileText, ArrowLeft, Shield, RefreshCcw, Lock, ChevronDown, ChevronRight, Stethoscope, Video } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { formatForBoth, formatWithZone } from "@/utils/timezone";
+import { describeItem } from "@/utils/prescriptions";
+
+// Stable fallback so memoised groupings don't recompute while a query is loading
+const EMPTY_LIST: never[] = [];
 
 export default function AdminPanel() {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [users, setUsers] = useState<User[]>([]);
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
-  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [assessments, setAssessments] = useState<LiverAssessment[]>([]);
+  const queryClient = useQueryClient();
+
+  // Each section loads independently so one failing endpoint doesn't blank the whole panel
+  const canLoad = Boolean(user);
+  const usersQuery = useUsers({ enabled: canLoad });
+  const appointmentsQuery = useAppointments({ enabled: canLoad });
+  const prescriptionsQuery = usePrescriptions({ enabled: canLoad });
+  const assessmentsQuery = useLiverAssessments({ enabled: canLoad });
+  const updateRole = useUpdateUserRole();
+  const updateApproval = useUpdateDoctorApproval();
+
+  const users = usersQuery.data ?? EMPTY_LIST;
+  const appointments = appointmentsQuery.data ?? EMPTY_LIST;
+  const prescriptions = prescriptionsQuery.data ?? EMPTY_LIST;
+  const assessments = assessmentsQuery.data ?? EMPTY_LIST;
+  const loading = usersQuery.isLoading || appointmentsQuery.isLoading || prescriptionsQuery.isLoading || assessmentsQuery.isLoading;
 
   // Group assessments by patient for admin view
   const assessmentsByPatient = useMemo(() => {
@@ -41,60 +69,22 @@ export default function AdminPanel() {
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
 
-  useEffect(() => {
-    if (user) {
-      fetchAdminData();
-    }
-  }, [user]);
-
-  const fetchAdminData = async () => {
-    try {
-      const [fetchedUsers, fetchedAppointments, fetchedPrescriptions, fetchedAssessments] = await Promise.all([
-        apiClient.getUsers(),
-        apiClient.getAppointments(),
-        apiClient.getPrescriptions(),
-        apiClient.listLiverAssessments(),
-      ]);
-
-      setUsers(fetchedUsers);
-      setAppointments(fetchedAppointments);
-  setPrescriptions(fetchedPrescriptions);
-  setAssessments(fetchedAssessments);
-    } catch (error: unknown) {
-      const msg = error instanceof Error ? error.message : String(error);
-      console.error('Admin data fetch error:', error);
-      toast.error("Failed to load data: " + msg);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   // Do not allow assigning 'admin' from the panel
   const updateUserRole = async (userId: string, newRole: "patient" | "doctor") => {
     try {
-      const updated = await apiClient.updateUserRole(userId, newRole);
-      if (!updated) throw new Error("Unable to update role");
+      await updateRole.mutateAsync({ userId, role: newRole });
       toast.success("User role updated successfully");
-      setUsers((prev) =>
-        prev.map((u) => (u.id === userId ? { ...u, ...updated } : u))
-      );
     } catch (error: unknown) {
-      const msg = error instanceof Error ? error.message : String(error);
-      toast.error("Failed to update role: " + msg);
+      toast.error("Failed to update role: " + describeApiError(error).description);
     }
   };
 
   const updateDoctorApproval = async (userId: string, approved: boolean) => {
     try {
-      const updated = await apiClient.updateDoctorApproval(userId, approved);
-      if (!updated) throw new Error("Unable to update approval");
+      await updateApproval.mutateAsync({ userId, doctorApproved: approved });
       toast.success(approved ? "Doctor approved" : "Doctor approval revoked");
-      setUsers((prev) =>
-        prev.map((u) => (u.id === userId ? { ...u, ...updated } : u))
-      );
     } catch (error: unknown) {
-      const msg = error instanceof Error ? error.message : String(error);
-      toast.error("Failed to update approval: " + msg);
+      toast.error("Failed to update approval: " + describeApiError(error).description);
     }
   };
 
@@ -148,7 +138,7 @@ export default function AdminPanel() {
               Admin Panel
             </h1>
           </div>
-          <Button variant="secondary" onClick={() => window.location.reload()} className="gap-2">
+          <Button variant="secondary" onClick={() => queryClient.invalidateQueries()} className="gap-2">
             <RefreshCcw className="h-4 w-4" /> Refresh
           </Button>
         </div>
@@ -222,7 +212,7 @@ export default function AdminPanel() {
         </div>
 
         <Tabs defaultValue="users" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="users">
               <Users className="mr-2 h-4 w-4" />
               Users
@@ -239,6 +229,10 @@ export default function AdminPanel() {
               <Stethoscope className="mr-2 h-4 w-4"/>
               Health
             </TabsTrigger>
+            <TabsTrigger value="calls">
+              <Video className="mr-2 h-4 w-4" />
+              Calls
+            </TabsTrigger>
             <TabsTrigger value="security">
               <Lock className="mr-2 h-4 w-4" />
               Security
@@ -252,6 +246,9 @@ export default function AdminPanel() {
                 <CardDescription>Manage user roles and permissions</CardDescription>
               </CardHeader>
               <CardContent>
+                {usersQuery.error && (
+                  <ApiErrorAlert error={usersQuery.error} onRetry={() => usersQuery.refetch()} className="mb-3" />
+                )}
                 <Table>
                   <TableHeader>
                     <TableRow>
@@ -329,6 +326,9 @@ export default function AdminPanel() {
                 <CardDescription>System-wide appointment overview</CardDescription>
               </CardHeader>
               <CardContent>
+                {appointmentsQuery.error && (
+                  <ApiErrorAlert error={appointmentsQuery.error} onRetry={() => appointmentsQuery.refetch()} className="mb-3" />
+                )}
                 <Table>
                   <TableHeader>
                     <TableRow>
@@ -343,8 +343,8 @@ export default function AdminPanel() {
                   <TableBody>
                     {appointments.map((apt) => (
                       <TableRow key={apt.id}>
-                        <TableCell>{formatDate(apt.startAt)}</TableCell>
-                        <TableCell>{apt.endAt ? formatDate(apt.endAt) : "-"}</TableCell>
+                        <TableCell>{formatForBoth(apt.startAt, apt.doctor?.timezone, "for the doctor")}</TableCell>
+                        <TableCell>{apt.endAt ? formatWithZone(apt.endAt) : "-"}</TableCell>
                         <TableCell>{apt.patient?.name || "N/A"}</TableCell>
                         <TableCell>{apt.doctor?.name || "N/A"}</TableCell>
                         <TableCell>
@@ -368,14 +368,16 @@ export default function AdminPanel() {
                 <CardDescription>System-wide prescription overview</CardDescription>
               </CardHeader>
               <CardContent>
+                {prescriptionsQuery.error && (
+                  <ApiErrorAlert error={prescriptionsQuery.error} onRetry={() => prescriptionsQuery.refetch()} className="mb-3" />
+                )}
                 <Table>
                   <TableHeader>
                     <TableRow>
                       <TableHead>Date</TableHead>
                       <TableHead>Patient</TableHead>
                       <TableHead>Doctor</TableHead>
-                      <TableHead>Medication</TableHead>
-                      <TableHead>Dosage</TableHead>
+                      <TableHead>Items</TableHead>
                       <TableHead>Instructions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -385,8 +387,11 @@ export default function AdminPanel() {
                         <TableCell>{formatDate(presc.createdAt)}</TableCell>
                         <TableCell>{presc.patient?.name || "N/A"}</TableCell>
                         <TableCell>{presc.doctor?.name || "N/A"}</TableCell>
-                        <TableCell>{presc.medication}</TableCell>
-                        <TableCell>{presc.dosage}</TableCell>
+                        <TableCell>
+                          {presc.items.map((item, index) => (
+                            <div key={index}>{describeItem(item)}</div>
+                          ))}
+                        </TableCell>
                         <TableCell>{presc.instructions || "-"}</TableCell>
                       </TableRow>
                     ))}
@@ -403,7 +408,9 @@ export default function AdminPanel() {
                 <CardDescription>Grouped by patient. Latest visible; past submissions collapsed.</CardDescription>
               </CardHeader>
               <CardContent>
-                {assessmentsByPatient.length === 0 ? (
+                {assessmentsQuery.error ? (
+                  <ApiErrorAlert error={assessmentsQuery.error} onRetry={() => assessmentsQuery.refetch()} />
+                ) : assessmentsByPatient.length === 0 ? (
                   <p className="text-sm text-muted-foreground">No assessments available.</p>
                 ) : (
                   <div className="space-y-3">
@@ -500,7 +507,11 @@ export default function AdminPanel() {
             </Card>
           </TabsContent>
 
-          <TabsContent value="security">
+          <TabsContent value="calls">
+            <IceServerSettingsCard />
+          </TabsContent>
+
+          <TabsContent value="security" className="space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle>Change Password</CardTitle>
@@ -568,6 +579,7 @@ export default function AdminPanel() {
                 </div>
               </CardContent>
             </Card>
+            <DocumentIntegrityCard />
           </TabsContent>
         </Tabs>
       </div>
@@ -1,43 +1,40 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
-import { apiClient, type User as ApiUser } from "@/api/client";
+import { describeApiError, isApiError } from "@/api/client";
+import { useCreateAppointment, useDoctors } from "@/api/queries";
+import { appointmentRequestSchema, firstIssue } from "@/api/schemas";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Calendar } from "@/components/ui/calendar";
-import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { SlotPicker } from "@/components/SlotPicker";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { Calendar as CalendarIcon, Clock, User, FileText, ArrowLeft } from "lucide-react";
+import { Calendar as CalendarIcon, User, FileText, ArrowLeft } from "lucide-react";
 import { format } from "date-fns";
-import { cn } from "@/lib/utils";
+import type { Slot } from "@/utils/availability";
 
 const BookAppointment = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const [doctors, setDoctors] = useState<ApiUser[]>([]);
-  const [loading, setLoading] = useState(false);
+  const doctorsQuery = useDoctors();
+  const createAppointment = useCreateAppointment();
+  const doctors = doctorsQuery.data ?? [];
+  const loading = createAppointment.isPending;
   const [date, setDate] = useState<Date>();
+  const [slot, setSlot] = useState<Slot>();
   const [formData, setFormData] = useState({
     doctorId: "",
-    appointment_time: "",
     notes: "",
   });
 
   useEffect(() => {
-    fetchDoctors();
-  }, []);
-
-  const fetchDoctors = async () => {
-    try {
-      const fetched = await apiClient.getDoctors();
-      setDoctors(fetched);
-    } catch (error) {
-      console.error("Error fetching doctors:", error);
-    }
-  };
+    if (!doctorsQuery.error) return;
+    console.error("Error fetching doctors:", doctorsQuery.error);
+    const { title, description } = describeApiError(doctorsQuery.error);
+    toast({ title, description, variant: "destructive" });
+  }, [doctorsQuery.error, toast]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -51,51 +48,57 @@ const BookAppointment = () => {
       return;
     }
 
-    setLoading(true);
+    if (!slot) {
+      toast({
+        title: "Time Required",
+        description: "Please choose one of the available time slots",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const parsed = appointmentRequestSchema.safeParse({
+      doctorId: formData.doctorId,
+      startAt: slot.startAt.toISOString(),
+      endAt: slot.endAt.toISOString(),
+      notes: formData.notes || undefined,
+    });
+    if (!parsed.success) {
+      toast({
+        title: "Check your booking",
+        description: firstIssue(parsed.error),
+        variant: "destructive",
+      });
+      return;
+    }
 
     try {
-      const appointmentData = {
-        doctorId: formData.doctorId,
-        appointment_date: format(date, "yyyy-MM-dd"),
-        appointment_time: formData.appointment_time,
-        notes: formData.notes,
-        status: "pending",
-      };
-      
-      const startAtIso = new Date(`${appointmentData.appointment_date}T${appointmentData.appointment_time}`);
-      if (Number.isNaN(startAtIso.getTime())) {
-        throw new Error("Invalid appointment date or time");
-      }
-      const result = await apiClient.createAppointment({
-        doctorId: formData.doctorId,
-        startAt: startAtIso.toISOString(),
-        notes: appointmentData.notes,
+      await createAppointment.mutateAsync(parsed.data);
+      toast({
+        title: "Success",
+        description: "Your appointment has been booked successfully!",
       });
-      if (result) {
+      navigate("/patient-dashboard");
+    } catch (error) {
+      if (isApiError(error) && error.kind === "conflict") {
+        // Someone else got there first; the slot list has been refreshed without it
+        setSlot(undefined);
         toast({
-          title: "Success",
-          description: "Your appointment has been booked successfully!",
+          title: "Slot no longer available",
+          description: `${slot.time} on ${format(date, "PPP")} was just booked. Please pick another time.`,
+          variant: "destructive",
         });
-        navigate("/patient-dashboard");
-      } else {
-        throw new Error("Failed to book appointment");
+        return;
       }
-    } catch (error: any) {
+      const { title, description } = describeApiError(error);
       toast({
-        title: "Error",
-        description: error.message,
+        title,
+        description,
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
   };
 
-  const timeSlots = [
-    "09:00", "09:30", "10:00", "10:30", "11:00", "11:30",
-    "14:00", "14:30", "15:00", "15:30", "16:00", "16:30", "17:00"
-  ];
-
   const availableDoctors = doctors.filter((doctor) => doctor.doctorApproved !== false);
 
   return (
@@ -132,7 +135,10 @@ const BookAppointment = () => {
               </Label>
               <Select
                 value={formData.doctorId}
-                onValueChange={(value) => setFormData({ ...formData, doctorId: value })}
+                onValueChange={(value) => {
+                  setFormData({ ...formData, doctorId: value });
+                  setSlot(undefined);
+                }}
                 required
               >
                 <SelectTrigger className="h-11 sm:h-12 text-sm sm:text-base">
@@ -155,63 +161,17 @@ const BookAppointment = () => {
               </Select>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 sm:gap-8">
-              {/* Date Selection */}
-              <div className="space-y-2 sm:space-y-3">
-                <Label className="flex items-center gap-2 text-base sm:text-lg font-semibold">
-                  <CalendarIcon className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
-                  Appointment Date
-                </Label>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button
-                      variant="outline"
-                      className={cn(
-                        "w-full h-11 sm:h-12 justify-start text-left font-normal text-sm sm:text-base touch-target",
-                        !date && "text-muted-foreground"
-                      )}
-                    >
-                      <CalendarIcon className="mr-2 h-4 w-4" />
-                      {date ? format(date, "PPP") : <span>Pick a date</span>}
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-auto p-0" align="start">
-                    <Calendar
-                      mode="single"
-                      selected={date}
-                      onSelect={setDate}
-                      disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
-                      initialFocus
-                      className="pointer-events-auto"
-                    />
-                  </PopoverContent>
-                </Popover>
-              </div>
-
-              {/* Time Selection */}
-              <div className="space-y-2 sm:space-y-3">
-                <Label htmlFor="time" className="flex items-center gap-2 text-base sm:text-lg font-semibold">
-                  <Clock className="w-4 h-4 sm:w-5 sm:h-5 text-primary" />
-                  Appointment Time
-                </Label>
-                <Select
-                  value={formData.appointment_time}
-                  onValueChange={(value) => setFormData({ ...formData, appointment_time: value })}
-                  required
-                >
-                  <SelectTrigger className="h-11 sm:h-12 text-sm sm:text-base">
-                    <SelectValue placeholder="Select time slot" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {timeSlots.map((time) => (
-                      <SelectItem key={time} value={time}>
-                        {time}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
+            {/* Date and time, limited to the doctor's free slots */}
+            <SlotPicker
+              doctorId={formData.doctorId || undefined}
+              date={date}
+              onDateChange={setDate}
+              slot={slot}
+              onSlotChange={setSlot}
+              className="gap-6 sm:gap-8"
+              labelClassName="text-base sm:text-lg font-semibold"
+              fieldClassName="h-11 sm:h-12 text-sm sm:text-base"
+            />
 
             {/* Reason for Visit */}
             <div className="space-y-2 sm:space-y-3">
@@ -1,34 +1,49 @@
 import { useEffect, useMemo, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useSocket } from "@/hooks/useSocket";
-import { apiClient, type Appointment, type Prescription, type User, type MedicalDocument, type LiverAssessment } from "@/api/client";
+import { useAppointmentNotifications } from "@/hooks/useAppointmentNotifications";
+import { useQueryClient } from "@tanstack/react-query";
+import { apiClient, describeApiError, type Appointment, type AppointmentSeries, type User, type MedicalDocument, type DocumentVersion, type LiverAssessment } from "@/api/client";
+import {
+  useAppointments,
+  useUpdateAppointment,
+  usePrescriptions,
+  useDocuments,
+  useLiverAssessments,
+  useDoctorAvailability,
+} from "@/api/queries";
+import type { SeriesUpdateRequest } from "@/api/schemas";
+import { ApiErrorAlert } from "@/components/ApiErrorAlert";
+import AvailabilityEditor from "@/components/AvailabilityEditor";
+import { AppointmentHistoryDialog } from "@/components/AppointmentHistoryDialog";
+import { RecurringSeriesDialog } from "@/components/RecurringSeriesDialog";
+import { SeriesEditDialog } from "@/components/SeriesEditDialog";
+import { PrescriptionForm } from "@/components/PrescriptionForm";
+import { PrescriptionCard } from "@/components/PrescriptionCard";
+import { DocumentKeysCard } from "@/components/DocumentKeysCard";
+import { SecureDocumentViewer, type ViewedDocument } from "@/components/SecureDocumentViewer";
+import { DocumentFilterBar } from "@/components/DocumentFilterBar";
+import { DocumentMetaSummary } from "@/components/DocumentMetaSummary";
+import { DocumentVersionsDialog } from "@/components/DocumentVersionsDialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { toast } from "sonner";
-import { Calendar, Users, FileText, ArrowLeft, AlertTriangle, Video, RefreshCcw, Lock, Paperclip, ChevronDown, ChevronRight, Stethoscope } from "lucide-react";
+import { Calendar, CalendarClock, Users, FileText, ArrowLeft, AlertTriangle, Video, RefreshCcw, Lock, Paperclip, ChevronDown, ChevronRight, Stethoscope, History, Repeat } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { openUrl, getViewActionText } from "@/utils/documentViewer";
+import { transferLabel } from "@/utils/transferProgress";
+import { describeDecryptionFailure } from "@/utils/documentDiagnostics";
+import { collectTags, DEFAULT_DOCUMENT_FILTER, filterDocuments } from "@/utils/documentMetadata";
+import { browserTimeZone, formatForBoth, formatWithZone } from "@/utils/timezone";
 
-const formatDate = (iso?: string) => {
-  if (!iso) return "N/A";
-  const date = new Date(iso);
-  if (Number.isNaN(date.getTime())) return "N/A";
-  return date.toLocaleDateString();
-};
-
-const formatTime = (iso?: string) => {
-  if (!iso) return "N/A";
-  const date = new Date(iso);
-  if (Number.isNaN(date.getTime())) return "N/A";
-  return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
-};
+// Stable fallback so memoised groupings don't recompute while a query is loading
+const EMPTY_LIST: never[] = [];
 
 const statusBadge = (status: Appointment["status"]) => {
   switch (status) {
@@ -47,43 +62,42 @@ export default function DoctorDashboard() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const socket = useSocket();
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
-  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
   const [activeCall, setActiveCall] = useState<{ appointmentId: string; remoteUserId: string } | null>(null);
   // Change password form state
   const [currentPassword, setCurrentPassword] = useState("");
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   // Documents state
-  const [documents, setDocuments] = useState<MedicalDocument[]>([]);
   const [expandedPatients, setExpandedPatients] = useState<Set<string>>(new Set());
-  const [assessments, setAssessments] = useState<LiverAssessment[]>([]);
   const [expandedAssessments, setExpandedAssessments] = useState<Set<string>>(new Set());
 
-  const [selectedPatient, setSelectedPatient] = useState("");
-  const [medication, setMedication] = useState("");
-  const [dosage, setDosage] = useState("");
-  const [instructions, setInstructions] = useState("");
+  const [historyTarget, setHistoryTarget] = useState<Appointment | null>(null);
+  const [viewing, setViewing] = useState<ViewedDocument | null>(null);
+  const [documentFilter, setDocumentFilter] = useState(DEFAULT_DOCUMENT_FILTER);
+  const [versionsTarget, setVersionsTarget] = useState<MedicalDocument | null>(null);
+  const [seriesSource, setSeriesSource] = useState<Appointment | null>(null);
+  const [seriesTarget, setSeriesTarget] = useState<Appointment | null>(null);
+  const { notifyChange } = useAppointmentNotifications();
 
   const isDoctorPendingApproval = user?.role === "doctor" && user.doctorApproved === false;
 
-  // Identify user with socket
-  useEffect(() => {
-    if (socket && user?.id) {
-      socket.emit('identify', user.id);
-      console.log('👤 Doctor identified - User ID:', user.id, 'Socket ID:', socket.id);
-    }
-  }, [socket, user?.id]);
-
-  useEffect(() => {
-    if (!user) return;
-    if (isDoctorPendingApproval) {
-      setLoading(false);
-      return;
-    }
-    fetchDoctorData();
-  }, [user, isDoctorPendingApproval]);
+  // Each section loads independently so one failing endpoint doesn't blank the whole dashboard
+  const canLoad = Boolean(user) && !isDoctorPendingApproval;
+  // Appointment times are shown in the zone the doctor schedules in
+  const ownAvailability = useDoctorAvailability(user?.id, { enabled: canLoad && user?.role === "doctor" });
+  const doctorZone = ownAvailability.data?.timezone ?? user?.timezone ?? browserTimeZone();
+  const appointmentsQuery = useAppointments({ enabled: canLoad });
+  const prescriptionsQuery = usePrescriptions({ enabled: canLoad });
+  const documentsQuery = useDocuments({ enabled: canLoad });
+  const assessmentsQuery = useLiverAssessments({ enabled: canLoad });
+  const updateAppointment = useUpdateAppointment();
+
+  const appointments = appointmentsQuery.data ?? EMPTY_LIST;
+  const prescriptions = prescriptionsQuery.data ?? EMPTY_LIST;
+  const documents = documentsQuery.data ?? EMPTY_LIST;
+  const assessments = assessmentsQuery.data ?? EMPTY_LIST;
+  const loading = appointmentsQuery.isLoading || prescriptionsQuery.isLoading || documentsQuery.isLoading || assessmentsQuery.isLoading;
 
   const patients = useMemo(() => {
     const map = new Map<string, User>();
@@ -96,10 +110,21 @@ export default function DoctorDashboard() {
   }, [appointments]);
 
   // Group documents by patient
+  // The backend lists only documents shared with this doctor and enforces the grant's expiry; this just
+  // drops grants that lapsed since the list was fetched. Unencrypted and old-encryption documents stay
+  // listed so the doctor can see them, even though the latter can't be opened until re-encrypted
+  const sharedDocuments = useMemo(() => {
+    const now = Date.now();
+    return documents.filter((doc) => !doc.grantExpiresAt || new Date(doc.grantExpiresAt).getTime() > now);
+  }, [documents]);
+  const documentTags = useMemo(() => collectTags(sharedDocuments), [sharedDocuments]);
+  // While searching or filtering, every patient with a match is shown expanded
+  const filteringDocuments = documentFilter.query.trim() !== '' || documentFilter.category !== 'all' || documentFilter.tag !== '';
+
   const documentsByPatient = useMemo(() => {
     const grouped = new Map<string, { patient: User | null; patientName: string; patientEmail: string; docs: MedicalDocument[] }>();
-    
-    documents.forEach((doc) => {
+
+    filterDocuments(sharedDocuments, documentFilter).forEach((doc) => {
       // Backend returns patientId with each document
       const patientId = doc.patientId || 'unknown';
       const patient = patients.find(p => p.id === patientId) || null;
@@ -113,7 +138,24 @@ export default function DoctorDashboard() {
     });
     
     return Array.from(grouped.entries()).filter(([id]) => id !== 'unknown');
-  }, [documents, patients]);
+  }, [sharedDocuments, documentFilter, patients]);
+
+  const viewVersion = async (doc: MedicalDocument, version: DocumentVersion) => {
+    const toastId = toast.loading('Opening…');
+    try {
+      const blob = await apiClient.downloadAndDecryptDocument(
+        doc,
+        user.id,
+        (progress) => toast.loading(transferLabel(progress), { id: toastId }),
+        version
+      );
+      toast.dismiss(toastId);
+      setViewing({ document: { ...doc, originalName: `${version.originalName} (v${version.version})`, mimeType: version.mimeType }, blob });
+    } catch (error) {
+      const { title, description } = describeDecryptionFailure(error);
+      toast.error(title, { id: toastId, description });
+    }
+  };
 
   const togglePatientExpand = (patientId: string) => {
     setExpandedPatients((prev) => {
@@ -127,28 +169,6 @@ export default function DoctorDashboard() {
     });
   };
 
-  const fetchDoctorData = async () => {
-    try {
-      setLoading(true);
-      const [apptData, prescriptionData, docs, asmt] = await Promise.all([
-        apiClient.getAppointments(),
-        apiClient.getPrescriptions(),
-        apiClient.listDocuments(),
-        apiClient.listLiverAssessments(),
-      ]);
-
-      setAppointments(apptData);
-      setPrescriptions(prescriptionData);
-      setDocuments(docs);
-      setAssessments(asmt);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      toast.error("Failed to load data: " + errorMessage);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   // Group assessments by patient
   const assessmentsByPatient = useMemo(() => {
     const grouped = new Map<string, { patientName: string; patientEmail: string; items: LiverAssessment[] }>();
@@ -174,43 +194,48 @@ export default function DoctorDashboard() {
     });
   };
 
-  const updateAppointmentStatus = async (id: string, status: Appointment["status"]) => {
+  const updateAppointmentStatus = async (apt: Appointment, status: Appointment["status"]) => {
     try {
-      const updated = await apiClient.updateAppointment(id, { status });
-      if (!updated) throw new Error("Unable to update appointment");
+      const updated = await updateAppointment.mutateAsync({ id: apt.id, updates: { status } });
       toast.success("Appointment status updated");
-      setAppointments((prev) => prev.map((apt) => (apt.id === id ? updated : apt)));
+      notifyChange({
+        toUserId: apt.patient?.id,
+        appointmentId: apt.id,
+        action: status === "cancelled" ? "cancelled" : "status_changed",
+        byName: user?.name ? `Dr. ${user.name}` : undefined,
+        startAt: updated.startAt,
+        status,
+      });
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      toast.error("Failed to update: " + errorMessage);
+      toast.error("Failed to update: " + describeApiError(error).description);
     }
   };
 
-  const createPrescription = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!selectedPatient || !medication || !dosage) {
-      toast.error("Please fill all required fields");
-      return;
-    }
+  const notifySeriesCreated = (series: AppointmentSeries) => {
+    const first = series.appointments[0];
+    if (!first) return;
+    notifyChange({
+      toUserId: first.patient?.id ?? seriesSource?.patient?.id,
+      appointmentId: first.id,
+      action: "created",
+      byName: user?.name ? `Dr. ${user.name}` : undefined,
+      reason: `${series.appointments.length} follow-ups, every ${series.interval} ${series.frequency === "weekly" ? "week" : "month"}(s)`,
+      startAt: first.startAt,
+    });
+  };
 
-    try {
-      const created = await apiClient.createPrescription({
-        patientId: selectedPatient,
-        medication,
-        dosage,
-        instructions,
-      });
-      if (!created) throw new Error("Unable to create prescription");
-      toast.success("Prescription created successfully");
-      setSelectedPatient("");
-      setMedication("");
-      setDosage("");
-      setInstructions("");
-      setPrescriptions((prev) => [created, ...prev]);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      toast.error("Failed to create prescription: " + errorMessage);
-    }
+  const notifySeriesUpdated = (updated: Appointment[], change: SeriesUpdateRequest) => {
+    const first = updated[0];
+    if (!first) return;
+    notifyChange({
+      toUserId: first.patient?.id ?? seriesTarget?.patient?.id,
+      appointmentId: first.id,
+      action: change.status === "cancelled" ? "cancelled" : change.startTime ? "rescheduled" : "status_changed",
+      byName: user?.name ? `Dr. ${user.name}` : undefined,
+      reason: change.reason,
+      startAt: first.startAt,
+      status: change.status,
+    });
   };
 
   if (loading) {
@@ -255,7 +280,7 @@ export default function DoctorDashboard() {
             </Button>
             <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold">Doctor Dashboard</h1>
           </div>
-          <Button variant="secondary" onClick={() => window.location.reload()} className="gap-2 w-full sm:w-auto touch-target">
+          <Button variant="secondary" onClick={() => queryClient.invalidateQueries()} className="gap-2 w-full sm:w-auto touch-target">
             <RefreshCcw className="h-4 w-4" /> Refresh
           </Button>
         </div>
@@ -292,12 +317,17 @@ export default function DoctorDashboard() {
         {/* Security moved into its own tab below */}
 
         <Tabs defaultValue="appointments" className="space-y-4 sm:space-y-6">
-          <TabsList className="grid w-full grid-cols-3 sm:grid-cols-6 gap-1">
+          <TabsList className="grid w-full grid-cols-4 sm:grid-cols-7 gap-1">
             <TabsTrigger value="appointments" className="text-xs sm:text-sm">
               <Calendar className="mr-0 sm:mr-2 h-4 w-4" />
               <span className="hidden sm:inline">Appointments</span>
               <span className="sm:hidden">Appts</span>
             </TabsTrigger>
+            <TabsTrigger value="availability" className="text-xs sm:text-sm">
+              <CalendarClock className="mr-0 sm:mr-2 h-4 w-4" />
+              <span className="hidden sm:inline">Availability</span>
+              <span className="sm:hidden">Hours</span>
+            </TabsTrigger>
             <TabsTrigger value="patients" className="text-xs sm:text-sm">
               <Users className="mr-0 sm:mr-2 h-4 w-4" />
               <span className="hidden sm:inline">Patients</span>
@@ -332,48 +362,79 @@ export default function DoctorDashboard() {
                 <CardDescription>View and update your patient appointments</CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="table-mobile-wrapper">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead className="text-xs sm:text-sm">Start</TableHead>
-                        <TableHead className="text-xs sm:text-sm">Patient</TableHead>
-                        <TableHead className="text-xs sm:text-sm">Status</TableHead>
-                        <TableHead className="text-xs sm:text-sm">Actions</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {appointments.map((apt) => (
-                        <TableRow key={apt.id}>
-                          <TableCell className="text-xs sm:text-sm">{formatDate(apt.startAt)} {apt.endAt ? `- ${formatTime(apt.startAt)}` : ''}</TableCell>
-                          <TableCell className="text-xs sm:text-sm">{apt.patient?.name || "N/A"}</TableCell>
-                          <TableCell>
-                            <span className={`px-2 py-1 rounded text-xs font-medium ${statusBadge(apt.status)}`}>
-                              {apt.status}
-                            </span>
-                          </TableCell>
-                          <TableCell>
-                            <Select value={apt.status} onValueChange={(value) => updateAppointmentStatus(apt.id, value as Appointment["status"]) }>
-                              <SelectTrigger className="w-32 sm:w-40 text-xs sm:text-sm">
-                                <SelectValue placeholder="Update status" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="requested">Requested</SelectItem>
-                                <SelectItem value="confirmed">Confirmed</SelectItem>
-                                <SelectItem value="completed">Completed</SelectItem>
-                                <SelectItem value="cancelled">Cancelled</SelectItem>
-                              </SelectContent>
-                            </Select>
-                          </TableCell>
+                {appointmentsQuery.error ? (
+                  <ApiErrorAlert error={appointmentsQuery.error} onRetry={() => appointmentsQuery.refetch()} />
+                ) : appointments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No appointments yet.</p>
+                ) : (
+                  <div className="table-mobile-wrapper">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="text-xs sm:text-sm">Start</TableHead>
+                          <TableHead className="text-xs sm:text-sm">Patient</TableHead>
+                          <TableHead className="text-xs sm:text-sm">Status</TableHead>
+                          <TableHead className="text-xs sm:text-sm">Actions</TableHead>
                         </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                </div>
+                      </TableHeader>
+                      <TableBody>
+                        {appointments.map((apt) => (
+                          <TableRow key={apt.id}>
+                            <TableCell className="text-xs sm:text-sm">
+                              {formatForBoth(apt.startAt, apt.patient?.timezone, "for the patient", doctorZone)}
+                              {apt.seriesId && (
+                                <div className="text-xs text-muted-foreground">Follow-up #{apt.seriesIndex ?? "?"}</div>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-xs sm:text-sm">{apt.patient?.name || "N/A"}</TableCell>
+                            <TableCell>
+                              <span className={`px-2 py-1 rounded text-xs font-medium ${statusBadge(apt.status)}`}>
+                                {apt.status}
+                              </span>
+                              {apt.status === "cancelled" && apt.cancellationReason && (
+                                <div className="text-xs text-muted-foreground mt-1">{apt.cancellationReason}</div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Select value={apt.status} onValueChange={(value) => updateAppointmentStatus(apt, value as Appointment["status"]) }>
+                                <SelectTrigger className="w-32 sm:w-40 text-xs sm:text-sm">
+                                  <SelectValue placeholder="Update status" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="requested">Requested</SelectItem>
+                                  <SelectItem value="confirmed">Confirmed</SelectItem>
+                                  <SelectItem value="completed">Completed</SelectItem>
+                                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              <Button size="sm" variant="ghost" className="mt-1" onClick={() => setHistoryTarget(apt)}>
+                                <History className="mr-1 h-3 w-3" /> History
+                              </Button>
+                              {apt.status === "completed" && (
+                                <Button size="sm" variant="ghost" className="mt-1" onClick={() => setSeriesSource(apt)}>
+                                  <Repeat className="mr-1 h-3 w-3" /> Follow-ups
+                                </Button>
+                              )}
+                              {apt.seriesId && (
+                                <Button size="sm" variant="ghost" className="mt-1" onClick={() => setSeriesTarget(apt)}>
+                                  <Repeat className="mr-1 h-3 w-3" /> Edit series
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
 
+          <TabsContent value="availability">
+            {user && <AvailabilityEditor doctorId={user.id} />}
+          </TabsContent>
+
           <TabsContent value="patients">
             <Card>
               <CardHeader>
@@ -381,6 +442,9 @@ export default function DoctorDashboard() {
                 <CardDescription>Your registered patients</CardDescription>
               </CardHeader>
               <CardContent>
+                {appointmentsQuery.error && (
+                  <ApiErrorAlert error={appointmentsQuery.error} onRetry={() => appointmentsQuery.refetch()} className="mb-3" />
+                )}
                 <div className="table-mobile-wrapper">
                   <Table>
                     <TableHeader>
@@ -415,48 +479,7 @@ export default function DoctorDashboard() {
                   <CardDescription className="text-sm">Issue a new prescription for a patient</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <form onSubmit={createPrescription} className="space-y-3 sm:space-y-4">
-                    <div>
-                      <Label>Patient</Label>
-                      <Select value={selectedPatient} onValueChange={setSelectedPatient}>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select patient" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {patients.map((p) => (
-                            <SelectItem key={p.id} value={p.id}>
-                              {p.name || "Unnamed"}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    <div>
-                      <Label>Medication</Label>
-                      <Input
-                        value={medication}
-                        onChange={(e) => setMedication(e.target.value)}
-                        placeholder="e.g., Amoxicillin"
-                      />
-                    </div>
-                    <div>
-                      <Label>Dosage</Label>
-                      <Input
-                        value={dosage}
-                        onChange={(e) => setDosage(e.target.value)}
-                        placeholder="e.g., 500mg twice daily"
-                      />
-                    </div>
-                    <div>
-                      <Label>Instructions</Label>
-                      <Textarea
-                        value={instructions}
-                        onChange={(e) => setInstructions(e.target.value)}
-                        placeholder="Additional instructions..."
-                      />
-                    </div>
-                    <Button type="submit" className="w-full touch-target">Create Prescription</Button>
-                  </form>
+                  <PrescriptionForm patients={patients} appointments={appointments} />
                 </CardContent>
               </Card>
 
@@ -466,21 +489,17 @@ export default function DoctorDashboard() {
                   <CardDescription className="text-sm">Recently issued prescriptions</CardDescription>
                 </CardHeader>
                 <CardContent className="max-h-[400px] sm:max-h-[500px] overflow-y-auto">
+                  {prescriptionsQuery.error && (
+                    <ApiErrorAlert error={prescriptionsQuery.error} onRetry={() => prescriptionsQuery.refetch()} className="mb-3" />
+                  )}
                   <div className="space-y-3 sm:space-y-4">
                     {prescriptions.map((presc) => (
-                      <div key={presc.id} className="border rounded-lg p-3 sm:p-4">
-                        <div className="font-semibold text-sm sm:text-base">{presc.patient?.name || "N/A"}</div>
-                        <div className="text-xs sm:text-sm text-muted-foreground">
-                          {formatDate(presc.createdAt)}
-                        </div>
-                        <div className="mt-2 text-sm">
-                          <strong>Medication:</strong> {presc.medication}
-                        </div>
-                        <div className="text-sm"><strong>Dosage:</strong> {presc.dosage}</div>
-                        {presc.instructions && (
-                          <div className="text-xs sm:text-sm mt-2">{presc.instructions}</div>
-                        )}
-                      </div>
+                      <PrescriptionCard
+                        key={presc.id}
+                        prescription={presc}
+                        show="patient"
+                        appointment={appointments.find((apt) => apt.id === presc.appointmentId)}
+                      />
                     ))}
                   </div>
                 </CardContent>
@@ -488,21 +507,28 @@ export default function DoctorDashboard() {
             </div>
           </TabsContent>
 
-          <TabsContent value="documents">
+          <TabsContent value="documents" className="space-y-4 sm:space-y-6">
+            <DocumentKeysCard />
             <Card>
               <CardHeader>
                 <CardTitle>Patient Documents</CardTitle>
-                <CardDescription>View documents uploaded by your patients (read-only)</CardDescription>
+                <CardDescription>Documents your patients have shared with you (read-only, until the patient's chosen expiry)</CardDescription>
               </CardHeader>
               <CardContent>
-                {documentsByPatient.length === 0 ? (
-                  <p className="text-sm text-muted-foreground">No patient documents available yet.</p>
+                {documentsQuery.error ? (
+                  <ApiErrorAlert error={documentsQuery.error} onRetry={() => documentsQuery.refetch()} />
+                ) : sharedDocuments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No patient has shared a document with you yet.</p>
                 ) : (
                   <div className="space-y-2">
+                    <DocumentFilterBar filter={documentFilter} onChange={setDocumentFilter} tags={documentTags} />
+                    {documentsByPatient.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No documents match these filters.</p>
+                    )}
                     {documentsByPatient.map(([patientId, { patient, patientName, patientEmail, docs }]) => (
                       <Collapsible
                         key={patientId}
-                        open={expandedPatients.has(patientId)}
+                        open={filteringDocuments || expandedPatients.has(patientId)}
                         onOpenChange={() => togglePatientExpand(patientId)}
                       >
                         <CollapsibleTrigger asChild>
@@ -511,7 +537,7 @@ export default function DoctorDashboard() {
                             className="w-full justify-between hover:bg-accent"
                           >
                             <div className="flex items-center gap-3">
-                              {expandedPatients.has(patientId) ? (
+                              {filteringDocuments || expandedPatients.has(patientId) ? (
                                 <ChevronDown className="h-4 w-4" />
                               ) : (
                                 <ChevronRight className="h-4 w-4" />
@@ -541,54 +567,63 @@ export default function DoctorDashboard() {
                                     <TableHead>Type</TableHead>
                                     <TableHead>Size</TableHead>
                                     <TableHead>Uploaded</TableHead>
+                                    <TableHead>Shared until</TableHead>
                                     <TableHead>Action</TableHead>
                                   </TableRow>
                                 </TableHeader>
                                 <TableBody>
                                   {docs.map((doc) => (
                                     <TableRow key={doc.id}>
-                                      <TableCell className="max-w-[220px] truncate" title={doc.originalName}>
-                                        {doc.originalName}
+                                      <TableCell className="max-w-[260px]">
+                                        <div className="truncate" title={doc.originalName}>{doc.originalName}</div>
+                                        <DocumentMetaSummary document={doc} appointments={appointments} />
+                                        {doc.encrypted && doc.encryptionScheme !== 'envelope-v1' && (
+                                          <p className="text-xs text-amber-700">Old encryption: the patient needs to re-encrypt it before you can open it</p>
+                                        )}
                                       </TableCell>
                                       <TableCell className="text-xs">{doc.mimeType || '-'}</TableCell>
                                       <TableCell>{(doc.size / 1024 / 1024).toFixed(2)} MB</TableCell>
                                       <TableCell>
                                         {doc.createdAt ? new Date(doc.createdAt).toLocaleDateString() : '-'}
                                       </TableCell>
-                                      <TableCell>
+                                      <TableCell className="text-xs">
+                                        {doc.grantExpiresAt ? formatWithZone(doc.grantExpiresAt) : '-'}
+                                      </TableCell>
+                                      <TableCell className="flex gap-2">
                                         <Button
                                           size="sm"
                                           variant="outline"
                                           className="touch-target"
                                           onClick={async () => {
+                                            const toastId = toast.loading('Opening…');
                                             try {
-                                              // If document is encrypted, decrypt it first
-                                              if (doc.encrypted && doc.patientId) {
-                                                const { viewDocument } = await import('@/utils/documentViewer');
-                                                const blob = await apiClient.downloadAndDecryptDocument(doc, doc.patientId);
-                                                if (blob) {
-                                                  viewDocument(blob, doc.originalName, doc.mimeType);
-                                                  toast.success('Document decrypted successfully');
-                                                } else {
-                                                  toast.error('Failed to decrypt document');
-                                                }
+                                              // Shared documents open with the content key the patient wrapped to this doctor's key pair
+                                              if (doc.encrypted) {
+                                                const blob = await apiClient.downloadAndDecryptDocument(doc, user.id, (progress) =>
+                                                  toast.loading(transferLabel(progress), { id: toastId })
+                                                );
+                                                toast.dismiss(toastId);
+                                                setViewing({ document: doc, blob });
                                               } else {
                                                 // Unencrypted document - use direct URL
                                                 const url = await apiClient.getDocumentDownloadUrl(doc.id);
-                                                if (url) {
-                                                  openUrl(url, doc.originalName);
-                                                } else {
-                                                  toast.error('Failed to get download link');
-                                                }
+                                                openUrl(url, doc.originalName);
+                                                toast.dismiss(toastId);
                                               }
                                             } catch (error) {
                                               console.error('Document view error:', error);
-                                              toast.error(error instanceof Error ? error.message : 'Failed to view document');
+                                              const { title, description } = describeDecryptionFailure(error);
+                                              toast.error(title, { id: toastId, description });
                                             }
                                           }}
                                         >
-                                          {getViewActionText(doc.mimeType)}
+                                          {doc.encrypted ? 'View' : getViewActionText(doc.mimeType)}
                                         </Button>
+                                        {doc.encrypted && doc.version > 1 && (
+                                          <Button size="sm" variant="outline" onClick={() => setVersionsTarget(doc)} aria-label="Versions">
+                                            <History className="h-4 w-4" />
+                                          </Button>
+                                        )}
                                       </TableCell>
                                     </TableRow>
                                   ))}
@@ -612,7 +647,9 @@ export default function DoctorDashboard() {
                 <CardDescription>Latest assessments per patient with prediction details</CardDescription>
               </CardHeader>
               <CardContent>
-                {assessmentsByPatient.length === 0 ? (
+                {assessmentsQuery.error ? (
+                  <ApiErrorAlert error={assessmentsQuery.error} onRetry={() => assessmentsQuery.refetch()} />
+                ) : assessmentsByPatient.length === 0 ? (
                   <p className="text-sm text-muted-foreground">No assessments available yet.</p>
                 ) : (
                   <div className="space-y-2">
@@ -786,6 +823,26 @@ export default function DoctorDashboard() {
         </Tabs>
       </div>
 
+      <AppointmentHistoryDialog appointment={historyTarget} onOpenChange={(open) => !open && setHistoryTarget(null)} />
+      <SecureDocumentViewer file={viewing} onOpenChange={(open) => !open && setViewing(null)} />
+      <DocumentVersionsDialog
+        document={versionsTarget}
+        onOpenChange={(open) => !open && setVersionsTarget(null)}
+        onView={viewVersion}
+        appointments={appointments.filter((a) => a.patient?.id === versionsTarget?.patientId && a.status !== 'cancelled')}
+      />
+      <RecurringSeriesDialog
+        appointment={seriesSource}
+        onOpenChange={(open) => !open && setSeriesSource(null)}
+        onCreated={notifySeriesCreated}
+      />
+      <SeriesEditDialog
+        appointment={seriesTarget}
+        timeZone={doctorZone}
+        onOpenChange={(open) => !open && setSeriesTarget(null)}
+        onUpdated={notifySeriesUpdated}
+      />
+
 
     </div>
   );
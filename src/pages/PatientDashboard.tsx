@@ -1,6 +1,33 @@
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useMemo, useState, useCallback } from "react";
 import { useAuth } from "@/hooks/useAuth";
-import { apiClient, type Appointment, type Prescription, type User, type MedicalDocument, type LiverMeasurements, type LiverAssessment } from "@/api/client";
+import { useQueryClient } from "@tanstack/react-query";
+import { apiClient, describeApiError, isApiError, type Appointment, type LiverMeasurements, type MedicalDocument, type DocumentVersion } from "@/api/client";
+import {
+  useAppointments,
+  useCreateAppointment,
+  usePrescriptions,
+  useDoctors,
+  useDocuments,
+  useDeleteDocument,
+  useLiverAssessments,
+  useSubmitLiverAssessment,
+} from "@/api/queries";
+import { appointmentRequestSchema, firstIssue } from "@/api/schemas";
+import { ApiErrorAlert } from "@/components/ApiErrorAlert";
+import { SlotPicker } from "@/components/SlotPicker";
+import { AppointmentChangeDialog, type AppointmentChangeMode } from "@/components/AppointmentChangeDialog";
+import { AppointmentHistoryDialog } from "@/components/AppointmentHistoryDialog";
+import { PrescriptionCard } from "@/components/PrescriptionCard";
+import DocumentKeysCard from "@/components/DocumentKeysCard";
+import DocumentSharingDialog from "@/components/DocumentSharingDialog";
+import SecureDocumentViewer, { type ViewedDocument } from "@/components/SecureDocumentViewer";
+import UploadProgressPanel from "@/components/UploadProgressPanel";
+import DocumentMetadataFields from "@/components/DocumentMetadataFields";
+import DocumentMetadataDialog from "@/components/DocumentMetadataDialog";
+import DocumentFilterBar from "@/components/DocumentFilterBar";
+import DocumentMetaSummary from "@/components/DocumentMetaSummary";
+import DocumentVersionsDialog from "@/components/DocumentVersionsDialog";
+import MedicalProfileEditor from "@/components/MedicalProfileEditor";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,26 +36,89 @@ import { Textarea } from "@/components/ui/textarea";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { toast } from "sonner";
-import { Calendar, FileText, ArrowLeft, Clock, Video, RefreshCcw, Lock, Paperclip, Stethoscope } from "lucide-react";
+import { Calendar, CalendarClock, FileText, ArrowLeft, Clock, Video, RefreshCcw, Lock, Paperclip, Stethoscope, XCircle, History, Share2, Tag } from "lucide-react";
 import { useNavigate } from "react-router-dom";
-import VideoCall from "@/components/VideoCall";
 import { useSocket } from "@/hooks/useSocket";
-import { viewDocument, openUrl, getViewActionText } from "@/utils/documentViewer";
+import { callPath } from "@/services/callProtocol";
+import { sendSocketSignal } from "@/services/callSignaling";
+import { useAppointmentNotifications } from "@/hooks/useAppointmentNotifications";
+import { useDocumentUploader } from "@/hooks/useDocumentUploader";
+import { openUrl, getViewActionText } from "@/utils/documentViewer";
+import { transferLabel } from "@/utils/transferProgress";
+import { describeDecryptionFailure } from "@/utils/documentDiagnostics";
+import { collectTags, DEFAULT_DOCUMENT_FILTER, EMPTY_METADATA_FORM, filterDocuments, parseMetadataForm } from "@/utils/documentMetadata";
+import { getChangePolicy } from "@/utils/appointments";
+import { formatForBoth } from "@/utils/timezone";
+import type { Slot } from "@/utils/availability";
+
+// Stable fallback so memoised groupings don't recompute while a query is loading
+const EMPTY_LIST: never[] = [];
+
+// Reschedule / cancel / history buttons under each appointment, disabled inside the cutoff window
+const AppointmentActions = ({
+  appointment,
+  onChange,
+  onHistory,
+}: {
+  appointment: Appointment;
+  onChange: (mode: AppointmentChangeMode) => void;
+  onHistory: () => void;
+}) => {
+  const policy = getChangePolicy(appointment);
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3">
+      <Button size="sm" variant="outline" disabled={!policy.allowed} title={policy.reason} onClick={() => onChange("reschedule")}>
+        <CalendarClock className="mr-1 h-3 w-3" /> Reschedule
+      </Button>
+      <Button size="sm" variant="outline" disabled={!policy.allowed} title={policy.reason} onClick={() => onChange("cancel")}>
+        <XCircle className="mr-1 h-3 w-3" /> Cancel
+      </Button>
+      <Button size="sm" variant="ghost" onClick={onHistory}>
+        <History className="mr-1 h-3 w-3" /> History
+      </Button>
+      {!policy.allowed && appointment.status !== "cancelled" && appointment.status !== "completed" && (
+        <span className="text-xs text-muted-foreground">{policy.reason}</span>
+      )}
+    </div>
+  );
+};
 
 export default function PatientDashboard() {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
-  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
-  const [doctors, setDoctors] = useState<User[]>([]);
-  const [documents, setDocuments] = useState<MedicalDocument[]>([]);
-  const [uploading, setUploading] = useState(false);
+  const queryClient = useQueryClient();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [assessments, setAssessments] = useState<LiverAssessment[]>([]);
+  const [sharingTarget, setSharingTarget] = useState<MedicalDocument | null>(null);
+  const [viewing, setViewing] = useState<ViewedDocument | null>(null);
+  const [uploadMetadata, setUploadMetadata] = useState(EMPTY_METADATA_FORM);
+  const [documentFilter, setDocumentFilter] = useState(DEFAULT_DOCUMENT_FILTER);
+  const [editingDocument, setEditingDocument] = useState<MedicalDocument | null>(null);
+  const [versionsTarget, setVersionsTarget] = useState<MedicalDocument | null>(null);
+
+  // Each section loads independently so one failing endpoint doesn't blank the whole dashboard
+  const canLoad = Boolean(user);
+  const appointmentsQuery = useAppointments({ enabled: canLoad });
+  const prescriptionsQuery = usePrescriptions({ enabled: canLoad });
+  const doctorsQuery = useDoctors({ enabled: canLoad });
+  const documentsQuery = useDocuments({ enabled: canLoad });
+  const assessmentsQuery = useLiverAssessments({ enabled: canLoad });
+  const createAppointment = useCreateAppointment();
+  const uploader = useDocumentUploader();
+  const deleteDocument = useDeleteDocument();
+  const submitAssessment = useSubmitLiverAssessment();
+
+  const appointments = appointmentsQuery.data ?? EMPTY_LIST;
+  const prescriptions = prescriptionsQuery.data ?? EMPTY_LIST;
+  const doctors = doctorsQuery.data ?? EMPTY_LIST;
+  const documents = documentsQuery.data ?? EMPTY_LIST;
+  const visibleDocuments = useMemo(() => filterDocuments(documents, documentFilter), [documents, documentFilter]);
+  const documentTags = useMemo(() => collectTags(documents), [documents]);
+  const assessments = assessmentsQuery.data ?? EMPTY_LIST;
+  const { uploading, progress: uploadProgress } = uploader;
+  const loading = appointmentsQuery.isLoading || prescriptionsQuery.isLoading || doctorsQuery.isLoading
+    || documentsQuery.isLoading || assessmentsQuery.isLoading;
   const socket = useSocket();
   const [incomingCall, setIncomingCall] = useState<{ callerName: string; appointmentId: string; callerId: string } | null>(null);
-  const [activeCall, setActiveCall] = useState<{ appointmentId: string; remoteUserId: string } | null>(null);
   const [activeTab, setActiveTab] = useState("appointments");
   // Change password form state
   const [currentPassword, setCurrentPassword] = useState("");
@@ -50,9 +140,30 @@ export default function PatientDashboard() {
 
   // New appointment form state
   const [selectedDoctor, setSelectedDoctor] = useState("");
-  const [appointmentDate, setAppointmentDate] = useState("");
-  const [appointmentTime, setAppointmentTime] = useState("");
+  const [appointmentDate, setAppointmentDate] = useState<Date>();
+  const [appointmentSlot, setAppointmentSlot] = useState<Slot>();
   const [notes, setNotes] = useState("");
+  // Cancel / reschedule / history dialogs for an existing appointment
+  const [changeTarget, setChangeTarget] = useState<{ appointment: Appointment; mode: AppointmentChangeMode } | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<Appointment | null>(null);
+  const { notifyChange } = useAppointmentNotifications();
+
+  const viewVersion = async (doc: MedicalDocument, version: DocumentVersion) => {
+    const toastId = toast.loading('Downloading…');
+    try {
+      const blob = await apiClient.downloadAndDecryptDocument(
+        doc,
+        user.id,
+        (progress) => toast.loading(transferLabel(progress), { id: toastId }),
+        version
+      );
+      toast.dismiss(toastId);
+      setViewing({ document: { ...doc, originalName: `${version.originalName} (v${version.version})`, mimeType: version.mimeType }, blob });
+    } catch (error) {
+      const { title, description } = describeDecryptionFailure(error);
+      toast.error(title, { id: toastId, description });
+    }
+  };
 
   const handleIncomingCall = useCallback((data: Record<string, unknown>) => {
     console.log("📞 handleIncomingCall called with:", data);
@@ -62,13 +173,6 @@ export default function PatientDashboard() {
     console.log("✅ setIncomingCall triggered");
   }, []); // Empty deps - this callback should be stable
 
-  useEffect(() => {
-    if (socket && user?.id) {
-      socket.emit("identify", user.id);
-      console.log("👤 Patient identified - User ID:", user.id, "Socket ID:", socket.id);
-    }
-  }, [socket, user?.id]);
-
   // Listen for new schema notifications and reflect in dashboard tab
   useEffect(() => {
     if (!socket) return;
@@ -90,71 +194,38 @@ export default function PatientDashboard() {
     }
   }, [incomingCall]);
 
-  useEffect(() => {
-    if (user) {
-      fetchPatientData();
-    }
-  }, [user]);
-
-  const fetchPatientData = async () => {
-    try {
-      const [apptData, prescriptionData, doctorData, docs, asmts] = await Promise.all([
-        apiClient.getAppointments(),
-        apiClient.getPrescriptions(),
-        apiClient.getDoctors(),
-        apiClient.listDocuments(),
-        apiClient.listLiverAssessments(),
-      ]);
-
-      setAppointments(apptData || []);
-      setPrescriptions(prescriptionData || []);
-      setDoctors(doctorData || []);
-      setDocuments(docs || []);
-      setAssessments(asmts || []);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      toast.error("Failed to load data: " + errorMessage);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const bookAppointment = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedDoctor || !appointmentDate || !appointmentTime) {
+    if (!selectedDoctor || !appointmentDate || !appointmentSlot) {
       toast.error("Please fill all required fields");
       return;
     }
 
-    try {
-      const startAt = new Date(`${appointmentDate}T${appointmentTime}`);
-      if (Number.isNaN(startAt.getTime())) {
-        throw new Error("Invalid date or time");
-      }
+    const parsed = appointmentRequestSchema.safeParse({
+      doctorId: selectedDoctor,
+      startAt: appointmentSlot.startAt.toISOString(),
+      endAt: appointmentSlot.endAt.toISOString(),
+      notes: notes || undefined,
+    });
+    if (!parsed.success) {
+      toast.error(firstIssue(parsed.error));
+      return;
+    }
 
-      const result = await apiClient.createAppointment({
-        doctorId: selectedDoctor,
-        startAt: startAt.toISOString(),
-        notes,
-      });
-      if (result) {
-        toast.success("Appointment booked successfully");
-        setSelectedDoctor("");
-        setAppointmentDate("");
-        setAppointmentTime("");
-        setNotes("");
-        // optimistically prepend new appointment
-        if (result) {
-          setAppointments((prev) => [result, ...prev]);
-        } else {
-          fetchPatientData();
-        }
-      } else {
-        toast.error("Failed to book appointment");
-      }
+    try {
+      await createAppointment.mutateAsync(parsed.data);
+      toast.success("Appointment booked successfully");
+      setSelectedDoctor("");
+      setAppointmentDate(undefined);
+      setAppointmentSlot(undefined);
+      setNotes("");
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Unknown error";
-      toast.error("Failed to book appointment: " + errorMessage);
+      if (isApiError(error) && error.kind === "conflict") {
+        setAppointmentSlot(undefined);
+        toast.error(`The ${appointmentSlot.time} slot was just booked by someone else. Please pick another time.`);
+        return;
+      }
+      toast.error("Failed to book appointment: " + describeApiError(error).description);
     }
   };
 
@@ -176,7 +247,7 @@ export default function PatientDashboard() {
             </Button>
             <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold">Patient Dashboard</h1>
           </div>
-          <Button variant="secondary" onClick={() => window.location.reload()} className="gap-2 w-full sm:w-auto touch-target">
+          <Button variant="secondary" onClick={() => queryClient.invalidateQueries()} className="gap-2 w-full sm:w-auto touch-target">
             <RefreshCcw className="h-4 w-4" /> Refresh
           </Button>
         </div>
@@ -252,13 +323,19 @@ export default function PatientDashboard() {
                   <CardDescription className="text-sm">Schedule a consultation with a doctor</CardDescription>
                 </CardHeader>
                 <CardContent>
+                  {doctorsQuery.error && (
+                    <ApiErrorAlert error={doctorsQuery.error} onRetry={() => doctorsQuery.refetch()} className="mb-3" />
+                  )}
                   <form onSubmit={bookAppointment} className="space-y-3 sm:space-y-4">
                     <div>
                       <Label>Select Doctor</Label>
                       <select
                         className="w-full border rounded-md p-2"
                         value={selectedDoctor}
-                        onChange={(e) => setSelectedDoctor(e.target.value)}
+                        onChange={(e) => {
+                          setSelectedDoctor(e.target.value);
+                          setAppointmentSlot(undefined);
+                        }}
                       >
                         <option value="">Choose a doctor</option>
                         {doctors
@@ -270,23 +347,14 @@ export default function PatientDashboard() {
                         ))}
                       </select>
                     </div>
-                    <div>
-                      <Label>Date</Label>
-                      <Input
-                        type="date"
-                        value={appointmentDate}
-                        onChange={(e) => setAppointmentDate(e.target.value)}
-                        min={new Date().toISOString().split("T")[0]}
-                      />
-                    </div>
-                    <div>
-                      <Label>Time</Label>
-                      <Input
-                        type="time"
-                        value={appointmentTime}
-                        onChange={(e) => setAppointmentTime(e.target.value)}
-                      />
-                    </div>
+                    <SlotPicker
+                      doctorId={selectedDoctor || undefined}
+                      date={appointmentDate}
+                      onDateChange={setAppointmentDate}
+                      slot={appointmentSlot}
+                      onSlotChange={setAppointmentSlot}
+                      className="md:grid-cols-1 lg:grid-cols-2 gap-3"
+                    />
                     <div>
                       <Label>Notes (Optional)</Label>
                       <Textarea
@@ -309,6 +377,11 @@ export default function PatientDashboard() {
                   <CardDescription className="text-sm">Your scheduled appointments</CardDescription>
                 </CardHeader>
                 <CardContent className="max-h-[400px] sm:max-h-[500px] overflow-y-auto">
+                  {appointmentsQuery.error ? (
+                    <ApiErrorAlert error={appointmentsQuery.error} onRetry={() => appointmentsQuery.refetch()} />
+                  ) : appointments.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No appointments booked yet.</p>
+                  )}
                   <div className="space-y-3 sm:space-y-4">
                     {appointments.map((apt) => (
                       <div key={apt.id} className="border rounded-lg p-3 sm:p-4">
@@ -318,12 +391,14 @@ export default function PatientDashboard() {
                               Dr. {apt.doctor?.name || "N/A"}
                             </div>
                             <div className="text-xs sm:text-sm text-muted-foreground">
-                              {apt.startAt ? new Date(apt.startAt).toLocaleDateString() : "N/A"} at{" "}
-                              {apt.startAt ? new Date(apt.startAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : "N/A"}
+                              {formatForBoth(apt.startAt, apt.doctor?.timezone, "for the doctor")}
                             </div>
                             {apt.notes && (
                               <div className="text-xs sm:text-sm mt-2">{apt.notes}</div>
                             )}
+                            {apt.status === "cancelled" && apt.cancellationReason && (
+                              <div className="text-xs sm:text-sm mt-2 text-muted-foreground">Cancelled: {apt.cancellationReason}</div>
+                            )}
                           </div>
                           <span className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${
                             apt.status === "completed" ? "bg-green-100 text-green-800" :
@@ -334,6 +409,11 @@ export default function PatientDashboard() {
                             {apt.status}
                           </span>
                         </div>
+                        <AppointmentActions
+                          appointment={apt}
+                          onChange={(mode) => setChangeTarget({ appointment: apt, mode })}
+                          onHistory={() => setHistoryTarget(apt)}
+                        />
                       </div>
                     ))}
                   </div>
@@ -349,30 +429,23 @@ export default function PatientDashboard() {
                 <CardDescription className="text-sm">Your prescribed medications</CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="table-mobile-wrapper">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead className="text-xs sm:text-sm">Date</TableHead>
-                        <TableHead className="text-xs sm:text-sm">Doctor</TableHead>
-                        <TableHead className="text-xs sm:text-sm">Medication</TableHead>
-                        <TableHead className="text-xs sm:text-sm">Dosage</TableHead>
-                        <TableHead className="text-xs sm:text-sm">Instructions</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {prescriptions.map((presc) => (
-                        <TableRow key={presc.id}>
-                          <TableCell className="text-xs sm:text-sm">{presc.createdAt ? new Date(presc.createdAt).toLocaleDateString() : "N/A"}</TableCell>
-                          <TableCell className="text-xs sm:text-sm">Dr. {presc.doctor?.name || "N/A"}</TableCell>
-                          <TableCell className="text-xs sm:text-sm">{presc.medication}</TableCell>
-                          <TableCell className="text-xs sm:text-sm">{presc.dosage}</TableCell>
-                          <TableCell className="text-xs sm:text-sm">{presc.instructions || "-"}</TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                </div>
+                {prescriptionsQuery.error && (
+                  <ApiErrorAlert error={prescriptionsQuery.error} onRetry={() => prescriptionsQuery.refetch()} className="mb-3" />
+                )}
+                {prescriptions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No prescriptions yet.</p>
+                ) : (
+                  <div className="space-y-3 sm:space-y-4">
+                    {prescriptions.map((presc) => (
+                      <PrescriptionCard
+                        key={presc.id}
+                        prescription={presc}
+                        show="doctor"
+                        appointment={appointments.find((apt) => apt.id === presc.appointmentId)}
+                      />
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -390,7 +463,10 @@ export default function PatientDashboard() {
                     </p>
                     <div className="flex gap-4">
                       <Button
-                        onClick={() => setIncomingCall(null)}
+                        onClick={() => {
+                          if (socket) sendSocketSignal(socket, incomingCall.callerId, { type: 'reject', appointmentId: incomingCall.appointmentId });
+                          setIncomingCall(null);
+                        }}
                         variant="destructive"
                         className="flex-1"
                       >
@@ -416,16 +492,9 @@ export default function PatientDashboard() {
                           console.log("📞 Doctor ID:", doctorId, "Appointment ID:", incomingCall.appointmentId);
                           console.log("📞 Socket ID:", socket.id, "Socket connected:", socket.connected);
                           
-                          // Emit callAccepted FIRST before changing state (to avoid socket disconnect)
-                          socket.emit("call:accepted", {
-                            to: doctorId,
-                            ans: { accepted: true, appointmentId: incomingCall.appointmentId },
-                          });
-                          console.log("✅ call:accepted event emitted to doctor");
-                          
-                          // Then show VideoCall component - it will wait for the offer
-                          setActiveCall({ appointmentId: incomingCall.appointmentId, remoteUserId: doctorId });
+                          // The call page asks the doctor for a fresh offer once it is listening
                           setIncomingCall(null);
+                          navigate(callPath(incomingCall.appointmentId, doctorId));
                         }}
                         className="flex-1"
                       >
@@ -450,8 +519,8 @@ export default function PatientDashboard() {
             )}
           </TabsContent>
 
-          <TabsContent value="documents">
-            
+          <TabsContent value="documents" className="space-y-4 sm:space-y-6">
+            <DocumentKeysCard />
             <div className="grid gap-6 md:grid-cols-2">
               <Card>
                 <CardHeader>
@@ -465,6 +534,8 @@ export default function PatientDashboard() {
                       accept="application/pdf,image/*,.doc,.docx"
                       onChange={(e) => setSelectedFile(e.target.files?.[0] ?? null)}
                     />
+
+                    <DocumentMetadataFields value={uploadMetadata} onChange={setUploadMetadata} appointments={appointments} idPrefix="upload-document" />
                     
                     {/* Encryption info (always enabled) */}
                     <div className="flex items-center gap-2 p-3 border rounded-lg bg-green-50 dark:bg-green-950/20 border-green-200 dark:border-green-800">
@@ -483,27 +554,29 @@ export default function PatientDashboard() {
                           toast.error('User not authenticated');
                           return;
                         }
+                        const { data: metadata, error } = parseMetadataForm(uploadMetadata);
+                        if (error) {
+                          toast.error(error);
+                          return;
+                        }
                         try {
-                          setUploading(true);
-                          const uploaded = await apiClient.uploadDocument(selectedFile, user.id);
-                          if (uploaded) {
-                            toast.success('Uploaded and encrypted successfully');
-                            setSelectedFile(null);
-                            // Refresh document list
-                            const docs = await apiClient.listDocuments();
-                            setDocuments(docs);
-                          } else {
-                            toast.error('Upload failed');
+                          const uploaded = await uploader.upload(selectedFile, metadata);
+                          if (!uploaded) {
+                            toast.info('Upload cancelled');
+                            return;
                           }
+                          toast.success('Uploaded and encrypted successfully');
+                          setSelectedFile(null);
+                          setUploadMetadata(EMPTY_METADATA_FORM);
                         } catch (err) {
-                          toast.error('Upload error');
-                        } finally {
-                          setUploading(false);
+                          toast.error('Upload failed: ' + describeApiError(err).description);
                         }
                       }}
                     >
-                      {uploading ? 'Uploading…' : 'Upload'}
+                      {uploading ? (uploadProgress ? transferLabel(uploadProgress) : 'Uploading…') : 'Upload'}
                     </Button>
+
+                    <UploadProgressPanel uploader={uploader} />
                   </div>
                 </CardContent>
               </Card>
@@ -514,116 +587,137 @@ export default function PatientDashboard() {
                   <CardDescription>Your uploaded medical documents</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  {documents.length === 0 ? (
+                  {documentsQuery.error ? (
+                    <ApiErrorAlert error={documentsQuery.error} onRetry={() => documentsQuery.refetch()} />
+                  ) : documents.length === 0 ? (
                     <p className="text-sm text-muted-foreground">No documents uploaded yet.</p>
                   ) : (
-                    <Table>
-                      <TableHeader>
-                        <TableRow>
-                          <TableHead>Name</TableHead>
-                          <TableHead>Type</TableHead>
-                          <TableHead>Size</TableHead>
-                          <TableHead>Date</TableHead>
-                          <TableHead>Action</TableHead>
-                        </TableRow>
-                      </TableHeader>
-                      <TableBody>
-                        {documents.map((doc) => {
-                          const handleView = async () => {
-                            console.log('[View] Button clicked for document:', {
-                              id: doc.id,
-                              name: doc.originalName,
-                              encrypted: doc.encrypted,
-                              mimeType: doc.mimeType,
-                            });
-
-                            if (doc.encrypted) {
-                              console.log('[View] Document is encrypted, calling downloadAndDecryptDocument');
-                              try {
-                                if (!user?.id) {
-                                  throw new Error('User not authenticated');
-                                }
-                                const blob = await apiClient.downloadAndDecryptDocument(doc, user.id);
-                                console.log('[View] Got blob:', blob);
-                                if (blob) {
-                                  // Use Android-compatible viewing method
-                                  viewDocument(blob, doc.originalName, doc.mimeType);
-                                  toast.success('Document decrypted successfully');
+                    <div className="space-y-3">
+                      <DocumentFilterBar filter={documentFilter} onChange={setDocumentFilter} tags={documentTags} />
+                      {visibleDocuments.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No documents match these filters.</p>
+                      ) : (
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Name</TableHead>
+                              <TableHead>Type</TableHead>
+                              <TableHead>Size</TableHead>
+                              <TableHead>Date</TableHead>
+                              <TableHead>Action</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {visibleDocuments.map((doc) => {
+                              const handleView = async () => {
+                                console.log('[View] Button clicked for document:', {
+                                  id: doc.id,
+                                  name: doc.originalName,
+                                  encrypted: doc.encrypted,
+                                  mimeType: doc.mimeType,
+                                });
+    
+                                if (doc.encrypted) {
+                                  console.log('[View] Document is encrypted, calling downloadAndDecryptDocument');
+                                  const toastId = toast.loading('Downloading…');
+                                  try {
+                                    if (!user?.id) {
+                                      throw new Error('User not authenticated');
+                                    }
+                                    const blob = await apiClient.downloadAndDecryptDocument(doc, user.id, (progress) =>
+                                      toast.loading(transferLabel(progress), { id: toastId })
+                                    );
+                                    console.log('[View] Got blob:', blob);
+                                    toast.dismiss(toastId);
+                                    setViewing({ document: doc, blob });
+                                  } catch (error) {
+                                    console.error('[View] Decryption error:', error);
+                                    const { title, description } = describeDecryptionFailure(error);
+                                    toast.error(title, { id: toastId, description });
+                                  }
                                 } else {
-                                  console.error('[View] Blob is null');
-                                  toast.error('Failed to decrypt document');
+                                  console.log('[View] Document not encrypted, getting direct URL');
+                                  try {
+                                    const url = await apiClient.getDocumentDownloadUrl(doc.id);
+                                    console.log('[View] Got download URL:', url);
+                                    // Use Android-compatible URL opening
+                                    openUrl(url, doc.originalName);
+                                  } catch (error) {
+                                    toast.error('Failed to get download link: ' + describeApiError(error).description);
+                                  }
                                 }
-                              } catch (error) {
-                                console.error('[View] Decryption error:', error);
-                                toast.error(error instanceof Error ? error.message : 'Failed to decrypt document');
-                              }
-                            } else {
-                              console.log('[View] Document not encrypted, getting direct URL');
-                              const url = await apiClient.getDocumentDownloadUrl(doc.id);
-                              console.log('[View] Got download URL:', url);
-                              if (url) {
-                                // Use Android-compatible URL opening
-                                openUrl(url, doc.originalName);
-                              } else {
-                                toast.error('Failed to get download link');
-                              }
-                            }
-                          };
-
-                          return (
-                            <TableRow key={doc.id}>
-                              <TableCell className="max-w-[220px]">
-                                <div className="flex items-center gap-2">
-                                  <span className="truncate" title={doc.originalName}>{doc.originalName}</span>
-                                  {doc.encrypted && (
-                                    <span className="text-xs bg-green-500/10 text-green-600 dark:text-green-400 px-2 py-0.5 rounded whitespace-nowrap">
-                                      🔒 Encrypted
-                                    </span>
-                                  )}
-                                </div>
-                              </TableCell>
-                              <TableCell>{doc.mimeType || '-'}</TableCell>
-                              <TableCell>{(doc.size / 1024 / 1024).toFixed(2)} MB</TableCell>
-                              <TableCell>{doc.createdAt ? new Date(doc.createdAt).toLocaleDateString() : '-'}</TableCell>
-                              <TableCell className="flex gap-2">
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  onClick={handleView}
-                                  className="touch-target"
-                                >
-                                  {getViewActionText(doc.mimeType)}
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  variant="destructive"
-                                  onClick={async () => {
-                                    if (confirm(`Delete ${doc.originalName}?`)) {
-                                      const success = await apiClient.deleteDocument(doc.id);
-                                      if (success) {
-                                        toast.success('Document deleted');
-                                        setDocuments(documents.filter((d) => d.id !== doc.id));
-                                      } else {
-                                        toast.error('Failed to delete');
-                                      }
-                                    }
-                                  }}
-                                >
-                                  Delete
-                                </Button>
-                              </TableCell>
-                            </TableRow>
-                          );
-                        })}
-                      </TableBody>
-                    </Table>
+                              };
+    
+                              return (
+                                <TableRow key={doc.id}>
+                                  <TableCell className="max-w-[220px]">
+                                    <div className="flex items-center gap-2">
+                                      <span className="truncate" title={doc.originalName}>{doc.originalName}</span>
+                                      {doc.encrypted && (
+                                        <span className="text-xs bg-green-500/10 text-green-600 dark:text-green-400 px-2 py-0.5 rounded whitespace-nowrap">
+                                          🔒 Encrypted
+                                        </span>
+                                      )}
+                                    </div>
+                                    <DocumentMetaSummary document={doc} appointments={appointments} />
+                                  </TableCell>
+                                  <TableCell>{doc.mimeType || '-'}</TableCell>
+                                  <TableCell>{(doc.size / 1024 / 1024).toFixed(2)} MB</TableCell>
+                                  <TableCell>{doc.createdAt ? new Date(doc.createdAt).toLocaleDateString() : '-'}</TableCell>
+                                  <TableCell className="flex gap-2">
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={handleView}
+                                      className="touch-target"
+                                    >
+                                      {doc.encrypted ? 'View' : getViewActionText(doc.mimeType)}
+                                    </Button>
+                                    {doc.encrypted && (
+                                      <Button size="sm" variant="outline" onClick={() => setSharingTarget(doc)} aria-label="Sharing">
+                                        <Share2 className="h-4 w-4" />
+                                      </Button>
+                                    )}
+                                    <Button size="sm" variant="outline" onClick={() => setEditingDocument(doc)} aria-label="Edit details">
+                                      <Tag className="h-4 w-4" />
+                                    </Button>
+                                    {doc.encrypted && (
+                                      <Button size="sm" variant="outline" onClick={() => setVersionsTarget(doc)} aria-label="Versions">
+                                        <History className="h-4 w-4" />
+                                      </Button>
+                                    )}
+                                    <Button
+                                      size="sm"
+                                      variant="destructive"
+                                      onClick={async () => {
+                                        if (confirm(`Delete ${doc.originalName}?`)) {
+                                          try {
+                                            await deleteDocument.mutateAsync(doc.id);
+                                            toast.success('Document deleted');
+                                          } catch (error) {
+                                            toast.error('Failed to delete: ' + describeApiError(error).description);
+                                          }
+                                        }
+                                      }}
+                                    >
+                                      Delete
+                                    </Button>
+                                  </TableCell>
+                                </TableRow>
+                              );
+                            })}
+                          </TableBody>
+                        </Table>
+                      )}
+                    </div>
                   )}
                 </CardContent>
               </Card>
             </div>
           </TabsContent>
 
-          <TabsContent value="health">
+          <TabsContent value="health" className="space-y-4 sm:space-y-6">
+            {user && <MedicalProfileEditor patientId={user.id} />}
             <Card>
               <CardHeader>
                 <CardTitle>Liver Health Assessment</CardTitle>
@@ -640,15 +734,11 @@ export default function PatientDashboard() {
                         toast.error('Age must be greater than 0');
                         return;
                       }
-                      const submitted = await apiClient.submitLiverAssessment(meas);
-                      if (submitted) {
-                        toast.success('Assessment submitted');
-                        setMeas({ Age: 0, TB: 0, DB: 0, ALKP: 0, SGPT: 0, SGOT: 0, TP: 0, ALB: 0, AGR: 0, Gender: 0 });
-                      } else {
-                        toast.error('Failed to submit assessment');
-                      }
+                      await submitAssessment.mutateAsync(meas);
+                      toast.success('Assessment submitted');
+                      setMeas({ Age: 0, TB: 0, DB: 0, ALKP: 0, SGPT: 0, SGOT: 0, TP: 0, ALB: 0, AGR: 0, Gender: 0 });
                     } catch (err) {
-                      toast.error('Submission error');
+                      toast.error('Failed to submit assessment: ' + describeApiError(err).description);
                     }
                   }}
                 >
@@ -705,7 +795,9 @@ export default function PatientDashboard() {
                 </form>
                 <div className="mt-8">
                   <div className="font-semibold mb-2">Your Past Submissions</div>
-                  {assessments.length === 0 ? (
+                  {assessmentsQuery.error ? (
+                    <ApiErrorAlert error={assessmentsQuery.error} onRetry={() => assessmentsQuery.refetch()} />
+                  ) : assessments.length === 0 ? (
                     <p className="text-sm text-muted-foreground">No assessments yet.</p>
                   ) : (
                     <Table>
@@ -816,23 +908,32 @@ export default function PatientDashboard() {
         </Tabs>
       </div>
 
-      {/* Video Call Modal */}
-      {activeCall && socket && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="w-full max-w-2xl">
-            <VideoCall
-              remoteUserId={activeCall.remoteUserId}
-              appointmentId={activeCall.appointmentId}
-              socket={socket}
-              isInitiator={false}
-              onCallEnd={() => {
-                setActiveCall(null);
-                setIncomingCall(null);
-              }}
-            />
-          </div>
-        </div>
-      )}
+      <AppointmentChangeDialog
+        appointment={changeTarget?.appointment ?? null}
+        mode={changeTarget?.mode ?? "cancel"}
+        onOpenChange={(open) => !open && setChangeTarget(null)}
+        onChanged={(updated, reason) =>
+          notifyChange({
+            toUserId: updated.doctor?.id ?? changeTarget?.appointment.doctor?.id,
+            appointmentId: updated.id,
+            action: changeTarget?.mode === "cancel" ? "cancelled" : "rescheduled",
+            byName: user?.name,
+            reason,
+            startAt: updated.startAt,
+          })
+        }
+      />
+      <AppointmentHistoryDialog appointment={historyTarget} onOpenChange={(open) => !open && setHistoryTarget(null)} />
+      <DocumentSharingDialog document={sharingTarget} onOpenChange={(open) => !open && setSharingTarget(null)} />
+      <SecureDocumentViewer file={viewing} onOpenChange={(open) => !open && setViewing(null)} />
+      <DocumentMetadataDialog document={editingDocument} onOpenChange={(open) => !open && setEditingDocument(null)} appointments={appointments} />
+      <DocumentVersionsDialog
+        document={versionsTarget}
+        onOpenChange={(open) => !open && setVersionsTarget(null)}
+        onView={viewVersion}
+        appointments={appointments.filter((a) => a.status !== 'cancelled')}
+        uploader={uploader}
+      />
     </div>
   );
 }
\ No newline at end of file
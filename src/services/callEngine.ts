@@ -0,0 +1,419 @@
+import { canTransition, type CallState, type SignalingChannel, type SignalMessage } from '@/services/callProtocol';
+import { PeerService, type PeerEvents } from '@/services/peerService';
+import { callConstraints, describeMediaError, openLocalMedia, stopMedia } from '@/utils/localMedia';
+
+export type CallDirection = 'outgoing' | 'incoming';
+
+export type CallEndReason =
+  | 'hangup' // we hung up
+  | 'remote_hangup'
+  | 'declined' // we declined an incoming call
+  | 'rejected' // the other side declined ours
+  | 'media_unavailable'
+  | 'failed'
+  | 'lost';
+
+export interface CallSnapshot {
+  state: CallState;
+  direction: CallDirection | null;
+  remoteUserId: string | null;
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+  audioEnabled: boolean;
+  videoEnabled: boolean;
+  /** When the call first connected (ms since epoch) */
+  connectedAt: number | null;
+  /** While the connection or the server is down: when the call gives up (ms since epoch) */
+  reconnectDeadline: number | null;
+  endReason: CallEndReason | null;
+  error: string | null;
+}
+
+export const IDLE_CALL: CallSnapshot = {
+  state: 'idle',
+  direction: null,
+  remoteUserId: null,
+  localStream: null,
+  remoteStream: null,
+  audioEnabled: true,
+  videoEnabled: true,
+  connectedAt: null,
+  reconnectDeadline: null,
+  endReason: null,
+  error: null,
+};
+
+export interface CallEngineOptions {
+  appointmentId: string;
+  channel: SignalingChannel;
+  /** Local camera and microphone; tests pass a fake stream */
+  openMedia?: (constraints?: MediaStreamConstraints) => Promise<MediaStream>;
+  /** Peer connection factory; tests pass one built on a fake RTCPeerConnection */
+  createPeer?: (events: PeerEvents, polite: boolean) => Promise<PeerService>;
+  /** How long a dropped connection may stay down before the call ends */
+  reconnectGraceMs?: number;
+  now?: () => number;
+}
+
+type OutgoingSignal = SignalMessage extends infer M ? (M extends SignalMessage ? Omit<M, 'appointmentId'> : never) : never;
+
+const DEFAULT_RECONNECT_GRACE_MS = 15_000;
+
+/**
+ * One video call with one remote user, as a state machine over a signaling
+ * channel. Signals, user actions and peer events run one at a time in arrival
+ * order, so a fake channel and peer give the same result on every run.
+ * Subscribe/getSnapshot fit useSyncExternalStore.
+ */
+export class CallEngine {
+  private snapshot: CallSnapshot = IDLE_CALL;
+  private listeners = new Set<() => void>();
+  private peer: PeerService | null = null;
+  // The invite waiting for accept(), and candidates that arrived before there was a connection
+  private pendingOffer: RTCSessionDescriptionInit | null = null;
+  private earlyCandidates: RTCIceCandidateInit[] = [];
+  private accepted = false;
+  private work: Promise<void> = Promise.resolve();
+  private cleanups: (() => void)[] = [];
+  private graceTimer: ReturnType<typeof setTimeout> | null = null;
+  private disposed = false;
+
+  constructor(private options: CallEngineOptions) {}
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  start() {
+    const { channel } = this.options;
+    this.cleanups.push(
+      channel.subscribe((from, message) => {
+        this.enqueue(() => this.receive(from, message));
+      }),
+      channel.onConnectionChange((connected) => {
+        if (connected) this.enqueue(() => this.resumeSignaling());
+        // Media already flowing needs no server; a call still being set up does
+        else if (this.isActive() && this.snapshot.state !== 'connected') this.startGraceTimer('Lost connection to the server');
+      })
+    );
+  }
+
+  /**
+   * Rings the remote user; resolves once the connection is set up, with the
+   * invite on its way. `media` (say, from a device check) saves asking for the
+   * camera again; the call stops it when it ends.
+   */
+  call(remoteUserId: string, media?: MediaStream): Promise<void> {
+    if (this.snapshot.state !== 'idle') return this.work;
+    this.transition('ringing', { direction: 'outgoing', remoteUserId });
+    return this.enqueue(async () => {
+      const stream = await this.openMedia(media);
+      const peer = stream && (await this.openPeer());
+      // Adding the tracks fires negotiationneeded, whose offer goes out as the invite
+      peer?.addStream(stream);
+    });
+  }
+
+  /**
+   * Joins a call the user has already accepted elsewhere, such as the incoming
+   * call dialog. The caller may have invited before this page was listening,
+   * so it is asked to offer again; an invite that did arrive is accepted.
+   */
+  join(remoteUserId: string, media?: MediaStream): Promise<void> {
+    const { state, direction } = this.snapshot;
+    if (state === 'ringing' && direction === 'incoming' && this.snapshot.remoteUserId === remoteUserId) return this.accept(media);
+    if (state !== 'idle') return this.work;
+    this.transition('connecting', { direction: 'incoming', remoteUserId });
+    return this.enqueue(async () => {
+      if (await this.openMedia(media)) this.send({ type: 'ready' });
+    });
+  }
+
+  /** Answers the ringing incoming call */
+  accept(media?: MediaStream): Promise<void> {
+    if (this.snapshot.state !== 'ringing' || this.snapshot.direction !== 'incoming') return this.work;
+    this.transition('connecting');
+    return this.enqueue(async () => {
+      if (!(await this.openMedia(media))) return;
+      const offer = this.pendingOffer;
+      this.pendingOffer = null;
+      const peer = await this.openPeer();
+      await peer?.handleDescription(offer);
+    });
+  }
+
+  reject() {
+    if (this.snapshot.state !== 'ringing' || this.snapshot.direction !== 'incoming') return;
+    this.send({ type: 'reject' });
+    this.end('declined');
+  }
+
+  hangup() {
+    if (this.snapshot.state === 'ended') return;
+    if (this.snapshot.state !== 'idle') this.send({ type: 'hangup' });
+    this.end('hangup');
+  }
+
+  setAudioEnabled(enabled: boolean) {
+    this.snapshot.localStream?.getAudioTracks().forEach((track) => (track.enabled = enabled));
+    this.update({ audioEnabled: enabled });
+  }
+
+  setVideoEnabled(enabled: boolean) {
+    this.snapshot.localStream?.getVideoTracks().forEach((track) => (track.enabled = enabled));
+    this.update({ videoEnabled: enabled });
+  }
+
+  /**
+   * Swaps the microphone or camera mid-call. The new track replaces the old
+   * one on the connection, so nothing is renegotiated; rejects with the
+   * getUserMedia error and leaves the call as it was.
+   */
+  async switchDevice(kind: 'audioinput' | 'videoinput', deviceId: string): Promise<void> {
+    const { localStream } = this.snapshot;
+    if (!localStream || this.isOver()) return;
+    const audio = kind === 'audioinput';
+    const { audio: audioConstraints, video: videoConstraints } = callConstraints({ [kind]: deviceId }, true);
+    const opened = await (this.options.openMedia ?? openLocalMedia)(audio ? { audio: audioConstraints } : { video: videoConstraints });
+    const [next] = audio ? opened.getAudioTracks() : opened.getVideoTracks();
+    if (!next || this.isOver() || this.snapshot.localStream !== localStream) {
+      stopMedia(opened);
+      return;
+    }
+    const [previous] = audio ? localStream.getAudioTracks() : localStream.getVideoTracks();
+    next.enabled = audio ? this.snapshot.audioEnabled : this.snapshot.videoEnabled;
+    await this.peer?.replaceTrack(previous, next);
+    previous?.stop();
+    // A new stream object, so views showing the old one pick up the change
+    this.update({ localStream: new MediaStream([...localStream.getTracks().filter((track) => track !== previous), next]) });
+  }
+
+  /** Leaves the call (telling the other side if it was under way) and stops listening */
+  dispose() {
+    if (this.disposed) return;
+    if (this.isActive()) this.hangup();
+    this.disposed = true;
+    this.cleanups.forEach((cleanup) => cleanup());
+    this.cleanups = [];
+    this.listeners.clear();
+  }
+
+  private async receive(from: string, message: SignalMessage) {
+    if (message.appointmentId && message.appointmentId !== this.options.appointmentId) return;
+    const { state, direction, remoteUserId } = this.snapshot;
+    if (this.isOver()) return;
+    // Once the call has a remote party, nobody else can signal into it
+    if (remoteUserId && from && from !== remoteUserId) return;
+
+    switch (message.type) {
+      case 'invite':
+      case 'offer':
+        await this.receiveOffer(from, message.description, message.type === 'invite');
+        return;
+      case 'accept':
+      case 'answer':
+        if (state === 'ringing' && direction === 'outgoing') this.transition('connecting');
+        await this.peer?.handleDescription(message.description);
+        return;
+      case 'ready':
+        // The callee has joined, or is back on the server, and missed what we sent
+        if (direction === 'outgoing' && this.peer) {
+          if (state === 'ringing') this.transition('connecting');
+          await this.peer.restartOffer();
+        }
+        return;
+      case 'candidate':
+        if (this.peer) await this.peer.addIceCandidate(message.candidate);
+        else if (state !== 'idle') this.earlyCandidates.push(message.candidate);
+        return;
+      case 'reject':
+        if (state === 'ringing' && direction === 'outgoing') this.end('rejected');
+        return;
+      case 'hangup':
+        if (state !== 'idle') this.end('remote_hangup');
+        return;
+    }
+  }
+
+  private async receiveOffer(from: string, description: RTCSessionDescriptionInit, invite: boolean) {
+    const { state, direction } = this.snapshot;
+    if (state === 'idle') {
+      if (!invite) return;
+      this.pendingOffer = description;
+      this.transition('ringing', { direction: 'incoming', remoteUserId: from || null });
+      return;
+    }
+    if (state === 'ringing' && direction === 'incoming') {
+      // A repeated invite replaces the earlier one
+      this.pendingOffer = description;
+      return;
+    }
+    if (state === 'ringing') this.transition('connecting');
+    // A callee that joined makes its connection on the first offer
+    const peer = this.peer ?? (direction === 'incoming' ? await this.openPeer() : null);
+    await peer?.handleDescription(description);
+  }
+
+  // The caller is the impolite side of negotiation: when offers cross, the callee's gives way
+  private async openPeer(): Promise<PeerService | null> {
+    let peer: PeerService | null = null;
+    const events: PeerEvents = {
+      onTrack: (remoteStream) => this.update({ remoteStream }),
+      onDescription: (description) => {
+        if (peer === this.peer) this.sendDescription(description);
+      },
+      onIceCandidate: (candidate) => {
+        if (peer === this.peer) this.send({ type: 'candidate', candidate });
+      },
+      onConnectionStateChange: (state) => {
+        if (peer === this.peer) this.handleConnectionState(state);
+      },
+    };
+    const polite = this.snapshot.direction === 'incoming';
+    const create = this.options.createPeer ?? PeerService.create;
+    peer = await create(events, polite);
+    if (this.isOver()) {
+      peer.close();
+      return null;
+    }
+    this.peer = peer;
+    if (polite) peer.answerWith(this.snapshot.localStream);
+    for (const candidate of this.earlyCandidates.splice(0)) await peer.addIceCandidate(candidate);
+    return peer;
+  }
+
+  private sendDescription(description: RTCSessionDescriptionInit) {
+    if (description.type === 'offer') {
+      this.send({ type: this.snapshot.state === 'ringing' ? 'invite' : 'offer', description });
+      return;
+    }
+    // The callee's first answer is what accepts the call
+    const accepting = this.snapshot.direction === 'incoming' && !this.accepted;
+    this.accepted = true;
+    this.send({ type: accepting ? 'accept' : 'answer', description });
+  }
+
+  private handleConnectionState(state: RTCPeerConnectionState) {
+    const current = this.snapshot.state;
+    switch (state) {
+      case 'connected':
+        this.clearGraceTimer();
+        if (current === 'connecting' || current === 'reconnecting') {
+          this.transition('connected', { connectedAt: this.snapshot.connectedAt ?? this.now() });
+        }
+        return;
+      case 'disconnected':
+      case 'failed':
+        if (current === 'connected' || current === 'reconnecting') {
+          // Usually a network switch: gather fresh candidates over the new network and keep the call
+          if (current === 'connected') this.transition('reconnecting');
+          this.startGraceTimer();
+          this.enqueue(async () => this.peer?.restartOffer());
+        } else if (state === 'failed') {
+          this.end('failed', 'Unable to establish video connection. Check your network or firewall.');
+        }
+        return;
+    }
+  }
+
+  /**
+   * Signals sent while the server was unreachable are lost. The caller offers
+   * again; the callee asks it to, since as the polite side its own offer could
+   * be ignored in favour of one that never arrived.
+   */
+  private async resumeSignaling() {
+    const { state, direction, localStream } = this.snapshot;
+    if (!this.isActive()) return;
+    if (state !== 'reconnecting') this.clearGraceTimer();
+    if (state === 'connected' || !localStream) return;
+    if (direction === 'outgoing') await this.peer?.restartOffer();
+    else this.send({ type: 'ready' });
+  }
+
+  private startGraceTimer(error: string | null = null) {
+    if (this.graceTimer) return;
+    const graceMs = this.options.reconnectGraceMs ?? DEFAULT_RECONNECT_GRACE_MS;
+    this.graceTimer = setTimeout(() => this.end('lost', error), graceMs);
+    this.update({ reconnectDeadline: this.now() + graceMs });
+  }
+
+  private async openMedia(media?: MediaStream): Promise<MediaStream | null> {
+    let stream: MediaStream;
+    try {
+      stream = media ?? (await (this.options.openMedia ?? openLocalMedia)());
+    } catch (error) {
+      console.error('❌ Error accessing media devices:', error);
+      const help = describeMediaError(error);
+      this.end('media_unavailable', `${help.title}. ${help.description}`);
+      return null;
+    }
+    if (this.isOver()) {
+      stopMedia(stream);
+      return null;
+    }
+    this.update({ localStream: stream, audioEnabled: true, videoEnabled: true });
+    return stream;
+  }
+
+  private end(reason: CallEndReason, error: string | null = null) {
+    if (this.snapshot.state === 'ended') return;
+    this.clearGraceTimer();
+    this.peer?.close();
+    this.peer = null;
+    this.pendingOffer = null;
+    this.earlyCandidates = [];
+    stopMedia(this.snapshot.localStream);
+    this.transition('ended', { endReason: reason, error: error ?? this.snapshot.error });
+  }
+
+  private send(message: OutgoingSignal) {
+    const { remoteUserId } = this.snapshot;
+    if (!remoteUserId || this.disposed) return;
+    this.options.channel.send(remoteUserId, { ...message, appointmentId: this.options.appointmentId } as SignalMessage);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.work = this.work.then(task).catch((error) => {
+      console.error('❌ Call failed:', error);
+      this.end('failed', error instanceof Error ? error.message : String(error));
+    });
+    return this.work;
+  }
+
+  private transition(next: CallState, patch: Partial<CallSnapshot> = {}) {
+    if (!canTransition(this.snapshot.state, next)) {
+      console.warn(`⚠️ Ignoring call transition ${this.snapshot.state} → ${next}`);
+      return;
+    }
+    this.update({ ...patch, state: next });
+  }
+
+  private update(patch: Partial<CallSnapshot>) {
+    this.snapshot = { ...this.snapshot, ...patch };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private clearGraceTimer() {
+    if (!this.graceTimer) return;
+    clearTimeout(this.graceTimer);
+    this.graceTimer = null;
+    this.update({ reconnectDeadline: null });
+  }
+
+  private now() {
+    return (this.options.now ?? Date.now)();
+  }
+
+  private isActive() {
+    return this.snapshot.state !== 'idle' && this.snapshot.state !== 'ended';
+  }
+
+  private isOver() {
+    return this.disposed || this.snapshot.state === 'ended';
+  }
+}
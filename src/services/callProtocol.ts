@@ -0,0 +1,55 @@
+/**
+ * The one signaling vocabulary for video calls. Every call UI goes through
+ * CallEngine, which speaks these messages over a SignalingChannel; the socket
+ * channel maps them onto the backend's event names (see callSignaling.ts).
+ */
+
+export type CallState = 'idle' | 'ringing' | 'connecting' | 'connected' | 'reconnecting' | 'ended';
+
+/** The states each state may move to; anything else is a bug and is ignored */
+export const CALL_TRANSITIONS: Record<CallState, CallState[]> = {
+  idle: ['ringing', 'connecting', 'ended'],
+  ringing: ['connecting', 'ended'],
+  connecting: ['connected', 'ended'],
+  connected: ['reconnecting', 'ended'],
+  reconnecting: ['connected', 'ended'],
+  ended: [],
+};
+
+export const canTransition = (from: CallState, to: CallState): boolean => CALL_TRANSITIONS[from].includes(to);
+
+interface SignalPayloads {
+  /** Caller → callee: the first offer, which also rings the callee */
+  invite: { description: RTCSessionDescriptionInit };
+  /** Callee → caller: the callee has joined and wants an offer it can answer */
+  ready: Record<never, never>;
+  /** Callee → caller: the answer to the invite */
+  accept: { description: RTCSessionDescriptionInit };
+  /** Either side: any later offer. Crossed offers are settled by perfect negotiation (see peerService.ts) */
+  offer: { description: RTCSessionDescriptionInit };
+  /** Either side: the answer to a renegotiation offer */
+  answer: { description: RTCSessionDescriptionInit };
+  candidate: { candidate: RTCIceCandidateInit };
+  reject: Record<never, never>;
+  hangup: Record<never, never>;
+}
+
+export type SignalType = keyof SignalPayloads;
+
+export type SignalMessage = {
+  [K in SignalType]: { type: K; appointmentId: string } & SignalPayloads[K];
+}[SignalType];
+
+export type SignalHandler = (from: string, message: SignalMessage) => void;
+
+/** Transport for signal messages between two users. Delivery is in order per sender */
+export interface SignalingChannel {
+  send(toUserId: string, message: SignalMessage): void;
+  /** Returns the unsubscribe function */
+  subscribe(handler: SignalHandler): () => void;
+  /** Called with false when the transport drops and true when it is back */
+  onConnectionChange(listener: (connected: boolean) => void): () => void;
+}
+
+export const callPath = (appointmentId: string, remoteUserId: string) =>
+  `/videocall/${appointmentId}?remoteUserId=${encodeURIComponent(remoteUserId)}`;
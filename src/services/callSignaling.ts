@@ -0,0 +1,76 @@
+import type { Socket } from 'socket.io-client';
+import type { SignalingChannel, SignalMessage, SignalType } from '@/services/callProtocol';
+
+// The backend relays each message under its own event names, and names the answer `ans`
+const SOCKET_EVENTS: Record<SignalType, { emit: string; receive: string; field?: 'offer' | 'ans' | 'candidate' }> = {
+  invite: { emit: 'user:call', receive: 'incoming:call', field: 'offer' },
+  ready: { emit: 'call:prepare', receive: 'call:prepare' },
+  accept: { emit: 'call:accepted', receive: 'call:accepted', field: 'ans' },
+  offer: { emit: 'peer:nego:needed', receive: 'peer:nego:needed', field: 'offer' },
+  answer: { emit: 'peer:nego:done', receive: 'peer:nego:final', field: 'ans' },
+  candidate: { emit: 'peer:ice-candidate', receive: 'peer:ice-candidate', field: 'candidate' },
+  reject: { emit: 'call:rejected', receive: 'call:rejected' },
+  hangup: { emit: 'call:ended', receive: 'call:ended' },
+};
+
+const SIGNAL_TYPES = Object.keys(SOCKET_EVENTS) as SignalType[];
+
+const encode = (toUserId: string, message: SignalMessage): Record<string, unknown> => {
+  const { field } = SOCKET_EVENTS[message.type];
+  const payload: Record<string, unknown> = { toUserId, appointmentId: message.appointmentId };
+  if (field === 'candidate' && 'candidate' in message) payload.candidate = message.candidate;
+  else if (field && 'description' in message) payload[field] = message.description;
+  return payload;
+};
+
+const decode = (type: SignalType, data: Record<string, unknown> | undefined): SignalMessage | null => {
+  const { field } = SOCKET_EVENTS[type];
+  const appointmentId = typeof data?.appointmentId === 'string' ? data.appointmentId : '';
+  if (!field) return { type, appointmentId } as SignalMessage;
+  const value = data?.[field];
+  if (!value || typeof value !== 'object') return null;
+  return (field === 'candidate'
+    ? { type, appointmentId, candidate: value }
+    : { type, appointmentId, description: value }) as SignalMessage;
+};
+
+/** One signal over the app socket, for UIs that answer an invite before any call is open */
+export const sendSocketSignal = (socket: Socket, toUserId: string, message: SignalMessage) => {
+  socket.emit(SOCKET_EVENTS[message.type].emit, encode(toUserId, message));
+};
+
+/** Signaling over the app socket; SocketProvider identifies the user so the backend can route messages to them */
+export function createSocketSignaling(socket: Socket): SignalingChannel {
+  return {
+    send(toUserId, message) {
+      sendSocketSignal(socket, toUserId, message);
+    },
+
+    subscribe(handler) {
+      const listeners = SIGNAL_TYPES.map((type) => {
+        const listener = (data?: Record<string, unknown>) => {
+          const message = decode(type, data);
+          if (!message) {
+            console.warn('⚠️ Dropping malformed call signal:', SOCKET_EVENTS[type].receive, data);
+            return;
+          }
+          handler(typeof data?.from === 'string' ? data.from : '', message);
+        };
+        socket.on(SOCKET_EVENTS[type].receive, listener);
+        return [SOCKET_EVENTS[type].receive, listener] as const;
+      });
+      return () => listeners.forEach(([event, listener]) => socket.off(event, listener));
+    },
+
+    onConnectionChange(listener) {
+      const up = () => listener(true);
+      const down = () => listener(false);
+      socket.on('connect', up);
+      socket.on('disconnect', down);
+      return () => {
+        socket.off('connect', up);
+        socket.off('disconnect', down);
+      };
+    },
+  };
+}
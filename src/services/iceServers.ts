@@ -0,0 +1,144 @@
+import { env } from '@/config/env';
+import { apiClient } from '@/api/client';
+import { parseResponse, turnCredentialsSchema } from '@/api/schemas';
+
+/** The ICE servers for one peer connection, and when to fetch them again */
+export interface IceConfig {
+  iceServers: RTCIceServer[];
+  relayOnly: boolean;
+  source: 'override' | 'turn-api' | 'fallback';
+  /** When the TURN credentials stop working (ms since epoch); null if they don't expire */
+  expiresAt: number | null;
+  /** When to load a fresh config for a call still in progress; null if never */
+  refreshAt: number | null;
+}
+
+// Host candidates are enough on a LAN; a public STUN server covers most home routers
+export const FALLBACK_ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+
+const TURN_FETCH_TIMEOUT_MS = 5000;
+// Fetch again well before expiry, so an ICE restart late in a call still has working credentials
+const MAX_REFRESH_MARGIN_MS = 5 * 60_000;
+// A call that started without TURN tries again, in case the API was only briefly down
+const RETRY_AFTER_FAILURE_MS = 60_000;
+
+// TURN REST credentials (coturn's use-auth-secret) put the expiry, in epoch seconds, before a colon in the username
+const usernameExpiry = (servers: RTCIceServer[]): number | null => {
+  const expiries = servers
+    .map((server) => Number(server.username?.split(':')[0]))
+    .filter((seconds) => Number.isFinite(seconds) && seconds > 1e9);
+  return expiries.length ? Math.min(...expiries) * 1000 : null;
+};
+
+const refreshBefore = (expiresAt: number, now: number) => {
+  const lifetime = expiresAt - now;
+  return now + Math.max(0, lifetime - Math.min(MAX_REFRESH_MARGIN_MS, lifetime / 5));
+};
+
+/** Fetches short-lived TURN credentials; throws when the API fails or answers in an unexpected format */
+export async function fetchTurnCredentials(url: string, now = Date.now()): Promise<IceConfig> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(TURN_FETCH_TIMEOUT_MS), cache: 'no-store' });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  const credentials = parseResponse(turnCredentialsSchema, await response.json(), 'TURN credentials');
+  const expiresAt = credentials.expiresAt ?? (credentials.ttl ? now + credentials.ttl * 1000 : usernameExpiry(credentials.iceServers));
+  return {
+    iceServers: credentials.iceServers,
+    relayOnly: env.iceRelayOnly,
+    source: 'turn-api',
+    expiresAt,
+    refreshAt: expiresAt === null ? null : refreshBefore(expiresAt, now),
+  };
+}
+
+/**
+ * The ICE servers for a new call: the override an admin saved on the server
+ * if there is one, else fresh credentials from VITE_TURN_API_URL, else public
+ * STUN only. Never cached, so a changed override reaches the next call.
+ */
+export async function loadIceConfig(now = Date.now()): Promise<IceConfig> {
+  try {
+    const override = await apiClient.getIceServerOverride();
+    if (override) {
+      console.log('🔧 Using the ICE server override saved by an admin');
+      return { ...override, source: 'override', expiresAt: null, refreshAt: null };
+    }
+  } catch (error) {
+    console.error('❌ Failed to load the ICE server override, carrying on without it:', error);
+  }
+
+  const fallback: IceConfig = { iceServers: FALLBACK_ICE_SERVERS, relayOnly: env.iceRelayOnly, source: 'fallback', expiresAt: null, refreshAt: null };
+  if (!env.turnApiUrl) {
+    console.log('ℹ️ No TURN API URL, relying on host candidates and STUN');
+    return fallback;
+  }
+
+  try {
+    console.log('🔄 Fetching TURN credentials from:', env.turnApiUrl);
+    const config = await fetchTurnCredentials(env.turnApiUrl, now);
+    console.log('✅ Fetched ICE servers:', config.iceServers.length, 'servers');
+    return config;
+  } catch (error) {
+    console.error('❌ Failed to fetch TURN credentials:', error);
+    console.log('ℹ️ Continuing with host candidates and STUN (LAN should work)');
+    return { ...fallback, refreshAt: now + RETRY_AFTER_FAILURE_MS };
+  }
+}
+
+export interface RelayCandidate {
+  address: string;
+  port: number;
+  /** How the browser reached the TURN server */
+  relayProtocol: string;
+}
+
+export interface RelayDiagnostics {
+  candidates: RelayCandidate[];
+  errors: { url: string; code: number; text: string }[];
+  durationMs: number;
+  timedOut: boolean;
+}
+
+/**
+ * Gathers candidates with relay-only transport, as a call with
+ * VITE_ICE_RELAY_ONLY would. No relay candidates means calls between
+ * networks that block direct connections will fail.
+ */
+export async function runRelayDiagnostics(iceServers: RTCIceServer[], timeoutMs = 10_000): Promise<RelayDiagnostics> {
+  const started = performance.now();
+  const peer = new RTCPeerConnection({ iceServers, iceTransportPolicy: 'relay' });
+  const result: RelayDiagnostics = { candidates: [], errors: [], durationMs: 0, timedOut: false };
+
+  try {
+    const gathered = new Promise<void>((resolve) => {
+      peer.onicecandidate = (event) => {
+        if (!event.candidate) {
+          resolve();
+        } else if (event.candidate.type === 'relay') {
+          const { address, port, relayProtocol } = event.candidate as RTCIceCandidate & { relayProtocol?: string };
+          result.candidates.push({ address: address ?? '', port: port ?? 0, relayProtocol: relayProtocol ?? 'unknown' });
+        }
+      };
+      peer.onicecandidateerror = (event: RTCPeerConnectionIceErrorEvent) => {
+        result.errors.push({ url: event.url, code: event.errorCode, text: event.errorText });
+      };
+    });
+    const timeout = new Promise<void>((resolve) =>
+      setTimeout(() => {
+        result.timedOut = true;
+        resolve();
+      }, timeoutMs)
+    );
+
+    // A data channel gives the offer something to gather candidates for
+    peer.createDataChannel('relay-diagnostics');
+    await peer.setLocalDescription(await peer.createOffer());
+    await Promise.race([gathered, timeout]);
+  } finally {
+    peer.close();
+  }
+
+  result.durationMs = Math.round(performance.now() - started);
+  return result;
+}
@@ -1,54 +0,0 @@
-import env from "@/config/env";
-
-class PeerService {
-  peer: RTCPeerConnection | null;
-
-  constructor() {
-    this.peer = null;
-  }
-
-  initializePeer() {
-    if (!this.peer) {
-      this.peer = new RTCPeerConnection({
-        iceServers: [
-          {
-            urls: env.stunServers,
-          },
-        ],
-      });
-    }
-    return this.peer;
-  }
-
-  async getAnswer(offer: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit | undefined> {
-    if (this.peer) {
-      await this.peer.setRemoteDescription(offer);
-      const ans = await this.peer.createAnswer();
-      await this.peer.setLocalDescription(new RTCSessionDescription(ans));
-      return ans;
-    }
-  }
-
-  async setLocalDescription(ans: RTCSessionDescriptionInit) {
-    if (this.peer) {
-      await this.peer.setRemoteDescription(new RTCSessionDescription(ans));
-    }
-  }
-
-  async getOffer(): Promise<RTCSessionDescriptionInit | undefined> {
-    if (this.peer) {
-      const offer = await this.peer.createOffer();
-      await this.peer.setLocalDescription(new RTCSessionDescription(offer));
-      return offer;
-    }
-  }
-
-  closePeer() {
-    if (this.peer) {
-      this.peer.close();
-      this.peer = null;
-    }
-  }
-}
-
-export default new PeerService();
@@ -1,184 +1,251 @@
-import { env } from '@/config/env';
+import { loadIceConfig, type IceConfig } from '@/services/iceServers';
+
+export interface PeerEvents {
+  onTrack: (stream: MediaStream) => void;
+  /** A local offer or answer to send to the other side */
+  onDescription: (description: RTCSessionDescriptionInit) => void;
+  onIceCandidate: (candidate: RTCIceCandidateInit) => void;
+  onConnectionStateChange: (state: RTCPeerConnectionState) => void;
+}
+
+export type CreatePeerConnection = (config: RTCConfiguration) => RTCPeerConnection;
+
+const createBrowserPeerConnection: CreatePeerConnection = (config) => new RTCPeerConnection(config);
+
+// The ICE username fragments in an SDP; candidates carry the one they belong to
+const iceUfrags = (sdp: string | undefined): Set<string> =>
+  new Set(Array.from((sdp ?? '').matchAll(/^a=ice-ufrag:(\S+)/gm), (match) => match[1]));
+
+const describe = (description: RTCSessionDescription | RTCSessionDescriptionInit): RTCSessionDescriptionInit => ({
+  type: description.type,
+  sdp: description.sdp,
+});
+
+/**
+ * WebRTC Peer Service - one peer connection per call, negotiated with the
+ * "perfect negotiation" pattern: either side may offer at any time, and when
+ * offers cross the polite side rolls its own back while the impolite side
+ * ignores the other's. Remote candidates wait for the description they belong to.
+ */
+export class PeerService {
+  readonly peer: RTCPeerConnection;
+  readonly polite: boolean;
+  private events: PeerEvents;
+  private makingOffer = false;
+  private ignoreOffer = false;
+  private settingRemoteAnswer = false;
+  // Remote candidates by the ICE username fragment of their description, until it is applied
+  private pendingCandidates = new Map<string, RTCIceCandidateInit[]>();
+  private remoteUfrags = new Set<string>();
+  // Fragments of remote descriptions that were replaced or ignored; their candidates are dropped
+  private staleUfrags = new Set<string>();
+  private answerStream: MediaStream | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(peer: RTCPeerConnection, events: PeerEvents, polite: boolean) {
+    this.peer = peer;
+    this.events = events;
+    this.polite = polite;
+
+    peer.ontrack = (event) => {
+      console.log('🎥 Received remote track:', event.track.kind);
+      const [stream] = event.streams;
+      if (stream) events.onTrack(stream);
+    };
+
+    // Trickle ICE: hand local candidates out as they are found
+    peer.onicecandidate = (event) => {
+      if (event.candidate) {
+        events.onIceCandidate(event.candidate.toJSON());
+      } else {
+        console.log('🧊 ICE gathering complete (null candidate)');
+      }
+    };
 
-// WebRTC Peer Service - Handles peer connection and SDP negotiation
-class PeerService {
-  public peer: RTCPeerConnection | null = null;
-  private iceServersCache: RTCIceServer[] | null = null;
+    peer.onnegotiationneeded = async () => {
+      try {
+        this.makingOffer = true;
+        await peer.setLocalDescription();
+        console.log('📤 Created offer');
+        events.onDescription(describe(peer.localDescription));
+      } catch (err) {
+        console.error('❌ Failed to create offer:', err);
+      } finally {
+        this.makingOffer = false;
+      }
+    };
+
+    peer.onconnectionstatechange = () => {
+      console.log('🔗 Connection State:', peer.connectionState);
+      events.onConnectionStateChange(peer.connectionState);
+    };
+
+    peer.oniceconnectionstatechange = () => {
+      console.log('🔌 ICE Connection State:', peer.iceConnectionState);
+    };
+
+    peer.onicecandidateerror = (e: RTCPeerConnectionIceErrorEvent) => {
+      console.error('🧊 ICE Candidate Error:', {
+        errorCode: e.errorCode,
+        errorText: e.errorText,
+        url: e.url,
+        address: e.address,
+        port: e.port,
+      });
+    };
+  }
 
-  constructor() {
-    this.initializePeer();
+  /** Opens a peer connection with ICE servers fetched for this call, kept fresh until it closes */
+  static async create(
+    events: PeerEvents,
+    polite: boolean,
+    createConnection: CreatePeerConnection = createBrowserPeerConnection
+  ): Promise<PeerService> {
+    const config = await loadIceConfig();
+    // NOTE: No bundlePolicy 'max-bundle' - it causes errors when creating offer without tracks
+    const peer = createConnection({
+      iceServers: config.iceServers,
+      iceTransportPolicy: config.relayOnly ? 'relay' : 'all',
+      iceCandidatePoolSize: 10, // Pre-gather candidates
+    });
+    console.log('🔧 Peer connection created with', config.iceServers.length, 'ICE server(s) from', config.source, 'transport policy:', config.relayOnly ? 'relay-only' : 'all');
+    const service = new PeerService(peer, events, polite);
+    service.scheduleRefresh(config);
+    return service;
   }
 
-  // Fetch TURN credentials from REST API
-  private async fetchIceServers(): Promise<RTCIceServer[]> {
-    // Return cached servers if available
-    if (this.iceServersCache) {
-      return this.iceServersCache;
+  // Add local stream tracks to peer connection; negotiationneeded sends the offer
+  addStream(stream: MediaStream): void {
+    for (const track of stream.getTracks()) {
+      this.peer.addTrack(track, stream);
     }
+  }
 
-    // For local network connections, we can work without STUN/TURN (host candidates)
-    // But include some public STUN servers as fallback
-    const fallbackServers: RTCIceServer[] = [
-      {
-        urls: "stun:stun.l.google.com:19302",
-      },
-    ];
-
-    // If no TURN API configured, return minimal config (host candidates work without servers)
-    if (!env.turnApiUrl) {
-      console.log('ℹ️ No TURN API URL, relying on host candidates for LAN connection');
-      this.iceServersCache = fallbackServers;
-      return fallbackServers;
+  /** Sends `next` in place of `previous` (same kind) without renegotiating */
+  async replaceTrack(previous: MediaStreamTrack | undefined, next: MediaStreamTrack): Promise<void> {
+    const senders = this.peer.getSenders();
+    const sender = senders.find((s) => previous && s.track === previous) ?? senders.find((s) => s.track?.kind === next.kind);
+    if (sender) await sender.replaceTrack(next);
+  }
+
+  /** Adds the stream right after the next remote offer is applied, so its tracks ride on the offer's transceivers */
+  answerWith(stream: MediaStream): void {
+    this.answerStream = stream;
+  }
+
+  /** Applies a remote offer or answer, answering offers. Crossed offers resolve by politeness */
+  async handleDescription(description: RTCSessionDescriptionInit): Promise<void> {
+    const readyForOffer = !this.makingOffer && (this.peer.signalingState === 'stable' || this.settingRemoteAnswer);
+    const offerCollision = description.type === 'offer' && !readyForOffer;
+
+    this.ignoreOffer = !this.polite && offerCollision;
+    if (this.ignoreOffer) {
+      console.log('⚠️ Ignoring colliding offer (impolite side)');
+      this.retire(iceUfrags(description.sdp));
+      return;
+    }
+    if (description.type === 'answer' && this.peer.signalingState !== 'have-local-offer') {
+      // An answer to an offer we have since rolled back or replaced
+      console.warn('⚠️ Ignoring answer - not in have-local-offer state:', this.peer.signalingState);
+      return;
     }
 
+    this.settingRemoteAnswer = description.type === 'answer';
     try {
-      console.log('🔄 Fetching TURN credentials from:', env.turnApiUrl);
-      const response = await fetch(env.turnApiUrl, { 
-        signal: AbortSignal.timeout(3000) // 3s timeout
-      });
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      if (offerCollision) {
+        console.log('↩️ Rolling back our offer for the colliding one (polite side)');
+        await Promise.all([this.peer.setLocalDescription({ type: 'rollback' }), this.peer.setRemoteDescription(description)]);
+      } else {
+        await this.peer.setRemoteDescription(description);
       }
-      
-      const iceServers = await response.json();
-      
-      if (Array.isArray(iceServers) && iceServers.length > 0) {
-        console.log('✅ Fetched ICE servers:', iceServers.length, 'servers');
-        this.iceServersCache = iceServers;
-        return iceServers;
-      }
-      
-      console.warn('⚠️ API returned empty iceServers, using fallback');
-      this.iceServersCache = fallbackServers;
-      return fallbackServers;
-    } catch (error) {
-      console.error('❌ Failed to fetch TURN credentials:', error);
-      console.log('ℹ️ Continuing with host candidates (LAN should work)');
-      this.iceServersCache = fallbackServers;
-      return fallbackServers;
+    } finally {
+      this.settingRemoteAnswer = false;
     }
-  }
+    await this.applyRemoteUfrags(iceUfrags(description.sdp));
 
-  private async initializePeer() {
-    if (!this.peer) {
-      // Fetch ICE servers (includes TURN from API)
-      const iceServers = await this.fetchIceServers();
-
-      // Create peer connection
-      // For local network: allow host, srflx, relay candidates
-      // NOTE: Removed bundlePolicy 'max-bundle' - it causes errors when creating offer without tracks
-      this.peer = new RTCPeerConnection({
-        iceServers,
-        iceTransportPolicy: env.iceRelayOnly ? 'relay' : 'all',
-        iceCandidatePoolSize: 10, // Pre-gather candidates
-      });
-
-      console.log('🔧 Peer connection created with', iceServers.length, 'ICE server(s)');
-      console.log('📋 ICE Servers configured:', JSON.stringify(iceServers, null, 2));
-      console.log('🔧 ICE transport policy:', env.iceRelayOnly ? 'relay-only' : 'all (host/srflx/relay)');
-
-      // Log ICE connection state changes
-      this.peer.oniceconnectionstatechange = () => {
-        console.log('🔌 ICE Connection State:', this.peer?.iceConnectionState);
-      };
-
-      this.peer.onconnectionstatechange = () => {
-        console.log('🔗 Connection State:', this.peer?.connectionState);
-      };
-
-      this.peer.onicegatheringstatechange = () => {
-        console.log('🧊 ICE Gathering State:', this.peer?.iceGatheringState);
-      };
-
-      this.peer.onicecandidateerror = (e: RTCPeerConnectionIceErrorEvent) => {
-        console.error('🧊 ICE Candidate Error:', {
-          errorCode: e.errorCode,
-          errorText: e.errorText,
-          url: e.url,
-          address: e.address,
-          port: e.port,
-        });
-      };
+    if (description.type === 'offer') {
+      if (this.answerStream) {
+        this.addStream(this.answerStream);
+        this.answerStream = null;
+      }
+      await this.peer.setLocalDescription();
+      console.log('📥 Created answer');
+      this.events.onDescription(describe(this.peer.localDescription));
     }
   }
 
-  // Ensure peer is initialized (async-safe)
-  private async ensurePeer(): Promise<void> {
-    if (!this.peer) {
-      await this.initializePeer();
+  /** Adds a remote candidate, or holds it until the description it belongs to is applied */
+  async addIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
+    const ufrag = candidate.usernameFragment ?? '';
+    if (this.staleUfrags.has(ufrag)) return;
+    const current = this.remoteUfrags.size === 0 || !ufrag || this.remoteUfrags.has(ufrag);
+    if (!this.peer.remoteDescription || !current) {
+      this.pendingCandidates.set(ufrag, [...(this.pendingCandidates.get(ufrag) ?? []), candidate]);
+      return;
     }
-  }
-
-  // Create and return an offer
-  async getOffer(): Promise<RTCSessionDescriptionInit | undefined> {
-    await this.ensurePeer();
-    if (this.peer) {
-      const offer = await this.peer.createOffer();
-      await this.peer.setLocalDescription(new RTCSessionDescription(offer));
-      console.log('📤 Created offer:', offer);
-      return offer;
+    try {
+      await this.peer.addIceCandidate(candidate);
+    } catch (err) {
+      // Candidates for an offer we ignored are expected to fail
+      if (!this.ignoreOffer) console.warn('⚠️ Failed to add ICE candidate:', err);
     }
   }
 
-  // Receive offer and create answer (simple like reference)
-  async getAnswer(offer: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit | undefined> {
-    await this.ensurePeer();
-    if (this.peer) {
-      await this.peer.setRemoteDescription(offer);
-      const ans = await this.peer.createAnswer();
-      await this.peer.setLocalDescription(new RTCSessionDescription(ans));
-      console.log('📥 Created answer:', ans);
-      return ans;
+  /** Abandons an unanswered offer and offers again with fresh ICE credentials */
+  async restartOffer(): Promise<void> {
+    if (this.peer.signalingState === 'have-local-offer') {
+      await this.peer.setLocalDescription({ type: 'rollback' });
     }
+    this.peer.restartIce();
   }
 
-  // Set remote description (when receiving answer)
-  async setRemoteDescription(answer: RTCSessionDescriptionInit): Promise<void> {
-    if (this.peer) {
-      await this.peer.setRemoteDescription(new RTCSessionDescription(answer));
-      console.log('✅ Set remote description');
-    }
+  // Close peer connection
+  close(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+    this.peer.ontrack = null;
+    this.peer.onicecandidate = null;
+    this.peer.onnegotiationneeded = null;
+    this.peer.onconnectionstatechange = null;
+    this.peer.oniceconnectionstatechange = null;
+    this.peer.onicecandidateerror = null;
+    this.pendingCandidates.clear();
+    this.peer.close();
+    console.log('❌ Peer connection closed');
   }
 
-  // Add a received ICE candidate
-  async addIceCandidate(candidate: RTCIceCandidateInit): Promise<void> {
-    if (this.peer && candidate) {
-      try {
-        await this.peer.addIceCandidate(new RTCIceCandidate(candidate));
-        console.log('🧊 Added remote ICE candidate');
-      } catch (err) {
-        console.warn('⚠️ Failed to add ICE candidate:', err);
-      }
-    }
+  // New credentials apply to candidates gathered from now on, such as after an ICE restart
+  private scheduleRefresh(config: IceConfig) {
+    if (config.refreshAt === null) return;
+    this.refreshTimer = setTimeout(async () => {
+      const next = await loadIceConfig();
+      if (this.peer.signalingState === 'closed') return;
+      this.peer.setConfiguration({ ...this.peer.getConfiguration(), iceServers: next.iceServers });
+      console.log('🔄 Refreshed ICE servers from', next.source);
+      this.scheduleRefresh(next);
+    }, Math.max(0, config.refreshAt - Date.now()));
   }
 
-  // Add local stream tracks to peer connection
-  // Simple addTrack like reference implementation
-  addStream(stream: MediaStream): void {
-    if (this.peer) {
-      const signalingState = this.peer.signalingState;
-      console.log('🎥 Adding tracks, current signalingState:', signalingState);
-      
-      for (const track of stream.getTracks()) {
-        this.peer.addTrack(track, stream);
-        console.log('🎥 Added track:', track.kind);
-      }
-      
-      console.log('🎥 All tracks added, awaiting negotiationneeded event...');
-    }
+  private retire(ufrags: Set<string>) {
+    ufrags.forEach((ufrag) => {
+      this.staleUfrags.add(ufrag);
+      this.pendingCandidates.delete(ufrag);
+    });
   }
 
-  // Close peer connection
-  closePeer(): void {
-    if (this.peer) {
-      this.peer.close();
-      console.log('❌ Peer connection closed');
-      this.peer = null;
-      // Don't reinitialize synchronously; let next getOffer/getAnswer call it async
+  // A new remote description replaces the old one's candidates and releases those held for it
+  private async applyRemoteUfrags(ufrags: Set<string>) {
+    this.retire(new Set([...this.remoteUfrags].filter((ufrag) => !ufrags.has(ufrag))));
+    this.remoteUfrags = ufrags;
+    const ready = ['', ...ufrags].flatMap((ufrag) => {
+      const held = this.pendingCandidates.get(ufrag) ?? [];
+      this.pendingCandidates.delete(ufrag);
+      return held;
+    });
+    for (const candidate of ready) {
+      await this.addIceCandidate(candidate);
     }
   }
 }
 
-// Export singleton instance
-export default new PeerService();
+export default PeerService;
@@ -0,0 +1,36 @@
+/**
+ * Rules for when a patient may still change an appointment
+ */
+import type { Appointment } from '@/api/client';
+import { env } from '@/config/env';
+
+export interface ChangePolicy {
+  allowed: boolean;
+  /** Why the change is blocked, suitable for a tooltip */
+  reason?: string;
+}
+
+/**
+ * Patients may cancel or reschedule an open appointment up to
+ * `cutoffHours` before it starts.
+ */
+export function getChangePolicy(
+  appointment: Appointment,
+  now: Date = new Date(),
+  cutoffHours: number = env.appointmentChangeCutoffHours
+): ChangePolicy {
+  if (appointment.status === 'cancelled') return { allowed: false, reason: 'This appointment is already cancelled' };
+  if (appointment.status === 'completed') return { allowed: false, reason: 'This appointment has already taken place' };
+
+  const startsAt = new Date(appointment.startAt).getTime();
+  if (Number.isNaN(startsAt)) return { allowed: false, reason: 'This appointment has no valid start time' };
+  if (startsAt <= now.getTime()) return { allowed: false, reason: 'This appointment has already started' };
+
+  if (startsAt - now.getTime() < cutoffHours * 60 * 60 * 1000) {
+    return {
+      allowed: false,
+      reason: `Changes are not possible within ${cutoffHours} hour${cutoffHours === 1 ? '' : 's'} of the appointment`,
+    };
+  }
+  return { allowed: true };
+}
@@ -0,0 +1,112 @@
+/**
+ * Turns a doctor's weekly availability into concrete bookable slots
+ */
+import type { BusySlot, DoctorAvailability } from '@/api/client';
+import { browserTimeZone, formatZonedTime, getZonedParts, sameOffset, zonedTimeToUtc, zoneLabel } from '@/utils/timezone';
+
+export interface Slot {
+  /** "HH:mm" in the doctor's timezone */
+  time: string;
+  /** Zone label for `time`, e.g. "GMT+5:30" */
+  zone: string;
+  /** Same instant in the viewer's timezone with its label, only when that differs from the doctor's */
+  localTime?: string;
+  startAt: Date;
+  endAt: Date;
+}
+
+const toMinutes = (hhmm: string): number => {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const formatMinutes = (minutes: number): string => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+/**
+ * Calendar dates picked in the UI are local-midnight Dates; only their
+ * year/month/day matter and are read as a date in the doctor's timezone.
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/** The calendar date (as a picker-style local Date) an instant falls on in `timeZone` */
+export function calendarDateIn(instant: Date, timeZone: string): Date {
+  const p = getZonedParts(instant, timeZone);
+  return new Date(p.year, p.month - 1, p.day);
+}
+
+/** First and last instant of a calendar date in `timeZone` */
+export function dayBounds(date: Date, timeZone: string = browserTimeZone()): { from: Date; to: Date } {
+  const next = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+  return {
+    from: zonedTimeToUtc(date.getFullYear(), date.getMonth() + 1, date.getDate(), 0, timeZone),
+    to: zonedTimeToUtc(next.getFullYear(), next.getMonth() + 1, next.getDate(), 0, timeZone),
+  };
+}
+
+/** Whether two half-open intervals [aStart, aEnd) and [bStart, bEnd) share any time */
+export const overlaps = (aStart: Date, aEnd: Date, bStart: Date, bEnd: Date): boolean =>
+  aStart.getTime() < bEnd.getTime() && bStart.getTime() < aEnd.getTime();
+
+/**
+ * Returns the busy interval that clashes with [startAt, endAt), if any
+ */
+export function findClash(busy: BusySlot[], startAt: Date, endAt: Date): BusySlot | undefined {
+  return busy.find((slot) => overlaps(startAt, endAt, new Date(slot.startAt), new Date(slot.endAt)));
+}
+
+/**
+ * Whether the doctor works at all on `date` (used to grey out calendar days)
+ */
+export function isWorkingDay(availability: DoctorAvailability | undefined, date: Date): boolean {
+  if (!availability) return false;
+  if (availability.daysOff.includes(toDateKey(date))) return false;
+  return availability.weekly.some((range) => range.dayOfWeek === date.getDay());
+}
+
+/**
+ * Lists every slot on `date` that falls inside the doctor's working hours,
+ * outside their breaks and days off, and does not clash with a booking.
+ * Slots that have already started are dropped.
+ */
+export function getFreeSlots(
+  availability: DoctorAvailability | undefined,
+  date: Date,
+  busy: BusySlot[] = [],
+  now: Date = new Date()
+): Slot[] {
+  if (!availability) return [];
+  if (availability.daysOff.includes(toDateKey(date))) return [];
+
+  const day = date.getDay();
+  const length = availability.slotMinutes;
+  const breaks = availability.breaks.filter((b) => b.dayOfWeek === day);
+  const viewerZone = browserTimeZone();
+  // Weekly hours are wall-clock times in the doctor's zone
+  const at = (minutes: number) =>
+    zonedTimeToUtc(date.getFullYear(), date.getMonth() + 1, date.getDate(), minutes, availability.timezone);
+
+  const slots: Slot[] = [];
+  for (const range of availability.weekly.filter((r) => r.dayOfWeek === day)) {
+    const end = toMinutes(range.end);
+    for (let start = toMinutes(range.start); start + length <= end; start += length) {
+      const inBreak = breaks.some((b) => start < toMinutes(b.end) && toMinutes(b.start) < start + length);
+      if (inBreak) continue;
+      const startAt = at(start);
+      const endAt = at(start + length);
+      if (startAt <= now || findClash(busy, startAt, endAt)) continue;
+      slots.push({
+        time: formatMinutes(start),
+        zone: zoneLabel(startAt, availability.timezone),
+        localTime: sameOffset(startAt, viewerZone, availability.timezone)
+          ? undefined
+          : `${formatZonedTime(startAt, viewerZone)} ${zoneLabel(startAt, viewerZone)}`,
+        startAt,
+        endAt,
+      });
+    }
+  }
+  return slots.sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+}
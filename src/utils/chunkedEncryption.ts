@@ -0,0 +1,246 @@
+/**
+ * Chunked ChaCha20-Poly1305 format for documents of any size.
+ *
+ *   header  = "ARGC" | version (1 byte) | chunk size (uint32 BE) | base nonce (12 bytes)
+ *             | key fingerprint (16 bytes, version 2 only)
+ *   chunk i = seal(key, nonce_i, plaintext_i, aad = header | final flag)
+ *   trailer = seal(key, nonce_n, SHA-256(plaintext), aad = header | 2)   (version 2 only)
+ *
+ * nonce_i is the base nonce with its last four bytes XORed with i (big
+ * endian). The final flag is 1 only on the last chunk, so dropping, reordering
+ * or truncating chunks fails authentication. Every chunk is the full chunk
+ * size except the last, which may be empty.
+ *
+ * Version 2 adds the key fingerprint, so a wrong key is told apart from a
+ * damaged file before anything is decrypted, and a sealed hash of the whole
+ * plaintext checked once the last chunk is open. Version 1 files still open.
+ * Failures are thrown as DocumentIntegrityError with the reason.
+ *
+ * Both directions read from a Blob stream and only hold one chunk in memory.
+ * They run inside the crypto worker (see streamingEncryption.ts).
+ */
+import { ChaCha20Poly1305 } from '@stablelib/chacha20poly1305';
+import { randomBytes } from '@stablelib/random';
+import { hash, SHA256 } from '@stablelib/sha256';
+import { DocumentIntegrityError, UNVERIFIED_KEY_MESSAGE } from '@/utils/documentIntegrity';
+
+export const CHUNKED_FORMAT_VERSION = 2;
+export const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+
+const MAGIC = [0x41, 0x52, 0x47, 0x43]; // "ARGC"
+const NONCE_SIZE = 12;
+const TAG_SIZE = 16;
+const FINGERPRINT_SIZE = 16;
+const BASE_HEADER_SIZE = MAGIC.length + 1 + 4 + NONCE_SIZE;
+/** Bytes to read to be sure of having the whole header of any version */
+export const MAX_HEADER_SIZE = BASE_HEADER_SIZE + FINGERPRINT_SIZE;
+const TRAILER_SIZE = 32 + TAG_SIZE;
+const TRAILER_FLAG = 2;
+const FINGERPRINT_CONTEXT = new TextEncoder().encode('arogyanet document key fingerprint v1');
+
+export type ProgressCallback = (processed: number, total: number) => void;
+
+export interface ChunkedHeader {
+  version: number;
+  chunkSize: number;
+  baseNonce: Uint8Array;
+  /** Absent on version 1 */
+  keyFingerprint?: Uint8Array;
+  bytes: Uint8Array;
+}
+
+const headerSize = (version: number) => BASE_HEADER_SIZE + (version >= 2 ? FINGERPRINT_SIZE : 0);
+const trailerSize = (version: number) => (version >= 2 ? TRAILER_SIZE : 0);
+
+const sameBytes = (a: Uint8Array, b: Uint8Array) => a.length === b.length && a.every((byte, i) => byte === b[i]);
+
+/** Identifies a content key without revealing it; stored in the header and as the document's key id */
+export function keyFingerprint(key: Uint8Array): Uint8Array {
+  const input = new Uint8Array(FINGERPRINT_CONTEXT.length + key.length);
+  input.set(FINGERPRINT_CONTEXT);
+  input.set(key, FINGERPRINT_CONTEXT.length);
+  return hash(input).slice(0, FINGERPRINT_SIZE);
+}
+
+export const keyFingerprintHex = (key: Uint8Array) =>
+  Array.from(keyFingerprint(key), (b) => b.toString(16).padStart(2, '0')).join('');
+
+/** Size of the encrypted object for a plaintext of `plaintextSize` bytes */
+export function chunkedCiphertextSize(plaintextSize: number, header: Pick<ChunkedHeader, 'version' | 'chunkSize'>): number {
+  const chunks = Math.max(1, Math.ceil(plaintextSize / header.chunkSize));
+  return headerSize(header.version) + plaintextSize + chunks * TAG_SIZE + trailerSize(header.version);
+}
+
+export const hasChunkedMagic = (bytes: Uint8Array) => bytes.length >= MAGIC.length && MAGIC.every((b, i) => bytes[i] === b);
+
+function writeHeader(chunkSize: number, baseNonce: Uint8Array, fingerprint: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(headerSize(CHUNKED_FORMAT_VERSION));
+  bytes.set(MAGIC, 0);
+  bytes[4] = CHUNKED_FORMAT_VERSION;
+  new DataView(bytes.buffer).setUint32(5, chunkSize);
+  bytes.set(baseNonce, 9);
+  bytes.set(fingerprint, BASE_HEADER_SIZE);
+  return bytes;
+}
+
+export function readChunkedHeader(bytes: Uint8Array): ChunkedHeader {
+  if (!hasChunkedMagic(bytes)) {
+    throw new DocumentIntegrityError('corrupted', 'The file has no encryption header: it is damaged or was replaced');
+  }
+  const version = bytes[4];
+  if (version !== 1 && version !== 2) {
+    throw new DocumentIntegrityError('corrupted', `Unsupported encryption format version ${version}`);
+  }
+  const size = headerSize(version);
+  if (bytes.length < size) throw new DocumentIntegrityError('truncated', 'The file ends inside its encryption header');
+  const chunkSize = new DataView(bytes.buffer, bytes.byteOffset).getUint32(5);
+  return {
+    version,
+    chunkSize,
+    baseNonce: bytes.slice(9, BASE_HEADER_SIZE),
+    keyFingerprint: version >= 2 ? bytes.slice(BASE_HEADER_SIZE, size) : undefined,
+    bytes: bytes.slice(0, size),
+  };
+}
+
+function chunkNonce(baseNonce: Uint8Array, counter: number): Uint8Array {
+  const nonce = baseNonce.slice();
+  const view = new DataView(nonce.buffer);
+  view.setUint32(NONCE_SIZE - 4, view.getUint32(NONCE_SIZE - 4) ^ counter);
+  return nonce;
+}
+
+// flag is 1 on the final chunk, 0 on the others and TRAILER_FLAG on the trailer
+function chunkAad(header: Uint8Array, flag: number): Uint8Array {
+  const aad = new Uint8Array(header.length + 1);
+  aad.set(header);
+  aad[header.length] = flag;
+  return aad;
+}
+
+/**
+ * Feed a stream through fixed-size blocks. A full block is only handed on
+ * once more data follows it, so the last block (possibly empty) is always
+ * the one flagged final.
+ */
+async function forEachBlock(
+  stream: ReadableStream<Uint8Array>,
+  blockSize: number,
+  onBlock: (block: Uint8Array, final: boolean) => void,
+  onRead: (bytes: number) => void
+): Promise<void> {
+  const reader = stream.getReader();
+  const block = new Uint8Array(blockSize);
+  let filled = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    let offset = 0;
+    while (offset < value.length) {
+      if (filled === blockSize) {
+        onBlock(block, false);
+        filled = 0;
+      }
+      const n = Math.min(blockSize - filled, value.length - offset);
+      block.set(value.subarray(offset, offset + n), filled);
+      filled += n;
+      offset += n;
+    }
+    onRead(value.length);
+  }
+  onBlock(block.subarray(0, filled), true);
+}
+
+export async function encryptChunked(
+  source: Blob,
+  key: Uint8Array,
+  onProgress?: ProgressCallback,
+  chunkSize = DEFAULT_CHUNK_SIZE
+): Promise<{ blob: Blob; baseNonce: Uint8Array }> {
+  const baseNonce = randomBytes(NONCE_SIZE);
+  const header = writeHeader(chunkSize, baseNonce, keyFingerprint(key));
+  const cipher = new ChaCha20Poly1305(key);
+  const contentHash = new SHA256();
+  const parts: BlobPart[] = [header];
+  let counter = 0;
+  let processed = 0;
+
+  await forEachBlock(
+    source.stream(),
+    chunkSize,
+    (block, final) => {
+      contentHash.update(block);
+      parts.push(cipher.seal(chunkNonce(baseNonce, counter++), block, chunkAad(header, Number(final))));
+    },
+    (bytes) => {
+      processed += bytes;
+      onProgress?.(processed, source.size);
+    }
+  );
+  parts.push(cipher.seal(chunkNonce(baseNonce, counter), contentHash.digest(), chunkAad(header, TRAILER_FLAG)));
+  return { blob: new Blob(parts, { type: 'application/octet-stream' }), baseNonce };
+}
+
+/**
+ * Pass `plaintextSize` when it is known (the document's recorded size) so a
+ * short download is reported as truncated rather than as a damaged file.
+ */
+export async function decryptChunked(
+  source: Blob,
+  key: Uint8Array,
+  mimeType: string,
+  onProgress?: ProgressCallback,
+  plaintextSize?: number
+): Promise<Blob> {
+  const header = readChunkedHeader(new Uint8Array(await source.slice(0, MAX_HEADER_SIZE).arrayBuffer()));
+  if (header.keyFingerprint && !sameBytes(header.keyFingerprint, keyFingerprint(key))) {
+    throw new DocumentIntegrityError('wrong_key');
+  }
+  const start = header.bytes.length;
+  const end = source.size - trailerSize(header.version);
+  if (end - start < TAG_SIZE || (plaintextSize !== undefined && source.size < chunkedCiphertextSize(plaintextSize, header))) {
+    throw new DocumentIntegrityError('truncated');
+  }
+
+  const cipher = new ChaCha20Poly1305(key);
+  const contentHash = new SHA256();
+  const parts: BlobPart[] = [];
+  let counter = 0;
+  let processed = start;
+
+  await forEachBlock(
+    source.slice(start, end).stream(),
+    header.chunkSize + TAG_SIZE,
+    (block, final) => {
+      const nonce = chunkNonce(header.baseNonce, counter);
+      const plaintext = cipher.open(nonce, block, chunkAad(header.bytes, Number(final)));
+      if (!plaintext) {
+        // A middle chunk that opens as one means the chunks after it are missing
+        if (final && cipher.open(nonce, block, chunkAad(header.bytes, 0))) {
+          throw new DocumentIntegrityError('truncated', `The file ends after chunk ${counter + 1}. Try opening it again.`);
+        }
+        // Without a fingerprint a wrong key looks exactly like a damaged first chunk
+        if (counter === 0 && !header.keyFingerprint) {
+          throw new DocumentIntegrityError('wrong_key', UNVERIFIED_KEY_MESSAGE);
+        }
+        throw new DocumentIntegrityError('corrupted', `Decryption failed at chunk ${counter + 1}: the file is damaged or was modified`);
+      }
+      contentHash.update(plaintext);
+      counter++;
+      parts.push(plaintext);
+    },
+    (bytes) => {
+      processed += bytes;
+      onProgress?.(processed, source.size);
+    }
+  );
+
+  if (header.version >= 2) {
+    const trailer = new Uint8Array(await source.slice(end).arrayBuffer());
+    const recorded = cipher.open(chunkNonce(header.baseNonce, counter), trailer, chunkAad(header.bytes, TRAILER_FLAG));
+    if (!recorded || !sameBytes(recorded, contentHash.digest())) {
+      throw new DocumentIntegrityError('corrupted', "The file's content hash doesn't match: it is damaged or was modified");
+    }
+  }
+  return new Blob(parts, { type: mimeType });
+}
@@ -0,0 +1,64 @@
+import type { MedicalDocument } from '@/api/client';
+import { describeApiError } from '@/api/errors';
+import { chunkedCiphertextSize, hasChunkedMagic, readChunkedHeader } from '@/utils/chunkedEncryption';
+import { DOCUMENT_INTEGRITY_LABELS, isDocumentIntegrityError } from '@/utils/documentIntegrity';
+import { TAG_SIZE, uint8ArrayToBase64 } from '@/utils/encryption';
+import { isKeyVaultError } from '@/utils/userKeys';
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+/** Title and description for a failed document open, naming the integrity check that failed */
+export function describeDecryptionFailure(err: unknown): { title: string; description: string } {
+  if (isDocumentIntegrityError(err)) return { title: DOCUMENT_INTEGRITY_LABELS[err.reason], description: err.message };
+  if (isKeyVaultError(err)) {
+    return { title: err.code === 'no_access' ? DOCUMENT_INTEGRITY_LABELS.wrong_key : 'Document keys', description: err.message };
+  }
+  return describeApiError(err);
+}
+
+/**
+ * Ways a document's recorded encryption details disagree with the start of
+ * its stored object (`head`, at least MAX_HEADER_SIZE bytes when the object
+ * is that long) and the object's full size. Empty when they agree.
+ */
+export function storedObjectMismatches(document: MedicalDocument, head: Uint8Array, objectSize: number): string[] {
+  const chunked = hasChunkedMagic(head);
+  if (!document.encrypted) {
+    return chunked ? ['The stored object is encrypted but the document is recorded as unencrypted'] : [];
+  }
+
+  const problems: string[] = [];
+  if (!document.encryptionNonce) problems.push('No encryption nonce is recorded');
+  if (!document.encryptionKeyId) problems.push('No encryption key id is recorded');
+
+  if (!document.encryptionFormat) {
+    if (chunked) problems.push('The stored object is in the chunked format but the document records a single-piece one');
+    else if (objectSize !== document.size + TAG_SIZE) {
+      problems.push(`The stored object is ${objectSize} bytes; ${document.size + TAG_SIZE} were expected`);
+    }
+    return problems;
+  }
+
+  if (!chunked) return [...problems, 'The stored object has no chunked encryption header'];
+  let header: ReturnType<typeof readChunkedHeader>;
+  try {
+    header = readChunkedHeader(head);
+  } catch (err) {
+    return [...problems, err instanceof Error ? err.message : 'The encryption header is unreadable'];
+  }
+
+  if (document.encryptionFormat !== `chunked-v${header.version}`) {
+    problems.push(`The document records ${document.encryptionFormat} but the stored object is chunked-v${header.version}`);
+  }
+  if (document.encryptionNonce && document.encryptionNonce !== uint8ArrayToBase64(header.baseNonce)) {
+    problems.push("The recorded nonce doesn't match the stored object's header");
+  }
+  // Only version 2 headers name their key; earlier key ids were random labels
+  if (header.keyFingerprint && document.encryptionKeyId && document.encryptionKeyId !== toHex(header.keyFingerprint)) {
+    problems.push("The recorded key id doesn't match the key fingerprint in the stored object's header");
+  }
+  const expected = chunkedCiphertextSize(document.size, header);
+  if (objectSize < expected) problems.push(`The stored object is truncated: ${objectSize} of ${expected} bytes`);
+  else if (objectSize > expected) problems.push(`The stored object is ${objectSize - expected} bytes longer than expected`);
+  return problems;
+}
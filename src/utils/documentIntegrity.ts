@@ -0,0 +1,35 @@
+/**
+ * Why an encrypted document failed to open. Kept free of app imports because
+ * the crypto worker throws these too (see chunkedEncryption.ts).
+ */
+export type DocumentIntegrityReason = 'wrong_key' | 'corrupted' | 'truncated' | 'missing_nonce';
+
+export const DOCUMENT_INTEGRITY_LABELS: Record<DocumentIntegrityReason, string> = {
+  wrong_key: 'Wrong key',
+  corrupted: 'Corrupted file',
+  truncated: 'Incomplete download',
+  missing_nonce: 'Missing encryption nonce',
+};
+
+const DEFAULT_MESSAGES: Record<DocumentIntegrityReason, string> = {
+  wrong_key: 'The file was encrypted with a different key than the one available to you.',
+  corrupted: 'The encrypted file is damaged or was modified after upload.',
+  truncated: 'The file ends early. Try opening it again.',
+  missing_nonce: 'The document is marked encrypted but has no encryption nonce, so it cannot be decrypted.',
+};
+
+/** For formats without a key fingerprint, where a failed first check can't separate the two */
+export const UNVERIFIED_KEY_MESSAGE =
+  'The key does not open this file. It is most likely the wrong key, though a damaged file looks the same for older uploads.';
+
+export class DocumentIntegrityError extends Error {
+  readonly reason: DocumentIntegrityReason;
+
+  constructor(reason: DocumentIntegrityReason, message = DEFAULT_MESSAGES[reason]) {
+    super(message);
+    this.name = 'DocumentIntegrityError';
+    this.reason = reason;
+  }
+}
+
+export const isDocumentIntegrityError = (err: unknown): err is DocumentIntegrityError => err instanceof DocumentIntegrityError;
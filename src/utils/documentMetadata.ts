@@ -0,0 +1,84 @@
+import type { DocumentCategory, MedicalDocument } from '@/api/client';
+import { documentMetadataRequestSchema, firstIssue, type DocumentMetadataRequest } from '@/api/schemas';
+
+export const DOCUMENT_CATEGORY_LABELS: Record<DocumentCategory, string> = {
+  lab_report: 'Lab report',
+  imaging: 'Imaging',
+  discharge_summary: 'Discharge summary',
+  prescription: 'Prescription',
+  insurance: 'Insurance',
+  other: 'Other',
+};
+
+export const DOCUMENT_CATEGORIES = Object.keys(DOCUMENT_CATEGORY_LABELS) as DocumentCategory[];
+
+/** Metadata as edited in a form: tags as one comma-separated string, blanks for "none" */
+export interface DocumentMetadataForm {
+  category: DocumentCategory;
+  serviceDate: string;
+  tags: string;
+  appointmentId: string;
+}
+
+export const EMPTY_METADATA_FORM: DocumentMetadataForm = { category: 'other', serviceDate: '', tags: '', appointmentId: '' };
+
+export const metadataFormFor = (doc: MedicalDocument): DocumentMetadataForm => ({
+  category: doc.category,
+  serviceDate: doc.serviceDate ?? '',
+  tags: doc.tags.join(', '),
+  appointmentId: doc.appointmentId ?? '',
+});
+
+export function parseMetadataForm(form: DocumentMetadataForm): { data?: DocumentMetadataRequest; error?: string } {
+  const parsed = documentMetadataRequestSchema.safeParse({
+    category: form.category,
+    serviceDate: form.serviceDate || undefined,
+    tags: form.tags.split(',').filter((tag) => tag.trim()),
+    appointmentId: form.appointmentId || undefined,
+  });
+  return parsed.success ? { data: parsed.data } : { error: firstIssue(parsed.error) };
+}
+
+export type DocumentSort = 'newest' | 'oldest' | 'service-date' | 'name';
+
+export interface DocumentFilter {
+  query: string;
+  category: DocumentCategory | 'all';
+  tag: string;
+  sort: DocumentSort;
+}
+
+export const DEFAULT_DOCUMENT_FILTER: DocumentFilter = { query: '', category: 'all', tag: '', sort: 'newest' };
+
+// Everything a search term can match against, lower-cased once
+const searchText = (doc: MedicalDocument): string =>
+  [doc.originalName, DOCUMENT_CATEGORY_LABELS[doc.category], doc.serviceDate, doc.mimeType, doc.patientName, ...doc.tags]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+
+const byDate = (value: string | undefined) => (value ? Date.parse(value) || 0 : 0);
+
+const SORTS: Record<DocumentSort, (a: MedicalDocument, b: MedicalDocument) => number> = {
+  newest: (a, b) => byDate(b.createdAt) - byDate(a.createdAt),
+  oldest: (a, b) => byDate(a.createdAt) - byDate(b.createdAt),
+  // Undated documents go last, newest upload first among them
+  'service-date': (a, b) => byDate(b.serviceDate) - byDate(a.serviceDate) || byDate(b.createdAt) - byDate(a.createdAt),
+  name: (a, b) => a.originalName.localeCompare(b.originalName, undefined, { sensitivity: 'base' }),
+};
+
+/** Documents matching every word of the query, the category and the tag, in the chosen order */
+export function filterDocuments(docs: MedicalDocument[], filter: DocumentFilter): MedicalDocument[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return docs
+    .filter((doc) => filter.category === 'all' || doc.category === filter.category)
+    .filter((doc) => !filter.tag || doc.tags.includes(filter.tag))
+    .filter((doc) => {
+      if (terms.length === 0) return true;
+      const text = searchText(doc);
+      return terms.every((term) => text.includes(term));
+    })
+    .sort(SORTS[filter.sort]);
+}
+
+export const collectTags = (docs: MedicalDocument[]): string[] => [...new Set(docs.flatMap((doc) => doc.tags))].sort();
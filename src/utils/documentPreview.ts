@@ -0,0 +1,87 @@
+/**
+ * Helpers for the in-app document viewer (components/SecureDocumentViewer).
+ * Decrypted files are rendered from memory; nothing here writes to disk.
+ */
+
+import { isMobile } from '@/utils/documentViewer';
+
+export type PreviewKind = 'pdf' | 'image' | 'text' | 'csv';
+
+// HTML and SVG-as-document are left out on purpose: they could run script in the app's origin
+const IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'image/bmp', 'image/svg+xml'];
+
+/** What the viewer can render for a file, or null when it can only be downloaded */
+export function previewKind(mimeType: string | undefined, filename = ''): PreviewKind | null {
+  const type = (mimeType ?? '').toLowerCase().split(';')[0].trim();
+  const extension = filename.toLowerCase().split('.').pop() ?? '';
+  if (type === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (IMAGE_TYPES.includes(type)) return 'image';
+  if (type === 'text/csv' || extension === 'csv') return 'csv';
+  if (type === 'text/plain' || ['txt', 'log', 'md'].includes(extension)) return 'text';
+  return null;
+}
+
+/** RFC 4180 CSV: quoted fields may hold commas, doubled quotes and line breaks */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Best-effort page count from the PDF's page objects. PDFs that keep their
+ * objects in compressed streams don't expose them, so this returns null and
+ * the viewer lets the user page on without a total.
+ */
+export async function countPdfPages(blob: Blob): Promise<number | null> {
+  const text = new TextDecoder('latin1').decode(await blob.arrayBuffer());
+  const pages = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+  return pages > 0 ? pages : null;
+}
+
+/**
+ * Whether the browser's PDF viewer can be embedded in the page. Android Chrome
+ * has none and iOS Safari only renders the first page in a frame, so phones
+ * and tablets get the open and download actions instead.
+ */
+export const canEmbedPdf = (): boolean => !isMobile();
+
+/**
+ * Point the browser's built-in PDF viewer at a page and zoom level, with its
+ * own toolbar (and so its download and print buttons) hidden.
+ */
+export const pdfViewerUrl = (objectUrl: string, page: number, zoomPercent: number): string =>
+  `${objectUrl}#page=${page}&zoom=${Math.round(zoomPercent)}&toolbar=0&navpanes=0`;
@@ -0,0 +1,23 @@
+import type { Appointment, DocumentVersion } from '@/api/client';
+
+/** The version that was current at `at`: the latest one uploaded by then, or null if the document didn't exist yet */
+export function versionCurrentAt(versions: DocumentVersion[], at: string): DocumentVersion | null {
+  const time = Date.parse(at);
+  let current: DocumentVersion | null = null;
+  for (const version of versions) {
+    if (Date.parse(version.createdAt) > time) continue;
+    if (!current || version.version > current.version) current = version;
+  }
+  return current;
+}
+
+/** Appointments grouped by the version that was current when each started */
+export function appointmentsByVersion(versions: DocumentVersion[], appointments: Appointment[]): Map<string, Appointment[]> {
+  const byVersion = new Map<string, Appointment[]>();
+  for (const appointment of appointments) {
+    const version = versionCurrentAt(versions, appointment.startAt);
+    if (!version) continue;
+    byVersion.set(version.id, [...(byVersion.get(version.id) ?? []), appointment]);
+  }
+  return byVersion;
+}
@@ -1,5 +1,7 @@
 /**
- * Utility for viewing/downloading documents with Android browser compatibility
+ * Utility for viewing/downloading documents with Android browser compatibility.
+ * Decrypted documents are shown in-app by components/SecureDocumentViewer;
+ * these helpers cover explicit downloads and unencrypted documents' URLs.
  */
 
 /**
@@ -16,45 +18,10 @@ export function isMobile(): boolean {
   return /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
 }
 
-/**
- * Opens or downloads a document in a way that's compatible with Android browsers
- * 
- * @param blob - The document blob to view/download
- * @param filename - The filename to use for download
- * @param mimeType - The MIME type of the document
- */
-export function viewDocument(blob: Blob, filename: string, mimeType?: string): void {
-  const android = isAndroid();
-  const mobile = isMobile();
-  
-  // For Android or mobile, prefer download with proper filename
-  // This avoids popup blockers and blob URL issues
-  if (android || mobile) {
-    downloadDocument(blob, filename);
-  } else {
-    // Desktop: try to open in new tab
-    try {
-      const url = URL.createObjectURL(blob);
-      const opened = window.open(url, '_blank');
-      
-      // Fallback to download if popup was blocked
-      if (!opened || opened.closed || typeof opened.closed === 'undefined') {
-        console.log('Popup blocked, falling back to download');
-        downloadDocument(blob, filename);
-      } else {
-        // Clean up the URL after a delay
-        setTimeout(() => URL.revokeObjectURL(url), 10000);
-      }
-    } catch (error) {
-      console.error('Error opening document:', error);
-      downloadDocument(blob, filename);
-    }
-  }
-}
-
 /**
  * Downloads a document with proper filename
- * Works reliably on Android and all browsers
+ * Works reliably on Android and all browsers. For decrypted documents this
+ * writes plaintext to disk, so only call it when the user asks to download
  * 
  * @param blob - The document blob to download
  * @param filename - The filename to use
@@ -0,0 +1,236 @@
+/**
+ * Bundled drug safety rules used by the prescription checker. This is a
+ * screening aid for common, well-documented problems, not a full formulary:
+ * drugs it doesn't know are reported as unchecked rather than as safe.
+ *
+ * Bump RULESET_VERSION whenever the rules change; it is stored with every
+ * acknowledgement so an override can be traced to the rules it was shown.
+ */
+
+export const RULESET_VERSION = '2026.10';
+
+export type RuleSeverity = 'major' | 'moderate';
+
+export interface DrugClass {
+  id: string;
+  label: string;
+  /** Generic names, lower case */
+  members: string[];
+  /** Other ways people write the class in an allergy list, e.g. "sulfa" */
+  aliases?: string[];
+}
+
+export const DRUG_CLASSES: DrugClass[] = [
+  {
+    id: 'penicillins',
+    label: 'Penicillins',
+    members: ['amoxicillin', 'ampicillin', 'benzylpenicillin', 'phenoxymethylpenicillin', 'flucloxacillin', 'piperacillin', 'co-amoxiclav'],
+    aliases: ['penicillin', 'penicillins'],
+  },
+  {
+    id: 'cephalosporins',
+    label: 'Cephalosporins',
+    members: ['cefalexin', 'cephalexin', 'cefadroxil', 'cefuroxime', 'cefixime', 'ceftriaxone', 'cefazolin'],
+    aliases: ['cephalosporin', 'cephalosporins'],
+  },
+  {
+    id: 'sulfonamides',
+    label: 'Sulfonamide antibiotics',
+    members: ['sulfamethoxazole', 'co-trimoxazole', 'sulfadiazine', 'sulfasalazine'],
+    aliases: ['sulfa', 'sulpha', 'sulfonamide', 'sulfonamides', 'sulfa drugs'],
+  },
+  {
+    id: 'macrolides',
+    label: 'Macrolide antibiotics',
+    members: ['clarithromycin', 'erythromycin', 'azithromycin'],
+    aliases: ['macrolide', 'macrolides'],
+  },
+  {
+    id: 'fluoroquinolones',
+    label: 'Fluoroquinolones',
+    members: ['ciprofloxacin', 'levofloxacin', 'moxifloxacin', 'ofloxacin'],
+    aliases: ['quinolone', 'quinolones', 'fluoroquinolone', 'fluoroquinolones'],
+  },
+  {
+    id: 'nsaids',
+    label: 'NSAIDs',
+    members: ['ibuprofen', 'naproxen', 'diclofenac', 'aspirin', 'ketorolac', 'celecoxib', 'indomethacin', 'mefenamic acid', 'etoricoxib'],
+    aliases: ['nsaid', 'nsaids', 'anti-inflammatories'],
+  },
+  {
+    id: 'anticoagulants',
+    label: 'Oral anticoagulants',
+    members: ['warfarin', 'apixaban', 'rivaroxaban', 'dabigatran', 'edoxaban'],
+    aliases: ['anticoagulant', 'anticoagulants', 'blood thinners'],
+  },
+  {
+    id: 'ssris',
+    label: 'SSRIs',
+    members: ['fluoxetine', 'sertraline', 'citalopram', 'escitalopram', 'paroxetine', 'fluvoxamine'],
+    aliases: ['ssri', 'ssris'],
+  },
+  {
+    id: 'maois',
+    label: 'MAO inhibitors',
+    members: ['phenelzine', 'tranylcypromine', 'isocarboxazid', 'selegiline', 'moclobemide'],
+    aliases: ['maoi', 'maois'],
+  },
+  {
+    id: 'opioids',
+    label: 'Opioids',
+    members: ['tramadol', 'codeine', 'morphine', 'oxycodone', 'hydrocodone', 'fentanyl', 'tapentadol'],
+    aliases: ['opioid', 'opioids', 'opiates'],
+  },
+  {
+    id: 'benzodiazepines',
+    label: 'Benzodiazepines',
+    members: ['diazepam', 'alprazolam', 'lorazepam', 'clonazepam', 'temazepam', 'chlordiazepoxide'],
+    aliases: ['benzodiazepine', 'benzodiazepines', 'benzos'],
+  },
+  {
+    id: 'statins',
+    label: 'Statins',
+    members: ['simvastatin', 'atorvastatin', 'lovastatin', 'rosuvastatin', 'pravastatin'],
+    aliases: ['statin', 'statins'],
+  },
+  {
+    id: 'ace-inhibitors',
+    label: 'ACE inhibitors',
+    members: ['lisinopril', 'enalapril', 'ramipril', 'perindopril', 'captopril'],
+    aliases: ['ace inhibitor', 'ace inhibitors'],
+  },
+  {
+    id: 'arbs',
+    label: 'Angiotensin receptor blockers',
+    members: ['losartan', 'valsartan', 'telmisartan', 'candesartan', 'irbesartan'],
+    aliases: ['arb', 'arbs'],
+  },
+  {
+    id: 'potassium-raising',
+    label: 'Potassium-sparing diuretics and potassium supplements',
+    members: ['spironolactone', 'eplerenone', 'amiloride', 'triamterene', 'potassium chloride'],
+  },
+  {
+    id: 'nitrates',
+    label: 'Nitrates',
+    members: ['glyceryl trinitrate', 'nitroglycerin', 'isosorbide mononitrate', 'isosorbide dinitrate'],
+    aliases: ['nitrate', 'nitrates'],
+  },
+  {
+    id: 'pde5-inhibitors',
+    label: 'PDE5 inhibitors',
+    members: ['sildenafil', 'tadalafil', 'vardenafil'],
+  },
+  {
+    id: 'ppis',
+    label: 'Proton pump inhibitors',
+    members: ['omeprazole', 'esomeprazole', 'lansoprazole', 'pantoprazole'],
+    aliases: ['ppi', 'ppis'],
+  },
+];
+
+/** Drugs that matter on their own in a rule but belong to no class above */
+export const STANDALONE_DRUGS = [
+  'methotrexate',
+  'trimethoprim',
+  'lithium',
+  'clopidogrel',
+  'allopurinol',
+  'azathioprine',
+  'digoxin',
+  'amiodarone',
+  'theophylline',
+  'metformin',
+  'paracetamol',
+  'acetaminophen',
+];
+
+/** Common brand names mapped to their generic */
+export const BRAND_NAMES: Record<string, string> = {
+  advil: 'ibuprofen',
+  motrin: 'ibuprofen',
+  brufen: 'ibuprofen',
+  aleve: 'naproxen',
+  voltaren: 'diclofenac',
+  augmentin: 'co-amoxiclav',
+  bactrim: 'co-trimoxazole',
+  septra: 'co-trimoxazole',
+  keflex: 'cefalexin',
+  zithromax: 'azithromycin',
+  cipro: 'ciprofloxacin',
+  coumadin: 'warfarin',
+  eliquis: 'apixaban',
+  xarelto: 'rivaroxaban',
+  prozac: 'fluoxetine',
+  zoloft: 'sertraline',
+  lexapro: 'escitalopram',
+  ultram: 'tramadol',
+  xanax: 'alprazolam',
+  valium: 'diazepam',
+  lipitor: 'atorvastatin',
+  zocor: 'simvastatin',
+  crestor: 'rosuvastatin',
+  viagra: 'sildenafil',
+  cialis: 'tadalafil',
+  plavix: 'clopidogrel',
+  prilosec: 'omeprazole',
+  nexium: 'esomeprazole',
+  zyloprim: 'allopurinol',
+  lanoxin: 'digoxin',
+  glucophage: 'metformin',
+  tylenol: 'acetaminophen',
+  crocin: 'paracetamol',
+};
+
+export interface InteractionRule {
+  /** Class id or generic drug name */
+  a: string;
+  b: string;
+  severity: RuleSeverity;
+  effect: string;
+}
+
+export const INTERACTIONS: InteractionRule[] = [
+  { a: 'anticoagulants', b: 'nsaids', severity: 'major', effect: 'Increased bleeding risk' },
+  { a: 'warfarin', b: 'amiodarone', severity: 'major', effect: 'Raised INR and bleeding risk; warfarin dose usually needs reducing' },
+  { a: 'warfarin', b: 'macrolides', severity: 'moderate', effect: 'May raise INR' },
+  { a: 'warfarin', b: 'fluoroquinolones', severity: 'moderate', effect: 'May raise INR' },
+  { a: 'ssris', b: 'maois', severity: 'major', effect: 'Risk of serotonin syndrome' },
+  { a: 'ssris', b: 'tramadol', severity: 'major', effect: 'Risk of serotonin syndrome and seizures' },
+  { a: 'maois', b: 'opioids', severity: 'major', effect: 'Risk of serotonin syndrome or severe hypotension' },
+  { a: 'ssris', b: 'nsaids', severity: 'moderate', effect: 'Increased risk of gastrointestinal bleeding' },
+  { a: 'simvastatin', b: 'clarithromycin', severity: 'major', effect: 'Raised statin levels; risk of myopathy and rhabdomyolysis' },
+  { a: 'simvastatin', b: 'erythromycin', severity: 'major', effect: 'Raised statin levels; risk of myopathy and rhabdomyolysis' },
+  { a: 'lovastatin', b: 'clarithromycin', severity: 'major', effect: 'Raised statin levels; risk of myopathy and rhabdomyolysis' },
+  { a: 'atorvastatin', b: 'clarithromycin', severity: 'moderate', effect: 'Raised statin levels; consider a lower statin dose' },
+  { a: 'nitrates', b: 'pde5-inhibitors', severity: 'major', effect: 'Severe, possibly fatal hypotension' },
+  { a: 'ace-inhibitors', b: 'potassium-raising', severity: 'major', effect: 'Risk of hyperkalaemia' },
+  { a: 'arbs', b: 'potassium-raising', severity: 'major', effect: 'Risk of hyperkalaemia' },
+  { a: 'ace-inhibitors', b: 'arbs', severity: 'moderate', effect: 'Dual RAAS blockade: hyperkalaemia and kidney injury' },
+  { a: 'methotrexate', b: 'trimethoprim', severity: 'major', effect: 'Bone marrow suppression' },
+  { a: 'methotrexate', b: 'sulfonamides', severity: 'major', effect: 'Bone marrow suppression' },
+  { a: 'methotrexate', b: 'nsaids', severity: 'moderate', effect: 'Reduced methotrexate clearance' },
+  { a: 'lithium', b: 'nsaids', severity: 'major', effect: 'Raised lithium levels and toxicity' },
+  { a: 'lithium', b: 'ace-inhibitors', severity: 'moderate', effect: 'Raised lithium levels' },
+  { a: 'clopidogrel', b: 'omeprazole', severity: 'moderate', effect: 'Reduced antiplatelet effect of clopidogrel' },
+  { a: 'clopidogrel', b: 'esomeprazole', severity: 'moderate', effect: 'Reduced antiplatelet effect of clopidogrel' },
+  { a: 'opioids', b: 'benzodiazepines', severity: 'major', effect: 'Profound sedation and respiratory depression' },
+  { a: 'allopurinol', b: 'azathioprine', severity: 'major', effect: 'Azathioprine toxicity and bone marrow suppression' },
+  { a: 'digoxin', b: 'amiodarone', severity: 'major', effect: 'Raised digoxin levels and toxicity' },
+  { a: 'digoxin', b: 'clarithromycin', severity: 'moderate', effect: 'Raised digoxin levels' },
+  { a: 'theophylline', b: 'ciprofloxacin', severity: 'major', effect: 'Raised theophylline levels; seizure risk' },
+];
+
+export interface CrossReactivityRule {
+  /** Class the patient is allergic to */
+  allergy: string;
+  /** Class that may cross-react */
+  drug: string;
+  severity: RuleSeverity;
+  note: string;
+}
+
+export const CROSS_REACTIVITY: CrossReactivityRule[] = [
+  { allergy: 'penicillins', drug: 'cephalosporins', severity: 'moderate', note: 'Small risk of cross-reactivity with penicillin allergy' },
+  { allergy: 'cephalosporins', drug: 'penicillins', severity: 'moderate', note: 'Small risk of cross-reactivity with cephalosporin allergy' },
+];
@@ -0,0 +1,182 @@
+/**
+ * Screens the drugs on a new prescription against the patient's allergies,
+ * their current medications and each other, using the bundled rules in
+ * drugRules. Runs entirely offline.
+ */
+import type { MedicalProfile, PrescriptionAcknowledgement } from '@/api/client';
+import {
+  BRAND_NAMES,
+  CROSS_REACTIVITY,
+  DRUG_CLASSES,
+  INTERACTIONS,
+  RULESET_VERSION,
+  STANDALONE_DRUGS,
+  type RuleSeverity,
+} from '@/utils/drugRules';
+
+interface ResolvedDrug {
+  /** The text as the doctor or patient wrote it */
+  input: string;
+  /** Generic names found in the text; combination products can have several */
+  generics: string[];
+  /** Class ids the drug belongs to, or that the text names directly ("sulfa") */
+  classes: string[];
+}
+
+export type DrugWarningKind = PrescriptionAcknowledgement['kind'];
+
+export interface DrugWarning {
+  /** Stable across renders so a ticked acknowledgement survives unrelated edits */
+  id: string;
+  kind: DrugWarningKind;
+  severity: RuleSeverity;
+  /** The drug on the new prescription */
+  drug: string;
+  /** The allergy, current medication or other line item it conflicts with */
+  conflictsWith: string;
+  message: string;
+}
+
+export interface DrugCheckResult {
+  warnings: DrugWarning[];
+  /** Prescribed drugs the rule set doesn't know, which therefore went unchecked */
+  unrecognised: string[];
+  /** Recorded allergies the rule set doesn't know; nothing was checked against them */
+  unrecognisedAllergies: string[];
+  /** Current medications the rule set doesn't know; nothing was checked against them */
+  unrecognisedMedications: string[];
+}
+
+const CLASS_LABELS = new Map(DRUG_CLASSES.map((c) => [c.id, c.label]));
+
+const CLASSES_OF = new Map<string, string[]>();
+for (const cls of DRUG_CLASSES) {
+  for (const member of cls.members) CLASSES_OF.set(member, [...(CLASSES_OF.get(member) ?? []), cls.id]);
+}
+
+const GENERICS = [...new Set([...DRUG_CLASSES.flatMap((c) => c.members), ...STANDALONE_DRUGS])];
+
+// Pad with spaces so names only match as whole words: " amoxicillin 500 mg "
+const normaliseText = (text: string): string => ` ${text.toLowerCase().replace(/[^a-z0-9-]+/g, ' ').trim()} `;
+
+function resolveDrug(input: string): ResolvedDrug {
+  const text = normaliseText(input);
+  const generics = new Set<string>();
+  for (const name of GENERICS) if (text.includes(` ${name} `)) generics.add(name);
+  for (const [brand, generic] of Object.entries(BRAND_NAMES)) if (text.includes(` ${brand} `)) generics.add(generic);
+
+  const classes = new Set([...generics].flatMap((g) => CLASSES_OF.get(g) ?? []));
+  for (const cls of DRUG_CLASSES) {
+    if (cls.aliases?.some((alias) => text.includes(` ${alias} `))) classes.add(cls.id);
+  }
+  return { input: input.trim(), generics: [...generics], classes: [...classes] };
+}
+
+const isRecognised = (drug: ResolvedDrug) => drug.generics.length > 0 || drug.classes.length > 0;
+
+// The entries the rules can check, and the text of the ones they can't
+const partitionRecognised = (entries: string[]): [ResolvedDrug[], string[]] => {
+  const resolved = entries.filter((entry) => entry.trim()).map(resolveDrug);
+  return [resolved.filter(isRecognised), resolved.filter((drug) => !isRecognised(drug)).map((drug) => drug.input)];
+};
+
+/** A rule term is either a class id or a generic name */
+const matches = (term: string, drug: ResolvedDrug) => drug.generics.includes(term) || drug.classes.includes(term);
+
+const termLabel = (term: string) => CLASS_LABELS.get(term) ?? term;
+
+// Most specific thing two drugs have in common: the same generic, else the same class
+const sharedTerm = (a: ResolvedDrug, b: ResolvedDrug): string | undefined =>
+  a.generics.find((g) => b.generics.includes(g)) ?? a.classes.find((c) => b.classes.includes(c));
+
+const warningKey = (drug: ResolvedDrug) => drug.input.toLowerCase();
+
+export function checkPrescription(drugs: string[], profile: Pick<MedicalProfile, 'allergies' | 'currentMedications'>): DrugCheckResult {
+  const items = drugs.filter((d) => d.trim()).map(resolveDrug);
+  const [allergies, unknownAllergies] = partitionRecognised(profile.allergies);
+  const [current, unknownMedications] = partitionRecognised(profile.currentMedications);
+
+  const warnings: DrugWarning[] = [];
+  const add = (warning: DrugWarning) => {
+    if (!warnings.some((w) => w.id === warning.id)) warnings.push(warning);
+  };
+
+  items.forEach((item, index) => {
+    for (const allergy of allergies) {
+      const shared = sharedTerm(item, allergy);
+      if (shared) {
+        add({
+          id: `allergy:${warningKey(item)}:${warningKey(allergy)}`,
+          kind: 'allergy',
+          severity: 'major',
+          drug: item.input,
+          conflictsWith: allergy.input,
+          message: `Patient is allergic to ${allergy.input} (${termLabel(shared)})`,
+        });
+        continue;
+      }
+      for (const rule of CROSS_REACTIVITY) {
+        if (allergy.classes.includes(rule.allergy) && item.classes.includes(rule.drug)) {
+          add({
+            id: `allergy:${warningKey(item)}:${warningKey(allergy)}`,
+            kind: 'allergy',
+            severity: rule.severity,
+            drug: item.input,
+            conflictsWith: allergy.input,
+            message: rule.note,
+          });
+        }
+      }
+    }
+
+    // Later line items are compared here; earlier ones already compared against this one
+    const others = [
+      ...current.map((drug) => ({ drug, label: `${drug.input} (current medication)` })),
+      ...items.slice(index + 1).map((drug) => ({ drug, label: drug.input })),
+    ];
+    for (const { drug: other, label } of others) {
+      for (const rule of INTERACTIONS) {
+        if ((matches(rule.a, item) && matches(rule.b, other)) || (matches(rule.b, item) && matches(rule.a, other))) {
+          add({
+            id: `interaction:${warningKey(item)}:${warningKey(other)}`,
+            kind: 'interaction',
+            severity: rule.severity,
+            drug: item.input,
+            conflictsWith: label,
+            message: rule.effect,
+          });
+        }
+      }
+      const shared = sharedTerm(item, other);
+      if (shared) {
+        add({
+          id: `duplicate:${warningKey(item)}:${warningKey(other)}`,
+          kind: 'duplicate',
+          severity: 'moderate',
+          drug: item.input,
+          conflictsWith: label,
+          message: CLASS_LABELS.has(shared) ? `Both are ${termLabel(shared)}` : `Both contain ${shared}`,
+        });
+      }
+    }
+  });
+
+  return {
+    warnings: warnings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'major' ? -1 : 1)),
+    unrecognised: items.filter((item) => !isRecognised(item)).map((item) => item.input),
+    unrecognisedAllergies: unknownAllergies,
+    unrecognisedMedications: unknownMedications,
+  };
+}
+
+/** What gets stored with the prescription when the doctor overrides a warning */
+export const toAcknowledgement = (warning: DrugWarning, acknowledgedAt: string): PrescriptionAcknowledgement => ({
+  warningId: warning.id,
+  kind: warning.kind,
+  severity: warning.severity,
+  drug: warning.drug,
+  conflictsWith: warning.conflictsWith,
+  message: warning.message,
+  rulesetVersion: RULESET_VERSION,
+  acknowledgedAt,
+});
@@ -6,7 +6,10 @@
  * - 256-bit keys
  * - 96-bit nonces (never reused)
  * - Authenticated encryption prevents tampering
- * - Automatic key derivation from user ID (transparent to users)
+ * - A random content key per document, wrapped to each reader's key pair (see userKeys.ts)
+ *
+ * deriveKeyFromUserId is the old derived-v0 scheme. Its salt ships in the
+ * bundle, so it is kept only to read and migrate documents encrypted with it.
  */
 
 import { ChaCha20Poly1305 } from '@stablelib/chacha20poly1305';
@@ -17,6 +20,7 @@ import { env } from '@/config/env';
 const KEY_STORAGE_KEY = 'arogyanet_encryption_keys';
 const KEY_SIZE = 32; // 256 bits
 const NONCE_SIZE = 12; // 96 bits
+export const TAG_SIZE = 16; // Poly1305 tag appended by seal
 
 // Get encryption salt from environment variable
 // This makes keys unique to your application
@@ -30,8 +34,7 @@ export interface EncryptionKey {
 }
 
 /**
- * Derive a deterministic encryption key from user ID
- * This allows automatic encryption/decryption without manual key management
+ * Derive a deterministic encryption key from user ID (legacy derived-v0 documents only)
  * 
  * @param userId - The user's ID from authentication
  * @returns 256-bit encryption key derived from userId + APP_SALT
@@ -0,0 +1,172 @@
+/**
+ * Recovery backups of a user's document keys.
+ *
+ * A recovery phrase is 16 words from a 256-word list, one random byte each,
+ * plus a checksum word: 128 bits, far beyond guessing. The backup file is
+ * JSON with the public key and KDF parameters in the clear and the private
+ * key (PKCS#8), plus any legacy keys from this browser's localStorage,
+ * sealed with ChaCha20-Poly1305 under PBKDF2(phrase). The clear fields are
+ * the associated data, so none of them can be swapped without the phrase.
+ */
+import { ChaCha20Poly1305 } from '@stablelib/chacha20poly1305';
+import { randomBytes } from '@stablelib/random';
+import { hash } from '@stablelib/sha256';
+import type { KeyBackup, KeyBackupContents } from '@/api/client';
+import { keyBackupContentsSchema, keyBackupSchema } from '@/api/schemas';
+import { base64ToUint8Array, uint8ArrayToBase64, type EncryptionKey } from '@/utils/encryption';
+import { KDF_ALGORITHM, PBKDF2_ITERATIONS, deriveKeyFromPassphrase, newKdfSalt } from '@/utils/keyDerivation';
+import { KeyVaultError, isKeyPair, publicKeyFingerprint } from '@/utils/userKeys';
+
+const ENTROPY_SIZE = 16;
+const NONCE_SIZE = 12;
+export const RECOVERY_PHRASE_LENGTH = ENTROPY_SIZE + 1;
+
+// 256 words, no two sharing their first four letters, so a word can be typed as its prefix
+const WORDS = [
+  'acid', 'acorn', 'actor', 'adult', 'agent', 'alarm', 'album', 'alley', 'amber', 'anchor', 'angle', 'ankle', 'apple',
+  'apron', 'arena', 'armor', 'arrow', 'atlas', 'attic', 'audio', 'autumn', 'badge', 'bagel', 'baker', 'bamboo', 'banjo',
+  'barrel', 'basket', 'beach', 'beard', 'berry', 'bishop', 'blanket', 'blossom', 'bonus', 'border', 'bottle', 'bread',
+  'bridge', 'broom', 'bubble', 'bucket', 'buffalo', 'bundle', 'butter', 'cabin', 'cactus', 'camel', 'canal', 'candle',
+  'canyon', 'carpet', 'castle', 'cattle', 'cedar', 'cellar', 'cement', 'chalk', 'cherry', 'chess', 'chimney', 'circle',
+  'citrus', 'clock', 'cloud', 'clover', 'cobalt', 'coconut', 'comet', 'copper', 'coral', 'cotton', 'cradle', 'crater',
+  'cricket', 'crown', 'crystal', 'curtain', 'cushion', 'dancer', 'delta', 'denim', 'desert', 'diamond', 'dinner',
+  'dolphin', 'donkey', 'dragon', 'drum', 'eagle', 'earth', 'easel', 'echo', 'eclipse', 'elbow', 'ember', 'engine',
+  'falcon', 'feather', 'fence', 'ferry', 'fiddle', 'finch', 'flame', 'flute', 'forest', 'fossil', 'fountain', 'fox',
+  'galaxy', 'garden', 'garlic', 'gazelle', 'giant', 'ginger', 'glacier', 'globe', 'goblet', 'gorilla', 'granite',
+  'grape', 'gravel', 'guitar', 'hammer', 'harbor', 'harvest', 'hazel', 'helmet', 'heron', 'honey', 'horizon', 'husky',
+  'igloo', 'insect', 'island', 'ivory', 'jacket', 'jaguar', 'jelly', 'jewel', 'jigsaw', 'jungle', 'kayak', 'kettle',
+  'kitten', 'koala', 'ladder', 'lagoon', 'lantern', 'laptop', 'lemon', 'lentil', 'lily', 'lizard', 'lobster', 'locket',
+  'lumber', 'magnet', 'mango', 'maple', 'marble', 'meadow', 'melon', 'mirror', 'mitten', 'monkey', 'mosaic', 'muffin',
+  'napkin', 'nectar', 'needle', 'nickel', 'noodle', 'nutmeg', 'oasis', 'ocean', 'olive', 'onion', 'orange', 'orbit',
+  'orchid', 'otter', 'oyster', 'paddle', 'palace', 'panda', 'parrot', 'pebble', 'pelican', 'pepper', 'piano', 'pillow',
+  'pirate', 'planet', 'pocket', 'potato', 'pumpkin', 'puzzle', 'quartz', 'quilt', 'rabbit', 'radish', 'rainbow',
+  'raven', 'ribbon', 'river', 'robot', 'rocket', 'saddle', 'salmon', 'sandal', 'saturn', 'scarf', 'shadow', 'shovel',
+  'silver', 'sketch', 'sleigh', 'socket', 'spider', 'sponge', 'squash', 'statue', 'stove', 'sugar', 'summit', 'sunset',
+  'swan', 'table', 'teapot', 'tennis', 'thunder', 'tiger', 'timber', 'tomato', 'topaz', 'tractor', 'trumpet', 'tulip',
+  'tunnel', 'turtle', 'unicorn', 'valley', 'velvet', 'violin', 'wagon', 'walnut', 'walrus', 'willow', 'window',
+  'winter', 'wizard', 'wolf', 'yogurt', 'zebra', 'zipper',
+];
+const WORD_INDEX = new Map(WORDS.map((word, index) => [word, index]));
+const PREFIX_INDEX = new Map(WORDS.map((word, index) => [word.slice(0, 4), index]));
+
+const checksumByte = (entropy: Uint8Array) => hash(entropy)[0];
+
+const toPhrase = (bytes: Iterable<number>) => Array.from(bytes, (b) => WORDS[b]).join(' ');
+
+/** A new random recovery phrase, as space-separated words */
+export function generateRecoveryPhrase(): string {
+  const entropy = randomBytes(ENTROPY_SIZE);
+  return toPhrase([...entropy, checksumByte(entropy)]);
+}
+
+/** The phrase in canonical form (lower case, single spaces, full words), or a KeyVaultError naming the problem */
+export function normaliseRecoveryPhrase(input: string): string {
+  const words = input.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length !== RECOVERY_PHRASE_LENGTH) {
+    throw new KeyVaultError(`A recovery phrase has ${RECOVERY_PHRASE_LENGTH} words; this one has ${words.length}`, 'wrong_phrase');
+  }
+  const bytes = words.map((word, i) => {
+    const prefix = word.length >= 4 ? PREFIX_INDEX.get(word.slice(0, 4)) : undefined;
+    const index = WORD_INDEX.get(word) ?? (prefix !== undefined && WORDS[prefix].startsWith(word) ? prefix : undefined);
+    if (index === undefined) throw new KeyVaultError(`Word ${i + 1} ("${word}") isn't a recovery phrase word`, 'wrong_phrase');
+    return index;
+  });
+  if (checksumByte(Uint8Array.from(bytes.slice(0, ENTROPY_SIZE))) !== bytes[ENTROPY_SIZE]) {
+    throw new KeyVaultError('The recovery phrase has a typo or its words are out of order', 'wrong_phrase');
+  }
+  return toPhrase(bytes);
+}
+
+const backupAad = (backup: Omit<KeyBackup, 'nonce' | 'sealed'>) =>
+  new TextEncoder().encode(
+    JSON.stringify([backup.format, backup.version, backup.userId, backup.createdAt, backup.publicKey, backup.kdf])
+  );
+
+/** Seal the private key and this browser's legacy keys into a backup only the phrase opens */
+export async function createKeyBackup(
+  owner: { userId: string; publicKey: string; privateKey: Uint8Array; localKeys: EncryptionKey[] },
+  phrase: string
+): Promise<KeyBackup> {
+  const salt = newKdfSalt();
+  const header: Omit<KeyBackup, 'nonce' | 'sealed'> = {
+    format: 'arogyanet-key-backup',
+    version: 1,
+    userId: owner.userId,
+    createdAt: new Date().toISOString(),
+    publicKey: owner.publicKey,
+    kdf: { algorithm: KDF_ALGORITHM, salt: uint8ArrayToBase64(salt), iterations: PBKDF2_ITERATIONS },
+  };
+  const contents: KeyBackupContents = {
+    privateKey: uint8ArrayToBase64(owner.privateKey),
+    localKeys: owner.localKeys.map((key) => ({ id: key.id, key: uint8ArrayToBase64(key.key), createdAt: key.createdAt, label: key.label })),
+  };
+  const kek = await deriveKeyFromPassphrase(normaliseRecoveryPhrase(phrase), salt, PBKDF2_ITERATIONS);
+  const nonce = randomBytes(NONCE_SIZE);
+  const sealed = new ChaCha20Poly1305(kek).seal(nonce, new TextEncoder().encode(JSON.stringify(contents)), backupAad(header));
+  return { ...header, nonce: uint8ArrayToBase64(nonce), sealed: uint8ArrayToBase64(sealed) };
+}
+
+/** Read a backup file's text; the contents stay sealed */
+export function parseKeyBackup(text: string): KeyBackup {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+  const parsed = keyBackupSchema.safeParse(json);
+  if (!parsed.success) throw new KeyVaultError("This isn't an ArogyaNet key backup file", 'invalid_backup');
+  return parsed.data;
+}
+
+/** Open a backup with its phrase and check the private key belongs to the recorded public key */
+export async function openKeyBackup(
+  backup: KeyBackup,
+  phrase: string
+): Promise<{ privateKey: Uint8Array; localKeys: EncryptionKey[] }> {
+  const kek = await deriveKeyFromPassphrase(
+    normaliseRecoveryPhrase(phrase),
+    base64ToUint8Array(backup.kdf.salt),
+    backup.kdf.iterations
+  );
+  const opened = new ChaCha20Poly1305(kek).open(base64ToUint8Array(backup.nonce), base64ToUint8Array(backup.sealed), backupAad(backup));
+  if (!opened) throw new KeyVaultError("That recovery phrase doesn't open this backup", 'wrong_phrase');
+
+  let json: unknown;
+  try {
+    json = JSON.parse(new TextDecoder().decode(opened));
+  } catch {
+    json = undefined;
+  }
+  const contents = keyBackupContentsSchema.safeParse(json);
+  if (!contents.success) throw new KeyVaultError('The backup opened but its contents are damaged', 'invalid_backup');
+  const privateKey = base64ToUint8Array(contents.data.privateKey);
+  if (!(await isKeyPair(privateKey, backup.publicKey))) {
+    throw new KeyVaultError("The backup's private key doesn't match its public key", 'invalid_backup');
+  }
+  return {
+    privateKey,
+    localKeys: contents.data.localKeys.map((key) => ({ ...key, key: base64ToUint8Array(key.key) })),
+  };
+}
+
+export interface KeyBackupCheck {
+  userId: string;
+  createdAt: string;
+  /** publicKeyFingerprint of the backed-up key pair, to compare with the one shown when unlocked */
+  fingerprint: string;
+  localKeyCount: number;
+}
+
+/** Confirm a backup opens with the phrase and is intact, without importing anything */
+export async function checkKeyBackup(backup: KeyBackup, phrase: string): Promise<KeyBackupCheck> {
+  const { localKeys } = await openKeyBackup(backup, phrase);
+  return {
+    userId: backup.userId,
+    createdAt: backup.createdAt,
+    fingerprint: publicKeyFingerprint(backup.publicKey),
+    localKeyCount: localKeys.length,
+  };
+}
+
+export const keyBackupFilename = (backup: KeyBackup) => `arogyanet-key-backup-${backup.createdAt.slice(0, 10)}.json`;
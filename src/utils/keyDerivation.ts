@@ -0,0 +1,46 @@
+/**
+ * Passphrase-based key derivation for unlocking a user's private key.
+ *
+ * PBKDF2-SHA256 is deliberately slow, so it runs in a Worker
+ * (src/workers/kdf.worker.ts) to keep the page responsive. Browsers that
+ * can't start a module worker fall back to deriving on the main thread.
+ */
+import { randomBytes } from '@stablelib/random';
+import { pbkdf2, type KdfRequest, type KdfResponse } from '@/utils/pbkdf2';
+
+export const KDF_ALGORITHM = 'PBKDF2-SHA256';
+/** OWASP's current recommendation for PBKDF2-HMAC-SHA256 */
+export const PBKDF2_ITERATIONS = 600_000;
+/** Stored counts are untrusted: leaves room to raise the default, but not to stall the worker for hours */
+export const MAX_PBKDF2_ITERATIONS = PBKDF2_ITERATIONS * 4;
+const SALT_SIZE = 16;
+
+export const newKdfSalt = (): Uint8Array => randomBytes(SALT_SIZE);
+
+function deriveInWorker(request: KdfRequest): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/kdf.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<KdfResponse>) => {
+      worker.terminate();
+      if (event.data.key) resolve(event.data.key);
+      else reject(new Error(event.data.error ?? 'Key derivation failed'));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Key derivation worker failed'));
+    };
+    worker.postMessage(request);
+  });
+}
+
+/** Stretch a passphrase into a key-encryption key, off the main thread when possible */
+export async function deriveKeyFromPassphrase(passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  if (typeof Worker !== 'undefined') {
+    try {
+      return await deriveInWorker({ passphrase, salt, iterations });
+    } catch (error) {
+      console.warn('[KDF] Worker unavailable, deriving on the main thread:', error);
+    }
+  }
+  return pbkdf2(passphrase, salt, iterations);
+}
@@ -0,0 +1,45 @@
+/**
+ * The signed-in user's unlocked private key, held in memory for this tab
+ * only. Reloading or signing out locks it again; the passphrase is needed
+ * to unlock it (see hooks/useKeyVault).
+ */
+import { KeyVaultError } from '@/utils/userKeys';
+
+export interface UnlockedKeys {
+  userId: string;
+  publicKey: string;
+  privateKey: CryptoKey;
+}
+
+let unlocked: UnlockedKeys | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const getUnlockedKeys = (): UnlockedKeys | null => unlocked;
+
+export const setUnlockedKeys = (keys: UnlockedKeys) => {
+  unlocked = keys;
+  notify();
+};
+
+export const lockKeys = () => {
+  if (!unlocked) return;
+  unlocked = null;
+  notify();
+};
+
+export const subscribeToKeys = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** The unlocked keys for this user, or a KeyVaultError asking them to unlock first */
+export function requireUnlockedKeys(userId: string): UnlockedKeys {
+  if (!unlocked || unlocked.userId !== userId) {
+    throw new KeyVaultError('Unlock your document keys with your passphrase first', 'locked');
+  }
+  return unlocked;
+}
@@ -0,0 +1,157 @@
+const VIDEO_SIZE: MediaTrackConstraints = {
+  width: { ideal: 1280 },
+  height: { ideal: 720 },
+};
+
+/** Camera and microphone for a call */
+export const CALL_MEDIA_CONSTRAINTS: MediaStreamConstraints = {
+  audio: true,
+  video: VIDEO_SIZE,
+};
+
+/** The devices picked for calls, by kind; missing means the browser default */
+export type MediaDeviceChoice = Partial<Record<MediaDeviceKind, string>>;
+
+const DEVICE_CHOICE_STORAGE_KEY = 'callDevices';
+
+export function loadDeviceChoice(): MediaDeviceChoice {
+  try {
+    const stored = JSON.parse(localStorage.getItem(DEVICE_CHOICE_STORAGE_KEY) ?? '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
+export const saveDeviceChoice = (choice: MediaDeviceChoice) => localStorage.setItem(DEVICE_CHOICE_STORAGE_KEY, JSON.stringify(choice));
+
+/**
+ * Call constraints for the chosen camera and microphone. Saved choices are only
+ * preferred, so an unplugged device falls back to the default instead of failing;
+ * pass `exact` when the user has just picked one from the list.
+ */
+export function callConstraints(choice: MediaDeviceChoice, exact = false): MediaStreamConstraints {
+  const device = (deviceId: string | undefined) => (deviceId ? { deviceId: exact ? { exact: deviceId } : { ideal: deviceId } } : {});
+  return {
+    audio: choice.audioinput ? device(choice.audioinput) : true,
+    video: { ...VIDEO_SIZE, ...device(choice.videoinput) },
+  };
+}
+
+/** Asks for the camera and microphone, explaining the failures browsers leave cryptic */
+export async function openLocalMedia(constraints: MediaStreamConstraints = CALL_MEDIA_CONSTRAINTS): Promise<MediaStream> {
+  // getUserMedia only exists in a secure context (HTTPS or localhost)
+  if (!window.isSecureContext) {
+    throw new Error(`Video calls need HTTPS. This page was opened over HTTP (${window.location.origin}).`);
+  }
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error('This browser cannot capture camera or microphone. Try the latest Chrome, Firefox or Safari.');
+  }
+  return navigator.mediaDevices.getUserMedia(constraints);
+}
+
+export const stopMedia = (stream: MediaStream | null) => stream?.getTracks().forEach((track) => track.stop());
+
+/** Cameras, microphones and speakers; labels stay empty until the user has granted access once */
+export async function listMediaDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  // Before permission some browsers list placeholder entries without ids
+  return devices.filter((device) => device.deviceId);
+}
+
+/** Whether this browser can send audio to a speaker other than the system default */
+export const SPEAKER_SELECTION_SUPPORTED = typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+export interface MediaErrorHelp {
+  title: string;
+  description: string;
+}
+
+const MEDIA_ERROR_HELP: Record<string, MediaErrorHelp> = {
+  NotAllowedError: {
+    title: 'Camera and microphone are blocked',
+    description: "Allow access from the camera icon in the address bar (or this site's settings in your browser), then try again.",
+  },
+  NotFoundError: {
+    title: 'No camera or microphone found',
+    description: 'Connect a camera and microphone and check they are switched on, then try again.',
+  },
+  NotReadableError: {
+    title: 'Camera or microphone is in use',
+    description: 'Another app or browser tab is probably using it. Close apps such as Zoom or Teams, then try again.',
+  },
+  OverconstrainedError: {
+    title: 'The chosen device is not available',
+    description: 'It may have been unplugged. Pick another camera or microphone.',
+  },
+};
+
+// Names older browsers used for the same failures
+const LEGACY_ERROR_NAMES: Record<string, string> = {
+  PermissionDeniedError: 'NotAllowedError',
+  SecurityError: 'NotAllowedError',
+  DevicesNotFoundError: 'NotFoundError',
+  TrackStartError: 'NotReadableError',
+  AbortError: 'NotReadableError',
+  ConstraintNotSatisfiedError: 'OverconstrainedError',
+};
+
+/** What went wrong opening the camera or microphone, and what the user can do about it */
+export function describeMediaError(error: unknown): MediaErrorHelp {
+  const name = error instanceof Error || error instanceof DOMException ? error.name : '';
+  const help = MEDIA_ERROR_HELP[LEGACY_ERROR_NAMES[name] ?? name];
+  if (help) return help;
+  return {
+    title: 'Camera or microphone unavailable',
+    description: error instanceof Error && error.message ? error.message : 'Check your camera and microphone, then try again.',
+  };
+}
+
+/** Reports the microphone's loudness (0 to 1) about ten times a second; returns a stop function */
+export function watchAudioLevel(stream: MediaStream, onLevel: (level: number) => void): () => void {
+  if (!stream.getAudioTracks().length) return () => {};
+  const context = new AudioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  context.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Uint8Array(analyser.fftSize);
+
+  const interval = setInterval(() => {
+    analyser.getByteTimeDomainData(samples);
+    let sum = 0;
+    for (const sample of samples) sum += ((sample - 128) / 128) ** 2;
+    // Scaled so ordinary speech fills most of the meter
+    onLevel(Math.min(1, Math.sqrt(sum / samples.length) * 4));
+  }, 100);
+
+  return () => {
+    clearInterval(interval);
+    context.close();
+  };
+}
+
+/** Plays a short tone on the chosen speaker, or the default one where the browser can't choose */
+export async function playTestTone(audioOutputId?: string, durationMs = 1200): Promise<void> {
+  const context = new AudioContext();
+  const audio = new Audio();
+  try {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const destination = context.createMediaStreamDestination();
+    oscillator.frequency.value = 440;
+    gain.gain.value = 0.2;
+    oscillator.connect(gain).connect(destination);
+    // Through an audio element, since only media elements can be pointed at a speaker
+    audio.srcObject = destination.stream;
+    if (audioOutputId && SPEAKER_SELECTION_SUPPORTED) await audio.setSinkId(audioOutputId);
+    oscillator.start();
+    await audio.play();
+    await new Promise((resolve) => setTimeout(resolve, durationMs));
+    oscillator.stop();
+  } finally {
+    audio.pause();
+    audio.srcObject = null;
+    await context.close();
+  }
+}
@@ -0,0 +1,19 @@
+// PBKDF2 primitive shared by the KDF worker and its main-thread fallback (keyDerivation.ts)
+
+export interface KdfRequest {
+  passphrase: string;
+  salt: Uint8Array;
+  iterations: number;
+}
+
+export interface KdfResponse {
+  key?: Uint8Array;
+  error?: string;
+}
+
+/** Derive a 256-bit key with PBKDF2-HMAC-SHA256 */
+export async function pbkdf2(passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, material, 256);
+  return new Uint8Array(bits);
+}
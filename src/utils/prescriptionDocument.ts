@@ -0,0 +1,202 @@
+/**
+ * Printable prescription documents, rendered entirely in the browser so they
+ * work offline. PDF export is the print dialog's "Save as PDF".
+ */
+import { hash } from '@stablelib/sha256';
+import type { Appointment, Prescription, User } from '@/api/client';
+import { frequencyLabel, routeLabel } from '@/utils/prescriptions';
+import { browserTimeZone, formatWithZone } from '@/utils/timezone';
+
+const PAYLOAD_VERSION = 'RX1';
+// Names the canonicalContent rule below, so it can change without old codes becoming unverifiable
+const CANONICAL_VERSION = 'c1';
+const UNSIGNED = 'unsigned';
+
+/**
+ * The exact string whose SHA-256 is the content hash, and that the backend
+ * signs. Anyone verifying a printed code must build the same string, so the
+ * rule is spelled out here rather than left to how the client parses records.
+ *
+ * `JSON.stringify` (no whitespace) of the array
+ *   [id, createdAt, doctorId, patientId, appointmentId, items, instructions]
+ * - createdAt: ISO 8601 in UTC with milliseconds, e.g. "2025-01-31T09:00:00.000Z"
+ * - doctorId, patientId, appointmentId: string, or null when absent
+ * - items, in prescribed order, each
+ *   [drug, strength, route, frequency, durationDays, quantity, refills]
+ *   where a missing strength or frequency is "", a missing route, durationDays
+ *   or quantity is null, and missing refills is 0
+ * - instructions: string, or null when absent or empty
+ */
+export const canonicalContent = (prescription: Prescription): string => {
+  const createdAt = Date.parse(prescription.createdAt);
+  return JSON.stringify([
+    prescription.id,
+    Number.isNaN(createdAt) ? prescription.createdAt : new Date(createdAt).toISOString(),
+    prescription.doctor?.id ?? null,
+    prescription.patient?.id ?? null,
+    prescription.appointmentId || null,
+    prescription.items.map((item) => [
+      item.drug,
+      item.strength ?? '',
+      item.route || null,
+      item.frequency ?? '',
+      item.durationDays ?? null,
+      item.quantity ?? null,
+      item.refills ?? 0,
+    ]),
+    prescription.instructions || null,
+  ]);
+};
+
+const toBase64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...Array.from(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/** SHA-256 of the prescription's canonical content, base64url encoded */
+export const prescriptionContentHash = (prescription: Prescription): string =>
+  toBase64Url(hash(new TextEncoder().encode(canonicalContent(prescription))));
+
+/**
+ * The string printed on the document: `RX1.<id>.c1.<content hash>.<signature>`.
+ * Anyone holding it can look the prescription up by id, check the content has
+ * not changed since printing, and have the backend check the signature. The
+ * signature is printed as the backend issued it and may itself contain dots,
+ * so readers split off the first four fields and take the rest verbatim.
+ */
+export function buildVerificationPayload(prescription: Prescription): string {
+  return [
+    PAYLOAD_VERSION,
+    prescription.id,
+    CANONICAL_VERSION,
+    prescriptionContentHash(prescription),
+    prescription.signature || UNSIGNED,
+  ].join('.');
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const party = (title: string, user: User | null | undefined, prefix = ''): string => `
+  <div class="party">
+    <h2>${title}</h2>
+    <p class="name">${escapeHtml(user?.name ? prefix + user.name : 'N/A')}</p>
+    ${user?.email ? `<p>${escapeHtml(user.email)}</p>` : ''}
+    ${user?.phone ? `<p>${escapeHtml(user.phone)}</p>` : ''}
+  </div>`;
+
+const STYLES = `
+  @page { size: A4; margin: 18mm; }
+  * { box-sizing: border-box; }
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111; font-size: 12px; margin: 0; }
+  header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 2px solid #111; padding-bottom: 8px; }
+  header h1 { font-size: 20px; margin: 0; }
+  .meta { text-align: right; color: #444; }
+  .parties { display: flex; gap: 24px; margin: 16px 0; }
+  .party { flex: 1; }
+  .party h2 { font-size: 11px; text-transform: uppercase; letter-spacing: .05em; color: #666; margin: 0 0 4px; }
+  .party p { margin: 0; }
+  .party .name { font-weight: 600; font-size: 14px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th, td { border-bottom: 1px solid #ccc; padding: 6px 4px; text-align: left; vertical-align: top; }
+  th { font-size: 11px; text-transform: uppercase; color: #555; }
+  .rx { font-size: 22px; font-weight: 700; margin-top: 12px; }
+  .instructions { margin-top: 12px; white-space: pre-wrap; }
+  footer { margin-top: 32px; border-top: 1px solid #ccc; padding-top: 8px; font-size: 10px; color: #444; }
+  .payload { font-family: ui-monospace, monospace; word-break: break-all; font-size: 10px; }
+`;
+
+export interface PrescriptionDocumentOptions {
+  /** The linked appointment, when the caller has it loaded */
+  appointment?: Appointment;
+}
+
+/** Self-contained HTML page (inline styles, no external assets) for one prescription */
+export function renderPrescriptionHtml(prescription: Prescription, options: PrescriptionDocumentOptions = {}): string {
+  // Dates read in the prescriber's zone, so patient and pharmacy copies agree
+  const zone = prescription.doctor?.timezone || browserTimeZone();
+  const rows = prescription.items
+    .map(
+      (item, index) => `
+      <tr>
+        <td>${index + 1}</td>
+        <td><strong>${escapeHtml(item.drug)}</strong> ${escapeHtml(item.strength)}</td>
+        <td>${escapeHtml(routeLabel(item.route) || '-')}</td>
+        <td>${escapeHtml(item.frequency ? frequencyLabel(item.frequency) : '-')}</td>
+        <td>${item.durationDays ? `${item.durationDays} days` : '-'}</td>
+        <td>${item.quantity ?? '-'}</td>
+        <td>${item.refills}</td>
+      </tr>`
+    )
+    .join('');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Prescription-${escapeHtml(prescription.id)}</title>
+  <style>${STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>Prescription</h1>
+    <div class="meta">
+      <div>No. ${escapeHtml(prescription.id)}</div>
+      <div>Issued ${escapeHtml(formatWithZone(prescription.createdAt, zone))}</div>
+      ${options.appointment ? `<div>Consultation ${escapeHtml(formatWithZone(options.appointment.startAt, zone))}</div>` : ''}
+    </div>
+  </header>
+  <div class="parties">
+    ${party('Prescriber', prescription.doctor, 'Dr. ')}
+    ${party('Patient', prescription.patient)}
+  </div>
+  <div class="rx">&#8478;</div>
+  <table>
+    <thead>
+      <tr><th>#</th><th>Drug</th><th>Route</th><th>Frequency</th><th>Duration</th><th>Qty</th><th>Refills</th></tr>
+    </thead>
+    <tbody>${rows}</tbody>
+  </table>
+  ${prescription.instructions ? `<div class="instructions"><strong>Instructions:</strong> ${escapeHtml(prescription.instructions)}</div>` : ''}
+  <footer>
+    <div>Verification code${prescription.signature ? '' : ' (unsigned record)'}:</div>
+    <div class="payload">${escapeHtml(buildVerificationPayload(prescription))}</div>
+  </footer>
+</body>
+</html>`;
+}
+
+/**
+ * Opens the print dialog for a prescription from a hidden iframe, which
+ * avoids popup blockers. Choosing "Save as PDF" there produces the PDF.
+ */
+export function printPrescription(prescription: Prescription, options: PrescriptionDocumentOptions = {}): void {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;';
+  frame.srcdoc = renderPrescriptionHtml(prescription, options);
+
+  let removed = false;
+  const remove = () => {
+    if (removed) return;
+    removed = true;
+    frame.remove();
+  };
+
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) {
+      remove();
+      return;
+    }
+    win.addEventListener('afterprint', remove, { once: true });
+    win.focus();
+    win.print();
+    // Not every browser fires afterprint; don't leave the frame behind forever
+    setTimeout(remove, 60_000);
+  };
+  document.body.appendChild(frame);
+}
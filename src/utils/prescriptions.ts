@@ -0,0 +1,60 @@
+/**
+ * Vocabulary for prescription line items and how they read on screen
+ */
+import type { PrescriptionItem } from '@/api/client';
+
+export const PRESCRIPTION_ROUTES = [
+  'oral',
+  'sublingual',
+  'topical',
+  'inhaled',
+  'nasal',
+  'ophthalmic',
+  'otic',
+  'rectal',
+  'subcutaneous',
+  'intramuscular',
+  'intravenous',
+] as const;
+
+export type PrescriptionRoute = (typeof PRESCRIPTION_ROUTES)[number];
+
+/** Dose schedules; `perDay` is null when the total can't be worked out (as needed) */
+export const DOSE_FREQUENCIES = {
+  once_daily: { label: 'Once daily', perDay: 1 },
+  twice_daily: { label: 'Twice daily', perDay: 2 },
+  three_times_daily: { label: 'Three times daily', perDay: 3 },
+  four_times_daily: { label: 'Four times daily', perDay: 4 },
+  at_bedtime: { label: 'At bedtime', perDay: 1 },
+  every_other_day: { label: 'Every other day', perDay: 0.5 },
+  weekly: { label: 'Once weekly', perDay: 1 / 7 },
+  as_needed: { label: 'As needed', perDay: null },
+} satisfies Record<string, { label: string; perDay: number | null }>;
+
+export type DoseFrequency = keyof typeof DOSE_FREQUENCIES;
+
+export const DOSE_FREQUENCY_CODES = Object.keys(DOSE_FREQUENCIES) as [DoseFrequency, ...DoseFrequency[]];
+
+/** Label for a frequency code; older records hold free text, which is shown as-is */
+export const frequencyLabel = (frequency: string): string =>
+  frequency in DOSE_FREQUENCIES ? DOSE_FREQUENCIES[frequency as DoseFrequency].label : frequency;
+
+export const routeLabel = (route?: string): string => (route ? route.charAt(0).toUpperCase() + route.slice(1) : '');
+
+/**
+ * Units needed to cover the whole course at one unit per dose, as a hint for
+ * the quantity field. Undefined for as-needed schedules or a missing duration.
+ */
+export function suggestedQuantity(frequency: string, durationDays: number): number | undefined {
+  const perDay = frequency in DOSE_FREQUENCIES ? DOSE_FREQUENCIES[frequency as DoseFrequency].perDay : null;
+  if (perDay === null || !Number.isFinite(durationDays) || durationDays <= 0) return undefined;
+  return Math.ceil(perDay * durationDays);
+}
+
+/** One-line summary, e.g. "Amoxicillin 500 mg, twice daily for 7 days" */
+export function describeItem(item: PrescriptionItem): string {
+  const schedule = [item.frequency && frequencyLabel(item.frequency).toLowerCase(), item.durationDays && `for ${item.durationDays} days`]
+    .filter(Boolean)
+    .join(' ');
+  return [`${item.drug}${item.strength ? ` ${item.strength}` : ''}`, schedule].filter(Boolean).join(', ');
+}
@@ -0,0 +1,60 @@
+/**
+ * Expands a recurrence rule into the concrete follow-up dates of a series
+ */
+import { addMonths, addWeeks } from 'date-fns';
+import type { Appointment, DoctorAvailability } from '@/api/client';
+import type { RecurrenceRule } from '@/api/schemas';
+import { isWorkingDay } from '@/utils/availability';
+import { getZonedParts, zonedTimeToUtc } from '@/utils/timezone';
+
+export interface PlannedOccurrence {
+  startAt: Date;
+  endAt: Date;
+}
+
+export interface SeriesPlan {
+  occurrences: PlannedOccurrence[];
+  /** Calendar dates that fell on a day off (or a day the doctor doesn't work) and were passed over */
+  skipped: Date[];
+}
+
+// Give up after this many passed-over dates rather than stretching a series across a long leave
+const MAX_SKIPPED = 12;
+
+/**
+ * Follow-ups keep the source appointment's wall-clock time and length in the
+ * doctor's timezone. A date that lands on a day off is skipped and the series
+ * carries on one interval later, so the patient still gets `occurrences` visits.
+ */
+export function planSeries(
+  source: Appointment,
+  rule: RecurrenceRule,
+  availability: DoctorAvailability,
+  now: Date = new Date()
+): SeriesPlan {
+  const zone = availability.timezone;
+  const start = new Date(source.startAt);
+  const end = source.endAt ? new Date(source.endAt) : null;
+  const lengthMs =
+    end && end.getTime() > start.getTime() ? end.getTime() - start.getTime() : availability.slotMinutes * 60 * 1000;
+
+  const parts = getZonedParts(start, zone);
+  const firstDay = new Date(parts.year, parts.month - 1, parts.day);
+  const minutes = parts.hour * 60 + parts.minute;
+  const advance = rule.frequency === 'weekly' ? addWeeks : addMonths;
+
+  const occurrences: PlannedOccurrence[] = [];
+  const skipped: Date[] = [];
+  // Always step from the first day so monthly series don't drift after a short month
+  for (let step = 1; occurrences.length < rule.occurrences && skipped.length < MAX_SKIPPED; step++) {
+    const day = advance(firstDay, step * rule.interval);
+    const startAt = zonedTimeToUtc(day.getFullYear(), day.getMonth() + 1, day.getDate(), minutes, zone);
+    if (startAt <= now) continue;
+    if (!isWorkingDay(availability, day)) {
+      skipped.push(day);
+      continue;
+    }
+    occurrences.push({ startAt, endAt: new Date(startAt.getTime() + lengthMs) });
+  }
+  return { occurrences, skipped };
+}
@@ -0,0 +1,90 @@
+/**
+ * Runs the chunked format (chunkedEncryption.ts) in a module Worker so
+ * encrypting or decrypting a large scan doesn't freeze the page. One worker
+ * per operation; browsers that can't start one run it on the main thread,
+ * which still streams and so still avoids holding the whole file twice.
+ */
+import { decryptChunked, encryptChunked, type ProgressCallback } from '@/utils/chunkedEncryption';
+import { DocumentIntegrityError, type DocumentIntegrityReason } from '@/utils/documentIntegrity';
+
+export interface CryptoWorkerRequest {
+  op: 'encrypt' | 'decrypt';
+  data: Blob;
+  key: Uint8Array;
+  /** Type of the decrypted Blob */
+  mimeType?: string;
+  /** Recorded size of the decrypted document, used to tell a short download from a damaged one */
+  plaintextSize?: number;
+}
+
+export interface CryptoWorkerResponse {
+  progress?: { processed: number; total: number };
+  blob?: Blob;
+  baseNonce?: Uint8Array;
+  error?: string;
+  /** Set when decryption failed an integrity check, so the error can be rebuilt on this side */
+  errorReason?: DocumentIntegrityReason;
+}
+
+// Only a worker that never ran is retried inline; a decryption failure inside it is final
+class WorkerStartError extends Error {}
+
+function runInWorker(request: CryptoWorkerRequest, onProgress?: ProgressCallback): Promise<CryptoWorkerResponse> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/crypto.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<CryptoWorkerResponse>) => {
+      const { progress } = event.data;
+      if (progress) {
+        onProgress?.(progress.processed, progress.total);
+        return;
+      }
+      worker.terminate();
+      const { blob, error, errorReason } = event.data;
+      if (blob) resolve(event.data);
+      else if (errorReason) reject(new DocumentIntegrityError(errorReason, error));
+      else reject(new Error(error ?? 'Encryption worker failed'));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new WorkerStartError(event.message || 'Encryption worker failed to start'));
+    };
+    worker.postMessage(request);
+  });
+}
+
+const canUseWorker = () => typeof Worker !== 'undefined';
+
+export async function encryptDocument(
+  data: Blob,
+  key: Uint8Array,
+  onProgress?: ProgressCallback
+): Promise<{ blob: Blob; baseNonce: Uint8Array }> {
+  if (canUseWorker()) {
+    try {
+      const { blob, baseNonce } = await runInWorker({ op: 'encrypt', data, key }, onProgress);
+      return { blob, baseNonce };
+    } catch (error) {
+      if (!(error instanceof WorkerStartError)) throw error;
+      console.warn('[Crypto] Worker unavailable, encrypting on the main thread:', error);
+    }
+  }
+  return encryptChunked(data, key, onProgress);
+}
+
+export async function decryptDocument(
+  data: Blob,
+  key: Uint8Array,
+  mimeType: string,
+  onProgress?: ProgressCallback,
+  plaintextSize?: number
+): Promise<Blob> {
+  if (canUseWorker()) {
+    try {
+      return (await runInWorker({ op: 'decrypt', data, key, mimeType, plaintextSize }, onProgress)).blob;
+    } catch (error) {
+      if (!(error instanceof WorkerStartError)) throw error;
+      console.warn('[Crypto] Worker unavailable, decrypting on the main thread:', error);
+    }
+  }
+  return decryptChunked(data, key, mimeType, onProgress, plaintextSize);
+}
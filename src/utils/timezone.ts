@@ -0,0 +1,148 @@
+/**
+ * IANA timezone helpers built on Intl, so doctor schedules can be expressed
+ * in the doctor's zone no matter where the viewer's browser is
+ */
+
+export interface ZonedParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+// Used when the runtime cannot enumerate zones (Intl.supportedValuesOf is ES2022)
+const FALLBACK_ZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Paris',
+  'Africa/Nairobi',
+  'Asia/Dubai',
+  'Asia/Karachi',
+  'Asia/Kolkata',
+  'Asia/Dhaka',
+  'Asia/Bangkok',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Perth',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+  'America/Sao_Paulo',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+];
+
+/** The viewer's own zone, e.g. "Asia/Kolkata" */
+export const browserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export function listTimeZones(): string[] {
+  const supported = (Intl as unknown as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf;
+  const zones = supported ? supported('timeZone') : FALLBACK_ZONES;
+  const own = browserTimeZone();
+  return zones.includes(own) ? zones : [own, ...zones];
+}
+
+export function isValidTimeZone(timeZone: string | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock fields of an instant as seen in `timeZone` */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  const get = (type: string) => Number(formatter.formatToParts(date).find((p) => p.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour') % 24, minute: get('minute') };
+}
+
+// Minutes to add to UTC to get wall-clock time in `timeZone` at that instant
+const offsetMinutes = (date: Date, timeZone: string): number => {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute);
+  return Math.round((asUtc - Math.floor(date.getTime() / 60_000) * 60_000) / 60_000);
+};
+
+/** Whether two zones show the same wall-clock time at `date` */
+export const sameOffset = (date: Date, zoneA: string, zoneB: string): boolean =>
+  offsetMinutes(date, zoneA) === offsetMinutes(date, zoneB);
+
+/**
+ * The instant at which the wall clock in `timeZone` reads the given date and
+ * minutes past midnight. The offset is re-checked once so times next to a DST
+ * change resolve to the right side of it.
+ */
+export function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallAsUtc = Date.UTC(year, month - 1, day, 0, minutes);
+  let guess = new Date(wallAsUtc - offsetMinutes(new Date(wallAsUtc), timeZone) * 60_000);
+  const corrected = new Date(wallAsUtc - offsetMinutes(guess, timeZone) * 60_000);
+  if (corrected.getTime() !== guess.getTime()) guess = corrected;
+  return guess;
+}
+
+/** Short zone label for an instant, e.g. "GMT+5:30" or "EST" */
+export function zoneLabel(date: Date, timeZone: string): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find((p) => p.type === 'timeZoneName');
+  return part?.value ?? timeZone;
+}
+
+const toDate = (value: string | Date | undefined): Date | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/** "HH:mm" wall time in `timeZone` */
+export function formatZonedTime(value: string | Date, timeZone: string = browserTimeZone()): string {
+  const date = toDate(value);
+  if (!date) return 'N/A';
+  return date.toLocaleTimeString([], { timeZone, hour: '2-digit', minute: '2-digit' });
+}
+
+/** Date and time with an explicit zone label, e.g. "3 Mar 2026, 10:00 GMT+5:30" */
+export function formatWithZone(value: string | Date | undefined, timeZone: string = browserTimeZone()): string {
+  const date = toDate(value);
+  if (!date) return 'N/A';
+  const text = date.toLocaleString([], { timeZone, dateStyle: 'medium', timeStyle: 'short' });
+  return `${text} ${zoneLabel(date, timeZone)}`;
+}
+
+/**
+ * Formats an instant in the viewer's zone and, when the other party is
+ * elsewhere, adds their wall time as well, e.g. "… 10:00 CET (14:30 IST for the doctor)"
+ */
+export function formatForBoth(
+  value: string | Date | undefined,
+  otherZone: string | undefined,
+  otherLabel: string,
+  ownZone: string = browserTimeZone()
+): string {
+  const date = toDate(value);
+  if (!date) return 'N/A';
+  const own = formatWithZone(date, ownZone);
+  if (!otherZone || !isValidTimeZone(otherZone) || sameOffset(date, otherZone, ownZone)) return own;
+  return `${own} (${formatZonedTime(date, otherZone)} ${zoneLabel(date, otherZone)} ${otherLabel})`;
+}
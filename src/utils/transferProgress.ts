@@ -0,0 +1,21 @@
+import type { TransferProgress } from '@/api/client';
+
+const PHASE_LABELS: Record<TransferProgress['phase'], string> = {
+  encrypting: 'Encrypting',
+  uploading: 'Uploading',
+  downloading: 'Downloading',
+  decrypting: 'Decrypting',
+};
+
+/** Whole percent done, or null when the size isn't known */
+export function transferPercent(progress: TransferProgress): number | null {
+  if (!progress.total) return null;
+  return Math.min(100, Math.floor((progress.loaded / progress.total) * 100));
+}
+
+/** "Encrypting 42%", or just "Downloading…" when the size isn't known */
+export function transferLabel(progress: TransferProgress): string {
+  const label = PHASE_LABELS[progress.phase];
+  const percent = transferPercent(progress);
+  return percent === null ? `${label}…` : `${label} ${percent}%`;
+}
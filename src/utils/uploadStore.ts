@@ -0,0 +1,71 @@
+/**
+ * IndexedDB record of multipart uploads that haven't finished, so they can
+ * resume after a reload. The stored Blob is the already-encrypted file, so
+ * nothing readable is kept at rest; the record is deleted once the upload
+ * completes or is cancelled.
+ */
+
+const DB_NAME = 'arogyanet-uploads';
+const DB_VERSION = 1;
+const STORE = 'uploads';
+
+export interface CompletedPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface PendingUpload {
+  /** The multipart upload id from S3 */
+  id: string;
+  userId: string;
+  s3Key: string;
+  partSize: number;
+  /** Encrypted bytes being uploaded */
+  blob: Blob;
+  parts: CompletedPart[];
+  /** Metadata sent to `confirmPath` once every part is in */
+  confirm: Record<string, unknown> & { originalName: string; size: number };
+  /** Where the upload is confirmed; /api/documents/confirm (a new document) when absent */
+  confirmPath?: string;
+  createdAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('userId', 'userId');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = action(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export const isUploadStoreAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const savePendingUpload = (upload: PendingUpload) => run('readwrite', (store) => store.put(upload)).then(() => undefined);
+
+export const getPendingUpload = (id: string) => run<PendingUpload | undefined>('readonly', (store) => store.get(id));
+
+export const listPendingUploads = (userId: string) =>
+  run<PendingUpload[]>('readonly', (store) => store.index('userId').getAll(userId));
+
+export const deletePendingUpload = (id: string) => run('readwrite', (store) => store.delete(id)).then(() => undefined);
@@ -0,0 +1,149 @@
+/**
+ * Per-user ECDH P-256 key pairs and the envelope scheme built on them.
+ *
+ * Every document gets its own random content key (see encryption.ts). That
+ * key is wrapped to a recipient's public key: an ephemeral ECDH agreement,
+ * HKDF-SHA256 to a key-encryption key, then ChaCha20-Poly1305. The wrapped
+ * form is "v1.<ephemeral public key>.<nonce>.<sealed key>", all base64.
+ *
+ * The private key never leaves the browser unencrypted. It is sealed with a
+ * key stretched from the user's passphrase (keyDerivation.ts) and the server
+ * only ever stores that sealed copy alongside the public key.
+ */
+import { ChaCha20Poly1305 } from '@stablelib/chacha20poly1305';
+import { randomBytes } from '@stablelib/random';
+import { hash } from '@stablelib/sha256';
+import type { UserKeyBundle } from '@/api/client';
+import { base64ToUint8Array, uint8ArrayToBase64 } from '@/utils/encryption';
+import { KDF_ALGORITHM, PBKDF2_ITERATIONS, deriveKeyFromPassphrase, newKdfSalt } from '@/utils/keyDerivation';
+
+const CURVE = { name: 'ECDH', namedCurve: 'P-256' } as const;
+const WRAP_VERSION = 'v1';
+const WRAP_INFO = new TextEncoder().encode('arogyanet/content-key/v1');
+const NONCE_SIZE = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 12;
+
+export type KeyVaultErrorCode = 'wrong_passphrase' | 'wrong_phrase' | 'invalid_backup' | 'locked' | 'no_access' | 'invalid_key';
+
+export class KeyVaultError extends Error {
+  readonly code: KeyVaultErrorCode;
+
+  constructor(message: string, code: KeyVaultErrorCode) {
+    super(message);
+    this.name = 'KeyVaultError';
+    this.code = code;
+  }
+}
+
+export const isKeyVaultError = (err: unknown): err is KeyVaultError => err instanceof KeyVaultError;
+
+export const importPrivateKey = (pkcs8: Uint8Array) => crypto.subtle.importKey('pkcs8', pkcs8, CURVE, false, ['deriveBits']);
+
+const importPublicKey = async (publicKey: string) => {
+  try {
+    return await crypto.subtle.importKey('spki', base64ToUint8Array(publicKey), CURVE, false, []);
+  } catch (error) {
+    throw new KeyVaultError('The recipient has an invalid public key', 'invalid_key');
+  }
+};
+
+// The public key is bound in as associated data so a sealed private key can't be paired with someone else's public key
+const bundleAad = (publicKey: string) => new TextEncoder().encode(publicKey);
+
+/** Short, human-comparable digest of a public key, e.g. "3f9a 1c07 b2e4 58d0" */
+export function publicKeyFingerprint(publicKey: string): string {
+  const digest = hash(base64ToUint8Array(publicKey)).slice(0, 8);
+  const hex = Array.from(digest, (b) => b.toString(16).padStart(2, '0')).join('');
+  return hex.match(/.{4}/g).join(' ');
+}
+
+/** Seal a PKCS#8 private key under a fresh passphrase-derived key */
+export async function sealKeyBundle(pkcs8: Uint8Array, publicKey: string, passphrase: string): Promise<UserKeyBundle> {
+  const salt = newKdfSalt();
+  const kek = await deriveKeyFromPassphrase(passphrase, salt, PBKDF2_ITERATIONS);
+  const nonce = randomBytes(NONCE_SIZE);
+  const sealed = new ChaCha20Poly1305(kek).seal(nonce, pkcs8, bundleAad(publicKey));
+  return {
+    version: 1,
+    publicKey,
+    encryptedPrivateKey: uint8ArrayToBase64(sealed),
+    privateKeyNonce: uint8ArrayToBase64(nonce),
+    kdf: { algorithm: KDF_ALGORITHM, salt: uint8ArrayToBase64(salt), iterations: PBKDF2_ITERATIONS },
+  };
+}
+
+/** Generate a key pair and seal its private half with the passphrase */
+export async function createKeyBundle(passphrase: string): Promise<{ bundle: UserKeyBundle; privateKey: CryptoKey }> {
+  const pair = (await crypto.subtle.generateKey(CURVE, true, ['deriveBits'])) as CryptoKeyPair;
+  const pkcs8 = new Uint8Array(await crypto.subtle.exportKey('pkcs8', pair.privateKey));
+  const publicKey = uint8ArrayToBase64(new Uint8Array(await crypto.subtle.exportKey('spki', pair.publicKey)));
+
+  return {
+    bundle: await sealKeyBundle(pkcs8, publicKey, passphrase),
+    // Held in memory as non-extractable so page scripts can use it but not read it out
+    privateKey: await importPrivateKey(pkcs8),
+  };
+}
+
+/** The sealed private key as PKCS#8 bytes; only a recovery backup needs them outside a CryptoKey */
+export async function openKeyBundle(bundle: UserKeyBundle, passphrase: string): Promise<Uint8Array> {
+  const kek = await deriveKeyFromPassphrase(passphrase, base64ToUint8Array(bundle.kdf.salt), bundle.kdf.iterations);
+  const pkcs8 = new ChaCha20Poly1305(kek).open(
+    base64ToUint8Array(bundle.privateKeyNonce),
+    base64ToUint8Array(bundle.encryptedPrivateKey),
+    bundleAad(bundle.publicKey)
+  );
+  if (!pkcs8) throw new KeyVaultError('Incorrect passphrase', 'wrong_passphrase');
+  return pkcs8;
+}
+
+/** Open the sealed private key; a wrong passphrase fails authentication */
+export async function unlockKeyBundle(bundle: UserKeyBundle, passphrase: string): Promise<CryptoKey> {
+  return importPrivateKey(await openKeyBundle(bundle, passphrase));
+}
+
+/** Whether a PKCS#8 private key is the other half of a base64 SPKI public key */
+export async function isKeyPair(pkcs8: Uint8Array, publicKey: string): Promise<boolean> {
+  try {
+    const privateJwk = await crypto.subtle.exportKey('jwk', await crypto.subtle.importKey('pkcs8', pkcs8, CURVE, true, ['deriveBits']));
+    const publicJwk = await crypto.subtle.exportKey(
+      'jwk',
+      await crypto.subtle.importKey('spki', base64ToUint8Array(publicKey), CURVE, true, [])
+    );
+    return privateJwk.x === publicJwk.x && privateJwk.y === publicJwk.y;
+  } catch {
+    return false;
+  }
+}
+
+async function wrappingKey(privateKey: CryptoKey, publicKey: CryptoKey, ephemeralPublic: Uint8Array): Promise<Uint8Array> {
+  const shared = await crypto.subtle.deriveBits({ name: 'ECDH', public: publicKey }, privateKey, 256);
+  const hkdf = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt: ephemeralPublic, info: WRAP_INFO }, hkdf, 256);
+  return new Uint8Array(bits);
+}
+
+/** Wrap a document's content key so only the holder of the recipient's private key can recover it */
+export async function wrapContentKey(contentKey: Uint8Array, recipientPublicKey: string): Promise<string> {
+  const recipient = await importPublicKey(recipientPublicKey);
+  const ephemeral = (await crypto.subtle.generateKey(CURVE, true, ['deriveBits'])) as CryptoKeyPair;
+  const ephemeralPublic = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+  const kek = await wrappingKey(ephemeral.privateKey, recipient, ephemeralPublic);
+  const nonce = randomBytes(NONCE_SIZE);
+  const sealed = new ChaCha20Poly1305(kek).seal(nonce, contentKey);
+  return [WRAP_VERSION, uint8ArrayToBase64(ephemeralPublic), uint8ArrayToBase64(nonce), uint8ArrayToBase64(sealed)].join('.');
+}
+
+export async function unwrapContentKey(wrapped: string, privateKey: CryptoKey): Promise<Uint8Array> {
+  const [version, ephemeral, nonce, sealed] = wrapped.split('.');
+  if (version !== WRAP_VERSION || !ephemeral || !nonce || !sealed) {
+    throw new KeyVaultError('Unsupported document key format', 'invalid_key');
+  }
+  const ephemeralPublic = base64ToUint8Array(ephemeral);
+  const sender = await crypto.subtle.importKey('raw', ephemeralPublic, CURVE, false, []);
+  const kek = await wrappingKey(privateKey, sender, ephemeralPublic);
+  const contentKey = new ChaCha20Poly1305(kek).open(base64ToUint8Array(nonce), base64ToUint8Array(sealed));
+  if (!contentKey) throw new KeyVaultError('This document key was not wrapped for your account', 'no_access');
+  return contentKey;
+}
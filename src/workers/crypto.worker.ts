@@ -0,0 +1,37 @@
+// Runs chunked document encryption and decryption off the main thread; see utils/streamingEncryption
+import { decryptChunked, encryptChunked } from '@/utils/chunkedEncryption';
+import { isDocumentIntegrityError } from '@/utils/documentIntegrity';
+import type { CryptoWorkerRequest, CryptoWorkerResponse } from '@/utils/streamingEncryption';
+
+// The app is type-checked against the DOM lib, so treat the worker scope like a Worker handle
+const scope = self as unknown as Worker;
+
+// Progress is throttled to whole percentages so large files don't flood the main thread
+const progressReporter = () => {
+  let last = -1;
+  return (processed: number, total: number) => {
+    const percent = total ? Math.floor((processed / total) * 100) : 100;
+    if (percent === last) return;
+    last = percent;
+    scope.postMessage({ progress: { processed, total } } satisfies CryptoWorkerResponse);
+  };
+};
+
+scope.onmessage = async (event: MessageEvent<CryptoWorkerRequest>) => {
+  const { op, data, key, mimeType, plaintextSize } = event.data;
+  let response: CryptoWorkerResponse;
+  try {
+    if (op === 'encrypt') {
+      const { blob, baseNonce } = await encryptChunked(data, key, progressReporter());
+      response = { blob, baseNonce };
+    } else {
+      response = { blob: await decryptChunked(data, key, mimeType, progressReporter(), plaintextSize) };
+    }
+  } catch (error) {
+    response = {
+      error: error instanceof Error ? error.message : 'Encryption worker failed',
+      errorReason: isDocumentIntegrityError(error) ? error.reason : undefined,
+    };
+  }
+  scope.postMessage(response);
+};
@@ -0,0 +1,16 @@
+// Runs PBKDF2 off the main thread; see utils/keyDerivation
+import { pbkdf2, type KdfRequest, type KdfResponse } from '@/utils/pbkdf2';
+
+// The app is type-checked against the DOM lib, so treat the worker scope like a Worker handle
+const scope = self as unknown as Worker;
+
+scope.onmessage = async (event: MessageEvent<KdfRequest>) => {
+  const { passphrase, salt, iterations } = event.data;
+  let response: KdfResponse;
+  try {
+    response = { key: await pbkdf2(passphrase, salt, iterations) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : 'Key derivation failed' };
+  }
+  scope.postMessage(response);
+};
@@ -0,0 +1,456 @@
+import { CallEngine } from '@/services/callEngine';
+import type { CallState } from '@/services/callProtocol';
+import { PeerService } from '@/services/peerService';
+import { MemorySignalingNetwork } from './memorySignaling';
+
+/**
+ * Deterministic replays of racy call set-ups: two CallEngines over an
+ * in-memory network, on fake peer connections that enforce the signaling
+ * state rules (no implicit rollback, candidates only for the current remote
+ * description). Each scenario runs under every delivery order below;
+ * `npm run test:calls` replays them all.
+ */
+
+const DOCTOR = 'doctor';
+const PATIENT = 'patient';
+const APPOINTMENT = 'harness-appointment';
+
+const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const stateError = (name: string, message: string) => Object.assign(new Error(message), { name });
+
+interface FakeDescription {
+  type: RTCSdpType;
+  sdp: string;
+}
+
+const fakeSdp = (ufrag: string, tracks: number) => `v=0\r\na=ice-ufrag:${ufrag}\r\na=x-tracks:${tracks}\r\n`;
+const sdpUfrag = (sdp: string | undefined) => /^a=ice-ufrag:(\S+)/m.exec(sdp ?? '')?.[1];
+const sdpTracks = (sdp: string | undefined) => Number(/^a=x-tracks:(\d+)/m.exec(sdp ?? '')?.[1] ?? 0);
+
+/** Just enough of RTCPeerConnection for PeerService, with browser-like event timing */
+export class FakePeerConnection {
+  signalingState: RTCSignalingState = 'stable';
+  connectionState: RTCPeerConnectionState = 'new';
+  iceConnectionState: RTCIceConnectionState = 'new';
+  localDescription: FakeDescription | null = null;
+  remoteDescription: FakeDescription | null = null;
+  ontrack: ((event: unknown) => void) | null = null;
+  onicecandidate: ((event: unknown) => void) | null = null;
+  onnegotiationneeded: (() => void) | null = null;
+  onconnectionstatechange: (() => void) | null = null;
+  oniceconnectionstatechange: (() => void) | null = null;
+  onicecandidateerror: ((event: unknown) => void) | null = null;
+  readonly addedCandidates: RTCIceCandidateInit[] = [];
+  localTracks = 0;
+
+  private negotiatedTracks = 0;
+  private offeredTracks = 0;
+  private generation = 0;
+  private restartPending = false;
+  private gathered = new Set<string>();
+  private stableLocal: FakeDescription | null = null;
+  private stableRemote: FakeDescription | null = null;
+  private negotiationQueued = false;
+  private trackFired = false;
+  // An ICE restart offer is answered with fresh credentials too
+  private restartAnswer = false;
+  private interruptedUfrag: string | undefined;
+  private operations: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly name: string) {}
+
+  addTrack() {
+    this.localTracks += 1;
+    this.updateNegotiationNeeded();
+  }
+
+  restartIce() {
+    this.restartPending = true;
+    this.updateNegotiationNeeded();
+  }
+
+  setLocalDescription(description?: { type: RTCSdpType }) {
+    return this.enqueue(() => {
+      const type = description?.type ?? (this.signalingState === 'have-remote-offer' ? 'answer' : 'offer');
+      if (type === 'rollback') return this.rollback();
+      if (type === 'offer') {
+        if (this.signalingState !== 'stable' && this.signalingState !== 'have-local-offer') {
+          throw stateError('InvalidStateError', `Cannot set a local offer in ${this.signalingState}`);
+        }
+        if (this.restartPending || this.generation === 0) this.generation += 1;
+        this.restartPending = false;
+        this.offeredTracks = this.localTracks;
+        this.localDescription = { type, sdp: fakeSdp(this.ufrag, this.localTracks) };
+        this.signalingState = 'have-local-offer';
+      } else {
+        if (this.signalingState !== 'have-remote-offer') {
+          throw stateError('InvalidStateError', `Cannot set a local answer in ${this.signalingState}`);
+        }
+        if (this.restartAnswer || this.generation === 0) this.generation += 1;
+        this.restartAnswer = false;
+        this.localDescription = { type: 'answer', sdp: fakeSdp(this.ufrag, this.localTracks) };
+        this.negotiatedTracks = this.localTracks;
+        this.becomeStable();
+        this.updateConnection();
+      }
+      this.gather();
+    });
+  }
+
+  setRemoteDescription(description: RTCSessionDescriptionInit) {
+    return this.enqueue(() => {
+      if (description.type === 'offer') {
+        if (this.signalingState === 'have-local-offer') {
+          throw stateError('InvalidStateError', 'Remote offer in have-local-offer (needs a rollback first)');
+        }
+        const previous = sdpUfrag(this.stableRemote?.sdp);
+        this.restartAnswer = Boolean(previous) && previous !== sdpUfrag(description.sdp);
+        this.remoteDescription = { type: 'offer', sdp: description.sdp };
+        this.signalingState = 'have-remote-offer';
+      } else if (description.type === 'answer') {
+        if (this.signalingState !== 'have-local-offer') {
+          throw stateError('InvalidStateError', `Remote answer in ${this.signalingState}`);
+        }
+        this.remoteDescription = { type: 'answer', sdp: description.sdp };
+        this.negotiatedTracks = this.offeredTracks;
+        this.becomeStable();
+      }
+      if (!this.trackFired && sdpTracks(description.sdp) > 0) {
+        this.trackFired = true;
+        setTimeout(() => this.ontrack?.({ track: { kind: 'video' }, streams: [{ id: `${this.name}-remote` }] }), 0);
+      }
+      this.updateConnection();
+    });
+  }
+
+  addIceCandidate(candidate: RTCIceCandidateInit) {
+    return this.enqueue(() => {
+      if (!this.remoteDescription) throw stateError('InvalidStateError', 'Candidate before any remote description');
+      if (candidate.usernameFragment !== sdpUfrag(this.remoteDescription.sdp)) {
+        throw stateError('OperationError', `Candidate for ${candidate.usernameFragment} does not match the remote description`);
+      }
+      this.addedCandidates.push(candidate);
+      this.updateConnection();
+    });
+  }
+
+  /** The network path goes away; only candidates from an ICE restart bring it back */
+  interrupt() {
+    this.interruptedUfrag = sdpUfrag(this.remoteDescription?.sdp);
+    this.connectionState = 'disconnected';
+    setTimeout(() => this.onconnectionstatechange?.(), 0);
+  }
+
+  close() {
+    this.signalingState = 'closed';
+    this.connectionState = 'closed';
+  }
+
+  private get ufrag() {
+    return `${this.name}-${this.generation}`;
+  }
+
+  private rollback() {
+    if (this.signalingState === 'have-local-offer') {
+      this.localDescription = this.stableLocal;
+    } else if (this.signalingState === 'have-remote-offer') {
+      this.remoteDescription = this.stableRemote;
+    } else {
+      throw stateError('InvalidStateError', `Nothing to roll back in ${this.signalingState}`);
+    }
+    this.signalingState = 'stable';
+    this.updateNegotiationNeeded();
+  }
+
+  private becomeStable() {
+    this.signalingState = 'stable';
+    this.stableLocal = this.localDescription;
+    this.stableRemote = this.remoteDescription;
+    this.updateNegotiationNeeded();
+  }
+
+  // One candidate per ICE generation, fired after the description is applied as browsers do
+  private gather() {
+    const ufrag = this.ufrag;
+    if (this.gathered.has(ufrag)) return;
+    this.gathered.add(ufrag);
+    const candidate = { candidate: `candidate:${ufrag}`, sdpMid: '0', usernameFragment: ufrag };
+    setTimeout(() => this.onicecandidate?.({ candidate: { toJSON: () => candidate } }), 0);
+  }
+
+  private updateNegotiationNeeded() {
+    if (this.negotiationQueued || this.signalingState !== 'stable') return;
+    if (this.localTracks === this.negotiatedTracks && !this.restartPending) return;
+    this.negotiationQueued = true;
+    setTimeout(() => {
+      this.negotiationQueued = false;
+      if (this.signalingState === 'stable' && (this.localTracks !== this.negotiatedTracks || this.restartPending)) {
+        this.onnegotiationneeded?.();
+      }
+    }, 0);
+  }
+
+  private updateConnection() {
+    const remoteUfrag = sdpUfrag(this.remoteDescription?.sdp);
+    const usable = remoteUfrag !== this.interruptedUfrag &&
+      this.addedCandidates.some((candidate) => candidate.usernameFragment === remoteUfrag);
+    const down = this.connectionState === 'new' || this.connectionState === 'disconnected';
+    if (down && this.signalingState === 'stable' && this.localDescription && usable) {
+      this.connectionState = 'connected';
+      setTimeout(() => this.onconnectionstatechange?.(), 0);
+    }
+  }
+
+  private enqueue<T>(operation: () => T): Promise<T> {
+    const result = this.operations.then(operation);
+    this.operations = result.catch(() => undefined);
+    return result;
+  }
+}
+
+const fakeStream = (owner: string): MediaStream => {
+  const tracks = ['audio', 'video'].map((kind) => ({ kind, enabled: true, stop() {} }));
+  return {
+    id: `${owner}-local`,
+    getTracks: () => tracks,
+    getAudioTracks: () => tracks.filter((track) => track.kind === 'audio'),
+    getVideoTracks: () => tracks.filter((track) => track.kind === 'video'),
+  } as unknown as MediaStream;
+};
+
+/** Which queued message to deliver next */
+export type DeliveryOrder = 'in-order' | 'newest-first' | 'candidates-first' | 'candidates-last';
+
+export const DELIVERY_ORDERS: DeliveryOrder[] = ['in-order', 'newest-first', 'candidates-first', 'candidates-last'];
+
+export class CallHarness {
+  readonly network = new MemorySignalingNetwork();
+  readonly doctor: CallEngine;
+  readonly patient: CallEngine;
+  readonly peers: Record<string, FakePeerConnection[]> = { [DOCTOR]: [], [PATIENT]: [] };
+  // Users whose socket is down; signals to or from them are lost
+  private offline = new Set<string>();
+
+  constructor(readonly order: DeliveryOrder) {
+    this.doctor = this.engine(DOCTOR);
+    this.patient = this.engine(PATIENT);
+  }
+
+  /** The user's current fake peer connection */
+  peer(userId: string): FakePeerConnection | undefined {
+    return this.peers[userId].at(-1);
+  }
+
+  /** Runs timers and promise chains until nothing more happens */
+  async settle(rounds = 10) {
+    for (let i = 0; i < rounds; i += 1) await tick();
+  }
+
+  /** Delivers everything queued in the harness order, settling after each message */
+  async deliverAll(limit = 200) {
+    for (let delivered = 0; this.network.queue.length && delivered < limit; delivered += 1) {
+      const index = this.nextIndex();
+      const { from, to } = this.network.queue[index];
+      if (this.offline.has(from) || this.offline.has(to)) this.network.queue.splice(index, 1);
+      else this.network.deliver(index);
+      await this.settle();
+    }
+  }
+
+  /** Takes the user's socket down or brings it back */
+  async setOnline(userId: string, online: boolean) {
+    if (online) this.offline.delete(userId);
+    else this.offline.add(userId);
+    this.network.setConnected(userId, online);
+    await this.settle();
+  }
+
+  /** Loses every queued message addressed to the user */
+  drop(userId: string) {
+    for (let i = this.network.queue.length - 1; i >= 0; i -= 1) {
+      if (this.network.queue[i].to === userId) this.network.queue.splice(i, 1);
+    }
+  }
+
+  private nextIndex(): number {
+    const { queue } = this.network;
+    const candidateAt = queue.findIndex((signal) => signal.message.type === 'candidate');
+    const otherAt = queue.findIndex((signal) => signal.message.type !== 'candidate');
+    switch (this.order) {
+      case 'newest-first':
+        return queue.length - 1;
+      case 'candidates-first':
+        return candidateAt >= 0 ? candidateAt : 0;
+      case 'candidates-last':
+        return otherAt >= 0 ? otherAt : 0;
+      default:
+        return 0;
+    }
+  }
+
+  private engine(userId: string) {
+    return new CallEngine({
+      appointmentId: APPOINTMENT,
+      channel: this.network.channel(userId),
+      openMedia: async () => fakeStream(userId),
+      createPeer: async (events, polite) => {
+        const connection = new FakePeerConnection(userId);
+        this.peers[userId].push(connection);
+        return new PeerService(connection as unknown as RTCPeerConnection, events, polite);
+      },
+    });
+  }
+}
+
+export interface CallScenario {
+  name: string;
+  run: (harness: CallHarness) => Promise<void>;
+}
+
+const connect = async (harness: CallHarness) => {
+  harness.doctor.start();
+  harness.patient.start();
+  harness.doctor.call(PATIENT);
+  await harness.settle();
+  harness.patient.join(DOCTOR);
+  await harness.settle();
+  await harness.deliverAll();
+};
+
+export const CALL_SCENARIOS: CallScenario[] = [
+  {
+    name: 'patient joins after the invite was lost',
+    run: async (harness) => {
+      harness.doctor.start();
+      harness.doctor.call(PATIENT);
+      await harness.settle();
+      harness.drop(PATIENT);
+      harness.patient.start();
+      harness.patient.join(DOCTOR);
+      await harness.settle();
+      await harness.deliverAll();
+    },
+  },
+  {
+    name: 'patient is waiting before the doctor calls',
+    run: async (harness) => {
+      harness.doctor.start();
+      harness.patient.start();
+      harness.patient.join(DOCTOR);
+      await harness.settle();
+      await harness.deliverAll();
+      harness.doctor.call(PATIENT);
+      await harness.settle();
+      await harness.deliverAll();
+    },
+  },
+  {
+    name: 'invite and ready cross',
+    run: connect,
+  },
+  {
+    name: 'both sides renegotiate at once',
+    run: async (harness) => {
+      await connect(harness);
+      harness.peer(DOCTOR).addTrack();
+      harness.peer(PATIENT).addTrack();
+      await harness.settle();
+      await harness.deliverAll();
+    },
+  },
+  {
+    name: 'network drops mid-call',
+    run: async (harness) => {
+      await connect(harness);
+      harness.peer(DOCTOR).interrupt();
+      harness.peer(PATIENT).interrupt();
+      await harness.settle();
+      await harness.deliverAll();
+    },
+  },
+  {
+    name: 'network and socket drop mid-call',
+    run: async (harness) => {
+      await connect(harness);
+      await harness.setOnline(PATIENT, false);
+      harness.peer(DOCTOR).interrupt();
+      harness.peer(PATIENT).interrupt();
+      await harness.settle();
+      await harness.deliverAll();
+      await harness.setOnline(PATIENT, true);
+      await harness.deliverAll();
+    },
+  },
+  {
+    name: 'patient socket drops before the invite',
+    run: async (harness) => {
+      harness.doctor.start();
+      harness.patient.start();
+      await harness.setOnline(PATIENT, false);
+      harness.doctor.call(PATIENT);
+      harness.patient.join(DOCTOR);
+      await harness.settle();
+      await harness.deliverAll();
+      await harness.setOnline(PATIENT, true);
+      await harness.deliverAll();
+    },
+  },
+  {
+    name: 'ICE restart crosses a renegotiation',
+    run: async (harness) => {
+      await connect(harness);
+      harness.peer(DOCTOR).restartIce();
+      harness.peer(PATIENT).addTrack();
+      await harness.settle();
+      await harness.deliverAll();
+    },
+  },
+];
+
+export interface ScenarioResult {
+  scenario: string;
+  order: DeliveryOrder;
+  ok: boolean;
+  doctor: CallState;
+  patient: CallState;
+  problems: string[];
+}
+
+const checkSettled = (harness: CallHarness): string[] => {
+  const problems: string[] = [];
+  for (const [userId, engine] of [[DOCTOR, harness.doctor], [PATIENT, harness.patient]] as const) {
+    const peer = harness.peer(userId);
+    if (engine.getSnapshot().state !== 'connected') problems.push(`${userId} is ${engine.getSnapshot().state}`);
+    if (!peer) problems.push(`${userId} has no peer connection`);
+    else if (peer.signalingState !== 'stable') problems.push(`${userId} is stuck in ${peer.signalingState}`);
+  }
+  const [doctorPeer, patientPeer] = [harness.peer(DOCTOR), harness.peer(PATIENT)];
+  if (doctorPeer && patientPeer && sdpTracks(doctorPeer.remoteDescription?.sdp) !== patientPeer.localTracks) {
+    problems.push('the doctor has not negotiated all of the patient\'s tracks');
+  }
+  return problems;
+};
+
+/** Runs every scenario under every delivery order; a call that settles connected and stable passes */
+export async function replayCallScenarios(scenarios = CALL_SCENARIOS, orders = DELIVERY_ORDERS): Promise<ScenarioResult[]> {
+  const results: ScenarioResult[] = [];
+  for (const scenario of scenarios) {
+    for (const order of orders) {
+      const harness = new CallHarness(order);
+      await scenario.run(harness);
+      const problems = checkSettled(harness);
+      results.push({
+        scenario: scenario.name,
+        order,
+        ok: problems.length === 0,
+        doctor: harness.doctor.getSnapshot().state,
+        patient: harness.patient.getSnapshot().state,
+        problems,
+      });
+      harness.doctor.dispose();
+      harness.patient.dispose();
+    }
+  }
+  return results;
+}
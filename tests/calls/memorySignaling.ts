@@ -0,0 +1,60 @@
+import type { SignalHandler, SignalingChannel, SignalMessage } from '@/services/callProtocol';
+
+interface QueuedSignal {
+  from: string;
+  to: string;
+  message: SignalMessage;
+}
+
+/**
+ * In-memory signaling between any number of users, for exercising CallEngine
+ * without a server. Messages queue until delivered, so a caller can replay
+ * them in any order; with `autoDeliver` they flush on the next microtask.
+ */
+export class MemorySignalingNetwork {
+  readonly queue: QueuedSignal[] = [];
+  private handlers = new Map<string, Set<SignalHandler>>();
+  private connectionListeners = new Map<string, Set<(connected: boolean) => void>>();
+
+  constructor(private options: { autoDeliver?: boolean } = {}) {}
+
+  channel(userId: string): SignalingChannel {
+    return {
+      send: (toUserId, message) => {
+        this.queue.push({ from: userId, to: toUserId, message });
+        if (this.options.autoDeliver) queueMicrotask(() => this.flush());
+      },
+      subscribe: (handler) => this.listen(this.handlers, userId, handler),
+      onConnectionChange: (listener) => this.listen(this.connectionListeners, userId, listener),
+    };
+  }
+
+  /** Delivers the queued message at `index`; false when there is none */
+  deliver(index = 0): boolean {
+    const [signal] = this.queue.splice(index, 1);
+    if (!signal) return false;
+    this.handlers.get(signal.to)?.forEach((handler) => handler(signal.from, signal.message));
+    return true;
+  }
+
+  /** Delivers everything queued, including messages sent while delivering; returns how many */
+  flush(): number {
+    let delivered = 0;
+    while (this.deliver()) delivered += 1;
+    return delivered;
+  }
+
+  /** Simulates the user's transport dropping or coming back */
+  setConnected(userId: string, connected: boolean) {
+    this.connectionListeners.get(userId)?.forEach((listener) => listener(connected));
+  }
+
+  private listen<T>(registry: Map<string, Set<T>>, userId: string, value: T) {
+    const set = registry.get(userId) ?? new Set<T>();
+    registry.set(userId, set);
+    set.add(value);
+    return () => {
+      set.delete(value);
+    };
+  }
+}
@@ -0,0 +1,18 @@
+import { replayCallScenarios, type ScenarioResult } from './callHarness';
+
+// Prints every scenario and delivery order, and fails the run if any call did not settle
+const report = (results: ScenarioResult[]) => {
+  for (const result of results) {
+    const label = `${result.scenario} (${result.order})`;
+    if (result.ok) console.log(`✅ ${label}`);
+    else console.error(`❌ ${label}: doctor ${result.doctor}, patient ${result.patient}; ${result.problems.join('; ')}`);
+  }
+  const failed = results.filter((result) => !result.ok).length;
+  console.log(`\n${results.length - failed}/${results.length} call replays settled`);
+  if (failed) process.exitCode = 1;
+};
+
+replayCallScenarios().then(report, (error) => {
+  console.error('❌ Call replay crashed:', error);
+  process.exitCode = 1;
+});